@@ -0,0 +1,68 @@
+-- Migration 0001: Schema version tracking and the trades table
+-- Safe to run more than once; records itself in schema_version
+
+-- One row per applied migration; Settings reads the highest version
+CREATE TABLE IF NOT EXISTS schema_version (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE schema_version ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read the schema version" ON schema_version;
+CREATE POLICY "Signed-in users can read the schema version" 
+ON schema_version FOR SELECT 
+TO authenticated
+USING (true);
+
+CREATE TABLE IF NOT EXISTS trades (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  symbol VARCHAR(50) NOT NULL,
+  direction VARCHAR(10) NOT NULL CHECK (direction IN ('long', 'short')),
+  entry_price DECIMAL(20, 6) NOT NULL,
+  exit_price DECIMAL(20, 6),
+  units DECIMAL(20, 6) NOT NULL,
+  entry_time TIMESTAMPTZ NOT NULL,
+  exit_time TIMESTAMPTZ,
+  stop_loss DECIMAL(20, 6),
+  take_profit DECIMAL(20, 6),
+  pnl DECIMAL(20, 6),
+  pnl_percent DECIMAL(10, 4),
+  currency VARCHAR(10) DEFAULT 'USD',
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'cancelled')),
+  notes TEXT DEFAULT '',
+  tags TEXT[] DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE trades ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own trades" ON trades;
+CREATE POLICY "Users can view their own trades" 
+ON trades FOR SELECT 
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own trades" ON trades;
+CREATE POLICY "Users can insert their own trades" 
+ON trades FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own trades" ON trades;
+CREATE POLICY "Users can update their own trades" 
+ON trades FOR UPDATE 
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own trades" ON trades;
+CREATE POLICY "Users can delete their own trades" 
+ON trades FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_trades_user_id ON trades(user_id);
+CREATE INDEX IF NOT EXISTS idx_trades_symbol ON trades(symbol);
+CREATE INDEX IF NOT EXISTS idx_trades_status ON trades(status);
+CREATE INDEX IF NOT EXISTS idx_trades_entry_time ON trades(entry_time);
+
+INSERT INTO schema_version (version, name) VALUES (1, 'initial_schema') ON CONFLICT (version) DO NOTHING;
@@ -1,5 +1,5 @@
--- Migration: Add currency column to trades table
--- Run this in Supabase SQL Editor if you have existing data
+-- Migration 0002: Add currency column to trades table
+-- Safe to run more than once; records itself in schema_version
 
 -- Add currency column with default value USD
 ALTER TABLE trades 
@@ -9,3 +9,5 @@ ADD COLUMN IF NOT EXISTS currency VARCHAR(10) DEFAULT 'USD';
 UPDATE trades 
 SET currency = 'USD' 
 WHERE currency IS NULL;
+
+INSERT INTO schema_version (version, name) VALUES (2, 'add_currency_column') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,47 @@
+-- Migration 0003: Add trading accounts and link trades to them
+-- Safe to run more than once; records itself in schema_version
+
+-- Create accounts table
+CREATE TABLE IF NOT EXISTS accounts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  name VARCHAR(100) NOT NULL,
+  broker VARCHAR(100) DEFAULT '',
+  base_currency VARCHAR(10) DEFAULT 'USD',
+  starting_balance DECIMAL(20, 6) DEFAULT 0,
+  type VARCHAR(20) NOT NULL DEFAULT 'live' CHECK (type IN ('live', 'demo', 'prop')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own accounts" ON accounts;
+CREATE POLICY "Users can view their own accounts" 
+ON accounts FOR SELECT 
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own accounts" ON accounts;
+CREATE POLICY "Users can insert their own accounts" 
+ON accounts FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own accounts" ON accounts;
+CREATE POLICY "Users can update their own accounts" 
+ON accounts FOR UPDATE 
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own accounts" ON accounts;
+CREATE POLICY "Users can delete their own accounts" 
+ON accounts FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts(user_id);
+
+-- Link trades to an account (existing trades stay unassigned)
+ALTER TABLE trades 
+ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trades_account_id ON trades(account_id);
+
+INSERT INTO schema_version (version, name) VALUES (3, 'add_accounts') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,12 @@
+-- Migration 0004: Add executions (fills) to trades
+-- Safe to run more than once; records itself in schema_version
+
+-- Each element: { id, time, side: 'buy' | 'sell', price, quantity, fee }
+ALTER TABLE trades 
+ADD COLUMN IF NOT EXISTS executions JSONB DEFAULT '[]';
+
+UPDATE trades 
+SET executions = '[]' 
+WHERE executions IS NULL;
+
+INSERT INTO schema_version (version, name) VALUES (4, 'add_executions') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,17 @@
+-- Migration 0005: Split broker costs out of pnl
+-- Safe to run more than once; records itself in schema_version
+
+-- pnl stays the net result: gross_pnl + commission + swap + fees
+-- Costs are signed as on the broker statement (negative = paid)
+ALTER TABLE trades 
+ADD COLUMN IF NOT EXISTS gross_pnl DECIMAL(20, 6),
+ADD COLUMN IF NOT EXISTS commission DECIMAL(20, 6) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS swap DECIMAL(20, 6) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS fees DECIMAL(20, 6) DEFAULT 0;
+
+-- Existing trades had no breakdown: treat their pnl as gross
+UPDATE trades 
+SET gross_pnl = pnl 
+WHERE gross_pnl IS NULL;
+
+INSERT INTO schema_version (version, name) VALUES (5, 'add_cost_columns') ON CONFLICT (version) DO NOTHING;
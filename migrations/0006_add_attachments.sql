@@ -0,0 +1,28 @@
+-- Migration 0006: Add screenshot / file attachments to trades
+-- Safe to run more than once; records itself in schema_version
+
+-- References to stored files ("sb:<path>" for Supabase Storage)
+ALTER TABLE trades 
+ADD COLUMN IF NOT EXISTS screenshots TEXT[] DEFAULT '{}';
+
+-- Private bucket, one folder per user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('trade-attachments', 'trade-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can view their own attachments" ON storage.objects;
+CREATE POLICY "Users can view their own attachments" 
+ON storage.objects FOR SELECT 
+USING (bucket_id = 'trade-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+DROP POLICY IF EXISTS "Users can upload their own attachments" ON storage.objects;
+CREATE POLICY "Users can upload their own attachments" 
+ON storage.objects FOR INSERT 
+WITH CHECK (bucket_id = 'trade-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+DROP POLICY IF EXISTS "Users can delete their own attachments" ON storage.objects;
+CREATE POLICY "Users can delete their own attachments" 
+ON storage.objects FOR DELETE 
+USING (bucket_id = 'trade-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+INSERT INTO schema_version (version, name) VALUES (6, 'add_attachments') ON CONFLICT (version) DO NOTHING;
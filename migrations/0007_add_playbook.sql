@@ -0,0 +1,44 @@
+-- Migration 0007: Store playbook strategies in the cloud
+-- Safe to run more than once; records itself in schema_version
+
+CREATE TABLE IF NOT EXISTS playbook_strategies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  name VARCHAR(200) NOT NULL,
+  description TEXT DEFAULT '',
+  rules TEXT[] DEFAULT '{}',
+  entry_conditions TEXT[] DEFAULT '{}',
+  exit_conditions TEXT[] DEFAULT '{}',
+  risk_management TEXT DEFAULT '',
+  timeframe VARCHAR(100) DEFAULT '',
+  pairs TEXT[] DEFAULT '{}',
+  notes TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE playbook_strategies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own strategies" ON playbook_strategies;
+CREATE POLICY "Users can view their own strategies" 
+ON playbook_strategies FOR SELECT 
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own strategies" ON playbook_strategies;
+CREATE POLICY "Users can insert their own strategies" 
+ON playbook_strategies FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own strategies" ON playbook_strategies;
+CREATE POLICY "Users can update their own strategies" 
+ON playbook_strategies FOR UPDATE 
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own strategies" ON playbook_strategies;
+CREATE POLICY "Users can delete their own strategies" 
+ON playbook_strategies FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_playbook_strategies_user_id ON playbook_strategies(user_id);
+
+INSERT INTO schema_version (version, name) VALUES (7, 'add_playbook') ON CONFLICT (version) DO NOTHING;
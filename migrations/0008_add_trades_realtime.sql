@@ -0,0 +1,14 @@
+-- Migration 0008: Broadcast trade changes for realtime multi-device sync
+-- Safe to run more than once; records itself in schema_version
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'trades'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE trades;
+  END IF;
+END $$;
+
+INSERT INTO schema_version (version, name) VALUES (8, 'add_trades_realtime') ON CONFLICT (version) DO NOTHING;
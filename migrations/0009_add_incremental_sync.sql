@@ -0,0 +1,67 @@
+-- Migration 0009: Tombstones, paging indexes and aggregate stats for large journals
+-- Safe to run more than once; records itself in schema_version
+
+-- Keep track of deleted trades so clients can fetch only what changed
+CREATE TABLE IF NOT EXISTS deleted_trades (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  deleted_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE deleted_trades ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own deleted trades" ON deleted_trades;
+CREATE POLICY "Users can view their own deleted trades" 
+ON deleted_trades FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION record_deleted_trade() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  INSERT INTO deleted_trades (id, user_id) VALUES (OLD.id, OLD.user_id)
+  ON CONFLICT (id) DO UPDATE SET deleted_at = NOW();
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trades_record_delete ON trades;
+CREATE TRIGGER trades_record_delete
+AFTER DELETE ON trades
+FOR EACH ROW EXECUTE FUNCTION record_deleted_trade();
+
+CREATE INDEX IF NOT EXISTS idx_trades_user_updated_at ON trades(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_trades_user_entry_time_id ON trades(user_id, entry_time DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_deleted_trades_user_deleted_at ON deleted_trades(user_id, deleted_at);
+
+-- Aggregate stats per currency without loading every trade (RLS applies)
+CREATE OR REPLACE FUNCTION trade_summary(p_account_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  currency VARCHAR,
+  total_trades BIGINT,
+  closed_trades BIGINT,
+  winning_trades BIGINT,
+  losing_trades BIGINT,
+  total_pnl NUMERIC,
+  gross_profit NUMERIC,
+  gross_loss NUMERIC,
+  largest_win NUMERIC,
+  largest_loss NUMERIC
+)
+LANGUAGE sql STABLE SECURITY INVOKER AS $$
+  SELECT
+    COALESCE(t.currency, 'USD'),
+    COUNT(*),
+    COUNT(*) FILTER (WHERE t.status = 'closed' AND t.pnl IS NOT NULL),
+    COUNT(*) FILTER (WHERE t.status = 'closed' AND t.pnl > 0),
+    COUNT(*) FILTER (WHERE t.status = 'closed' AND t.pnl < 0),
+    COALESCE(SUM(t.pnl) FILTER (WHERE t.status = 'closed'), 0),
+    COALESCE(SUM(t.pnl) FILTER (WHERE t.status = 'closed' AND t.pnl > 0), 0),
+    COALESCE(-SUM(t.pnl) FILTER (WHERE t.status = 'closed' AND t.pnl < 0), 0),
+    COALESCE(MAX(t.pnl) FILTER (WHERE t.status = 'closed'), 0),
+    COALESCE(MIN(t.pnl) FILTER (WHERE t.status = 'closed'), 0)
+  FROM trades t
+  WHERE p_account_id IS NULL OR t.account_id = p_account_id
+  GROUP BY COALESCE(t.currency, 'USD');
+$$;
+
+INSERT INTO schema_version (version, name) VALUES (9, 'add_incremental_sync') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,14 @@
+-- Migration 0010: Identify imported trades by their broker source
+-- Safe to run more than once; records itself in schema_version
+
+-- Broker ticket ("mt5:<position>", "tv:<order id>") or a content hash
+-- ("hash:<...>") for imports that carry no id. NULL for trades entered by hand.
+ALTER TABLE trades 
+ADD COLUMN IF NOT EXISTS source_id TEXT;
+
+-- Re-importing the same statement can't duplicate trades in an account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trades_source_id 
+ON trades (user_id, account_id, source_id) NULLS NOT DISTINCT 
+WHERE source_id IS NOT NULL;
+
+INSERT INTO schema_version (version, name) VALUES (10, 'add_source_id') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,50 @@
+-- Migration 0011: Record each import so it can be reviewed and rolled back
+-- Safe to run more than once; records itself in schema_version
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  account_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+  source_format VARCHAR(50) NOT NULL,
+  file_name TEXT DEFAULT '',
+  row_count INTEGER DEFAULT 0,
+  created_count INTEGER DEFAULT 0,
+  updated_count INTEGER DEFAULT 0,
+  skipped_count INTEGER DEFAULT 0,
+  warnings TEXT[] DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  rolled_back_at TIMESTAMPTZ
+);
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own import batches" ON import_batches;
+CREATE POLICY "Users can view their own import batches" 
+ON import_batches FOR SELECT 
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own import batches" ON import_batches;
+CREATE POLICY "Users can insert their own import batches" 
+ON import_batches FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own import batches" ON import_batches;
+CREATE POLICY "Users can update their own import batches" 
+ON import_batches FOR UPDATE 
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own import batches" ON import_batches;
+CREATE POLICY "Users can delete their own import batches" 
+ON import_batches FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_user_id ON import_batches(user_id, created_at DESC);
+
+-- No foreign key: trades queued offline may reach the server before their batch
+ALTER TABLE trades 
+ADD COLUMN IF NOT EXISTS import_batch_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_trades_import_batch_id ON trades(import_batch_id) 
+WHERE import_batch_id IS NOT NULL;
+
+INSERT INTO schema_version (version, name) VALUES (11, 'add_import_batches') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,43 @@
+-- Migration 0012: Deposits, withdrawals and credits imported from statements
+-- Safe to run more than once; records itself in schema_version
+
+CREATE TABLE IF NOT EXISTS cash_transactions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  account_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('deposit', 'withdrawal', 'credit')),
+  -- Signed: withdrawals are negative
+  amount DECIMAL(20, 6) NOT NULL,
+  currency VARCHAR(10) DEFAULT 'USD',
+  time TIMESTAMPTZ NOT NULL,
+  comment TEXT DEFAULT '',
+  source_id TEXT,
+  import_batch_id UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE cash_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own cash transactions" ON cash_transactions;
+CREATE POLICY "Users can view their own cash transactions" 
+ON cash_transactions FOR SELECT 
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own cash transactions" ON cash_transactions;
+CREATE POLICY "Users can insert their own cash transactions" 
+ON cash_transactions FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own cash transactions" ON cash_transactions;
+CREATE POLICY "Users can delete their own cash transactions" 
+ON cash_transactions FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_cash_transactions_user_id ON cash_transactions(user_id, time);
+
+-- Same statement row imported twice into an account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_transactions_source_id 
+ON cash_transactions (user_id, account_id, source_id) NULLS NOT DISTINCT 
+WHERE source_id IS NOT NULL;
+
+INSERT INTO schema_version (version, name) VALUES (12, 'add_cash_transactions') ON CONFLICT (version) DO NOTHING;
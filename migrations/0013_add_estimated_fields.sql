@@ -0,0 +1,10 @@
+-- Migration 0013: Flag imported values that were estimated
+-- Safe to run more than once; records itself in schema_version
+
+-- Fields the importer had to guess ("entryTime" when TradingView's balance
+-- history is imported without the order log). Analytics can leave these
+-- trades out.
+ALTER TABLE trades 
+ADD COLUMN IF NOT EXISTS estimated_fields TEXT[] DEFAULT '{}';
+
+INSERT INTO schema_version (version, name) VALUES (13, 'add_estimated_fields') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,20 @@
+-- Migration 0014: Stamp trades with the server clock on every write
+-- Safe to run more than once; records itself in schema_version
+
+-- Clients sent their own updated_at, so a device with a slow clock could
+-- write rows behind another device's sync cursor. The database now sets it:
+-- updated_at is the version clients sync and compare against.
+CREATE OR REPLACE FUNCTION set_trade_updated_at() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trades_set_updated_at ON trades;
+CREATE TRIGGER trades_set_updated_at
+BEFORE INSERT OR UPDATE ON trades
+FOR EACH ROW EXECUTE FUNCTION set_trade_updated_at();
+
+INSERT INTO schema_version (version, name) VALUES (14, 'add_server_updated_at') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,9 @@
+-- Migration 0015: Store the strategy of a trade
+-- Safe to run more than once; records itself in schema_version
+
+-- Set by hand or by a tagging rule. Until now it only lived in the browser,
+-- so a pull from the server dropped it.
+ALTER TABLE trades
+ADD COLUMN IF NOT EXISTS strategy TEXT;
+
+INSERT INTO schema_version (version, name) VALUES (15, 'add_trade_strategy') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,10 @@
+-- Migration 0016: Store the largest size a trade reached
+-- Safe to run more than once; records itself in schema_version
+
+-- Derived from the executions, like the averaged prices. The entry fills of
+-- a trade scaled in again after a partial close add up to more than it ever
+-- held at once.
+ALTER TABLE trades
+ADD COLUMN IF NOT EXISTS max_position_size DECIMAL(20, 6);
+
+INSERT INTO schema_version (version, name) VALUES (16, 'add_max_position_size') ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,39 @@
+#!/usr/bin/env bash
+# Apply every migration to a local Postgres, twice, and check the recorded
+# schema version. Uses a throwaway database on the server psql connects to
+# (configure with the usual PGHOST/PGPORT/PGUSER/PGPASSWORD variables).
+set -euo pipefail
+
+ROOT="$(cd "$(dirname "$0")/.." && pwd)"
+DB="${MIGRATIONS_TEST_DB:-tradezen_migrations_test}"
+
+dropdb --if-exists "$DB"
+createdb "$DB"
+trap 'dropdb --if-exists "$DB"' EXIT
+
+run() {
+  psql --quiet -v ON_ERROR_STOP=1 -d "$DB" "$@"
+}
+
+run -f "$ROOT/scripts/supabase-stubs.sql"
+
+latest=0
+for pass in 1 2; do
+  for file in "$ROOT"/migrations/[0-9]*_*.sql; do
+    echo "pass $pass: $(basename "$file")"
+    run -f "$file"
+    version=$((10#$(basename "$file" | cut -d_ -f1)))
+    (( version > latest )) && latest=$version
+  done
+done
+
+recorded=$(run -At -c 'SELECT MAX(version) FROM schema_version')
+count=$(run -At -c 'SELECT COUNT(*) FROM schema_version')
+files=$(ls "$ROOT"/migrations/[0-9]*_*.sql | wc -l)
+
+if [[ "$recorded" != "$latest" || "$count" != "$files" ]]; then
+  echo "schema_version is $recorded with $count rows, expected $latest with $files" >&2
+  exit 1
+fi
+
+echo "All $files migrations applied cleanly twice; schema version $recorded"
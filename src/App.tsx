@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { Dashboard } from './components/Dashboard';
 import { Journal } from './components/Journal';
@@ -9,11 +9,14 @@ import { Playbook } from './components/Playbook';
 import { Settings } from './components/Settings';
 import { SymbolExplorer } from './components/SymbolExplorer';
 import { useTradeStore } from './hooks/useTradeStore';
+import { useAccountStore } from './hooks/useAccountStore';
+import { useGuestMigration } from './hooks/useGuestMigration';
+import { GuestMigrationModal } from './components/GuestMigrationModal';
 import { Auth } from './components/Auth';
 import { supabase } from './lib/supabase';
 import { Session } from '@supabase/supabase-js';
 
-import { fetchExchangeRates } from './utils/currencyConversion';
+import { fetchExchangeRates, convertCurrency } from './utils/currencyConversion';
 
 export function App() {
   const [currentPage, setCurrentPage] = useState('dashboard');
@@ -38,18 +41,45 @@ export function App() {
     return () => subscription.unsubscribe();
   }, []);
 
+  const {
+    accounts,
+    selectedAccountId,
+    selectedAccount,
+    setSelectedAccountId,
+    addAccount,
+    deleteAccount,
+  } = useAccountStore();
+
   const {
     trades,
+    allTrades,
+    analyticsTrades,
     loading: tradesLoading,
     stats,
     dailyStats,
     preferredCurrency,
     addTrade,
     updateTrade,
+    bulkUpdateTrades,
     deleteTrade,
+    deleteTrades,
     bulkAddTrades,
+    findTradesBySource,
+    findTradesByImportBatch,
     clearAllTrades,
-  } = useTradeStore();
+    syncState,
+    dismissSyncErrors,
+    remoteChange,
+  } = useTradeStore(selectedAccountId);
+
+  const accountIds = useMemo(() => accounts.map(account => account.id), [accounts]);
+  const guestMigration = useGuestMigration(bulkAddTrades, deleteTrades, accountIds);
+
+  // Starting capital of the account(s) on display, in the preferred currency
+  const startingBalance = (selectedAccount ? [selectedAccount] : accounts).reduce(
+    (sum, account) => sum + convertCurrency(account.startingBalance, account.baseCurrency, preferredCurrency),
+    0
+  );
 
   if (authLoading) {
     return (
@@ -77,7 +107,7 @@ export function App() {
 
     switch (currentPage) {
       case 'dashboard':
-        return <Dashboard trades={trades} baseCurrency={preferredCurrency} />;
+        return <Dashboard trades={trades} baseCurrency={preferredCurrency} startingBalance={startingBalance} />;
       case 'journal':
         return (
           <Journal
@@ -86,10 +116,13 @@ export function App() {
             onUpdateTrade={updateTrade}
             onDeleteTrade={deleteTrade}
             baseCurrency={preferredCurrency}
+            accounts={accounts}
+            selectedAccountId={selectedAccountId}
+            remoteChange={remoteChange}
           />
         );
       case 'analytics':
-        return <Analytics trades={trades} stats={stats} dailyStats={dailyStats} baseCurrency={preferredCurrency} />;
+        return <Analytics trades={analyticsTrades} stats={stats} dailyStats={dailyStats} baseCurrency={preferredCurrency} />;
       case 'calendar':
         return <Calendar trades={trades} baseCurrency={preferredCurrency} />;
       case 'symbols':
@@ -97,20 +130,59 @@ export function App() {
       case 'playbook':
         return <Playbook />;
       case 'import':
-        return <ImportCSV onImport={bulkAddTrades} onClear={clearAllTrades} />;
+        return (
+          <ImportCSV
+            onImport={bulkAddTrades}
+            onBulkUpdateTrades={bulkUpdateTrades}
+            onDeleteTrades={deleteTrades}
+            onClear={clearAllTrades}
+            existingTrades={allTrades}
+            findTradesBySource={findTradesBySource}
+            findTradesByImportBatch={findTradesByImportBatch}
+            accounts={accounts}
+            defaultAccountId={selectedAccountId}
+          />
+        );
       case 'settings':
-        return <Settings onClearData={clearAllTrades} />;
+        return (
+          <Settings
+            onClearData={clearAllTrades}
+            accounts={accounts}
+            onAddAccount={addAccount}
+            onDeleteAccount={deleteAccount}
+            trades={allTrades}
+            onBulkUpdateTrades={bulkUpdateTrades}
+            loadingHistory={syncState.loadingHistory}
+          />
+        );
       default:
-        return <Dashboard trades={trades} baseCurrency={preferredCurrency} />;
+        return <Dashboard trades={trades} baseCurrency={preferredCurrency} startingBalance={startingBalance} />;
     }
   };
 
   return (
     <div className="flex min-h-screen bg-slate-100">
-      <Sidebar currentPage={currentPage} onPageChange={setCurrentPage} />
+      <Sidebar
+        currentPage={currentPage}
+        onPageChange={setCurrentPage}
+        accounts={accounts}
+        selectedAccountId={selectedAccountId}
+        onAccountChange={setSelectedAccountId}
+        syncState={syncState}
+        onDismissSyncErrors={dismissSyncErrors}
+      />
       <main className="flex-1 ml-64 p-8">
         {renderPage()}
       </main>
+      {guestMigration.plan && (
+        <GuestMigrationModal
+          plan={guestMigration.plan}
+          migrating={guestMigration.migrating}
+          onMigrate={guestMigration.migrate}
+          onDiscard={guestMigration.discard}
+          onDismiss={guestMigration.dismiss}
+        />
+      )}
     </div>
   );
 }
@@ -15,6 +15,7 @@ import {
 } from 'recharts';
 import type { Trade, TradeStats, DailyStats } from '../types/trade';
 import { convertCurrency } from '../utils/currencyConversion';
+import { calculateCostBreakdown } from '../utils/tradeAnalysis';
 import { formatCurrency as formatCurrencyUtil } from '../utils/currency';
 import { cn } from '../utils/cn';
 
@@ -124,6 +125,9 @@ export function Analytics({ trades, stats, baseCurrency = 'USD' }: AnalyticsProp
     return formatCurrencyUtil(value, baseCurrency);
   };
 
+  // Broker costs
+  const costs = calculateCostBreakdown(trades, baseCurrency);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -336,6 +340,98 @@ export function Analytics({ trades, stats, baseCurrency = 'USD' }: AnalyticsProp
         </div>
       </div>
 
+      {/* Cost Analysis */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">Cost Analysis</h3>
+            <p className="text-sm text-slate-500">Commission, swap and fees paid to the broker</p>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-slate-50 rounded-lg p-3">
+              <p className="text-xs text-slate-500">Commission</p>
+              <p className="font-semibold text-slate-900">{formatCurrency(costs.commission)}</p>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-3">
+              <p className="text-xs text-slate-500">Swap</p>
+              <p className="font-semibold text-slate-900">{formatCurrency(costs.swap)}</p>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-3">
+              <p className="text-xs text-slate-500">Other Fees</p>
+              <p className="font-semibold text-slate-900">{formatCurrency(costs.fees)}</p>
+            </div>
+            <div className="bg-red-50 rounded-lg p-3">
+              <p className="text-xs text-red-500">Total Costs</p>
+              <p className="font-semibold text-red-600">
+                {formatCurrency(costs.total)}
+                <span className="text-xs font-normal text-red-400 ml-1">
+                  ({costs.percentOfGrossProfit.toFixed(1)}% of gross profit)
+                </span>
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Costs over time */}
+          <div className="h-64">
+            {costs.byMonth.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={costs.byMonth}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="month" stroke="#94a3b8" />
+                  <YAxis stroke="#94a3b8" />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#1e293b',
+                      border: 'none',
+                      borderRadius: '8px',
+                      color: '#fff'
+                    }}
+                    formatter={(value) => formatCurrency(value as number)}
+                  />
+                  <Legend />
+                  <Bar dataKey="commission" stackId="costs" fill="#f59e0b" name="Commission" />
+                  <Bar dataKey="swap" stackId="costs" fill="#8b5cf6" name="Swap" />
+                  <Bar dataKey="fees" stackId="costs" fill="#ef4444" name="Fees" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center text-slate-400">No data available</div>
+            )}
+          </div>
+
+          {/* Costs per symbol */}
+          <div className="overflow-y-auto max-h-64">
+            <table className="w-full">
+              <thead className="sticky top-0 bg-white">
+                <tr className="border-b border-slate-100">
+                  <th className="text-left py-2 px-2 text-xs font-medium text-slate-500 uppercase">Symbol</th>
+                  <th className="text-right py-2 px-2 text-xs font-medium text-slate-500 uppercase">Commission</th>
+                  <th className="text-right py-2 px-2 text-xs font-medium text-slate-500 uppercase">Swap</th>
+                  <th className="text-right py-2 px-2 text-xs font-medium text-slate-500 uppercase">Fees</th>
+                  <th className="text-right py-2 px-2 text-xs font-medium text-slate-500 uppercase">Per Trade</th>
+                </tr>
+              </thead>
+              <tbody>
+                {costs.bySymbol.map((row) => (
+                  <tr key={row.symbol} className="border-b border-slate-50">
+                    <td className="py-2 px-2 font-medium text-slate-900">{row.symbol}</td>
+                    <td className="py-2 px-2 text-right text-sm text-slate-600">{formatCurrency(row.commission)}</td>
+                    <td className="py-2 px-2 text-right text-sm text-slate-600">{formatCurrency(row.swap)}</td>
+                    <td className="py-2 px-2 text-right text-sm text-slate-600">{formatCurrency(row.fees)}</td>
+                    <td className="py-2 px-2 text-right text-sm font-semibold text-red-600">{formatCurrency(row.total / row.trades)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {costs.bySymbol.length === 0 && (
+              <p className="text-slate-400 text-center py-8">No trades to analyze</p>
+            )}
+          </div>
+        </div>
+      </div>
+
       {/* Hour of Day Performance */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
         <h3 className="text-lg font-semibold text-slate-900 mb-4">Trading Hours Analysis</h3>
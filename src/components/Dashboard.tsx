@@ -33,11 +33,12 @@ import { formatCurrency as formatCurrencyUtil } from '../utils/currency';
 interface DashboardProps {
   trades: Trade[];
   baseCurrency?: string;
+  startingBalance?: number; // in baseCurrency, used for the return %
 }
 
 type TimeRange = '7d' | '30d' | '90d' | 'ytd' | 'all';
 
-export function Dashboard({ trades, baseCurrency = 'USD' }: DashboardProps) {
+export function Dashboard({ trades, baseCurrency = 'USD', startingBalance = 0 }: DashboardProps) {
   const [timeRange, setTimeRange] = useState<TimeRange>('30d');
 
   const filteredTrades = useMemo(() => {
@@ -138,7 +139,7 @@ export function Dashboard({ trades, baseCurrency = 'USD' }: DashboardProps) {
           value={formatCurrency(stats.totalPnl)}
           icon={DollarSign}
           trend={stats.totalPnl >= 0 ? 'up' : 'down'}
-          trendValue={formatPercent((stats.totalPnl / 10000) * 100)}
+          trendValue={formatPercent((stats.totalPnl / (startingBalance > 0 ? startingBalance : 10000)) * 100)}
           color={stats.totalPnl >= 0 ? 'emerald' : 'red'}
         />
         <StatCard
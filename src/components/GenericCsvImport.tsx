@@ -0,0 +1,300 @@
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { Trash2, Table, Save } from 'lucide-react';
+import type { NewTrade } from '../lib/tradeRepository';
+import {
+  MAPPABLE_FIELDS,
+  DATE_FORMATS,
+  createMapping,
+  readCsvTable,
+  mapCsvRows,
+  loadCsvPresets,
+  saveCsvPresets,
+  findCsvPreset,
+  type ColumnMapping,
+  type CsvPreset,
+  type CsvTable,
+  type DateFormat,
+  type MappableField,
+} from '../lib/genericCsv';
+import type { ImportDiagnostics } from '../lib/importDiagnostics';
+import { readText } from '../lib/streamFile';
+
+// Column mapping of a file routed to the generic CSV importer
+interface GenericCsvImportProps {
+  file: File;
+  onParsed: (trades: NewTrade[], diagnostics: ImportDiagnostics | null) => void;
+  onError: (message: string) => void;
+}
+
+const delimiterLabels: Record<string, string> = {
+  ',': 'Virgule (,)',
+  ';': 'Point-virgule (;)',
+  '\t': 'Tabulation',
+  '|': 'Barre (|)',
+};
+
+const splitValues = (text: string) => text.split(',').map(value => value.trim()).filter(Boolean);
+
+export function GenericCsvImport({ file, onParsed, onError }: GenericCsvImportProps) {
+  const [content, setContent] = useState('');
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [presets, setPresets] = useState<CsvPreset[]>(loadCsvPresets);
+  const [appliedPreset, setAppliedPreset] = useState<CsvPreset | null>(null);
+  const [presetName, setPresetName] = useState('');
+  const [longValues, setLongValues] = useState('');
+  const [shortValues, setShortValues] = useState('');
+
+  const applyMapping = useCallback((text: string, next: ColumnMapping) => {
+    setTable(readCsvTable(text, next.delimiter));
+    setMapping(next);
+    setLongValues(next.directionValues.long.join(', '));
+    setShortValues(next.directionValues.short.join(', '));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    readText(file).then(text => {
+      if (cancelled) return;
+      const guessed = createMapping(text);
+
+      if (guessed.table.headers.length < 2) {
+        onError('Impossible de lire les colonnes de ce fichier');
+        return;
+      }
+
+      // A preset saved for the same headers wins over the guesses
+      const preset = findCsvPreset(guessed.table.headers, loadCsvPresets());
+      setContent(text);
+      setAppliedPreset(preset);
+      setPresetName(preset?.name || file.name.replace(/\.[^.]+$/, ''));
+      applyMapping(text, preset ? preset.mapping : guessed.mapping);
+    }).catch(err => {
+      if (!cancelled) onError('Erreur lors de la lecture du fichier: ' + (err as Error).message);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, applyMapping, onError]);
+
+  const result = useMemo(
+    () => (table && mapping ? mapCsvRows(table, mapping) : null),
+    [table, mapping]
+  );
+
+  useEffect(() => {
+    onParsed(result?.trades || [], result?.diagnostics || null);
+  }, [result, onParsed]);
+
+  const updateMapping = (updates: Partial<ColumnMapping>) => {
+    if (!mapping) return;
+    const next = { ...mapping, ...updates };
+    if (updates.delimiter !== undefined) {
+      setTable(readCsvTable(content, updates.delimiter));
+    }
+    setMapping(next);
+  };
+
+  const setColumn = (field: MappableField, header: string) => {
+    if (!mapping) return;
+    const columns = { ...mapping.columns };
+    if (header) columns[field] = header;
+    else delete columns[field];
+    updateMapping({ columns });
+  };
+
+  const handleSavePreset = () => {
+    if (!table || !mapping || !presetName.trim()) return;
+
+    const preset: CsvPreset = {
+      id: appliedPreset?.id || crypto.randomUUID(),
+      name: presetName.trim(),
+      headers: table.headers,
+      mapping,
+      createdAt: appliedPreset?.createdAt || new Date().toISOString(),
+    };
+    const updated = [...presets.filter(p => p.id !== preset.id), preset];
+    saveCsvPresets(updated);
+    setPresets(updated);
+    setAppliedPreset(preset);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    const updated = presets.filter(p => p.id !== id);
+    saveCsvPresets(updated);
+    setPresets(updated);
+    if (appliedPreset?.id === id) setAppliedPreset(null);
+  };
+
+  // Distinct values of the direction column, to help fill the long/short lists
+  const directionSamples = useMemo(() => {
+    const header = mapping?.columns.direction;
+    if (!table || !header) return [];
+    const index = table.headers.indexOf(header);
+    return [...new Set(table.rows.map(cells => cells[index]?.trim()).filter(Boolean))].slice(0, 8);
+  }, [table, mapping]);
+
+  const selectClass = "w-full bg-white border border-slate-300 text-slate-900 text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 p-2";
+
+  return (
+    <div className="space-y-6 mb-8">
+      <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 rounded-lg flex items-center justify-center bg-green-100">
+            <Table className="w-5 h-5 text-green-600" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-slate-900">Association des colonnes</h3>
+            <p className="text-xs text-slate-500">N'importe quel courtier • Associez les colonnes une fois, le preset est réutilisé</p>
+          </div>
+        </div>
+
+        <p className="text-sm text-slate-600">
+          {file.name} : {table?.rows.length || 0} lignes, {table?.headers.length || 0} colonnes
+          {appliedPreset && <> • preset « {appliedPreset.name} » appliqué</>}
+        </p>
+
+        {presets.length > 0 && (
+          <div className="mt-4">
+            <p className="text-sm font-medium text-slate-700 mb-2">Presets enregistrés</p>
+            <div className="flex flex-wrap gap-2">
+              {presets.map(preset => (
+                <span key={preset.id} className="flex items-center gap-1 px-2 py-1 bg-slate-100 text-slate-700 text-xs rounded-full">
+                  {preset.name}
+                  <button onClick={() => handleDeletePreset(preset.id)} className="text-slate-400 hover:text-red-600">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {table && mapping && (
+        <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm space-y-6">
+          <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Séparateur</label>
+              <select value={mapping.delimiter} onChange={(e) => updateMapping({ delimiter: e.target.value })} className={selectClass}>
+                {Object.entries(delimiterLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Séparateur décimal</label>
+              <select
+                value={mapping.decimalSeparator}
+                onChange={(e) => updateMapping({ decimalSeparator: e.target.value as '.' | ',' })}
+                className={selectClass}
+              >
+                <option value=".">Point (1234.56)</option>
+                <option value=",">Virgule (1234,56)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Format des dates</label>
+              <select
+                value={mapping.dateFormat}
+                onChange={(e) => updateMapping({ dateFormat: e.target.value as DateFormat })}
+                className={selectClass}
+              >
+                {DATE_FORMATS.map(format => (
+                  <option key={format.value} value={format.value}>{format.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-slate-900 mb-3">Colonnes</h4>
+            <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+              {MAPPABLE_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className="block text-sm text-slate-600 mb-1">
+                    {label}{required && <span className="text-red-500"> *</span>}
+                  </label>
+                  <select value={mapping.columns[field] || ''} onChange={(e) => setColumn(field, e.target.value)} className={selectClass}>
+                    <option value="">— Ignorer —</option>
+                    {table.headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Valeurs « long »</label>
+              <input
+                value={longValues}
+                onChange={(e) => {
+                  setLongValues(e.target.value);
+                  updateMapping({ directionValues: { ...mapping.directionValues, long: splitValues(e.target.value) } });
+                }}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Valeurs « short »</label>
+              <input
+                value={shortValues}
+                onChange={(e) => {
+                  setShortValues(e.target.value);
+                  updateMapping({ directionValues: { ...mapping.directionValues, short: splitValues(e.target.value) } });
+                }}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            {directionSamples.length > 0 && (
+              <p className="text-xs text-slate-500 lg:col-span-2">
+                Valeurs trouvées dans le fichier : {directionSamples.join(', ')}
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={mapping.pnlIncludesCosts}
+                onChange={(e) => updateMapping({ pnlIncludesCosts: e.target.checked })}
+                className="rounded border-slate-300 text-blue-600 focus:ring-blue-500 w-4 h-4"
+              />
+              Le P&L est net des frais
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={mapping.costsArePositive}
+                onChange={(e) => updateMapping({ costsArePositive: e.target.checked })}
+                className="rounded border-slate-300 text-blue-600 focus:ring-blue-500 w-4 h-4"
+              />
+              Les frais sont en valeurs positives
+            </label>
+          </div>
+
+          <div className="flex items-center gap-3 pt-2 border-t border-slate-200">
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Nom du preset (ex. courtier)"
+              className="flex-1 px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleSavePreset}
+              disabled={!presetName.trim()}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {appliedPreset ? 'Mettre à jour le preset' : 'Enregistrer le preset'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
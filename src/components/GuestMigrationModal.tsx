@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { X, CloudUpload, Trash2 } from 'lucide-react';
+import type { GuestMigrationPlan } from '../lib/guestMigration';
+
+interface GuestMigrationModalProps {
+  plan: GuestMigrationPlan;
+  migrating: boolean;
+  onMigrate: (keepArchive: boolean) => void;
+  onDiscard: () => void;
+  onDismiss: () => void;
+}
+
+export function GuestMigrationModal({ plan, migrating, onMigrate, onDiscard, onDismiss }: GuestMigrationModalProps) {
+  const [keepArchive, setKeepArchive] = useState(true);
+  const nothingNew = plan.trades.length === 0 && plan.strategies.length === 0;
+  const localAttachments = plan.attachments + plan.duplicateAttachments;
+
+  const handleDiscard = () => {
+    const attachments = localAttachments > 0 ? `, playbook and ${localAttachments} attached files` : ' and playbook';
+    if (confirm(`Delete the local trades${attachments} from this device? This cannot be undone.`)) {
+      onDiscard();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <h2 className="text-xl font-bold text-slate-900">Local data found</h2>
+          <button
+            onClick={onDismiss}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-slate-600">
+            This device has data saved before you signed in. Upload it to your account to access it everywhere.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="bg-slate-50 rounded-lg p-4">
+              <p className="text-2xl font-bold text-slate-900">{plan.trades.length}</p>
+              <p className="text-sm text-slate-500">trades to upload</p>
+              {plan.duplicateTrades > 0 && (
+                <p className="text-xs text-slate-400 mt-1">{plan.duplicateTrades} already in your account</p>
+              )}
+            </div>
+            <div className="bg-slate-50 rounded-lg p-4">
+              <p className="text-2xl font-bold text-slate-900">{plan.strategies.length}</p>
+              <p className="text-sm text-slate-500">playbook strategies to upload</p>
+              {plan.duplicateStrategies > 0 && (
+                <p className="text-xs text-slate-400 mt-1">{plan.duplicateStrategies} already in your account</p>
+              )}
+            </div>
+          </div>
+
+          {plan.attachments > 0 && (
+            <p className="text-sm text-slate-500">{plan.attachments} attached files are uploaded with the trades.</p>
+          )}
+          {plan.duplicateAttachments > 0 && !keepArchive && (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+              {plan.duplicateAttachments} files attached to trades already in your account are not uploaded and will be deleted from this device.
+            </p>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={keepArchive}
+              onChange={(e) => setKeepArchive(e.target.checked)}
+              className="rounded border-slate-300 text-emerald-500 focus:ring-emerald-500"
+            />
+            Keep an archived copy on this device
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-6 border-t border-slate-200">
+          <button
+            onClick={handleDiscard}
+            disabled={migrating}
+            className="flex items-center gap-2 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            Discard
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onDismiss}
+              disabled={migrating}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Not now
+            </button>
+            <button
+              onClick={() => onMigrate(keepArchive)}
+              disabled={migrating}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+            >
+              <CloudUpload className="w-4 h-4" />
+              {migrating ? 'Uploading...' : nothingNew ? 'Clean up local copy' : 'Upload'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
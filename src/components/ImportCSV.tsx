@@ -1,158 +1,364 @@
-import { useState, useCallback } from 'react';
-import { Upload, FileText, AlertCircle, CheckCircle, Download, X, ArrowRight, Info, Trash2, LayoutTemplate } from 'lucide-react';
-import { v4 as uuidv4 } from 'uuid';
-import type { Trade } from '../types/trade';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { Upload, FileText, AlertCircle, CheckCircle, Download, X, Info, Trash2, History, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import type { Trade, Account, ImportBatch, CashTransaction, EstimatedField } from '../types/trade';
+import type { NewTrade, TradeUpdate } from '../lib/tradeRepository';
+import { classifyImport, contentSourceId, mergeImportedTrade, type ImportRowStatus } from '../lib/tradeImport';
+import type { BalanceOperation } from '../lib/mt5Parser';
 import {
-  parseBalanceHistoryCSV,
-  parseOrderLogsCSV,
-  mergeTradeData,
-  parseBalanceHistoryTrades,
-  BalanceHistoryEntry,
-  OrderLogEntry
-} from '../lib/csvParser';
-import { parseMT5Report } from '../lib/mt5Parser';
+  findImporter,
+  getImporters,
+  importerOptionValues,
+  loadImporterOptions,
+  rankFiles,
+  saveImporterOptions,
+  type Importer,
+  type ImporterMatch,
+  type ImporterOptionValue,
+  type ImporterOptionValues,
+} from '../lib/importers';
+import { isAbortError, type ParseOptions, type ParseProgress } from '../lib/parseImport';
+import { expandZipFiles } from '../lib/zip';
+import { isEstimated, type ImportDiagnostics } from '../lib/importDiagnostics';
+import { applyTagRules, loadTagRules } from '../lib/tagRules';
+import { DEFAULT_SOURCE_TIMEZONE, SOURCE_TIMEZONES, loadImportTimezones, saveImportTimezones, toUtc, tradeToUtc } from '../lib/importTimezone';
 import { cn } from '../utils/cn';
+import { useImportHistory } from '../hooks/useImportHistory';
+import { useCashTransactions } from '../hooks/useCashTransactions';
+import { GenericCsvImport } from './GenericCsvImport';
 
 interface ImportCSVProps {
-  onImport: (trades: Trade[]) => void;
+  onImport: (trades: NewTrade[]) => Promise<unknown> | void;
+  onBulkUpdateTrades?: (changes: TradeUpdate[]) => Promise<Trade[]>;
+  onDeleteTrades?: (ids: string[]) => Promise<boolean>;
   onClear?: () => Promise<void>;
+  existingTrades?: Trade[];
+  // Looks re-imported trades up in the whole journal, not only the loaded part
+  findTradesBySource?: (sourceIds: string[]) => Promise<Trade[]>;
+  // Trades of an import to roll back, loaded or not
+  findTradesByImportBatch?: (batchId: string) => Promise<Trade[]>;
+  accounts?: Account[];
+  defaultAccountId?: string;
 }
 
-export default function ImportCSV({ onImport, onClear }: ImportCSVProps) {
-  const [importMode, setImportMode] = useState<'tradingview' | 'mt5'>('tradingview');
-  const [balanceFile, setBalanceFile] = useState<File | null>(null);
-  const [journalFile, setJournalFile] = useState<File | null>(null);
-  const [mt5File, setMt5File] = useState<File | null>(null);
-  const [autoClear, setAutoClear] = useState(true);
-  const [importCurrency, setImportCurrency] = useState('USD');
+const statusLabels: Record<ImportRowStatus, string> = {
+  new: 'Nouveau',
+  duplicate: 'Doublon',
+  conflict: 'Conflit',
+};
+
+const statusStyles: Record<ImportRowStatus, string> = {
+  new: 'bg-blue-100 text-blue-700',
+  duplicate: 'bg-slate-100 text-slate-500',
+  conflict: 'bg-amber-100 text-amber-700',
+};
+
+// Conflicts first: they are the rows waiting for a decision
+const statusOrder: Record<ImportRowStatus, number> = { conflict: 0, new: 1, duplicate: 2 };
+
+const balanceTypeLabels: Record<BalanceOperation['type'], string> = {
+  deposit: 'Dépôt',
+  withdrawal: 'Retrait',
+  credit: 'Crédit',
+};
+
+const estimatedLabels: Record<EstimatedField, string> = {
+  entryTime: 'heure d\'entrée',
+  exitTime: 'heure de sortie',
+  stopLoss: 'stop loss',
+  takeProfit: 'take profit',
+};
+
+// Batches record the format read (mt4 rather than the MetaTrader importer)
+const formatLabels: Record<string, string> = {
+  tradingview: 'TradingView',
+  mt4: 'MetaTrader 4',
+  mt5: 'MetaTrader 5',
+  ibkr: 'Interactive Brokers',
+  ctrader: 'cTrader',
+  dxtrade: 'DXtrade',
+  ninjatrader: 'NinjaTrader',
+  tradovate: 'Tradovate',
+  rithmic: 'Rithmic',
+  binance: 'Binance',
+  bybit: 'Bybit',
+  generic: 'CSV générique',
+};
+
+export default function ImportCSV({ onImport, onBulkUpdateTrades, onDeleteTrades, onClear, existingTrades = [], findTradesBySource, findTradesByImportBatch, accounts = [], defaultAccountId = 'all' }: ImportCSVProps) {
+  // Dropped files, and the importers recognising them (best first)
+  const [files, setFiles] = useState<File[]>([]);
+  const [matches, setMatches] = useState<ImporterMatch[]>([]);
+  const [importerId, setImporterId] = useState<string | null>(null);
+  const [importerOptions, setImporterOptions] = useState(loadImporterOptions);
+  const [resultFormat, setResultFormat] = useState<string | null>(null);
+  const [balanceOperations, setBalanceOperations] = useState<BalanceOperation[]>([]);
+  const [report, setReport] = useState<ImportDiagnostics | null>(null);
+  const [parseWarnings, setParseWarnings] = useState<string[]>([]);
+  const [autoClear, setAutoClear] = useState(false);
+  const [targetAccountId, setTargetAccountId] = useState(
+    accounts.some(a => a.id === defaultAccountId) ? defaultAccountId : ''
+  );
+  const [importCurrency, setImportCurrency] = useState(
+    () => accounts.find(a => a.id === defaultAccountId)?.baseCurrency || 'USD'
+  );
+  const [importTimezones, setImportTimezones] = useState(loadImportTimezones);
+  const importer = importerId ? findImporter(importerId) || null : null;
+  // An importer picked by hand reads all the files
+  const importerFiles = matches.find(match => match.importer === importer)?.files || files;
+  const optionValues = importer ? importerOptionValues(importer, importerOptions) : {};
+  const sourceFormat = resultFormat || importer?.id || 'generic';
+  const truncatesSymbols = importer?.truncatesSymbols === true;
+  const sourceTimezone = importTimezones[sourceFormat] || DEFAULT_SOURCE_TIMEZONE;
 
-  const [balanceEntries, setBalanceEntries] = useState<BalanceHistoryEntry[]>([]);
-  const [journalEntries, setJournalEntries] = useState<OrderLogEntry[]>([]);
   const [parsedTrades, setParsedTrades] = useState<Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>[]>([]);
 
   const [error, setError] = useState<string | null>(null);
   const [importing, setImporting] = useState(false);
   const [step, setStep] = useState<'upload' | 'preview' | 'complete'>('upload');
+  const [acceptedConflicts, setAcceptedConflicts] = useState<Set<number>>(new Set());
+  const [importResult, setImportResult] = useState({ created: 0, updated: 0, skipped: 0 });
+  const { batches, recordBatch, markRolledBack } = useImportHistory();
+  const { transactions: cashTransactions, addTransactions, deleteTransactions } = useCashTransactions();
+  const [openBatchId, setOpenBatchId] = useState<string | null>(null);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [tagRules] = useState(loadTagRules);
 
-  const handleBalanceFile = useCallback((file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const entries = parseBalanceHistoryCSV(content);
+  // Trades as they will be saved, each with a source id to recognize it on re-import
+  // and the tags of the user's rules (run on the UTC times)
+  const preparedTrades = useMemo<NewTrade[]>(() => parsedTrades.map(trade => {
+    const prepared = applyTagRules({
+      ...tradeToUtc(trade, sourceTimezone),
+      symbol: truncatesSymbols ? trade.symbol.substring(0, 6) : trade.symbol,
+      // The currency stated in the file, else the selected import currency
+      currency: trade.currency || importCurrency,
+      accountId: targetAccountId || null,
+    }, tagRules);
+    return { ...prepared, sourceId: trade.sourceId || contentSourceId(prepared) };
+  }), [parsedTrades, importCurrency, targetAccountId, truncatesSymbols, sourceTimezone, tagRules]);
 
-        if (entries.length === 0) {
-          setError('Aucun trade trouvé dans le fichier historique des soldes');
-          return;
-        }
+  // The import currency is asked for when some trades have none, and for deposits and withdrawals
+  const fileCurrencies = [...new Set(parsedTrades.map(trade => trade.currency).filter(Boolean))];
+  const needsCurrency = balanceOperations.length > 0 || parsedTrades.some(trade => !trade.currency);
 
-        setBalanceEntries(entries);
-        setBalanceFile(file);
-        setError(null);
-
-        // If we already have journal entries, merge them
-        if (journalEntries.length > 0) {
-          const trades = mergeTradeData(entries, journalEntries);
-          setParsedTrades(trades);
-        } else {
-          // Parse without journal (no SL/TP)
-          const trades = parseBalanceHistoryTrades(entries);
-          setParsedTrades(trades);
-        }
-      } catch (err) {
-        setError('Erreur lors de la lecture du fichier: ' + (err as Error).message);
-      }
-    };
-    reader.readAsText(file);
-  }, [journalEntries]);
-
-  const handleJournalFile = useCallback((file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const entries = parseOrderLogsCSV(content);
-
-        if (entries.length === 0) {
-          setError('Aucune entrée trouvée dans le journal de trading');
-          return;
-        }
+  // Journal trades with the same source ids, asked for before classifying:
+  // null while the lookup runs
+  const [sourceMatches, setSourceMatches] = useState<Trade[] | null>([]);
+  const sourceIds = useMemo(() => [...new Set(preparedTrades.map(trade => trade.sourceId!))].join('\n'), [preparedTrades]);
 
-        setJournalEntries(entries);
-        setJournalFile(file);
-        setError(null);
+  useEffect(() => {
+    if (!findTradesBySource || !sourceIds) {
+      setSourceMatches([]);
+      return;
+    }
 
-        // If we already have balance entries, merge them
-        if (balanceEntries.length > 0) {
-          const trades = mergeTradeData(balanceEntries, entries);
-          setParsedTrades(trades);
-        }
-      } catch (err) {
-        setError('Erreur lors de la lecture du fichier journal: ' + (err as Error).message);
-      }
+    let cancelled = false;
+    setSourceMatches(null);
+    findTradesBySource(sourceIds.split('\n'))
+      .then(found => {
+        if (!cancelled) setSourceMatches(found);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError('Impossible de vérifier les trades déjà importés : ' + (err as Error).message);
+        setSourceMatches([]);
+      });
+    return () => {
+      cancelled = true;
     };
-    reader.readAsText(file);
-  }, [balanceEntries]);
-
-  const handleMt5File = useCallback((file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const trades = parseMT5Report(content);
-
-        if (trades.length === 0) {
-          setError('Aucun trade trouvé dans le rapport MT5. Assurez-vous d\'utiliser le rapport HTML standard.');
-          return;
-        }
+  }, [sourceIds, findTradesBySource]);
 
-        setParsedTrades(trades);
-        setMt5File(file);
-        setError(null);
-      } catch (err) {
-        setError('Erreur lors de l\'analyse du rapport MT5: ' + (err as Error).message);
+  const checkingDuplicates = sourceMatches === null;
+  const knownTrades = useMemo(() => {
+    const loaded = new Set(existingTrades.map(trade => trade.id));
+    return [...existingTrades, ...(sourceMatches || []).filter(trade => !loaded.has(trade.id))];
+  }, [existingTrades, sourceMatches]);
+
+  // Wiping the journal first leaves only the trades listed twice in the file
+  const importRows = useMemo(
+    () => classifyImport(preparedTrades, autoClear ? [] : knownTrades),
+    [preparedTrades, knownTrades, autoClear]
+  );
+
+  // Conflicts keep the journal version unless picked for update
+  useEffect(() => {
+    setAcceptedConflicts(new Set());
+  }, [importRows]);
+
+  const rowCounts = {
+    new: importRows.filter(row => row.status === 'new').length,
+    duplicate: importRows.filter(row => row.status === 'duplicate').length,
+    conflict: importRows.filter(row => row.status === 'conflict').length,
+  };
+  const writeCount = rowCounts.new + acceptedConflicts.size;
+
+  const previewRows = importRows
+    .map((row, index) => ({ ...row, index }))
+    .sort((a, b) => statusOrder[a.status] - statusOrder[b.status] || a.index - b.index);
+
+  const toggleConflict = (index: number) => {
+    setAcceptedConflicts(current => {
+      const next = new Set(current);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const acceptAllConflicts = (accept: boolean) => {
+    setAcceptedConflicts(accept
+      ? new Set(importRows.flatMap((row, index) => row.status === 'conflict' ? [index] : []))
+      : new Set());
+  };
+
+  // One file read at a time: a new one cancels the read in progress
+  const parseController = useRef<AbortController | null>(null);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+
+  // Resolves to null when cancelled
+  const runParse = useCallback(async <T,>(work: (options: ParseOptions) => Promise<T>): Promise<T | null> => {
+    parseController.current?.abort();
+    const controller = new AbortController();
+    parseController.current = controller;
+    setParseProgress({ loaded: 0, total: 0 });
+
+    try {
+      const result = await work({
+        signal: controller.signal,
+        onProgress: progress => {
+          if (!controller.signal.aborted) setParseProgress(progress);
+        },
+      });
+      return controller.signal.aborted ? null : result;
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return null;
+      throw err;
+    } finally {
+      if (parseController.current === controller) {
+        parseController.current = null;
+        setParseProgress(null);
       }
-    };
-    reader.readAsText(file);
+    }
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent, type: 'balance' | 'journal' | 'mt5') => {
-    e.preventDefault();
-    const file = e.dataTransfer.files[0];
-    if (file) {
-      if (type === 'mt5') {
-        if (file.name.endsWith('.html') || file.name.endsWith('.htm')) {
-          handleMt5File(file);
-        } else {
-          setError('Veuillez déposer un fichier HTML');
-        }
-      } else if (file.name.endsWith('.csv')) {
-        if (type === 'balance') {
-          handleBalanceFile(file);
-        } else {
-          handleJournalFile(file);
-        }
-      } else {
-        setError('Veuillez déposer un fichier CSV pour TradingView ou HTML pour MT5');
+  const cancelParse = () => parseController.current?.abort();
+
+  // Leaving the page stops a read in progress
+  useEffect(() => () => parseController.current?.abort(), []);
+
+  const clearResult = useCallback(() => {
+    setParsedTrades([]);
+    setBalanceOperations([]);
+    setReport(null);
+    setParseWarnings([]);
+    setResultFormat(null);
+  }, []);
+
+  const readFiles = useCallback(async (selected: Importer, selectedFiles: File[], options: ImporterOptionValues) => {
+    parseController.current?.abort();
+    clearResult();
+    // Columns are mapped on the page, which reads the file itself
+    if (selected.mapsColumns || selectedFiles.length === 0) return;
+
+    try {
+      const result = await runParse(parse => selected.parse(selectedFiles, options, parse));
+      if (!result) return;
+      const { skipped } = result.diagnostics;
+
+      if (result.trades.length === 0) {
+        setError(`Aucun trade trouvé dans l'export ${selected.label}`
+          + (skipped.length > 0 ? ` : ${skipped[0].message}` : '.')
+          + (selected.emptyHint ? ` ${selected.emptyHint}` : ''));
+        return;
       }
+
+      setParsedTrades(result.trades);
+      setBalanceOperations(result.balanceOperations);
+      setReport(result.diagnostics);
+      setParseWarnings(result.warnings);
+      setResultFormat(result.format);
+      setError(null);
+    } catch (err) {
+      setError(`Erreur lors de la lecture de l'export ${selected.label}: ` + (err as Error).message);
     }
-  }, [handleBalanceFile, handleJournalFile, handleMt5File]);
-
-  const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>, type: 'balance' | 'journal' | 'mt5') => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (type === 'mt5') {
-        handleMt5File(file);
-      } else if (type === 'balance') {
-        handleBalanceFile(file);
-      } else {
-        handleJournalFile(file);
-      }
+  }, [runParse, clearResult]);
+
+  // Files go to the importer recognising them best, unless one was picked by hand
+  const routeFiles = useCallback(async (next: File[], preferred: string | null) => {
+    setFiles(next);
+    const ranked = await rankFiles(next);
+    const selected = (preferred && findImporter(preferred)) || ranked[0]?.importer || null;
+    setMatches(ranked);
+    setImporterId(selected?.id || null);
+
+    if (!selected) {
+      clearResult();
+      if (next.length > 0) setError('Format non reconnu. Déposez un export CSV, XLSX, HTML ou XML de votre plateforme.');
+      return;
     }
-  }, [handleBalanceFile, handleJournalFile, handleMt5File]);
+    const files = ranked.find(match => match.importer === selected)?.files || next;
+    await readFiles(selected, files, importerOptionValues(selected, importerOptions));
+  }, [readFiles, clearResult, importerOptions]);
+
+  // Dropped files join those already there; archives are unpacked
+  const addFiles = useCallback(async (dropped: File[]) => {
+    try {
+      const expanded = await expandZipFiles(dropped);
+      const added = expanded.filter(file => !files.some(existing => existing.name === file.name && existing.size === file.size));
+      setError(null);
+      await routeFiles([...files, ...added], importerId);
+    } catch (err) {
+      setError('Erreur lors de la lecture des fichiers: ' + (err as Error).message);
+    }
+  }, [files, importerId, routeFiles]);
+
+  const removeFile = (file: File) => {
+    const next = files.filter(existing => existing !== file);
+    setError(null);
+    if (next.length > 0) {
+      routeFiles(next, importerId);
+    } else {
+      resetImport();
+    }
+  };
+
+  const changeImporter = (id: string) => {
+    const selected = findImporter(id);
+    if (!selected) return;
+    setImporterId(id);
+    setError(null);
+    readFiles(selected, matches.find(match => match.importer === selected)?.files || files, importerOptionValues(selected, importerOptions));
+  };
+
+  // Remembered per importer, and applied by reading the files again
+  const changeOption = (key: string, value: ImporterOptionValue) => {
+    if (!importer) return;
+    const next = { ...importerOptions, [importer.id]: { ...optionValues, [key]: value } };
+    setImporterOptions(next);
+    saveImporterOptions(next);
+    readFiles(importer, importerFiles, next[importer.id]);
+  };
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    const dropped = Array.from(e.dataTransfer.files);
+    if (dropped.length > 0) addFiles(dropped);
+  }, [addFiles]);
+
+  const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (selected.length > 0) addFiles(selected);
+  }, [addFiles]);
+
+  // Remembered per format: the next export from the same platform uses the same clock
+  const changeSourceTimezone = (zone: string) => {
+    const next = { ...importTimezones, [sourceFormat]: zone };
+    setImportTimezones(next);
+    saveImportTimezones(next);
+  };
 
   const handleImport = async () => {
-    if (parsedTrades.length === 0) return;
+    if (writeCount === 0 || checkingDuplicates) return;
 
     setImporting(true);
 
@@ -161,17 +367,56 @@ export default function ImportCSV({ onImport, onClear }: ImportCSVProps) {
         await onClear();
       }
 
-      const now = new Date().toISOString();
-      const trades: Trade[] = parsedTrades.map(trade => ({
-        ...trade,
-        symbol: trade.symbol.substring(0, 6),
-        currency: importCurrency, // Apply selected import currency
-        id: uuidv4(),
-        createdAt: now,
-        updatedAt: now
-      }));
-
-      onImport(trades);
+      // Created trades point to the batch so the import can be rolled back
+      const batchId = crypto.randomUUID();
+      const created = importRows
+        .filter(row => row.status === 'new')
+        .map(row => ({ ...row.trade, importBatchId: batchId }));
+      if (created.length > 0) await onImport(created);
+
+      // Accepted conflicts take the statement's values, in one write
+      let updated = 0;
+      if (onBulkUpdateTrades) {
+        const changes: TradeUpdate[] = [];
+        for (const index of acceptedConflicts) {
+          const { trade, existing } = importRows[index];
+          if (existing) changes.push({ id: existing.id, updates: mergeImportedTrade(existing, trade) });
+        }
+        if (changes.length > 0) updated = (await onBulkUpdateTrades(changes)).length;
+      }
+
+      // Deposits and withdrawals already imported into this account are skipped
+      if (balanceOperations.length > 0) {
+        await addTransactions(balanceOperations.map(operation => ({
+          id: crypto.randomUUID(),
+          accountId: targetAccountId || null,
+          type: operation.type,
+          amount: operation.amount,
+          currency: importCurrency,
+          time: toUtc(operation.time, sourceTimezone),
+          comment: operation.comment,
+          sourceId: `${sourceFormat}:${operation.ticket}`,
+          importBatchId: batchId,
+          createdAt: new Date().toISOString(),
+        })));
+      }
+
+      const skipped = importRows.length - created.length - updated;
+      await recordBatch({
+        id: batchId,
+        accountId: targetAccountId || null,
+        sourceFormat,
+        fileName: (importer?.mapsColumns ? importerFiles.slice(0, 1) : importerFiles).map(file => file.name).join(', '),
+        rowCount: importRows.length,
+        createdCount: created.length,
+        updatedCount: updated,
+        skippedCount: skipped,
+        warnings: importWarnings(),
+        createdAt: new Date().toISOString(),
+        rolledBackAt: null,
+      });
+
+      setImportResult({ created: created.length, updated, skipped });
       setStep('complete');
     } catch (err) {
       setError('Erreur lors de l\'import: ' + (err as Error).message);
@@ -180,13 +425,76 @@ export default function ImportCSV({ onImport, onClear }: ImportCSVProps) {
     }
   };
 
+  const estimatedCount = parsedTrades.filter(trade => isEstimated(trade)).length;
+
+  const importWarnings = () => {
+    const warnings: string[] = [];
+    if (report && report.skipped.length > 0) {
+      warnings.push(`${report.skipped.length} lignes ignorées`);
+    }
+    if (report && report.unmatched.length > 0) {
+      warnings.push(`${report.unmatched.length} entrées du journal sans trade correspondant`);
+    }
+    if (estimatedCount > 0) {
+      warnings.push(`${estimatedCount} trades avec des valeurs estimées`);
+    }
+    warnings.push(...parseWarnings);
+    const keptConflicts = rowCounts.conflict - acceptedConflicts.size;
+    if (keptConflicts > 0) {
+      warnings.push(`${keptConflicts} conflits conservés avec les valeurs du journal`);
+    }
+    return warnings;
+  };
+
+  const batchTrades = (batchId: string) => existingTrades.filter(trade => trade.importBatchId === batchId);
+  // The loaded trades can be a part of the journal while the history is
+  // paging: a rollback looks them all up
+  const findBatchTrades = async (batchId: string) => findTradesByImportBatch
+    ? findTradesByImportBatch(batchId)
+    : batchTrades(batchId);
+  const batchCashTransactions = (batchId: string): CashTransaction[] =>
+    cashTransactions.filter(transaction => transaction.importBatchId === batchId);
+
+  const handleRollback = async (batch: ImportBatch) => {
+    if (!onDeleteTrades) return;
+    let ids: string[];
+    try {
+      ids = (await findBatchTrades(batch.id)).map(trade => trade.id);
+    } catch (err) {
+      setError('Impossible de retrouver les trades de cet import: ' + (err as Error).message);
+      return;
+    }
+    if (!confirm(`Supprimer les ${ids.length} trades créés par cet import ? Les notes et tags ajoutés depuis seront perdus.`)) return;
+
+    setRollingBack(batch.id);
+    try {
+      if (ids.length > 0 && !(await onDeleteTrades(ids))) {
+        setError('Erreur lors de l\'annulation de l\'import');
+        return;
+      }
+      const cashIds = batchCashTransactions(batch.id).map(transaction => transaction.id);
+      if (!(await deleteTransactions(cashIds))) {
+        setError('Erreur lors de la suppression des dépôts et retraits de l\'import');
+        return;
+      }
+      await markRolledBack(batch.id);
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  const handleGenericParsed = useCallback((trades: NewTrade[], diagnostics: ImportDiagnostics | null) => {
+    setParsedTrades(trades);
+    setReport(diagnostics);
+    if (diagnostics) setError(null);
+  }, []);
+
   const resetImport = () => {
-    setBalanceFile(null);
-    setJournalFile(null);
-    setMt5File(null);
-    setBalanceEntries([]);
-    setJournalEntries([]);
-    setParsedTrades([]);
+    parseController.current?.abort();
+    setFiles([]);
+    setMatches([]);
+    setImporterId(null);
+    clearResult();
     setError(null);
     setStep('upload');
   };
@@ -245,21 +553,21 @@ export default function ImportCSV({ onImport, onClear }: ImportCSVProps) {
           </div>
           <h2 className="text-2xl font-bold text-slate-900 mb-2">Import réussi !</h2>
           <p className="text-slate-500 mb-8">
-            {stats.total} trades ont été importés avec succès dans votre journal.
+            {importResult.created + importResult.updated} trades ont été enregistrés dans votre journal.
           </p>
 
           <div className="grid grid-cols-3 gap-4 mb-8">
             <div className="bg-white rounded-lg p-4 border border-slate-200 shadow-sm">
-              <div className="text-2xl font-bold text-slate-900">{stats.total}</div>
-              <div className="text-sm text-slate-500">Trades importés</div>
+              <div className="text-2xl font-bold text-slate-900">{importResult.created}</div>
+              <div className="text-sm text-slate-500">Nouveaux trades</div>
             </div>
             <div className="bg-white rounded-lg p-4 border border-slate-200 shadow-sm">
-              <div className="text-2xl font-bold text-green-600">{stats.winning}</div>
-              <div className="text-sm text-slate-500">Gagnants</div>
+              <div className="text-2xl font-bold text-amber-600">{importResult.updated}</div>
+              <div className="text-sm text-slate-500">Mis à jour</div>
             </div>
             <div className="bg-white rounded-lg p-4 border border-slate-200 shadow-sm">
-              <div className="text-2xl font-bold text-red-600">{stats.losing}</div>
-              <div className="text-sm text-slate-500">Perdants</div>
+              <div className="text-2xl font-bold text-slate-500">{importResult.skipped}</div>
+              <div className="text-sm text-slate-500">Ignorés</div>
             </div>
           </div>
 
@@ -280,68 +588,22 @@ export default function ImportCSV({ onImport, onClear }: ImportCSVProps) {
         <div className="mb-8">
           <h2 className="text-2xl font-bold text-slate-900 mb-2">Import Trades</h2>
           <p className="text-slate-500">
-            Importez vos trades depuis TradingView ou MetaTrader 5.
+            Déposez les exports de votre plateforme : le format est reconnu automatiquement.
           </p>
         </div>
 
-        {/* Tabs */}
-        <div className="flex gap-4 mb-8">
-          <button
-            onClick={() => {
-              setImportMode('tradingview');
-              resetImport();
-            }}
-            className={cn(
-              "px-4 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors",
-              importMode === 'tradingview'
-                ? "bg-blue-600 text-white shadow-sm"
-                : "bg-white text-slate-600 hover:bg-slate-50 border border-slate-200"
-            )}
-          >
-            <FileText className="w-5 h-5" />
-            TradingView CSV
-          </button>
-          <button
-            onClick={() => {
-              setImportMode('mt5');
-              resetImport();
-            }}
-            className={cn(
-              "px-4 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors",
-              importMode === 'mt5'
-                ? "bg-blue-600 text-white shadow-sm"
-                : "bg-white text-slate-600 hover:bg-slate-50 border border-slate-200"
-            )}
-          >
-            <LayoutTemplate className="w-5 h-5" />
-            MetaTrader 5 Report
-          </button>
-        </div>
-
-        {/* Info Box */}
-        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
-          <div className="flex items-start gap-3">
-            <Info className="w-5 h-5 text-blue-500 mt-0.5 flex-shrink-0" />
-            <div>
-              <h4 className="text-blue-700 font-medium mb-1">
-                {importMode === 'tradingview' ? 'Comment obtenir les fichiers CSV TradingView ?' : 'Comment obtenir le rapport MT5 ?'}
-              </h4>
-              <p className="text-blue-600 text-sm">
-                {importMode === 'tradingview' ? (
-                  <>
-                    Dans TradingView, allez dans <strong>Panel de Trading</strong> → <strong>Historique</strong> →
-                    Cliquez sur le bouton <strong>Exporter</strong> pour l'Historique des soldes et le Journal.
-                  </>
-                ) : (
-                  <>
-                    Dans MetaTrader 5, allez dans l'onglet <strong>Historique</strong> → Clic droit →
-                    <strong>Rapport</strong> → <strong>HTML</strong> (Standard).
-                  </>
-                )}
-              </p>
+        {/* How to export the files of the detected platform */}
+        {importer && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+            <div className="flex items-start gap-3">
+              <Info className="w-5 h-5 text-blue-500 mt-0.5 flex-shrink-0" />
+              <div>
+                <h4 className="text-blue-700 font-medium mb-1">Comment exporter depuis {importer.label} ?</h4>
+                <p className="text-blue-600 text-sm">{importer.help}</p>
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {error && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
@@ -353,249 +615,253 @@ export default function ImportCSV({ onImport, onClear }: ImportCSVProps) {
           </div>
         )}
 
-        {importMode === 'tradingview' ? (
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-            {/* Balance History File */}
-            <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center gap-3">
-                  <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${balanceFile ? 'bg-green-100' : 'bg-blue-100'
-                    }`}>
-                    <FileText className={`w-5 h-5 ${balanceFile ? 'text-green-600' : 'text-blue-600'}`} />
-                  </div>
-                  <div>
-                    <h3 className="font-semibold text-slate-900">Historique des Soldes</h3>
-                    <p className="text-xs text-slate-500">Requis • Contient les P&L et prix</p>
-                  </div>
-                </div>
-                <span className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded-full">Requis</span>
-              </div>
-
-              {balanceFile ? (
-                <div className="border border-green-200 bg-green-50 rounded-lg p-4">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <CheckCircle className="w-5 h-5 text-green-500" />
-                      <div>
-                        <p className="text-slate-900 font-medium">{balanceFile.name}</p>
-                        <p className="text-sm text-slate-500">{balanceEntries.length} trades détectés</p>
-                      </div>
-                    </div>
-                    <button
-                      onClick={() => {
-                        setBalanceFile(null);
-                        setBalanceEntries([]);
-                        setParsedTrades([]);
-                      }}
-                      className="p-2 hover:bg-slate-200 rounded-lg transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4 text-slate-400" />
-                    </button>
-                  </div>
-                </div>
-              ) : (
-                <div
-                  onDragOver={(e) => e.preventDefault()}
-                  onDrop={(e) => handleDrop(e, 'balance')}
-                  className="border-2 border-dashed border-slate-300 rounded-lg p-8 text-center hover:border-blue-500 transition-colors"
-                >
-                  <Upload className="w-8 h-8 text-slate-400 mx-auto mb-3" />
-                  <p className="text-slate-500 mb-2">Glissez-déposez votre fichier ici</p>
-                  <label className="cursor-pointer">
-                    <span className="text-blue-600 hover:text-blue-700 font-medium">ou parcourez vos fichiers</span>
-                    <input
-                      type="file"
-                      accept=".csv"
-                      onChange={(e) => handleFileSelect(e, 'balance')}
-                      className="hidden"
-                    />
-                  </label>
-                </div>
-              )}
-
-              <button
-                onClick={downloadSampleBalance}
-                className="mt-4 flex items-center gap-2 text-sm text-slate-500 hover:text-slate-700"
-              >
-                <Download className="w-4 h-4" />
-                Télécharger un exemple
+        {parseProgress ? (
+          <div className="max-w-2xl mx-auto mb-8 bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-sm font-medium text-slate-700">
+                Analyse en cours... {parseProgress.total > 0 ? Math.round(parseProgress.loaded / parseProgress.total * 100) : 0} %
+              </span>
+              <button onClick={cancelParse} className="text-sm text-slate-500 hover:text-slate-700 font-medium">
+                Annuler
               </button>
             </div>
-
-            {/* Journal File */}
-            <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center gap-3">
-                  <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${journalFile ? 'bg-green-100' : 'bg-amber-100'
-                    }`}>
-                    <FileText className={`w-5 h-5 ${journalFile ? 'text-green-600' : 'text-amber-600'}`} />
-                  </div>
-                  <div>
-                    <h3 className="font-semibold text-slate-900">Journal de Trading</h3>
-                    <p className="text-xs text-slate-500">Optionnel • Contient les SL/TP</p>
-                  </div>
-                </div>
-                <span className="px-2 py-1 bg-amber-100 text-amber-700 text-xs rounded-full">Optionnel</span>
-              </div>
-
-              {journalFile ? (
-                <div className="border border-green-200 bg-green-50 rounded-lg p-4">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <CheckCircle className="w-5 h-5 text-green-500" />
-                      <div>
-                        <p className="text-slate-900 font-medium">{journalFile.name}</p>
-                        <p className="text-sm text-slate-500">{journalEntries.length} entrées détectées</p>
-                      </div>
-                    </div>
-                    <button
-                      onClick={() => {
-                        setJournalFile(null);
-                        setJournalEntries([]);
-                        // Re-parse without journal
-                        if (balanceEntries.length > 0) {
-                          const trades = parseBalanceHistoryTrades(balanceEntries);
-                          setParsedTrades(trades);
-                        }
-                      }}
-                      className="p-2 hover:bg-slate-200 rounded-lg transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4 text-slate-400" />
-                    </button>
-                  </div>
-                </div>
-              ) : (
-                <div
-                  onDragOver={(e) => e.preventDefault()}
-                  onDrop={(e) => handleDrop(e, 'journal')}
-                  className="border-2 border-dashed border-slate-300 rounded-lg p-8 text-center hover:border-amber-500 transition-colors"
-                >
-                  <Upload className="w-8 h-8 text-slate-400 mx-auto mb-3" />
-                  <p className="text-slate-500 mb-2">Glissez-déposez votre fichier ici</p>
-                  <label className="cursor-pointer">
-                    <span className="text-amber-600 hover:text-amber-700 font-medium">ou parcourez vos fichiers</span>
-                    <input
-                      type="file"
-                      accept=".csv"
-                      onChange={(e) => handleFileSelect(e, 'journal')}
-                      className="hidden"
-                    />
-                  </label>
-                </div>
-              )}
-
-              <button
-                onClick={downloadSampleJournal}
-                className="mt-4 flex items-center gap-2 text-sm text-slate-500 hover:text-slate-700"
-              >
-                <Download className="w-4 h-4" />
-                Télécharger un exemple
-              </button>
+            <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${parseProgress.total > 0 ? parseProgress.loaded / parseProgress.total * 100 : 0}%` }}
+              />
             </div>
+            <p className="mt-2 text-xs text-slate-500">
+              {(parseProgress.loaded / 1048576).toFixed(1)} Mo lus sur {(parseProgress.total / 1048576).toFixed(1)} Mo
+            </p>
           </div>
         ) : (
-          <div className="max-w-2xl mx-auto mb-8">
-            <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center gap-3">
-                  <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${mt5File ? 'bg-green-100' : 'bg-blue-100'
-                    }`}>
-                    <LayoutTemplate className={`w-5 h-5 ${mt5File ? 'text-green-600' : 'text-blue-600'}`} />
-                  </div>
-                  <div>
-                    <h3 className="font-semibold text-slate-900">Rapport MT5 (HTML)</h3>
-                    <p className="text-xs text-slate-500">Fichier de rapport complet avec positions</p>
-                  </div>
+          <div
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={handleDrop}
+            className="mb-6 bg-white border-2 border-dashed border-slate-300 rounded-xl p-8 text-center hover:border-blue-500 transition-colors"
+          >
+            <Upload className="w-8 h-8 text-slate-400 mx-auto mb-3" />
+            <p className="text-slate-500 mb-1">
+              {files.length > 0 ? 'Ajoutez d\'autres fichiers au même import' : 'Glissez-déposez vos fichiers ici'}
+            </p>
+            <p className="text-xs text-slate-400 mb-2">
+              CSV, XLSX, HTML, XML ou archive ZIP • déposez ensemble les fichiers d'un même compte (historique et journal, trades et financement)
+            </p>
+            <label className="cursor-pointer">
+              <span className="text-blue-600 hover:text-blue-700 font-medium">ou parcourez vos fichiers</span>
+              <input
+                type="file"
+                multiple
+                accept={[...new Set(getImporters().flatMap(candidate => candidate.accept)), '.zip'].join(',')}
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+            </label>
+            {files.length === 0 && (
+              <div className="mt-4 flex items-center justify-center gap-4 text-sm">
+                <span className="text-slate-500">Exemples TradingView :</span>
+                <button onClick={downloadSampleBalance} className="flex items-center gap-1 text-slate-500 hover:text-slate-700">
+                  <Download className="w-4 h-4" />
+                  historique des soldes
+                </button>
+                <button onClick={downloadSampleJournal} className="flex items-center gap-1 text-slate-500 hover:text-slate-700">
+                  <Download className="w-4 h-4" />
+                  journal
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Dropped files, the importer reading them and its options */}
+        {files.length > 0 && (
+          <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm mb-6">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <div className="flex items-center gap-3">
+                <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${importer ? 'bg-green-100' : 'bg-slate-100'}`}>
+                  <FileText className={`w-5 h-5 ${importer ? 'text-green-600' : 'text-slate-400'}`} />
+                </div>
+                <div>
+                  <h3 className="font-semibold text-slate-900">{importer ? importer.label : 'Format non reconnu'}</h3>
+                  <p className="text-xs text-slate-500">{importer?.description}</p>
                 </div>
               </div>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                Format :
+                <select
+                  value={importer?.id || ''}
+                  onChange={(e) => changeImporter(e.target.value)}
+                  className="bg-white border border-slate-300 text-slate-900 text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 block p-2"
+                >
+                  {!importer && <option value="">—</option>}
+                  {matches.map(match => (
+                    <option key={match.importer.id} value={match.importer.id}>
+                      {match.importer.label} ({Math.round(match.confidence * 100)} %)
+                    </option>
+                  ))}
+                  {getImporters().filter(candidate => !matches.some(match => match.importer === candidate)).map(candidate => (
+                    <option key={candidate.id} value={candidate.id}>{candidate.label} (non détecté)</option>
+                  ))}
+                </select>
+              </label>
+            </div>
 
-              {mt5File ? (
-                <div className="border border-green-200 bg-green-50 rounded-lg p-4">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <CheckCircle className="w-5 h-5 text-green-500" />
-                      <div>
-                        <p className="text-slate-900 font-medium">{mt5File.name}</p>
-                        <p className="text-sm text-slate-500">{parsedTrades.length} trades détectés</p>
-                      </div>
+            <ul className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+              {files.map(file => {
+                const read = importerFiles.includes(file);
+                return (
+                  <li key={`${file.name}:${file.size}`} className="flex items-center justify-between gap-3 px-4 py-2">
+                    <div className="flex items-center gap-3 min-w-0">
+                      {read
+                        ? <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+                        : <AlertCircle className="w-4 h-4 text-slate-400 flex-shrink-0" />}
+                      <span className={cn('text-sm truncate', read ? 'text-slate-900' : 'text-slate-400')}>{file.name}</span>
+                      {!read && <span className="text-xs text-slate-400 whitespace-nowrap">non lu : pas reconnu par {importer?.label}</span>}
                     </div>
-                    <button
-                      onClick={() => {
-                        setMt5File(null);
-                        setParsedTrades([]);
-                      }}
-                      className="p-2 hover:bg-slate-200 rounded-lg transition-colors"
-                    >
+                    <button onClick={() => removeFile(file)} className="p-1 hover:bg-slate-100 rounded-lg transition-colors">
                       <Trash2 className="w-4 h-4 text-slate-400" />
                     </button>
-                  </div>
-                </div>
-              ) : (
-                <div
-                  onDragOver={(e) => e.preventDefault()}
-                  onDrop={(e) => handleDrop(e, 'mt5')}
-                  className="border-2 border-dashed border-slate-300 rounded-lg p-8 text-center hover:border-blue-500 transition-colors"
-                >
-                  <Upload className="w-8 h-8 text-slate-400 mx-auto mb-3" />
-                  <p className="text-slate-500 mb-2">Glissez-déposez votre fichier HTML ici</p>
-                  <label className="cursor-pointer">
-                    <span className="text-blue-600 hover:text-blue-700 font-medium">ou parcourez vos fichiers</span>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {importer && !importer.mapsColumns && parsedTrades.length > 0 && (
+              <p className="mt-3 text-sm text-slate-500">
+                {formatLabels[sourceFormat] || importer.label} · {parsedTrades.length} trades détectés
+                {balanceOperations.length > 0 && `, ${balanceOperations.length} mouvements de solde`}
+                {report && report.skipped.length > 0 && `, ${report.skipped.length} lignes ignorées`}
+              </p>
+            )}
+
+            {parseWarnings.length > 0 && (
+              <ul className="mt-3 space-y-1 text-sm text-amber-700">
+                {parseWarnings.slice(0, 10).map(warning => (
+                  <li key={warning} className="flex items-start gap-2">
+                    <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    {warning}
+                  </li>
+                ))}
+                {parseWarnings.length > 10 && <li>+ {parseWarnings.length - 10} autres avertissements</li>}
+              </ul>
+            )}
+
+            {importer && importer.options.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-slate-200 flex flex-wrap gap-6">
+                {importer.options.map(option => option.type === 'boolean' ? (
+                  <label key={option.key} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer select-none">
                     <input
-                      type="file"
-                      accept=".html,.htm"
-                      onChange={(e) => handleFileSelect(e, 'mt5')}
-                      className="hidden"
+                      type="checkbox"
+                      checked={optionValues[option.key] === true}
+                      onChange={(e) => changeOption(option.key, e.target.checked)}
+                      className="rounded border-slate-300 text-blue-600 focus:ring-blue-500 w-4 h-4"
                     />
+                    {option.label}
                   </label>
-                </div>
-              )}
-            </div>
+                ) : (
+                  <label key={option.key} className="flex items-center gap-2 text-sm text-slate-700">
+                    {option.label}
+                    <select
+                      value={String(optionValues[option.key])}
+                      onChange={(e) => changeOption(option.key, e.target.value)}
+                      className="bg-white border border-slate-300 text-slate-900 text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 block p-2"
+                    >
+                      {option.choices?.map(choice => (
+                        <option key={choice.value} value={choice.value}>{choice.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
-        {/* Merge Status */}
-        {importMode === 'tradingview' && balanceFile && (
-          <div className={`mb-8 p-4 rounded-lg border ${journalFile
-            ? 'bg-green-50 border-green-200'
-            : 'bg-amber-50 border-amber-200'
-            }`}>
-            <div className="flex items-center gap-4">
-              <div className="flex items-center gap-2">
-                <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
-                  <FileText className="w-4 h-4 text-blue-600" />
-                </div>
-                <span className="text-slate-700">{balanceEntries.length} trades</span>
-              </div>
+        {importer?.mapsColumns && importerFiles[0] && (
+          <GenericCsvImport key={`${importerFiles[0].name}:${importerFiles[0].size}`} file={importerFiles[0]} onParsed={handleGenericParsed} onError={setError} />
+        )}
 
-              {journalFile && (
-                <>
-                  <ArrowRight className="w-5 h-5 text-slate-400" />
-                  <div className="flex items-center gap-2">
-                    <div className="w-8 h-8 bg-amber-100 rounded-full flex items-center justify-center">
-                      <FileText className="w-4 h-4 text-amber-600" />
-                    </div>
-                    <span className="text-slate-700">{journalEntries.length} logs</span>
-                  </div>
-                </>
-              )}
+        {/* Import report: rows read, left out, journal entries unused, values estimated */}
+        {report && (parsedTrades.length > 0 || report.skipped.length > 0) && (
+          <div className={cn(
+            'mb-6 p-4 border rounded-lg',
+            report.skipped.length + report.unmatched.length + estimatedCount > 0 ? 'bg-amber-50 border-amber-200' : 'bg-slate-50 border-slate-200'
+          )}>
+            <p className="text-sm font-medium text-slate-700 flex items-center gap-2">
+              <Info className="w-4 h-4" />
+              Rapport d'import : {report.rowsParsed} lignes lues, {parsedTrades.length} trades, {report.skipped.length} lignes ignorées
+              {report.unmatched.length > 0 && `, ${report.unmatched.length} entrées du journal sans trade`}
+            </p>
 
-              <ArrowRight className="w-5 h-5 text-slate-400" />
+            {estimatedCount > 0 && (
+              <div className="mt-3 text-sm text-amber-700">
+                <p className="font-medium">{estimatedCount} trades avec des valeurs estimées</p>
+                <ul className="space-y-1">
+                  {(Object.entries(report.estimated) as [EstimatedField, number][]).map(([field, count]) => (
+                    <li key={field}>{estimatedLabels[field]} : {count} trades</li>
+                  ))}
+                </ul>
+                <p className="text-xs mt-1">Ils sont marqués « estimé » et peuvent être exclus des statistiques dans les paramètres.</p>
+              </div>
+            )}
 
-              <div className="flex items-center gap-2">
-                <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
-                  <CheckCircle className="w-4 h-4 text-green-600" />
-                </div>
-                <span className="text-slate-700">
-                  {parsedTrades.length} trades avec {stats.withSlTp} SL/TP
-                </span>
+            {report.skipped.length > 0 && (
+              <div className="mt-3 text-sm text-amber-700">
+                <p className="font-medium">Lignes ignorées</p>
+                <ul className="space-y-1">
+                  {report.skipped.slice(0, 20).map(error => (
+                    <li key={`${error.file || ''}:${error.line}:${error.message}`}>
+                      {error.file && `${error.file} · `}Ligne {error.line} : {error.message}
+                    </li>
+                  ))}
+                  {report.skipped.length > 20 && <li>+ {report.skipped.length - 20} autres lignes</li>}
+                </ul>
               </div>
+            )}
 
-              {!journalFile && (
-                <span className="ml-auto text-amber-600 text-sm flex items-center gap-2">
-                  <AlertCircle className="w-4 h-4" />
-                  SL/TP manquants - ajoutez le journal
-                </span>
-              )}
+            {report.unmatched.length > 0 && (
+              <div className="mt-3 text-sm text-amber-700">
+                <p className="font-medium">Entrées du journal sans trade (position encore ouverte ou absente de l'historique)</p>
+                <ul className="space-y-1">
+                  {report.unmatched.slice(0, 20).map(entry => (
+                    <li key={`${entry.line}:${entry.time}:${entry.text}`}>
+                      {entry.line !== undefined && `Ligne ${entry.line} · `}{entry.time} : {entry.text}
+                    </li>
+                  ))}
+                  {report.unmatched.length > 20 && <li>+ {report.unmatched.length - 20} autres entrées</li>}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Deposits and withdrawals (statement balance rows) */}
+        {balanceOperations.length > 0 && (
+          <div className="bg-white rounded-xl border border-slate-200 overflow-hidden mb-6 shadow-sm">
+            <div className="p-4 border-b border-slate-200 flex items-center justify-between bg-slate-50">
+              <h3 className="font-semibold text-slate-900">Dépôts et retraits ({balanceOperations.length})</h3>
+              <span className="text-sm text-slate-500">
+                Net : {balanceOperations.reduce((sum, operation) => sum + operation.amount, 0).toFixed(2)} {importCurrency}
+              </span>
+            </div>
+            <div className="overflow-x-auto max-h-48">
+              <table className="w-full">
+                <tbody className="divide-y divide-slate-200 bg-white">
+                  {balanceOperations.map(operation => (
+                    <tr key={operation.ticket}>
+                      <td className="px-4 py-2 text-sm text-slate-900">
+                        {new Date(operation.time).toLocaleDateString('fr-FR')}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-600">{balanceTypeLabels[operation.type]}</td>
+                      <td className="px-4 py-2 text-sm text-slate-500">{operation.comment}</td>
+                      <td className={`px-4 py-2 text-sm text-right font-medium ${operation.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {operation.amount >= 0 ? '+' : ''}{operation.amount.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
           </div>
         )}
@@ -606,6 +872,9 @@ export default function ImportCSV({ onImport, onClear }: ImportCSVProps) {
             <div className="p-4 border-b border-slate-200 flex items-center justify-between bg-slate-50">
               <h3 className="font-semibold text-slate-900">Aperçu des trades ({parsedTrades.length})</h3>
               <div className="flex items-center gap-4 text-sm">
+                <span className="text-blue-600 font-medium">{rowCounts.new} nouveaux</span>
+                <span className="text-slate-500 font-medium">{rowCounts.duplicate} doublons</span>
+                <span className="text-amber-600 font-medium">{rowCounts.conflict} conflits</span>
                 <span className="text-green-600 font-medium">
                   ✓ {stats.winning} gagnants
                 </span>
@@ -622,6 +891,7 @@ export default function ImportCSV({ onImport, onClear }: ImportCSVProps) {
               <table className="w-full">
                 <thead className="bg-slate-50 sticky top-0">
                   <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Statut</th>
                     <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Date</th>
                     <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Symbole</th>
                     <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Direction</th>
@@ -634,8 +904,30 @@ export default function ImportCSV({ onImport, onClear }: ImportCSVProps) {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-200 bg-white">
-                  {parsedTrades.slice(0, 50).map((trade, index) => (
-                    <tr key={index} className="hover:bg-slate-50 transition-colors">
+                  {previewRows.slice(0, 50).map(({ trade, status, changedFields, index }) => (
+                    <tr key={index} className={cn("hover:bg-slate-50 transition-colors", status === 'duplicate' && 'opacity-60')}>
+                      <td className="px-4 py-3">
+                        {status === 'conflict' ? (
+                          <label
+                            className="flex items-center gap-2 cursor-pointer select-none"
+                            title={`Différences : ${changedFields.join(', ')}`}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={acceptedConflicts.has(index)}
+                              onChange={() => toggleConflict(index)}
+                              className="rounded border-slate-300 text-amber-600 focus:ring-amber-500 w-4 h-4"
+                            />
+                            <span className={`px-2 py-1 rounded text-xs font-medium ${statusStyles[status]}`}>
+                              {acceptedConflicts.has(index) ? 'Mettre à jour' : statusLabels[status]}
+                            </span>
+                          </label>
+                        ) : (
+                          <span className={`px-2 py-1 rounded text-xs font-medium ${statusStyles[status]}`}>
+                            {statusLabels[status]}
+                          </span>
+                        )}
+                      </td>
                       <td className="px-4 py-3 text-sm text-slate-900">
                         {new Date(trade.exitTime || trade.entryTime).toLocaleDateString('fr-FR', {
                           day: '2-digit',
@@ -643,6 +935,14 @@ export default function ImportCSV({ onImport, onClear }: ImportCSVProps) {
                           hour: '2-digit',
                           minute: '2-digit'
                         })}
+                        {isEstimated(trade) && (
+                          <span
+                            className="ml-2 px-1.5 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-700"
+                            title={`Estimé : ${(trade.estimatedFields || []).map(field => estimatedLabels[field]).join(', ')}`}
+                          >
+                            estimé
+                          </span>
+                        )}
                       </td>
                       <td className="px-4 py-3">
                         <span className="font-medium text-slate-900">{trade.symbol}</span>
@@ -696,28 +996,88 @@ export default function ImportCSV({ onImport, onClear }: ImportCSVProps) {
                 </div>
               )}
             </div>
+
+            {rowCounts.conflict > 0 && (
+              <div className="p-4 border-t border-slate-200 bg-amber-50 flex items-center gap-4 text-sm">
+                <AlertCircle className="w-4 h-4 text-amber-600 flex-shrink-0" />
+                <span className="text-amber-700">
+                  {rowCounts.conflict} trades existent déjà avec des valeurs différentes. Les cocher met à jour les données du courtier en gardant vos notes, tags et captures.
+                </span>
+                <button
+                  onClick={() => acceptAllConflicts(acceptedConflicts.size < rowCounts.conflict)}
+                  className="ml-auto whitespace-nowrap text-amber-700 hover:text-amber-800 font-medium"
+                >
+                  {acceptedConflicts.size < rowCounts.conflict ? 'Tout mettre à jour' : 'Tout conserver'}
+                </button>
+              </div>
+            )}
           </div>
         )}
 
         {parsedTrades.length > 0 && (
           <div className="flex flex-col sm:flex-row justify-end items-center gap-4">
+            {accounts.length > 0 && (
+              <div className="flex items-center gap-4 bg-slate-50 p-3 rounded-lg border border-slate-200">
+                <span className="text-sm font-medium text-slate-700">Compte :</span>
+                <select
+                  value={targetAccountId}
+                  onChange={(e) => {
+                    const account = accounts.find(a => a.id === e.target.value);
+                    setTargetAccountId(e.target.value);
+                    if (account) setImportCurrency(account.baseCurrency);
+                  }}
+                  className="bg-white border border-slate-300 text-slate-900 text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 block p-2"
+                >
+                  <option value="">Aucun compte</option>
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>{account.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {!needsCurrency ? (
+              <div className="flex items-center gap-4 bg-slate-50 p-3 rounded-lg border border-slate-200">
+                <span className="text-sm font-medium text-slate-700">Devise :</span>
+                <span className="text-sm text-slate-600">
+                  indiquée dans le fichier ({fileCurrencies.join(', ')})
+                </span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-4 bg-slate-50 p-3 rounded-lg border border-slate-200">
+                <span className="text-sm font-medium text-slate-700">Devise du compte :</span>
+                <select
+                  value={importCurrency}
+                  onChange={(e) => setImportCurrency(e.target.value)}
+                  className="bg-white border border-slate-300 text-slate-900 text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 block p-2"
+                >
+                  <option value="USD">USD ($)</option>
+                  <option value="EUR">EUR (€)</option>
+                  <option value="GBP">GBP (£)</option>
+                  <option value="JPY">JPY (¥)</option>
+                  <option value="CHF">CHF</option>
+                  <option value="CAD">CAD</option>
+                  <option value="AUD">AUD</option>
+                  <option value="USDC">USDC</option>
+                  <option value="USDT">USDT</option>
+                  <option value="BTC">BTC (₿)</option>
+                  <option value="ETH">ETH (Ξ)</option>
+                  <option value="USC">USC (Cents)</option>
+                </select>
+              </div>
+            )}
+
             <div className="flex items-center gap-4 bg-slate-50 p-3 rounded-lg border border-slate-200">
-              <span className="text-sm font-medium text-slate-700">Devise du compte :</span>
+              <span className="text-sm font-medium text-slate-700">Fuseau horaire du fichier :</span>
               <select
-                value={importCurrency}
-                onChange={(e) => setImportCurrency(e.target.value)}
-                className="bg-white border border-slate-300 text-slate-900 text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 block p-2"
+                value={sourceTimezone}
+                onChange={(e) => changeSourceTimezone(e.target.value)}
+                title="Les heures qui indiquent leur fuseau (UTC+3, horodatages Unix) ne sont pas décalées"
+                className="bg-white border border-slate-300 text-slate-900 text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 block p-2 max-w-xs"
               >
-                <option value="USD">USD ($)</option>
-                <option value="EUR">EUR (€)</option>
-                <option value="GBP">GBP (£)</option>
-                <option value="JPY">JPY (¥)</option>
-                <option value="CHF">CHF</option>
-                <option value="CAD">CAD</option>
-                <option value="AUD">AUD</option>
-                <option value="USDC">USDC</option>
-                <option value="USDT">USDT</option>
-                <option value="USC">USC (Cents)</option>
+                {SOURCE_TIMEZONES.map(zone => (
+                  <option key={zone.id} value={zone.id}>{zone.label}</option>
+                ))}
               </select>
             </div>
 
@@ -729,29 +1089,139 @@ export default function ImportCSV({ onImport, onClear }: ImportCSVProps) {
                   onChange={(e) => setAutoClear(e.target.checked)}
                   className="rounded border-slate-300 text-blue-600 focus:ring-blue-500 w-4 h-4"
                 />
-                <span className="text-sm text-slate-700">Supprimer les données existantes avant l'import</span>
+                <span className="text-sm text-slate-700">Supprimer les données existantes avant l'import (notes et tags compris)</span>
               </label>
             )}
 
             <button
               onClick={handleImport}
-              disabled={importing}
+              disabled={importing || checkingDuplicates || writeCount === 0}
               className="px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg font-medium flex items-center gap-2 shadow-sm transition-colors"
             >
-              {importing ? (
+              {importing || checkingDuplicates ? (
                 <>
                   <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                  Import en cours...
+                  {importing ? 'Import en cours...' : 'Recherche des doublons...'}
                 </>
               ) : (
                 <>
                   <Upload className="w-5 h-5" />
-                  Importer {parsedTrades.length} trades
+                  {writeCount === 0 ? 'Rien à importer' : `Importer ${writeCount} trades`}
                 </>
               )}
             </button>
           </div>
         )}
+
+        {/* Import History */}
+        {batches.length > 0 && (
+          <div className="mt-10 bg-white rounded-xl border border-slate-200 overflow-hidden shadow-sm">
+            <div className="p-4 border-b border-slate-200 flex items-center gap-2 bg-slate-50">
+              <History className="w-5 h-5 text-slate-500" />
+              <h3 className="font-semibold text-slate-900">Historique des imports</h3>
+            </div>
+
+            <div className="divide-y divide-slate-200">
+              {batches.map(batch => {
+                const trades = batchTrades(batch.id);
+                const isOpen = openBatchId === batch.id;
+                const account = accounts.find(a => a.id === batch.accountId);
+
+                return (
+                  <div key={batch.id}>
+                    <div className="p-4 flex items-center gap-4">
+                      <button
+                        onClick={() => setOpenBatchId(isOpen ? null : batch.id)}
+                        className="flex items-center gap-3 flex-1 min-w-0 text-left"
+                      >
+                        {isOpen
+                          ? <ChevronDown className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                          : <ChevronRight className="w-4 h-4 text-slate-400 flex-shrink-0" />}
+                        <div className="min-w-0">
+                          <p className="text-slate-900 font-medium truncate">
+                            {formatLabels[batch.sourceFormat] || batch.sourceFormat}
+                            {batch.fileName && <span className="text-slate-500 font-normal"> · {batch.fileName}</span>}
+                          </p>
+                          <p className="text-sm text-slate-500">
+                            {new Date(batch.createdAt).toLocaleString('fr-FR')}
+                            {account && ` · ${account.name}`}
+                            {` · ${batch.createdCount} créés, ${batch.updatedCount} mis à jour, ${batch.skippedCount} ignorés`}
+                          </p>
+                        </div>
+                      </button>
+
+                      {batch.warnings.length > 0 && (
+                        <span className="px-2 py-1 bg-amber-100 text-amber-700 text-xs rounded-full">
+                          {batch.warnings.length} avertissement{batch.warnings.length > 1 ? 's' : ''}
+                        </span>
+                      )}
+
+                      {batch.rolledBackAt ? (
+                        <span className="px-2 py-1 bg-slate-100 text-slate-500 text-xs rounded-full">Annulé</span>
+                      ) : onDeleteTrades && (
+                        <button
+                          onClick={() => handleRollback(batch)}
+                          disabled={rollingBack !== null}
+                          className="flex items-center gap-2 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          <RotateCcw className={cn("w-4 h-4", rollingBack === batch.id && 'animate-spin')} />
+                          Annuler l'import
+                        </button>
+                      )}
+                    </div>
+
+                    {isOpen && (
+                      <div className="px-4 pb-4 pl-11 space-y-3">
+                        {batch.warnings.length > 0 && (
+                          <ul className="space-y-1">
+                            {batch.warnings.map((warning, index) => (
+                              <li key={index} className="flex items-center gap-2 text-sm text-amber-700">
+                                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                                {warning}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
+                        {trades.length === 0 ? (
+                          <p className="text-sm text-slate-500">
+                            {batch.rolledBackAt
+                              ? `Annulé le ${new Date(batch.rolledBackAt).toLocaleString('fr-FR')}.`
+                              : 'Aucun trade de cet import dans le journal.'}
+                          </p>
+                        ) : (
+                          <div className="border border-slate-200 rounded-lg overflow-hidden">
+                            <table className="w-full text-sm">
+                              <tbody className="divide-y divide-slate-200">
+                                {trades.slice(0, 20).map(trade => (
+                                  <tr key={trade.id}>
+                                    <td className="px-3 py-2 text-slate-600">
+                                      {new Date(trade.exitTime || trade.entryTime).toLocaleDateString('fr-FR')}
+                                    </td>
+                                    <td className="px-3 py-2 font-medium text-slate-900">{trade.symbol}</td>
+                                    <td className="px-3 py-2 text-slate-600">{trade.direction.toUpperCase()}</td>
+                                    <td className={cn("px-3 py-2 text-right font-medium", (trade.pnl || 0) >= 0 ? 'text-green-600' : 'text-red-600')}>
+                                      {(trade.pnl || 0) >= 0 ? '+' : ''}{(trade.pnl || 0).toFixed(2)}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                            {trades.length > 20 && (
+                              <div className="p-2 text-center text-slate-500 bg-slate-50 border-t border-slate-200">
+                                + {trades.length - 20} autres trades...
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   Search,
   Filter,
@@ -11,22 +11,29 @@ import {
   Eye,
   ChevronRight
 } from 'lucide-react';
-import type { Trade } from '../types/trade';
+import type { Trade, Account } from '../types/trade';
+import type { RemoteTradeChange } from '../hooks/useTradeStore';
 import { cn } from '../utils/cn';
 import { convertCurrency } from '../utils/currencyConversion';
 import { formatCurrency as formatCurrencyUtil } from '../utils/currency';
 import { TradeModal } from './TradeModal';
 import { TradeDetails } from './TradeDetails';
 
+// Rows rendered per scroll step
+const PAGE_SIZE = 50;
+
 interface JournalProps {
   trades: Trade[];
   onAddTrade: (trade: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>) => void;
   onUpdateTrade: (id: string, updates: Partial<Trade>) => void;
   onDeleteTrade: (id: string) => void;
   baseCurrency?: string;
+  accounts?: Account[];
+  selectedAccountId?: string;
+  remoteChange?: RemoteTradeChange | null;
 }
 
-export function Journal({ trades, onAddTrade, onUpdateTrade, onDeleteTrade, baseCurrency = 'USD' }: JournalProps) {
+export function Journal({ trades, onAddTrade, onUpdateTrade, onDeleteTrade, baseCurrency = 'USD', accounts = [], selectedAccountId, remoteChange }: JournalProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterDirection, setFilterDirection] = useState<'all' | 'long' | 'short'>('all');
   const [filterStatus, setFilterStatus] = useState<'all' | 'open' | 'closed'>('all');
@@ -35,6 +42,28 @@ export function Journal({ trades, onAddTrade, onUpdateTrade, onDeleteTrade, base
   const [modalMode, setModalMode] = useState<'add' | 'edit'>('add');
   const [activeMenu, setActiveMenu] = useState<string | null>(null);
   const [showDetails, setShowDetails] = useState(false);
+  // Set when the open trade is changed from another tab or device
+  const [remoteNotice, setRemoteNotice] = useState<'updated' | 'deleted' | null>(null);
+
+  useEffect(() => {
+    if (!remoteChange || !selectedTrade || (!showDetails && !isModalOpen)) return;
+    if (remoteChange.deleted.includes(selectedTrade.id)) {
+      setRemoteNotice('deleted');
+    } else if (remoteChange.updated.includes(selectedTrade.id)) {
+      setRemoteNotice('updated');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [remoteChange]);
+
+  useEffect(() => {
+    setRemoteNotice(null);
+  }, [selectedTrade?.id, showDetails, isModalOpen]);
+
+  const handleReloadSelected = () => {
+    const latest = selectedTrade && trades.find(trade => trade.id === selectedTrade.id);
+    if (latest) setSelectedTrade(latest);
+    setRemoteNotice(null);
+  };
 
   const filteredTrades = trades.filter(trade => {
     const matchesSearch = trade.symbol.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -44,6 +73,30 @@ export function Journal({ trades, onAddTrade, onUpdateTrade, onDeleteTrade, base
     return matchesSearch && matchesDirection && matchesStatus;
   });
 
+  // Infinite scroll: render one page of rows at a time, more when the end comes into view
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const visibleTrades = filteredTrades.slice(0, visibleCount);
+  const hasMore = visibleCount < filteredTrades.length;
+
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [searchTerm, filterDirection, filterStatus]);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        setVisibleCount(count => count + PAGE_SIZE);
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, visibleCount]);
+
   const formatCurrency = (value: number | null, currency: string = 'USD') => {
     if (value === null) return '-';
     return formatCurrencyUtil(value, currency);
@@ -196,7 +249,7 @@ export function Journal({ trades, onAddTrade, onUpdateTrade, onDeleteTrade, base
                   </td>
                 </tr>
               ) : (
-                filteredTrades.map((trade) => (
+                visibleTrades.map((trade) => (
                   <tr
                     key={trade.id}
                     className="border-t border-slate-100 hover:bg-emerald-50/50 transition-colors cursor-pointer group"
@@ -307,6 +360,11 @@ export function Journal({ trades, onAddTrade, onUpdateTrade, onDeleteTrade, base
               )}
             </tbody>
           </table>
+          {hasMore && (
+            <div ref={loadMoreRef} className="py-4 text-center text-sm text-slate-400">
+              Showing {visibleTrades.length} of {filteredTrades.length} trades...
+            </div>
+          )}
         </div>
       </div>
 
@@ -317,6 +375,10 @@ export function Journal({ trades, onAddTrade, onUpdateTrade, onDeleteTrade, base
           mode={modalMode}
           onClose={() => setIsModalOpen(false)}
           onSave={handleModalSave}
+          accounts={accounts}
+          defaultAccountId={selectedAccountId}
+          remoteNotice={remoteNotice}
+          onReloadTrade={handleReloadSelected}
         />
       )}
 
@@ -327,6 +389,8 @@ export function Journal({ trades, onAddTrade, onUpdateTrade, onDeleteTrade, base
           onClose={() => setShowDetails(false)}
           onEdit={handleDetailsEdit}
           onDelete={onDeleteTrade}
+          remoteNotice={remoteNotice}
+          onReloadTrade={handleReloadSelected}
         />
       )}
     </div>
@@ -1,67 +1,17 @@
 import { useState } from 'react';
 import { Plus, Edit, Trash2, Save, X, BookOpen, Target, AlertTriangle, CheckCircle } from 'lucide-react';
+import type { PlaybookStrategy } from '../types/trade';
+import { usePlaybookStore } from '../hooks/usePlaybookStore';
 import { cn } from '../utils/cn';
 
-interface Strategy {
-  id: string;
-  name: string;
-  description: string;
-  rules: string[];
-  entryConditions: string[];
-  exitConditions: string[];
-  riskManagement: string;
-  timeframe: string;
-  pairs: string[];
-  notes: string;
-}
-
-const STORAGE_KEY = 'tradezella_playbook';
-
 export function Playbook() {
-  const [strategies, setStrategies] = useState<Strategy[]>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      return JSON.parse(stored);
-    }
-    return [
-      {
-        id: '1',
-        name: 'Breakout Strategy',
-        description: 'Trading breakouts from key support/resistance levels',
-        rules: [
-          'Wait for price to consolidate near S/R level',
-          'Look for volume confirmation on breakout',
-          'Entry on retest of broken level',
-        ],
-        entryConditions: [
-          'Price breaks key S/R with momentum',
-          'Volume above 20-period average',
-          'RSI not in overbought/oversold',
-        ],
-        exitConditions: [
-          'Take profit at 2R',
-          'Trail stop after 1R',
-          'Exit on reversal signal',
-        ],
-        riskManagement: '1% risk per trade, max 3 trades per day',
-        timeframe: 'H1, H4',
-        pairs: ['EURUSD', 'GBPJPY', 'XAUUSD'],
-        notes: 'Best during London/NY session overlap',
-      },
-    ];
-  });
-
-  const [editingStrategy, setEditingStrategy] = useState<Strategy | null>(null);
+  const { strategies, saveStrategy, deleteStrategy } = usePlaybookStore();
+  const [editingStrategy, setEditingStrategy] = useState<PlaybookStrategy | null>(null);
   const [isAddingNew, setIsAddingNew] = useState(false);
 
-  const saveStrategies = (newStrategies: Strategy[]) => {
-    setStrategies(newStrategies);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newStrategies));
-  };
-
   const handleAddStrategy = () => {
     setEditingStrategy({
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       name: '',
       description: '',
       rules: [''],
@@ -75,23 +25,17 @@ export function Playbook() {
     setIsAddingNew(true);
   };
 
-  const handleSaveStrategy = () => {
+  const handleSaveStrategy = async () => {
     if (!editingStrategy) return;
 
-    if (isAddingNew) {
-      saveStrategies([...strategies, editingStrategy]);
-    } else {
-      saveStrategies(
-        strategies.map((s) => (s.id === editingStrategy.id ? editingStrategy : s))
-      );
-    }
+    await saveStrategy(editingStrategy);
     setEditingStrategy(null);
     setIsAddingNew(false);
   };
 
   const handleDeleteStrategy = (id: string) => {
     if (confirm('Are you sure you want to delete this strategy?')) {
-      saveStrategies(strategies.filter((s) => s.id !== id));
+      deleteStrategy(id);
     }
   };
 
@@ -100,7 +44,7 @@ export function Playbook() {
     setIsAddingNew(false);
   };
 
-  const updateField = (field: keyof Strategy, value: string | string[]) => {
+  const updateField = (field: keyof PlaybookStrategy, value: string | string[]) => {
     if (!editingStrategy) return;
     setEditingStrategy({ ...editingStrategy, [field]: value });
   };
@@ -0,0 +1,38 @@
+import { RefreshCw, AlertTriangle } from 'lucide-react';
+import { cn } from '../utils/cn';
+
+interface RemoteChangeNoticeProps {
+  notice: 'updated' | 'deleted';
+  onReload?: () => void;
+  dark?: boolean;
+}
+
+// Banner for a trade that was changed in another tab or on another device
+export function RemoteChangeNotice({ notice, onReload, dark = false }: RemoteChangeNoticeProps) {
+  return (
+    <div className={cn(
+      'flex items-center gap-3 px-4 py-2 text-sm',
+      dark ? 'bg-amber-500/10 text-amber-300 border-b border-amber-500/30' : 'bg-amber-50 text-amber-800 border-b border-amber-200'
+    )}>
+      <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+      <span className="flex-1">
+        {notice === 'deleted'
+          ? 'This trade was deleted on another device or tab.'
+          : 'This trade was changed on another device or tab.'}
+      </span>
+      {notice === 'updated' && onReload && (
+        <button
+          type="button"
+          onClick={onReload}
+          className={cn(
+            'flex items-center gap-1 px-2 py-1 rounded font-medium transition-colors',
+            dark ? 'hover:bg-amber-500/20' : 'hover:bg-amber-100'
+          )}
+        >
+          <RefreshCw className="w-3.5 h-3.5" />
+          Show latest
+        </button>
+      )}
+    </div>
+  );
+}
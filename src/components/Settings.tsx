@@ -1,19 +1,49 @@
 import { useState, useEffect } from 'react';
-import { Save, Database, Key, Globe, Bell, Shield, CheckCircle, Trash2 } from 'lucide-react';
-import { CREATE_TABLE_SQL } from '../lib/supabase';
+import { Save, Database, Key, Globe, Bell, Shield, CheckCircle, Trash2, Wallet, Plus, Copy, RefreshCw, AlertTriangle, Filter } from 'lucide-react';
+import type { Account, AccountType, Trade } from '../types/trade';
+import type { TradeUpdate } from '../lib/tradeRepository';
+import { fetchSchemaStatus, combineMigrations, formatMigrationName, LATEST_SCHEMA_VERSION, type SchemaStatus } from '../lib/migrations';
+import { formatCurrency } from '../utils/currency';
+import { useCashTransactions } from '../hooks/useCashTransactions';
+import { TagRules } from './TagRules';
 
 interface SettingsProps {
   onClearData?: () => void;
+  accounts?: Account[];
+  onAddAccount?: (account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  onDeleteAccount?: (id: string) => void;
+  trades?: Trade[];
+  onBulkUpdateTrades?: (changes: TradeUpdate[]) => Promise<unknown>;
+  loadingHistory?: boolean; // part of the journal is still downloading
 }
 
-export function Settings({ onClearData }: SettingsProps) {
+const emptyAccountForm = {
+  name: '',
+  broker: '',
+  baseCurrency: 'USD',
+  startingBalance: '',
+  type: 'live' as AccountType,
+};
+
+export function Settings({ onClearData, accounts = [], onAddAccount, onDeleteAccount, trades = [], onBulkUpdateTrades, loadingHistory = false }: SettingsProps) {
   const [supabaseUrl, setSupabaseUrl] = useState('');
   const [supabaseKey, setSupabaseKey] = useState('');
   const [currency, setCurrency] = useState('USD');
   const [timezone, setTimezone] = useState(Intl.DateTimeFormat().resolvedOptions().timeZone);
   const [notifications, setNotifications] = useState(true);
+  const [excludeEstimated, setExcludeEstimated] = useState(false);
   const [showSaved, setShowSaved] = useState(false);
-  const [showSQL, setShowSQL] = useState(false);
+  const [schemaStatus, setSchemaStatus] = useState<SchemaStatus | null>(null);
+  const [checkingSchema, setCheckingSchema] = useState(true);
+  const [openMigration, setOpenMigration] = useState<number | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [accountForm, setAccountForm] = useState(emptyAccountForm);
+  const { transactions: cashTransactions } = useCashTransactions();
+
+  // Deposits minus withdrawals imported from broker statements
+  const netDeposits = (accountId: string) => cashTransactions
+    .filter(transaction => transaction.accountId === accountId && transaction.type !== 'credit')
+    .reduce((sum, transaction) => sum + transaction.amount, 0);
 
   useEffect(() => {
     // Load saved settings
@@ -22,20 +52,43 @@ export function Settings({ onClearData }: SettingsProps) {
     const savedCurrency = localStorage.getItem('currency') || 'USD';
     const savedTimezone = localStorage.getItem('timezone') || Intl.DateTimeFormat().resolvedOptions().timeZone;
     const savedNotifications = localStorage.getItem('notifications') !== 'false';
+    const savedExcludeEstimated = localStorage.getItem('exclude_estimated') === 'true';
 
     setSupabaseUrl(savedUrl);
     setSupabaseKey(savedKey);
     setCurrency(savedCurrency);
     setTimezone(savedTimezone);
     setNotifications(savedNotifications);
+    setExcludeEstimated(savedExcludeEstimated);
   }, []);
 
+  const checkSchema = async () => {
+    setCheckingSchema(true);
+    setSchemaStatus(await fetchSchemaStatus());
+    setCheckingSchema(false);
+  };
+
+  useEffect(() => {
+    checkSchema();
+  }, []);
+
+  const copySQL = async (key: string, sql: string) => {
+    try {
+      await navigator.clipboard.writeText(sql);
+      setCopied(key);
+      setTimeout(() => setCopied(current => (current === key ? null : current)), 2000);
+    } catch (error) {
+      console.error('Error copying SQL:', error);
+    }
+  };
+
   const handleSave = () => {
     localStorage.setItem('supabase_url', supabaseUrl);
     localStorage.setItem('supabase_key', supabaseKey);
     localStorage.setItem('currency', currency);
     localStorage.setItem('timezone', timezone);
     localStorage.setItem('notifications', String(notifications));
+    localStorage.setItem('exclude_estimated', String(excludeEstimated));
 
     // Dispatch event to update other components
     window.dispatchEvent(new Event('settings-changed'));
@@ -44,6 +97,26 @@ export function Settings({ onClearData }: SettingsProps) {
     setTimeout(() => setShowSaved(false), 3000);
   };
 
+  const handleAddAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onAddAccount || !accountForm.name.trim()) return;
+
+    onAddAccount({
+      name: accountForm.name.trim(),
+      broker: accountForm.broker.trim(),
+      baseCurrency: accountForm.baseCurrency,
+      startingBalance: parseFloat(accountForm.startingBalance) || 0,
+      type: accountForm.type,
+    });
+    setAccountForm(emptyAccountForm);
+  };
+
+  const accountTypeLabels: Record<AccountType, string> = {
+    live: 'Live',
+    demo: 'Demo',
+    prop: 'Prop Challenge',
+  };
+
   const timezones = [
     'UTC',
     'America/New_York',
@@ -124,31 +197,233 @@ export function Settings({ onClearData }: SettingsProps) {
             </div>
           </div>
 
-          <div className="pt-2">
-            <button
-              onClick={() => setShowSQL(!showSQL)}
-              className="text-sm text-emerald-600 hover:text-emerald-700 font-medium"
-            >
-              {showSQL ? 'Hide' : 'Show'} SQL setup script
-            </button>
-
-            {showSQL && (
-              <div className="mt-3 p-4 bg-slate-900 rounded-lg overflow-x-auto">
-                <pre className="text-sm text-slate-300 whitespace-pre-wrap">
-                  {CREATE_TABLE_SQL}
-                </pre>
-              </div>
-            )}
-          </div>
-
           <div className="p-4 bg-blue-50 rounded-lg">
             <p className="text-sm text-blue-700">
-              <strong>Note:</strong> Currently using local storage. Configure Supabase credentials above and run the SQL script in your Supabase dashboard to enable cloud storage.
+              <strong>Note:</strong> Currently using local storage. Configure Supabase credentials above and run the pending migrations below in your Supabase SQL editor to enable cloud storage.
             </p>
           </div>
         </div>
       </div>
 
+      {/* Database Status */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center">
+              <Database className="w-5 h-5 text-purple-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900">Database Status</h2>
+              <p className="text-sm text-slate-500">Schema version and pending migrations</p>
+            </div>
+          </div>
+          <button
+            onClick={checkSchema}
+            disabled={checkingSchema}
+            className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+            title="Check again"
+          >
+            <RefreshCw className={`w-5 h-5 ${checkingSchema ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {checkingSchema && !schemaStatus ? (
+            <p className="text-sm text-slate-500">Checking database...</p>
+          ) : !schemaStatus ? (
+            <div className="flex items-center gap-3 p-4 bg-red-50 rounded-lg">
+              <AlertTriangle className="w-5 h-5 text-red-500" />
+              <p className="text-sm text-red-700">Could not read the schema version. Check the connection and try again.</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="bg-slate-50 rounded-lg p-4">
+                  <p className="text-2xl font-bold text-slate-900">{schemaStatus.currentVersion || '—'}</p>
+                  <p className="text-sm text-slate-500">current version</p>
+                </div>
+                <div className="bg-slate-50 rounded-lg p-4">
+                  <p className="text-2xl font-bold text-slate-900">{LATEST_SCHEMA_VERSION}</p>
+                  <p className="text-sm text-slate-500">latest version</p>
+                </div>
+              </div>
+
+              {schemaStatus.legacySchema && (
+                <div className="flex items-start gap-3 p-4 bg-amber-50 rounded-lg">
+                  <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />
+                  <p className="text-sm text-amber-700">
+                    This database was set up before schema versioning. The migrations are safe to run on it: run them all once to start tracking its version.
+                  </p>
+                </div>
+              )}
+
+              {schemaStatus.pending.length === 0 ? (
+                <div className="flex items-center gap-3 p-4 bg-emerald-50 rounded-lg">
+                  <CheckCircle className="w-5 h-5 text-emerald-500" />
+                  <p className="text-sm text-emerald-700">The database schema is up to date.</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-slate-700">
+                      {schemaStatus.pending.length} pending migration{schemaStatus.pending.length > 1 ? 's' : ''}
+                    </p>
+                    <button
+                      onClick={() => copySQL('all', combineMigrations(schemaStatus.pending))}
+                      className="flex items-center gap-2 text-sm text-emerald-600 hover:text-emerald-700 font-medium"
+                    >
+                      <Copy className="w-4 h-4" />
+                      {copied === 'all' ? 'Copied!' : 'Copy all pending'}
+                    </button>
+                  </div>
+                  {schemaStatus.pending.map(migration => (
+                    <div key={migration.version} className="border border-slate-200 rounded-lg">
+                      <div className="flex items-center justify-between px-4 py-2">
+                        <button
+                          onClick={() => setOpenMigration(openMigration === migration.version ? null : migration.version)}
+                          className="text-sm font-mono text-slate-700 hover:text-slate-900"
+                        >
+                          {formatMigrationName(migration)}.sql
+                        </button>
+                        <button
+                          onClick={() => copySQL(migration.name, migration.sql)}
+                          className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-700"
+                        >
+                          <Copy className="w-3 h-3" />
+                          {copied === migration.name ? 'Copied!' : 'Copy'}
+                        </button>
+                      </div>
+                      {openMigration === migration.version && (
+                        <div className="p-4 bg-slate-900 rounded-b-lg overflow-x-auto">
+                          <pre className="text-sm text-slate-300 whitespace-pre-wrap">{migration.sql}</pre>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  <p className="text-xs text-slate-400">
+                    Run them in order in the Supabase SQL editor, then check again.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Trading Accounts */}
+      {onAddAccount && (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-6 border-b border-slate-200">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-emerald-100 rounded-lg flex items-center justify-center">
+                <Wallet className="w-5 h-5 text-emerald-600" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-slate-900">Trading Accounts</h2>
+                <p className="text-sm text-slate-500">Manage your broker, prop and demo accounts</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {accounts.length > 0 ? (
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                {accounts.map((account) => (
+                  <div key={account.id} className="flex items-center justify-between px-4 py-3">
+                    <div>
+                      <p className="font-medium text-slate-900">{account.name}</p>
+                      <p className="text-sm text-slate-500">
+                        {[account.broker, accountTypeLabels[account.type], account.baseCurrency].filter(Boolean).join(' • ')}
+                        {' • '}Start: {formatCurrency(account.startingBalance, account.baseCurrency)}
+                        {netDeposits(account.id) !== 0 && (
+                          <>{' • '}Net deposits: {formatCurrency(netDeposits(account.id), account.baseCurrency)}</>
+                        )}
+                      </p>
+                    </div>
+                    {onDeleteAccount && (
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`Supprimer le compte "${account.name}" ? Les trades associés ne seront pas supprimés.`)) {
+                            onDeleteAccount(account.id);
+                          }
+                        }}
+                        className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500">No accounts yet. Trades without an account are shown under "All accounts".</p>
+            )}
+
+            <form onSubmit={handleAddAccount} className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-2">
+              <input
+                type="text"
+                value={accountForm.name}
+                onChange={(e) => setAccountForm({ ...accountForm, name: e.target.value })}
+                placeholder="Account name"
+                required
+                className="px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+              <input
+                type="text"
+                value={accountForm.broker}
+                onChange={(e) => setAccountForm({ ...accountForm, broker: e.target.value })}
+                placeholder="Broker"
+                className="px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+              <select
+                value={accountForm.type}
+                onChange={(e) => setAccountForm({ ...accountForm, type: e.target.value as AccountType })}
+                className="px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                {(Object.keys(accountTypeLabels) as AccountType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {accountTypeLabels[type]}
+                  </option>
+                ))}
+              </select>
+              <div className="flex gap-2">
+                <select
+                  value={accountForm.baseCurrency}
+                  onChange={(e) => setAccountForm({ ...accountForm, baseCurrency: e.target.value })}
+                  className="px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                >
+                  {currencies.map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  value={accountForm.startingBalance}
+                  onChange={(e) => setAccountForm({ ...accountForm, startingBalance: e.target.value })}
+                  placeholder="Starting balance"
+                  className="flex-1 min-w-0 px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                />
+              </div>
+              <div className="md:col-span-2 flex justify-end">
+                <button
+                  type="submit"
+                  className="flex items-center gap-2 px-4 py-2 border border-emerald-300 text-emerald-700 rounded-lg hover:bg-emerald-50 transition-colors font-medium"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Account
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Tagging Rules */}
+      <TagRules trades={trades} onBulkUpdateTrades={onBulkUpdateTrades} loadingHistory={loadingHistory} />
+
       {/* General Settings */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
         <div className="p-6 border-b border-slate-200">
@@ -219,6 +494,26 @@ export function Settings({ onClearData }: SettingsProps) {
               />
             </button>
           </div>
+
+          <div className="flex items-center justify-between py-3 border-t border-slate-100">
+            <div className="flex items-center gap-3">
+              <Filter className="w-5 h-5 text-slate-400" />
+              <div>
+                <p className="font-medium text-slate-900">Exclude estimated trades</p>
+                <p className="text-sm text-slate-500">Leave imported trades with guessed values (e.g. entry time) out of analytics</p>
+              </div>
+            </div>
+            <button
+              onClick={() => setExcludeEstimated(!excludeEstimated)}
+              className={`relative w-12 h-6 rounded-full transition-colors ${excludeEstimated ? 'bg-emerald-500' : 'bg-slate-300'
+                }`}
+            >
+              <span
+                className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${excludeEstimated ? 'left-7' : 'left-1'
+                  }`}
+              />
+            </button>
+          </div>
         </div>
       </div>
 
@@ -287,10 +582,12 @@ export function Settings({ onClearData }: SettingsProps) {
 function exportData() {
   const data = {
     trades: JSON.parse(localStorage.getItem('tradezella_trades') || '[]'),
+    accounts: JSON.parse(localStorage.getItem('tradezella_accounts') || '[]'),
     playbook: JSON.parse(localStorage.getItem('tradezella_playbook') || '[]'),
     settings: {
       currency: localStorage.getItem('currency'),
       timezone: localStorage.getItem('timezone'),
+      excludeEstimated: localStorage.getItem('exclude_estimated'),
     },
     exportedAt: new Date().toISOString(),
   };
@@ -314,7 +611,7 @@ function exportTrades() {
     return;
   }
 
-  const headers = ['Symbol', 'Direction', 'Entry Price', 'Exit Price', 'Units', 'Entry Time', 'Exit Time', 'Stop Loss', 'Take Profit', 'P&L', 'Status', 'Notes'];
+  const headers = ['Symbol', 'Direction', 'Entry Price', 'Exit Price', 'Units', 'Entry Time', 'Exit Time', 'Stop Loss', 'Take Profit', 'Gross P&L', 'Commission', 'Swap', 'Fees', 'P&L', 'Status', 'Notes'];
   const rows = trades.map((t: Record<string, unknown>) => [
     t.symbol,
     t.direction,
@@ -325,6 +622,10 @@ function exportTrades() {
     t.exitTime || '',
     t.stopLoss || '',
     t.takeProfit || '',
+    t.grossPnl ?? '',
+    t.commission || 0,
+    t.swap || 0,
+    t.fees || 0,
     t.pnl || '',
     t.status,
     (t.notes as string || '').replace(/,/g, ';'),
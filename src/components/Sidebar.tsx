@@ -8,16 +8,36 @@ import {
   Calendar,
   Target,
   Search,
-  LogOut
+  LogOut,
+  Wallet,
+  Cloud,
+  CloudOff,
+  RefreshCw,
+  AlertTriangle
 } from 'lucide-react';
+import type { Account } from '../types/trade';
+import type { SyncState } from '../lib/syncQueue';
 import { cn } from '../utils/cn';
 import { supabase } from '../lib/supabase';
 
 interface SidebarProps {
   currentPage: string;
   onPageChange: (page: string) => void;
+  accounts?: Account[];
+  selectedAccountId?: string;
+  onAccountChange?: (accountId: string) => void;
+  syncState?: SyncState;
+  onDismissSyncErrors?: () => void;
 }
 
+const syncStatusDisplay = {
+  synced: { label: 'All changes synced', icon: Cloud, className: 'text-emerald-400' },
+  pending: { label: 'Waiting to sync', icon: Cloud, className: 'text-amber-400' },
+  syncing: { label: 'Syncing...', icon: RefreshCw, className: 'text-cyan-400' },
+  offline: { label: 'Offline', icon: CloudOff, className: 'text-slate-400' },
+  error: { label: 'Sync failed, retrying', icon: AlertTriangle, className: 'text-red-400' },
+};
+
 const menuItems = [
   { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { id: 'journal', label: 'Journal', icon: BookOpen },
@@ -29,7 +49,9 @@ const menuItems = [
   { id: 'settings', label: 'Settings', icon: Settings },
 ];
 
-export function Sidebar({ currentPage, onPageChange }: SidebarProps) {
+export function Sidebar({ currentPage, onPageChange, accounts = [], selectedAccountId = 'all', onAccountChange, syncState, onDismissSyncErrors }: SidebarProps) {
+  const syncDisplay = syncState ? syncStatusDisplay[syncState.status] : null;
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
   };
@@ -49,6 +71,28 @@ export function Sidebar({ currentPage, onPageChange }: SidebarProps) {
         </div>
       </div>
 
+      {/* Account Switcher */}
+      {onAccountChange && (
+        <div className="px-4 pt-4">
+          <label className="block text-xs text-slate-400 mb-1">Account</label>
+          <div className="relative">
+            <Wallet className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
+            <select
+              value={selectedAccountId}
+              onChange={(e) => onAccountChange(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            >
+              <option value="all">All accounts</option>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}{account.broker ? ` (${account.broker})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
       {/* Navigation */}
       <nav className="flex-1 p-4 space-y-1">
         {menuItems.map((item) => {
@@ -74,6 +118,39 @@ export function Sidebar({ currentPage, onPageChange }: SidebarProps) {
       </nav>
 
       <div className="p-4 border-t border-slate-700 space-y-4">
+        {syncState && syncDisplay && (
+          <div
+            className="flex items-center gap-2 px-4 text-xs"
+            title={syncState.status === 'error' && syncState.lastError
+              ? syncState.lastError
+              : syncState.lastSyncedAt ? `Last synced ${new Date(syncState.lastSyncedAt).toLocaleString()}` : undefined}
+          >
+            <syncDisplay.icon className={cn('w-4 h-4', syncDisplay.className, syncState.status === 'syncing' && 'animate-spin')} />
+            <span className="text-slate-300">
+              {syncState.loadingHistory ? 'Downloading trade history...' : syncDisplay.label}
+            </span>
+            {syncState.pendingCount > 0 && (
+              <span className="ml-auto px-2 py-0.5 rounded-full bg-slate-800 text-slate-300">
+                {syncState.pendingCount} pending
+              </span>
+            )}
+          </div>
+        )}
+
+        {syncState && syncState.rejectedCount > 0 && (
+          <div className="flex items-start gap-2 px-4 text-xs text-red-400" title={syncState.lastError || undefined}>
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <span>
+              {syncState.rejectedCount} change{syncState.rejectedCount > 1 ? 's' : ''} not synced: refused by the server or made on an outdated trade
+            </span>
+            {onDismissSyncErrors && (
+              <button onClick={onDismissSyncErrors} className="ml-auto text-slate-400 hover:text-white">
+                Dismiss
+              </button>
+            )}
+          </div>
+        )}
+
         <button
           onClick={handleSignOut}
           className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-slate-300 hover:bg-red-500/10 hover:text-red-400 transition-all duration-200"
@@ -0,0 +1,388 @@
+import { useState, useMemo } from 'react';
+import { Tags, Plus, Trash2, Pencil, Play, CheckCircle } from 'lucide-react';
+import type { Trade } from '../types/trade';
+import type { TradeUpdate } from '../lib/tradeRepository';
+import {
+  RULE_FIELDS,
+  RULE_OPERATORS,
+  TRADING_SESSIONS,
+  WEEKDAYS,
+  loadTagRules,
+  previewTagRules,
+  ruleMatches,
+  saveTagRules,
+  type RuleCondition,
+  type RuleField,
+  type RuleOperator,
+  type TagRule,
+} from '../lib/tagRules';
+import { TRADE_STRATEGIES } from '../utils/strategies';
+
+interface TagRulesProps {
+  trades?: Trade[];
+  onBulkUpdateTrades?: (changes: TradeUpdate[]) => Promise<unknown>;
+  // While the history downloads, the journal is incomplete: rules can't run over it yet
+  loadingHistory?: boolean;
+}
+
+const newCondition = (): RuleCondition => ({ field: 'symbol', operator: 'matches', value: '' });
+
+const emptyRule = (): TagRule => ({
+  id: crypto.randomUUID(),
+  name: '',
+  enabled: true,
+  conditions: [newCondition()],
+  tags: [],
+  createdAt: new Date().toISOString(),
+});
+
+const fieldLabels = Object.fromEntries(RULE_FIELDS.map(({ field, label }) => [field, label])) as Record<RuleField, string>;
+
+// Ids shown with their labels: "london,newyork" -> "London, New York"
+function conditionValueLabel({ field, value }: RuleCondition): string {
+  const ids = value.split(',').map(item => item.trim()).filter(Boolean);
+  if (field === 'session') return ids.map(id => TRADING_SESSIONS.find(session => session.id === id)?.label || id).join(', ');
+  if (field === 'weekday') return ids.map(day => WEEKDAYS[Number(day)] || day).join(', ');
+  return value;
+}
+
+function describeRule(rule: TagRule): string {
+  const conditions = rule.conditions
+    .map(condition => `${fieldLabels[condition.field]} ${RULE_OPERATORS[condition.operator]} ${conditionValueLabel(condition)}`)
+    .join(' and ');
+  const actions = [
+    rule.tags.length > 0 && `tag ${rule.tags.join(', ')}`,
+    rule.strategy && `strategy ${rule.strategy}`,
+  ].filter(Boolean).join(', ');
+  return `${conditions || 'No condition'} → ${actions || 'nothing'}`;
+}
+
+const inputClass = 'px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+export function TagRules({ trades = [], onBulkUpdateTrades, loadingHistory = false }: TagRulesProps) {
+  const [rules, setRules] = useState<TagRule[]>(loadTagRules);
+  const [draft, setDraft] = useState<TagRule | null>(null);
+  const [tagsText, setTagsText] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [appliedCount, setAppliedCount] = useState<number | null>(null);
+
+  const changes = useMemo(() => (showPreview ? previewTagRules(trades, rules) : []), [showPreview, trades, rules]);
+  const draftMatches = useMemo(
+    () => (draft ? trades.filter(trade => ruleMatches(trade, { ...draft, enabled: true })).length : 0),
+    [draft, trades]
+  );
+
+  const updateRules = (next: TagRule[]) => {
+    setRules(next);
+    saveTagRules(next);
+    setAppliedCount(null);
+  };
+
+  const editRule = (rule: TagRule) => {
+    setDraft(rule);
+    setTagsText(rule.tags.join(', '));
+  };
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    const saved = { ...draft, name: draft.name.trim(), tags: tagsText.split(',').map(tag => tag.trim()).filter(Boolean) };
+    updateRules(rules.some(rule => rule.id === saved.id)
+      ? rules.map(rule => (rule.id === saved.id ? saved : rule))
+      : [...rules, saved]);
+    setDraft(null);
+  };
+
+  const updateCondition = (index: number, updates: Partial<RuleCondition>) => {
+    if (!draft) return;
+    setDraft({ ...draft, conditions: draft.conditions.map((condition, i) => (i === index ? { ...condition, ...updates } : condition)) });
+  };
+
+  // A new field starts with its first operator and no value
+  const changeField = (index: number, field: RuleField) => {
+    const operators = RULE_FIELDS.find(candidate => candidate.field === field)?.operators || [];
+    updateCondition(index, { field, operator: operators[0], value: '' });
+  };
+
+  const toggleListValue = (index: number, condition: RuleCondition, id: string) => {
+    const ids = condition.value.split(',').filter(Boolean);
+    const next = ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+    updateCondition(index, { value: next.join(',') });
+  };
+
+  const applyChanges = async () => {
+    if (!onBulkUpdateTrades || loadingHistory || changes.length === 0) return;
+    if (!confirm(`Update ${changes.length} trades with the tags and strategies of your rules?`)) return;
+
+    setApplying(true);
+    try {
+      await onBulkUpdateTrades(changes.map(({ trade, tags, strategy }) => ({
+        id: trade.id,
+        updates: {
+          ...(tags.length > 0 && { tags: [...trade.tags, ...tags] }),
+          ...(strategy !== null && { strategy }),
+        },
+      })));
+      setAppliedCount(changes.length);
+      setShowPreview(false);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-200 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-emerald-100 rounded-lg flex items-center justify-center">
+            <Tags className="w-5 h-5 text-emerald-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Tagging Rules</h2>
+            <p className="text-sm text-slate-500">Tag trades and set their strategy on import, or over the whole journal</p>
+          </div>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => editRule(emptyRule())}
+            className="flex items-center gap-2 px-4 py-2 border border-emerald-300 text-emerald-700 rounded-lg hover:bg-emerald-50 transition-colors font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            Add Rule
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-4">
+        {rules.length > 0 ? (
+          <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <label className="flex items-start gap-3 min-w-0 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRules(rules.map(r => (r.id === rule.id ? { ...r, enabled: e.target.checked } : r)))}
+                    className="mt-1 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500 w-4 h-4"
+                  />
+                  <div className="min-w-0">
+                    <p className={`font-medium ${rule.enabled ? 'text-slate-900' : 'text-slate-400'}`}>{rule.name}</p>
+                    <p className="text-sm text-slate-500 truncate">{describeRule(rule)}</p>
+                  </div>
+                </label>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => editRule(rule)}
+                    className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => updateRules(rules.filter(r => r.id !== rule.id))}
+                    className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">No rules yet. Imported trades only get the tags of their platform.</p>
+        )}
+
+        {draft && (
+          <div className="border border-emerald-200 bg-emerald-50/40 rounded-lg p-4 space-y-4">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Rule name"
+              className={`w-full ${inputClass}`}
+            />
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-slate-700">When all of these hold</p>
+              {draft.conditions.map((condition, index) => {
+                const field = RULE_FIELDS.find(candidate => candidate.field === condition.field) || RULE_FIELDS[0];
+                return (
+                  <div key={index} className="flex flex-wrap items-center gap-2">
+                    <select value={condition.field} onChange={(e) => changeField(index, e.target.value as RuleField)} className={inputClass}>
+                      {RULE_FIELDS.map(option => (
+                        <option key={option.field} value={option.field}>{option.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={condition.operator}
+                      onChange={(e) => updateCondition(index, { operator: e.target.value as RuleOperator })}
+                      className={inputClass}
+                    >
+                      {field.operators.map(operator => (
+                        <option key={operator} value={operator}>{RULE_OPERATORS[operator]}</option>
+                      ))}
+                    </select>
+                    {condition.field === 'session' || condition.field === 'weekday' ? (
+                      <div className="flex flex-wrap gap-3">
+                        {(condition.field === 'session'
+                          ? TRADING_SESSIONS.map(session => ({ id: session.id, label: session.label }))
+                          : WEEKDAYS.map((day, dayIndex) => ({ id: String(dayIndex), label: day.slice(0, 3) }))
+                        ).map(option => (
+                          <label key={option.id} className="flex items-center gap-1 text-sm text-slate-700 cursor-pointer select-none">
+                            <input
+                              type="checkbox"
+                              checked={condition.value.split(',').includes(option.id)}
+                              onChange={() => toggleListValue(index, condition, option.id)}
+                              className="rounded border-slate-300 text-emerald-600 focus:ring-emerald-500 w-4 h-4"
+                            />
+                            {option.label}
+                          </label>
+                        ))}
+                      </div>
+                    ) : (
+                      <input
+                        type={condition.field === 'symbol' ? 'text' : 'number'}
+                        step="any"
+                        value={condition.value}
+                        onChange={(e) => updateCondition(index, { value: e.target.value })}
+                        placeholder={field.hint}
+                        title={field.hint}
+                        className={`flex-1 min-w-40 ${inputClass}`}
+                      />
+                    )}
+                    <button
+                      onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, i) => i !== index) })}
+                      className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+              <button
+                onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, newCondition()] })}
+                className="flex items-center gap-1 text-sm text-emerald-600 hover:text-emerald-700 font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                Add condition
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Add tags</label>
+                <input
+                  type="text"
+                  value={tagsText}
+                  onChange={(e) => setTagsText(e.target.value)}
+                  placeholder="London open, A+ setup"
+                  className={`w-full ${inputClass}`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Set strategy</label>
+                <select
+                  value={draft.strategy || ''}
+                  onChange={(e) => setDraft({ ...draft, strategy: e.target.value || undefined })}
+                  className={`w-full ${inputClass}`}
+                >
+                  <option value="">Keep the trade's strategy</option>
+                  {TRADE_STRATEGIES.map(strategy => (
+                    <option key={strategy} value={strategy}>{strategy}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-slate-500">Matches {draftMatches} of {trades.length} trades in the journal</p>
+              <div className="flex gap-2">
+                <button onClick={() => setDraft(null)} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+                  Cancel
+                </button>
+                <button
+                  onClick={saveDraft}
+                  disabled={!draft.name.trim() || draft.conditions.length === 0}
+                  className="px-4 py-2 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+                >
+                  Save Rule
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Running the rules over the journal, after a look at what would change */}
+        {onBulkUpdateTrades && rules.length > 0 && (
+          <div className="pt-2 space-y-3">
+            {appliedCount !== null && (
+              <div className="flex items-center gap-3 p-4 bg-emerald-50 rounded-lg">
+                <CheckCircle className="w-5 h-5 text-emerald-500" />
+                <p className="text-sm text-emerald-700">{appliedCount} trades updated.</p>
+              </div>
+            )}
+
+            {loadingHistory && (
+              <p className="text-sm text-slate-500">
+                The journal is still downloading; rules can be applied once it is complete.
+              </p>
+            )}
+
+            {!showPreview ? (
+              <button
+                onClick={() => {
+                  setShowPreview(true);
+                  setAppliedCount(null);
+                }}
+                disabled={loadingHistory}
+                className="flex items-center gap-2 text-sm text-emerald-600 hover:text-emerald-700 font-medium disabled:opacity-50"
+              >
+                <Play className="w-4 h-4" />
+                Preview rules on the journal
+              </button>
+            ) : changes.length === 0 ? (
+              <div className="flex items-center justify-between p-4 bg-slate-50 rounded-lg">
+                <p className="text-sm text-slate-600">The rules would not change any trade.</p>
+                <button onClick={() => setShowPreview(false)} className="text-sm text-slate-500 hover:text-slate-700">Close</button>
+              </div>
+            ) : (
+              <div className="border border-slate-200 rounded-lg">
+                <div className="flex items-center justify-between px-4 py-3 bg-slate-50 border-b border-slate-200">
+                  <p className="text-sm font-medium text-slate-700">{changes.length} trades would change</p>
+                  <div className="flex gap-2">
+                    <button onClick={() => setShowPreview(false)} className="px-3 py-1 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">
+                      Cancel
+                    </button>
+                    <button
+                      onClick={applyChanges}
+                      disabled={applying || loadingHistory}
+                      className="px-3 py-1 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+                    >
+                      {applying ? 'Applying...' : `Apply to ${changes.length} trades`}
+                    </button>
+                  </div>
+                </div>
+                <div className="max-h-64 overflow-y-auto divide-y divide-slate-100">
+                  {changes.slice(0, 50).map(({ trade, tags, strategy }) => (
+                    <div key={trade.id} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                      <span className="text-slate-700">
+                        {new Date(trade.entryTime).toLocaleDateString()} · {trade.symbol}
+                      </span>
+                      <span className="text-slate-500 text-right">
+                        {tags.length > 0 && <span className="text-emerald-700">+ {tags.join(', ')}</span>}
+                        {tags.length > 0 && strategy !== null && ' · '}
+                        {strategy !== null && <>strategy {strategy}</>}
+                      </span>
+                    </div>
+                  ))}
+                  {changes.length > 50 && (
+                    <p className="px-4 py-2 text-sm text-slate-500">+ {changes.length - 50} more trades</p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
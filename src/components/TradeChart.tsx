@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from 'react';
 import { createChart, IChartApi, CandlestickData, LineStyle, CandlestickSeries } from 'lightweight-charts';
 import { Trade } from '../types/trade';
+import { sortExecutions } from '../utils/executions';
 import { Loader2, AlertCircle, TrendingUp, TrendingDown, Target, Shield, DollarSign } from 'lucide-react';
 
 interface TradeChartProps {
@@ -231,24 +232,41 @@ export default function TradeChart({ trade }: TradeChartProps) {
     const markers: any[] = [];
     const entryTimeMs = Math.floor(new Date(trade.entryTime).getTime() / 1000);
     
-    // Trouver la bougie la plus proche de l'entrée
-    const entryCandle = chartData.reduce((prev, curr) => 
-      Math.abs((curr.time as number) - entryTimeMs) < Math.abs((prev.time as number) - entryTimeMs) ? curr : prev
-    );
 
-    markers.push({
-      time: entryCandle.time,
-      position: isLong ? 'belowBar' : 'aboveBar',
-      color: '#3b82f6',
-      shape: isLong ? 'arrowUp' : 'arrowDown',
-      text: `Entry @ ${entryPrice.toFixed(trade.symbol.includes('JPY') ? 3 : 5)}`,
-    });
+    // Trouver la bougie la plus proche d'un instant donné
+    const findCandle = (timeSec: number) => chartData.reduce((prev, curr) =>
+      Math.abs((curr.time as number) - timeSec) < Math.abs((prev.time as number) - timeSec) ? curr : prev
+    );
+    const entryCandle = findCandle(entryTimeMs);
+
+    if (trade.executions && trade.executions.length > 0) {
+      // Un marqueur par exécution (entrées multiples, sorties partielles)
+      const entrySide = isLong ? 'buy' : 'sell';
+      for (const fill of sortExecutions(trade.executions)) {
+        const isEntryFill = fill.side === entrySide;
+        markers.push({
+          time: findCandle(Math.floor(new Date(fill.time).getTime() / 1000)).time,
+          position: fill.side === 'buy' ? 'belowBar' : 'aboveBar',
+          color: isEntryFill ? '#3b82f6' : isWin ? '#22c55e' : '#ef4444',
+          shape: fill.side === 'buy' ? 'arrowUp' : 'arrowDown',
+          text: `${fill.side === 'buy' ? 'Buy' : 'Sell'} ${fill.quantity.toLocaleString()} @ ${fill.price.toFixed(trade.symbol.includes('JPY') ? 3 : 5)}`,
+        });
+      }
+      // Les marqueurs doivent être triés par temps
+      markers.sort((a, b) => (a.time as number) - (b.time as number));
+    } else {
+      markers.push({
+        time: entryCandle.time,
+        position: isLong ? 'belowBar' : 'aboveBar',
+        color: '#3b82f6',
+        shape: isLong ? 'arrowUp' : 'arrowDown',
+        text: `Entry @ ${entryPrice.toFixed(trade.symbol.includes('JPY') ? 3 : 5)}`,
+      });
+    }
 
-    if (trade.exitTime && trade.status === 'closed') {
+    if (trade.exitTime && trade.status === 'closed' && !(trade.executions && trade.executions.length > 0)) {
       const exitTimeMs = Math.floor(new Date(trade.exitTime).getTime() / 1000);
-      const exitCandle = chartData.reduce((prev, curr) => 
-        Math.abs((curr.time as number) - exitTimeMs) < Math.abs((prev.time as number) - exitTimeMs) ? curr : prev
-      );
+      const exitCandle = findCandle(exitTimeMs);
 
       markers.push({
         time: exitCandle.time,
@@ -1,9 +1,15 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Trade } from '../types/trade';
 import { TradingViewChart } from './TradingViewChart';
+import { summarizeExecutions, sortExecutions } from '../utils/executions';
+import { useAttachmentUrls } from '../hooks/useAttachmentUrls';
+import { RemoteChangeNotice } from './RemoteChangeNotice';
 import { 
   X, 
   Edit2,
+  Layers,
+  ChevronLeft,
+  ChevronRight,
   Trash2,
   Tag,
   FileText,
@@ -19,6 +25,8 @@ interface TradeDetailsProps {
   onClose: () => void;
   onEdit: (trade: Trade) => void;
   onDelete: (tradeId: string) => void;
+  remoteNotice?: 'updated' | 'deleted' | null;
+  onReloadTrade?: () => void;
 }
 
 interface Position {
@@ -36,6 +44,8 @@ export const TradeDetails: React.FC<TradeDetailsProps> = ({
   onClose,
   onEdit,
   onDelete,
+  remoteNotice,
+  onReloadTrade,
 }) => {
   const [isMaximized, setIsMaximized] = useState(false);
   const [position, setPosition] = useState<Position>({ x: 0, y: 0 });
@@ -45,9 +55,14 @@ export const TradeDetails: React.FC<TradeDetailsProps> = ({
   const [dragStart, setDragStart] = useState<Position>({ x: 0, y: 0 });
   const [resizeStart, setResizeStart] = useState<{ x: number; y: number; width: number; height: number }>({ x: 0, y: 0, width: 0, height: 0 });
   
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  
   const containerRef = useRef<HTMLDivElement>(null);
   const modalRef = useRef<HTMLDivElement>(null);
 
+  const screenshots = trade.screenshots || [];
+  const screenshotUrls = useAttachmentUrls(screenshots);
+
   // Initialize position to center
   useEffect(() => {
     if (typeof window !== 'undefined' && !isMaximized) {
@@ -141,10 +156,15 @@ export const TradeDetails: React.FC<TradeDetailsProps> = ({
     toggleMaximize();
   };
 
+  const executions = trade.executions ? sortExecutions(trade.executions) : [];
+  const executionSummary = summarizeExecutions(executions, trade.direction);
+  const priceDigits = trade.symbol.includes('JPY') ? 3 : 5;
+
   const hasAdditionalInfo = (trade.tags && trade.tags.length > 0) || 
                             trade.strategy || 
                             trade.notes || 
-                            (trade.screenshots && trade.screenshots.length > 0);
+                            (trade.screenshots && trade.screenshots.length > 0) ||
+                            executions.length > 0;
 
   const modalStyle = isMaximized 
     ? {
@@ -257,6 +277,10 @@ export const TradeDetails: React.FC<TradeDetailsProps> = ({
           </div>
         </div>
 
+        {remoteNotice && (
+          <RemoteChangeNotice notice={remoteNotice} onReload={onReloadTrade} dark />
+        )}
+
         {/* Chart takes most of the space */}
         <div className="flex-1 overflow-hidden relative">
           <TradingViewChart trade={trade} />
@@ -304,16 +328,116 @@ export const TradeDetails: React.FC<TradeDetailsProps> = ({
                 </div>
               )}
 
-              {/* Screenshots count */}
-              {trade.screenshots && trade.screenshots.length > 0 && (
+              {/* Executions summary */}
+              {executionSummary && (
                 <div className="flex items-center gap-2">
-                  <Image className="w-4 h-4 text-green-400" />
+                  <Layers className="w-4 h-4 text-cyan-400" />
                   <span className="text-gray-400 text-sm">
-                    {trade.screenshots.length} screenshot{trade.screenshots.length > 1 ? 's' : ''}
+                    {executions.length} fill{executions.length > 1 ? 's' : ''} • Avg in {executionSummary.averageEntry.toFixed(priceDigits)}
+                    {executionSummary.averageExit !== null && ` • Avg out ${executionSummary.averageExit.toFixed(priceDigits)}`}
+                    {` • Max size ${executionSummary.maxPositionSize.toLocaleString()}`}
                   </span>
                 </div>
               )}
+
+              {/* Screenshots gallery */}
+              {screenshots.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Image className="w-4 h-4 text-green-400" />
+                  <div className="flex gap-1">
+                    {screenshots.map((ref, index) => (
+                      <button
+                        key={ref}
+                        onClick={() => setLightboxIndex(index)}
+                        className="w-12 h-8 rounded overflow-hidden border border-gray-700 hover:border-green-400 transition-colors bg-gray-800"
+                      >
+                        {screenshotUrls[ref] && (
+                          <img src={screenshotUrls[ref]} alt="" className="w-full h-full object-cover" />
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
+
+            {/* Executions list */}
+            {executions.length > 0 && (
+              <div className="mt-3 max-h-32 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead className="text-gray-500">
+                    <tr>
+                      <th className="text-left font-medium py-1">Time</th>
+                      <th className="text-left font-medium py-1">Side</th>
+                      <th className="text-right font-medium py-1">Price</th>
+                      <th className="text-right font-medium py-1">Qty</th>
+                      <th className="text-right font-medium py-1">Fee</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-gray-300">
+                    {executions.map((fill) => (
+                      <tr key={fill.id} className="border-t border-gray-800">
+                        <td className="py-1">{new Date(fill.time).toLocaleString()}</td>
+                        <td className={`py-1 font-medium ${fill.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
+                          {fill.side.toUpperCase()}
+                        </td>
+                        <td className="py-1 text-right font-mono">{fill.price.toFixed(priceDigits)}</td>
+                        <td className="py-1 text-right">{fill.quantity.toLocaleString()}</td>
+                        <td className="py-1 text-right">{fill.fee ? fill.fee.toFixed(2) : '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Lightbox */}
+        {lightboxIndex !== null && screenshots[lightboxIndex] && (
+          <div
+            className="absolute inset-0 bg-black/90 z-30 flex items-center justify-center"
+            onClick={() => setLightboxIndex(null)}
+          >
+            {screenshotUrls[screenshots[lightboxIndex]] && (
+              <img
+                src={screenshotUrls[screenshots[lightboxIndex]]}
+                alt=""
+                className="max-w-[90%] max-h-[90%] object-contain rounded-lg"
+                onClick={(e) => e.stopPropagation()}
+              />
+            )}
+            <button
+              onClick={() => setLightboxIndex(null)}
+              className="absolute top-4 right-4 p-2 text-gray-300 hover:text-white hover:bg-white/10 rounded-lg"
+            >
+              <X className="w-6 h-6" />
+            </button>
+            {screenshots.length > 1 && (
+              <>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setLightboxIndex((lightboxIndex - 1 + screenshots.length) % screenshots.length);
+                  }}
+                  className="absolute left-4 p-2 text-gray-300 hover:text-white hover:bg-white/10 rounded-lg"
+                >
+                  <ChevronLeft className="w-8 h-8" />
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setLightboxIndex((lightboxIndex + 1) % screenshots.length);
+                  }}
+                  className="absolute right-4 p-2 text-gray-300 hover:text-white hover:bg-white/10 rounded-lg"
+                >
+                  <ChevronRight className="w-8 h-8" />
+                </button>
+                <span className="absolute bottom-4 text-sm text-gray-400">
+                  {lightboxIndex + 1} / {screenshots.length}
+                </span>
+              </>
+            )}
           </div>
         )}
 
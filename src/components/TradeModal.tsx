@@ -1,18 +1,55 @@
 import { useState, useEffect } from 'react';
-import { X } from 'lucide-react';
-import type { Trade } from '../types/trade';
+import { X, ImagePlus, Loader2, Plus } from 'lucide-react';
+import type { Trade, Account, Execution } from '../types/trade';
 import { cn } from '../utils/cn';
+import { contractMultiplier } from '../utils/futures';
+import { applyExecutions, summarizeExecutions } from '../utils/executions';
+import { TRADE_STRATEGIES } from '../utils/strategies';
+import { uploadAttachment, deleteAttachments } from '../lib/attachmentStorage';
+import { useAttachmentUrls } from '../hooks/useAttachmentUrls';
 import { SymbolSearchMini } from './SymbolSearch';
+import { RemoteChangeNotice } from './RemoteChangeNotice';
 
 interface TradeModalProps {
   trade: Trade | null;
   mode: 'add' | 'edit';
   onClose: () => void;
   onSave: (trade: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  accounts?: Account[];
+  defaultAccountId?: string;
+  remoteNotice?: 'updated' | 'deleted' | null;
+  onReloadTrade?: () => void;
 }
 
-export function TradeModal({ trade, mode, onClose, onSave }: TradeModalProps) {
+// A fill as typed in the editor; the time is a datetime-local value
+interface FillInput {
+  id: string;
+  time: string;
+  side: 'buy' | 'sell';
+  price: string;
+  quantity: string;
+  fee: string;
+}
+
+const toDateInput = (time: string) => new Date(time).toISOString().slice(0, 16);
+
+// Fills complete enough to count, in the editor's clock
+function readFills(fills: FillInput[]): Execution[] {
+  return fills
+    .map(fill => ({
+      id: fill.id,
+      time: fill.time,
+      side: fill.side,
+      price: parseFloat(fill.price),
+      quantity: parseFloat(fill.quantity),
+      fee: parseFloat(fill.fee) || 0,
+    }))
+    .filter(fill => fill.time && fill.price > 0 && fill.quantity > 0);
+}
+
+export function TradeModal({ trade, mode, onClose, onSave, accounts = [], defaultAccountId, remoteNotice, onReloadTrade }: TradeModalProps) {
   const [formData, setFormData] = useState({
+    accountId: accounts.some(a => a.id === defaultAccountId) ? defaultAccountId as string : '',
     symbol: '',
     direction: 'long' as 'long' | 'short',
     entryPrice: '',
@@ -22,72 +59,210 @@ export function TradeModal({ trade, mode, onClose, onSave }: TradeModalProps) {
     exitTime: '',
     stopLoss: '',
     takeProfit: '',
+    commission: '',
+    swap: '',
+    fees: '',
     status: 'open' as 'open' | 'closed' | 'cancelled',
     currency: 'USD',
     notes: '',
     tags: [] as string[],
     strategy: '',
+    screenshots: [] as string[],
+    executions: [] as FillInput[],
   });
+  // Once the fills are edited, prices, size, times and PnL follow from them
+  const [fillsEdited, setFillsEdited] = useState(false);
+  // Files uploaded while the modal is open, removed again if it is cancelled
+  const [uploadedRefs, setUploadedRefs] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const screenshotUrls = useAttachmentUrls(formData.screenshots);
 
   useEffect(() => {
     if (trade && mode === 'edit') {
       setFormData({
+        accountId: trade.accountId || '',
         symbol: trade.symbol,
         direction: trade.direction,
         entryPrice: trade.entryPrice.toString(),
         exitPrice: trade.exitPrice?.toString() || '',
         units: trade.units.toString(),
-        entryTime: trade.entryTime ? new Date(trade.entryTime).toISOString().slice(0, 16) : '',
-        exitTime: trade.exitTime ? new Date(trade.exitTime).toISOString().slice(0, 16) : '',
+        entryTime: trade.entryTime ? toDateInput(trade.entryTime) : '',
+        exitTime: trade.exitTime ? toDateInput(trade.exitTime) : '',
         stopLoss: trade.stopLoss?.toString() || '',
         takeProfit: trade.takeProfit?.toString() || '',
+        commission: trade.commission ? trade.commission.toString() : '',
+        swap: trade.swap ? trade.swap.toString() : '',
+        fees: trade.fees ? trade.fees.toString() : '',
         status: trade.status,
         currency: trade.currency || 'USD',
         notes: trade.notes,
         tags: trade.tags,
         strategy: trade.strategy || '',
+        screenshots: trade.screenshots || [],
+        executions: (trade.executions || []).map(fill => ({
+          id: fill.id,
+          time: toDateInput(fill.time),
+          side: fill.side,
+          price: fill.price.toString(),
+          quantity: fill.quantity.toString(),
+          fee: fill.fee ? fill.fee.toString() : '',
+        })),
       });
+      setFillsEdited(false);
     }
   }, [trade, mode]);
 
+  const fills = readFills(formData.executions);
+  const fillSummary = fillsEdited ? summarizeExecutions(fills, formData.direction) : null;
+  const fillsClosed = fillSummary !== null && fillSummary.openQuantity <= 1e-9 && fillSummary.exitQuantity > 0;
+  // What the derived fields show while the fills drive them
+  const shown = fillSummary ? {
+    ...formData,
+    entryPrice: fillSummary.averageEntry.toString(),
+    exitPrice: fillSummary.averageExit?.toString() || '',
+    units: fillSummary.entryQuantity.toString(),
+    entryTime: fillSummary.firstTime,
+    exitTime: fillsClosed ? fillSummary.lastTime : '',
+    status: fillsClosed ? 'closed' as const : formData.status === 'cancelled' ? 'cancelled' as const : 'open' as const,
+    commission: fillSummary.totalFees ? (-fillSummary.totalFees).toString() : '',
+  } : formData;
+
+  const updateFill = (id: string, changes: Partial<FillInput>) => {
+    setFillsEdited(true);
+    setFormData(prev => ({
+      ...prev,
+      executions: prev.executions.map(fill => (fill.id === id ? { ...fill, ...changes } : fill)),
+    }));
+  };
+
+  const addFill = () => {
+    setFillsEdited(true);
+    setFormData(prev => {
+      const last = prev.executions[prev.executions.length - 1];
+      const entrySide = prev.direction === 'long' ? 'buy' : 'sell';
+      return {
+        ...prev,
+        executions: [...prev.executions, {
+          id: crypto.randomUUID(),
+          time: last?.time || prev.entryTime,
+          side: last ? last.side : entrySide,
+          price: '',
+          quantity: last?.quantity || prev.units,
+          fee: '',
+        }],
+      };
+    });
+  };
+
+  const removeFill = (id: string) => {
+    setFillsEdited(true);
+    setFormData(prev => ({ ...prev, executions: prev.executions.filter(fill => fill.id !== id) }));
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setUploading(true);
+    setUploadError(null);
+    try {
+      const refs: string[] = [];
+      for (const file of Array.from(files)) {
+        refs.push(await uploadAttachment(file));
+      }
+      setUploadedRefs(prev => [...prev, ...refs]);
+      setFormData(prev => ({ ...prev, screenshots: [...prev.screenshots, ...refs] }));
+    } catch (err) {
+      setUploadError('Upload failed: ' + (err as Error).message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemoveScreenshot = (ref: string) => {
+    setFormData(prev => ({ ...prev, screenshots: prev.screenshots.filter(r => r !== ref) }));
+    // Files added in this session are not referenced anywhere else yet
+    if (uploadedRefs.includes(ref)) {
+      deleteAttachments([ref]);
+      setUploadedRefs(prev => prev.filter(r => r !== ref));
+    }
+  };
+
+  const handleClose = () => {
+    if (uploadedRefs.length > 0) {
+      deleteAttachments(uploadedRefs);
+    }
+    onClose();
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
+    // Files removed from an existing trade are deleted once the change is saved
+    const removedRefs = (trade?.screenshots || []).filter(ref => !formData.screenshots.includes(ref));
+    if (mode === 'edit' && removedRefs.length > 0) {
+      deleteAttachments(removedRefs);
+    }
+
     const entryPrice = parseFloat(formData.entryPrice);
     const exitPrice = formData.exitPrice ? parseFloat(formData.exitPrice) : null;
     const units = parseFloat(formData.units);
     const stopLoss = formData.stopLoss ? parseFloat(formData.stopLoss) : null;
     const takeProfit = formData.takeProfit ? parseFloat(formData.takeProfit) : null;
 
+    // Costs are entered signed, as on the broker statement (negative = paid)
+    const commission = parseFloat(formData.commission) || 0;
+    const swap = parseFloat(formData.swap) || 0;
+    const fees = parseFloat(formData.fees) || 0;
+
+    let grossPnl = null;
     let pnl = null;
     let pnlPercent = null;
 
     if (exitPrice !== null && formData.status === 'closed') {
       const direction = formData.direction;
-      pnl = direction === 'long'
+      // Futures: a point is worth the contract's point value
+      const multiplier = contractMultiplier(formData.symbol, formData.tags);
+      grossPnl = (direction === 'long'
         ? (exitPrice - entryPrice) * units
-        : (entryPrice - exitPrice) * units;
-      pnlPercent = ((pnl / (entryPrice * units)) * 100);
+        : (entryPrice - exitPrice) * units) * multiplier;
+      pnl = grossPnl + commission + swap + fees;
+      pnlPercent = ((pnl / (entryPrice * units * multiplier)) * 100);
     }
 
-    onSave({
+    const saved: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'> = {
+      accountId: formData.accountId || null,
       symbol: formData.symbol.toUpperCase(),
       direction: formData.direction,
       entryPrice,
       exitPrice,
       units,
-      entryTime: new Date(formData.entryTime).toISOString(),
-      exitTime: formData.exitTime ? new Date(formData.exitTime).toISOString() : null,
+      // Shown from the fills when they were edited
+      entryTime: new Date(shown.entryTime).toISOString(),
+      exitTime: shown.exitTime ? new Date(shown.exitTime).toISOString() : null,
       stopLoss,
       takeProfit,
       pnl,
       pnlPercent,
+      grossPnl,
+      commission,
+      swap,
+      fees,
       currency: formData.currency,
       status: formData.status,
       notes: formData.notes,
       tags: formData.tags,
       strategy: formData.strategy || undefined,
-    });
+      screenshots: formData.screenshots,
+    };
+
+    // Edited fills replace the typed prices, size, times and PnL
+    if (fillsEdited) {
+      const executions = fills.map(fill => ({ ...fill, time: new Date(fill.time).toISOString() }));
+      onSave(executions.length > 0 ? applyExecutions({ ...saved, executions }) : { ...saved, executions, maxPositionSize: null });
+      return;
+    }
+    onSave(saved);
   };
 
   const isReadOnly = false;
@@ -100,13 +275,17 @@ export function TradeModal({ trade, mode, onClose, onSave }: TradeModalProps) {
         <div className="flex items-center justify-between p-6 border-b border-slate-200">
           <h2 className="text-xl font-bold text-slate-900">{title}</h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
           >
             <X className="w-5 h-5 text-slate-500" />
           </button>
         </div>
 
+        {remoteNotice && mode === 'edit' && (
+          <RemoteChangeNotice notice={remoteNotice} onReload={onReloadTrade} />
+        )}
+
         {/* Form */}
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
           <div className="grid grid-cols-2 gap-4">
@@ -151,14 +330,14 @@ export function TradeModal({ trade, mode, onClose, onSave }: TradeModalProps) {
               <input
                 type="number"
                 step="any"
-                value={formData.entryPrice}
+                value={shown.entryPrice}
                 onChange={(e) => setFormData({ ...formData, entryPrice: e.target.value })}
-                readOnly={isReadOnly}
+                readOnly={isReadOnly || fillSummary !== null}
                 required
                 placeholder="0.00000"
                 className={cn(
                   "w-full px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500",
-                  isReadOnly && "bg-slate-50"
+                  (isReadOnly || fillSummary !== null) && "bg-slate-50"
                 )}
               />
             </div>
@@ -169,13 +348,13 @@ export function TradeModal({ trade, mode, onClose, onSave }: TradeModalProps) {
               <input
                 type="number"
                 step="any"
-                value={formData.exitPrice}
+                value={shown.exitPrice}
                 onChange={(e) => setFormData({ ...formData, exitPrice: e.target.value })}
-                readOnly={isReadOnly}
+                readOnly={isReadOnly || fillSummary !== null}
                 placeholder="0.00000"
                 className={cn(
                   "w-full px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500",
-                  isReadOnly && "bg-slate-50"
+                  (isReadOnly || fillSummary !== null) && "bg-slate-50"
                 )}
               />
             </div>
@@ -186,14 +365,14 @@ export function TradeModal({ trade, mode, onClose, onSave }: TradeModalProps) {
               <input
                 type="number"
                 step="any"
-                value={formData.units}
+                value={shown.units}
                 onChange={(e) => setFormData({ ...formData, units: e.target.value })}
-                readOnly={isReadOnly}
+                readOnly={isReadOnly || fillSummary !== null}
                 required
                 placeholder="100000"
                 className={cn(
                   "w-full px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500",
-                  isReadOnly && "bg-slate-50"
+                  (isReadOnly || fillSummary !== null) && "bg-slate-50"
                 )}
               />
             </div>
@@ -202,12 +381,12 @@ export function TradeModal({ trade, mode, onClose, onSave }: TradeModalProps) {
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-1">Status</label>
               <select
-                value={formData.status}
+                value={shown.status}
                 onChange={(e) => setFormData({ ...formData, status: e.target.value as 'open' | 'closed' | 'cancelled' })}
-                disabled={isReadOnly}
+                disabled={isReadOnly || fillSummary !== null}
                 className={cn(
                   "w-full px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500",
-                  isReadOnly && "bg-slate-50"
+                  (isReadOnly || fillSummary !== null) && "bg-slate-50"
                 )}
               >
                 <option value="open">Open</option>
@@ -221,13 +400,13 @@ export function TradeModal({ trade, mode, onClose, onSave }: TradeModalProps) {
               <label className="block text-sm font-medium text-slate-700 mb-1">Entry Time</label>
               <input
                 type="datetime-local"
-                value={formData.entryTime}
+                value={shown.entryTime}
                 onChange={(e) => setFormData({ ...formData, entryTime: e.target.value })}
-                readOnly={isReadOnly}
+                readOnly={isReadOnly || fillSummary !== null}
                 required
                 className={cn(
                   "w-full px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500",
-                  isReadOnly && "bg-slate-50"
+                  (isReadOnly || fillSummary !== null) && "bg-slate-50"
                 )}
               />
             </div>
@@ -237,12 +416,12 @@ export function TradeModal({ trade, mode, onClose, onSave }: TradeModalProps) {
               <label className="block text-sm font-medium text-slate-700 mb-1">Exit Time</label>
               <input
                 type="datetime-local"
-                value={formData.exitTime}
+                value={shown.exitTime}
                 onChange={(e) => setFormData({ ...formData, exitTime: e.target.value })}
-                readOnly={isReadOnly}
+                readOnly={isReadOnly || fillSummary !== null}
                 className={cn(
                   "w-full px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500",
-                  isReadOnly && "bg-slate-50"
+                  (isReadOnly || fillSummary !== null) && "bg-slate-50"
                 )}
               />
             </div>
@@ -282,6 +461,138 @@ export function TradeModal({ trade, mode, onClose, onSave }: TradeModalProps) {
             </div>
           </div>
 
+          {/* Costs */}
+          <div className="grid grid-cols-3 gap-4">
+            {([
+              ['commission', 'Commission'],
+              ['swap', 'Swap'],
+              ['fees', 'Other Fees'],
+            ] as const).map(([field, label]) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={shown[field]}
+                  onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                  readOnly={isReadOnly || (field === 'commission' && fillSummary !== null)}
+                  placeholder="-0.00"
+                  className={cn(
+                    "w-full px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500",
+                    (isReadOnly || (field === 'commission' && fillSummary !== null)) && "bg-slate-50"
+                  )}
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Executions: scale-ins and partial closes */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-slate-700">Executions</label>
+              {!isReadOnly && (
+                <button
+                  type="button"
+                  onClick={addFill}
+                  className="flex items-center gap-1 text-sm text-emerald-600 hover:text-emerald-700 font-medium"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add fill
+                </button>
+              )}
+            </div>
+            {formData.executions.length > 0 && (
+              <div className="space-y-2">
+                {formData.executions.map((fill) => (
+                  <div key={fill.id} className="grid grid-cols-[1.6fr_0.8fr_1fr_1fr_0.8fr_auto] gap-2 items-center">
+                    <input
+                      type="datetime-local"
+                      value={fill.time}
+                      onChange={(e) => updateFill(fill.id, { time: e.target.value })}
+                      readOnly={isReadOnly}
+                      required
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    />
+                    <select
+                      value={fill.side}
+                      onChange={(e) => updateFill(fill.id, { side: e.target.value as 'buy' | 'sell' })}
+                      disabled={isReadOnly}
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    >
+                      <option value="buy">Buy</option>
+                      <option value="sell">Sell</option>
+                    </select>
+                    {([
+                      ['price', 'Price'],
+                      ['quantity', 'Qty'],
+                      ['fee', 'Fee'],
+                    ] as const).map(([field, label]) => (
+                      <input
+                        key={field}
+                        type="number"
+                        step="any"
+                        min={field === 'fee' ? undefined : 0}
+                        value={fill[field]}
+                        onChange={(e) => updateFill(fill.id, { [field]: e.target.value })}
+                        readOnly={isReadOnly}
+                        required={field !== 'fee'}
+                        placeholder={label}
+                        className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                      />
+                    ))}
+                    {!isReadOnly && (
+                      <button
+                        type="button"
+                        onClick={() => removeFill(fill.id)}
+                        className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {fillSummary ? (
+              <p className="text-xs text-slate-500 mt-2">
+                Prices, size, times, status and commission follow from the fills; fill fees are the amounts paid.
+                {` Max size ${fillSummary.maxPositionSize.toLocaleString()}.`}
+              </p>
+            ) : formData.executions.length > 0 && (
+              <p className="text-xs text-slate-500 mt-2">Editing the fills recomputes the trade from them.</p>
+            )}
+          </div>
+
+          {/* Account */}
+          {accounts.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Account</label>
+              <select
+                value={formData.accountId}
+                onChange={(e) => {
+                  const account = accounts.find(a => a.id === e.target.value);
+                  setFormData({
+                    ...formData,
+                    accountId: e.target.value,
+                    currency: account ? account.baseCurrency : formData.currency,
+                  });
+                }}
+                disabled={isReadOnly}
+                className={cn(
+                  "w-full px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500",
+                  isReadOnly && "bg-slate-50"
+                )}
+              >
+                <option value="">No account</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Currency */}
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-1">Currency</label>
@@ -320,17 +631,9 @@ export function TradeModal({ trade, mode, onClose, onSave }: TradeModalProps) {
               )}
             >
               <option value="">Select a strategy...</option>
-              <option value="Breakout">Breakout</option>
-              <option value="Trend Following">Trend Following</option>
-              <option value="Mean Reversion">Mean Reversion</option>
-              <option value="Scalping">Scalping</option>
-              <option value="Swing Trading">Swing Trading</option>
-              <option value="News Trading">News Trading</option>
-              <option value="Support/Resistance">Support/Resistance</option>
-              <option value="Supply/Demand">Supply/Demand</option>
-              <option value="ICT">ICT</option>
-              <option value="SMC">SMC</option>
-              <option value="Other">Other</option>
+              {TRADE_STRATEGIES.map(strategy => (
+                <option key={strategy} value={strategy}>{strategy}</option>
+              ))}
             </select>
           </div>
 
@@ -350,12 +653,60 @@ export function TradeModal({ trade, mode, onClose, onSave }: TradeModalProps) {
             />
           </div>
 
+          {/* Screenshots */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Screenshots</label>
+            <div className="flex flex-wrap gap-3">
+              {formData.screenshots.map((ref) => (
+                <div key={ref} className="relative w-24 h-24 rounded-lg overflow-hidden border border-slate-200 bg-slate-50 group">
+                  {screenshotUrls[ref] ? (
+                    <img src={screenshotUrls[ref]} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <Loader2 className="w-5 h-5 text-slate-400 animate-spin" />
+                    </div>
+                  )}
+                  {!isReadOnly && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveScreenshot(ref)}
+                      className="absolute top-1 right-1 p-1 bg-black/60 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <X className="w-3 h-3 text-white" />
+                    </button>
+                  )}
+                </div>
+              ))}
+
+              {!isReadOnly && (
+                <label className={cn(
+                  "w-24 h-24 flex flex-col items-center justify-center gap-1 border-2 border-dashed border-slate-300 rounded-lg text-slate-400 hover:border-emerald-500 hover:text-emerald-600 transition-colors cursor-pointer",
+                  uploading && "pointer-events-none opacity-60"
+                )}>
+                  {uploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <ImagePlus className="w-5 h-5" />}
+                  <span className="text-xs">{uploading ? 'Uploading' : 'Add image'}</span>
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={(e) => {
+                      handleFiles(e.target.files);
+                      e.target.value = '';
+                    }}
+                    className="hidden"
+                  />
+                </label>
+              )}
+            </div>
+            {uploadError && <p className="text-sm text-red-600 mt-2">{uploadError}</p>}
+          </div>
+
           {/* Actions */}
           {!isReadOnly && (
             <div className="flex justify-end gap-3 pt-4 border-t border-slate-200">
               <button
                 type="button"
-                onClick={onClose}
+                onClick={handleClose}
                 className="px-4 py-2 text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
               >
                 Cancel
@@ -0,0 +1,142 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { Account } from '../types/trade';
+import * as supabaseApi from '../lib/supabase';
+
+const ACCOUNTS_KEY = 'tradezella_accounts';
+const SELECTED_ACCOUNT_KEY = 'selected_account';
+
+// 'all' means every account combined
+export const ALL_ACCOUNTS = 'all';
+
+export function useAccountStore() {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selectedAccountId, setSelectedAccountIdState] = useState<string>(
+    () => localStorage.getItem(SELECTED_ACCOUNT_KEY) || ALL_ACCOUNTS
+  );
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+
+      let loaded: Account[] = [];
+      if (session) {
+        loaded = await supabaseApi.fetchAccounts();
+      } else {
+        const stored = localStorage.getItem(ACCOUNTS_KEY);
+        if (stored) {
+          try {
+            loaded = JSON.parse(stored);
+          } catch (e) {
+            loaded = [];
+          }
+        }
+      }
+
+      setAccounts(loaded);
+
+      // Fall back to "all accounts" if the remembered account no longer exists
+      setSelectedAccountIdState(prev =>
+        prev === ALL_ACCOUNTS || loaded.some(a => a.id === prev) ? prev : ALL_ACCOUNTS
+      );
+    } catch (error) {
+      console.error('Error loading accounts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAccounts();
+
+    const { data: { subscription } } = supabaseApi.supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+        loadAccounts();
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [loadAccounts]);
+
+  const setSelectedAccountId = useCallback((id: string) => {
+    setSelectedAccountIdState(id);
+    localStorage.setItem(SELECTED_ACCOUNT_KEY, id);
+  }, []);
+
+  const addAccount = useCallback(async (account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+
+    if (session) {
+      const newAccount = await supabaseApi.createAccount(account);
+      if (newAccount) {
+        setAccounts(prev => [...prev, newAccount]);
+      }
+      return newAccount;
+    } else {
+      const now = new Date().toISOString();
+      const newAccount: Account = {
+        ...account,
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now
+      };
+      setAccounts(prev => {
+        const updated = [...prev, newAccount];
+        localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(updated));
+        return updated;
+      });
+      return newAccount;
+    }
+  }, []);
+
+  const updateAccount = useCallback(async (id: string, updates: Partial<Account>) => {
+    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+
+    if (session) {
+      const updatedAccount = await supabaseApi.updateAccount(id, updates);
+      if (updatedAccount) {
+        setAccounts(prev => prev.map(account =>
+          account.id === id ? updatedAccount : account
+        ));
+      }
+    } else {
+      setAccounts(prev => {
+        const updated = prev.map(account =>
+          account.id === id ? { ...account, ...updates, updatedAt: new Date().toISOString() } : account
+        );
+        localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(updated));
+        return updated;
+      });
+    }
+  }, []);
+
+  const deleteAccount = useCallback(async (id: string) => {
+    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+
+    if (session) {
+      const success = await supabaseApi.deleteAccount(id);
+      if (!success) return;
+      setAccounts(prev => prev.filter(account => account.id !== id));
+    } else {
+      setAccounts(prev => {
+        const updated = prev.filter(account => account.id !== id);
+        localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(updated));
+        return updated;
+      });
+    }
+
+    if (selectedAccountId === id) {
+      setSelectedAccountId(ALL_ACCOUNTS);
+    }
+  }, [selectedAccountId, setSelectedAccountId]);
+
+  const selectedAccount = accounts.find(a => a.id === selectedAccountId) || null;
+
+  return {
+    accounts,
+    selectedAccountId,
+    selectedAccount,
+    setSelectedAccountId,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    loadAccounts,
+  };
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { getAttachmentUrl } from '../lib/attachmentStorage';
+
+// Resolve attachment references to displayable URLs.
+// Object URLs created for local files are revoked when the refs change.
+export function useAttachmentUrls(refs: string[] = []) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const refsKey = refs.join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    const created: string[] = [];
+
+    Promise.all(refs.map(async ref => [ref, await getAttachmentUrl(ref)] as const))
+      .then(entries => {
+        const resolved: Record<string, string> = {};
+        for (const [ref, url] of entries) {
+          if (!url) continue;
+          resolved[ref] = url;
+          if (url.startsWith('blob:') && !ref.startsWith('blob:')) created.push(url);
+        }
+        if (cancelled) {
+          created.forEach(url => URL.revokeObjectURL(url));
+        } else {
+          setUrls(resolved);
+        }
+      })
+      .catch(error => console.error('Error loading attachments:', error));
+
+    return () => {
+      cancelled = true;
+      created.forEach(url => URL.revokeObjectURL(url));
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refsKey]);
+
+  return urls;
+}
@@ -0,0 +1,101 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { CashTransaction } from '../types/trade';
+import * as supabaseApi from '../lib/supabase';
+
+const CASH_TRANSACTIONS_KEY = 'tradezella_cash_transactions';
+
+function readLocalTransactions(): CashTransaction[] {
+  const stored = localStorage.getItem(CASH_TRANSACTIONS_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    return [];
+  }
+}
+
+function transactionKey(transaction: CashTransaction): string | null {
+  return transaction.sourceId ? `${transaction.accountId || ''}|${transaction.sourceId}` : null;
+}
+
+export function useCashTransactions() {
+  const [transactions, setTransactions] = useState<CashTransaction[]>([]);
+
+  const loadTransactions = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+      setTransactions(session ? await supabaseApi.fetchCashTransactions() : readLocalTransactions());
+    } catch (error) {
+      console.error('Error loading cash transactions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTransactions();
+
+    const { data: { subscription } } = supabaseApi.supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+        loadTransactions();
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [loadTransactions]);
+
+  // Rows already imported into the same account (same sourceId) are skipped.
+  // Returns the transactions actually added.
+  const addTransactions = useCallback(async (incoming: CashTransaction[]) => {
+    const known = new Set(transactions.map(transactionKey).filter(Boolean));
+    const fresh = incoming.filter(transaction => {
+      const key = transactionKey(transaction);
+      if (!key) return true;
+      if (known.has(key)) return false;
+      known.add(key);
+      return true;
+    });
+    if (fresh.length === 0) return [];
+
+    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+
+    if (session) {
+      const saved = await supabaseApi.createCashTransactions(fresh);
+      if (saved.length > 0) {
+        setTransactions(prev => [...prev, ...saved]);
+      }
+      return saved;
+    } else {
+      setTransactions(prev => {
+        const updated = [...prev, ...fresh];
+        localStorage.setItem(CASH_TRANSACTIONS_KEY, JSON.stringify(updated));
+        return updated;
+      });
+      return fresh;
+    }
+  }, [transactions]);
+
+  const deleteTransactions = useCallback(async (ids: string[]) => {
+    if (ids.length === 0) return true;
+    const removed = new Set(ids);
+    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+
+    if (session) {
+      const success = await supabaseApi.deleteCashTransactions(ids);
+      if (!success) return false;
+      setTransactions(prev => prev.filter(transaction => !removed.has(transaction.id)));
+    } else {
+      setTransactions(prev => {
+        const updated = prev.filter(transaction => !removed.has(transaction.id));
+        localStorage.setItem(CASH_TRANSACTIONS_KEY, JSON.stringify(updated));
+        return updated;
+      });
+    }
+    return true;
+  }, []);
+
+  return {
+    transactions,
+    addTransactions,
+    deleteTransactions,
+    loadTransactions,
+  };
+}
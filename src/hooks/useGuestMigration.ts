@@ -0,0 +1,134 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { Trade } from '../types/trade';
+import * as supabaseApi from '../lib/supabase';
+import { copyAttachment, deleteAttachments } from '../lib/attachmentStorage';
+import { getRejectedMutations, replayOutbox } from '../lib/syncQueue';
+import {
+  readGuestData,
+  guestAttachments,
+  planGuestMigration,
+  archiveGuestData,
+  clearGuestData,
+  type GuestData,
+  type GuestMigrationPlan,
+} from '../lib/guestMigration';
+
+type NewTrade = Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Offers to move trades and playbook entries saved while signed out into
+// the cloud account, with the files attached to the trades. Checked on
+// sign-in and when the app opens signed in. The guest copy is only cleared
+// once the server has the trades.
+// accountIds must keep its identity between renders (memoize it).
+export function useGuestMigration(
+  bulkAddTrades: (trades: NewTrade[]) => Promise<Trade[]>,
+  deleteTrades: (ids: string[]) => Promise<boolean>,
+  accountIds: string[]
+) {
+  const [guestData, setGuestData] = useState<GuestData | null>(null);
+  const [plan, setPlan] = useState<GuestMigrationPlan | null>(null);
+  const [migrating, setMigrating] = useState(false);
+
+  const checkGuestData = useCallback(async () => {
+    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+    const guest = readGuestData();
+    if (!session || !guest) return;
+
+    // Dedupe against the server copy, not the possibly stale in-memory list
+    const [cloudTrades, cloudStrategies] = await Promise.all([
+      supabaseApi.fetchTrades(),
+      supabaseApi.fetchPlaybookStrategies(),
+    ]);
+    if (!cloudTrades) return; // can't dedupe while offline, ask again later
+
+    setGuestData(guest);
+    setPlan(planGuestMigration(guest, cloudTrades, cloudStrategies, accountIds));
+  }, [accountIds]);
+
+  useEffect(() => {
+    checkGuestData();
+
+    const { data: { subscription } } = supabaseApi.supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN') {
+        checkGuestData();
+      } else if (event === 'SIGNED_OUT') {
+        setPlan(null);
+        setGuestData(null);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [checkGuestData]);
+
+  const migrate = useCallback(async (keepArchive: boolean) => {
+    if (!plan || !guestData) return;
+    setMigrating(true);
+    // Copies already uploaded and trades added, removed again if the migration fails
+    const copied: string[] = [];
+    let created: Trade[] = [];
+    try {
+      const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+      if (!session) throw new Error('Not signed in');
+
+      if (plan.trades.length > 0) {
+        const trades: NewTrade[] = [];
+        for (const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, userId: _userId, ...trade } of plan.trades) {
+          const screenshots: string[] = [];
+          for (const ref of trade.screenshots || []) {
+            const copy = await copyAttachment(ref);
+            if (copy !== ref) copied.push(copy);
+            screenshots.push(copy);
+          }
+          trades.push(trade.screenshots ? { ...trade, screenshots } : trade);
+        }
+        created = await bulkAddTrades(trades);
+        if (created.length !== trades.length) throw new Error('Trade upload failed');
+
+        // The trades are sent from the outbox: wait until the server has
+        // taken them (or refused them) before the guest copy goes. A replay
+        // already running may have started before they were queued.
+        const rejected = (await getRejectedMutations(session.user.id)).length;
+        let { remaining } = await replayOutbox(session.user.id);
+        if (remaining > 0) ({ remaining } = await replayOutbox(session.user.id));
+        if (remaining > 0 || (await getRejectedMutations(session.user.id)).length > rejected) {
+          throw new Error('Trade upload failed');
+        }
+      }
+      if (plan.strategies.length > 0) {
+        const saved = await supabaseApi.savePlaybookStrategies(plan.strategies);
+        if (saved.length === 0) throw new Error('Playbook upload failed');
+      }
+
+      // The archive still points to the files on this device
+      if (keepArchive) {
+        archiveGuestData(guestData);
+      } else {
+        clearGuestData();
+        await deleteAttachments(guestAttachments(guestData.trades));
+      }
+      setPlan(null);
+      setGuestData(null);
+    } catch (error) {
+      console.error('Error migrating guest data:', error);
+      if (created.length > 0) await deleteTrades(created.map(trade => trade.id)).catch(() => false);
+      if (copied.length > 0) await deleteAttachments(copied).catch(() => undefined);
+      alert('Some local data could not be uploaded. It has been kept on this device.');
+    } finally {
+      setMigrating(false);
+    }
+  }, [plan, guestData, bulkAddTrades, deleteTrades]);
+
+  const discard = useCallback(() => {
+    clearGuestData();
+    if (guestData) {
+      deleteAttachments(guestAttachments(guestData.trades)).catch(error => console.error('Error deleting attachments:', error));
+    }
+    setPlan(null);
+    setGuestData(null);
+  }, [guestData]);
+
+  // Ask again on the next sign-in
+  const dismiss = useCallback(() => setPlan(null), []);
+
+  return { plan, migrating, migrate, discard, dismiss };
+}
@@ -0,0 +1,84 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { ImportBatch } from '../types/trade';
+import * as supabaseApi from '../lib/supabase';
+
+const IMPORT_BATCHES_KEY = 'tradezella_import_batches';
+
+function readLocalBatches(): ImportBatch[] {
+  const stored = localStorage.getItem(IMPORT_BATCHES_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    return [];
+  }
+}
+
+export function useImportHistory() {
+  const [batches, setBatches] = useState<ImportBatch[]>([]); // newest first
+
+  const loadBatches = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+      setBatches(session ? await supabaseApi.fetchImportBatches() : readLocalBatches());
+    } catch (error) {
+      console.error('Error loading import history:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBatches();
+
+    const { data: { subscription } } = supabaseApi.supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+        loadBatches();
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [loadBatches]);
+
+  const recordBatch = useCallback(async (batch: ImportBatch) => {
+    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+
+    if (session) {
+      const saved = await supabaseApi.createImportBatch(batch);
+      if (saved) {
+        setBatches(prev => [saved, ...prev]);
+      }
+      return saved;
+    } else {
+      setBatches(prev => {
+        const updated = [batch, ...prev];
+        localStorage.setItem(IMPORT_BATCHES_KEY, JSON.stringify(updated));
+        return updated;
+      });
+      return batch;
+    }
+  }, []);
+
+  const markRolledBack = useCallback(async (id: string) => {
+    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+    const rolledBackAt = new Date().toISOString();
+
+    if (session) {
+      const updatedBatch = await supabaseApi.updateImportBatch(id, { rolledBackAt });
+      if (updatedBatch) {
+        setBatches(prev => prev.map(batch => batch.id === id ? updatedBatch : batch));
+      }
+    } else {
+      setBatches(prev => {
+        const updated = prev.map(batch => batch.id === id ? { ...batch, rolledBackAt } : batch);
+        localStorage.setItem(IMPORT_BATCHES_KEY, JSON.stringify(updated));
+        return updated;
+      });
+    }
+  }, []);
+
+  return {
+    batches,
+    recordBatch,
+    markRolledBack,
+    loadBatches,
+  };
+}
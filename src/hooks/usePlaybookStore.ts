@@ -0,0 +1,118 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { PlaybookStrategy } from '../types/trade';
+import * as supabaseApi from '../lib/supabase';
+
+const PLAYBOOK_KEY = 'tradezella_playbook';
+
+// Shown to guests until they save their own playbook
+const DEFAULT_STRATEGIES: PlaybookStrategy[] = [
+  {
+    id: '1',
+    name: 'Breakout Strategy',
+    description: 'Trading breakouts from key support/resistance levels',
+    rules: [
+      'Wait for price to consolidate near S/R level',
+      'Look for volume confirmation on breakout',
+      'Entry on retest of broken level',
+    ],
+    entryConditions: [
+      'Price breaks key S/R with momentum',
+      'Volume above 20-period average',
+      'RSI not in overbought/oversold',
+    ],
+    exitConditions: [
+      'Take profit at 2R',
+      'Trail stop after 1R',
+      'Exit on reversal signal',
+    ],
+    riskManagement: '1% risk per trade, max 3 trades per day',
+    timeframe: 'H1, H4',
+    pairs: ['EURUSD', 'GBPJPY', 'XAUUSD'],
+    notes: 'Best during London/NY session overlap',
+  },
+];
+
+export function usePlaybookStore() {
+  const [strategies, setStrategies] = useState<PlaybookStrategy[]>([]);
+
+  const loadStrategies = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+
+      if (session) {
+        setStrategies(await supabaseApi.fetchPlaybookStrategies());
+      } else {
+        const stored = localStorage.getItem(PLAYBOOK_KEY);
+        if (stored) {
+          try {
+            setStrategies(JSON.parse(stored));
+          } catch (e) {
+            setStrategies([]);
+          }
+        } else {
+          setStrategies(DEFAULT_STRATEGIES);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading playbook:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStrategies();
+
+    const { data: { subscription } } = supabaseApi.supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+        loadStrategies();
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [loadStrategies]);
+
+  // Adds the strategy, or replaces the one with the same id
+  const saveStrategy = useCallback(async (strategy: PlaybookStrategy) => {
+    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+    const upsert = (prev: PlaybookStrategy[], saved: PlaybookStrategy) =>
+      prev.some(s => s.id === saved.id)
+        ? prev.map(s => (s.id === saved.id ? saved : s))
+        : [...prev, saved];
+
+    if (session) {
+      const [saved] = await supabaseApi.savePlaybookStrategies([strategy]);
+      if (saved) {
+        setStrategies(prev => upsert(prev, saved));
+      }
+    } else {
+      setStrategies(prev => {
+        const updated = upsert(prev, strategy);
+        localStorage.setItem(PLAYBOOK_KEY, JSON.stringify(updated));
+        return updated;
+      });
+    }
+  }, []);
+
+  const deleteStrategy = useCallback(async (id: string) => {
+    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+
+    if (session) {
+      const success = await supabaseApi.deletePlaybookStrategy(id);
+      if (success) {
+        setStrategies(prev => prev.filter(s => s.id !== id));
+      }
+    } else {
+      setStrategies(prev => {
+        const updated = prev.filter(s => s.id !== id);
+        localStorage.setItem(PLAYBOOK_KEY, JSON.stringify(updated));
+        return updated;
+      });
+    }
+  }, []);
+
+  return {
+    strategies,
+    saveStrategy,
+    deleteStrategy,
+    loadStrategies,
+  };
+}
@@ -1,174 +1,190 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import type { Trade, TradeStats, DailyStats } from '../types/trade';
-import { calculateStats, calculateDailyStats } from '../utils/tradeAnalysis';
+import { calculateStats, calculateDailyStats, calculateStatsFromSummary } from '../utils/tradeAnalysis';
 import * as supabaseApi from '../lib/supabase';
+import { deleteAttachments, isDeviceAttachment, moveDeviceAttachments } from '../lib/attachmentStorage';
+import { getTradeRepository, applyTradeChange, describeTradeChange, type TradeRepository, type NewTrade, type TradeUpdate } from '../lib/tradeRepository';
+import * as sync from '../lib/syncQueue';
+import { isEstimated } from '../lib/importDiagnostics';
 
-export function useTradeStore() {
+// Trades changed from another tab or device, for "this trade was updated" notices
+export interface RemoteTradeChange {
+  updated: string[];
+  deleted: string[];
+  receivedAt: number;
+}
+
+async function currentRepository(): Promise<TradeRepository> {
+  const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+  return getTradeRepository(session ? session.user.id : null);
+}
+
+// Pass 'all' (or nothing) to combine every account
+export function useTradeStore(accountId: string = 'all') {
   const [trades, setTrades] = useState<Trade[]>([]);
   const [loading, setLoading] = useState(true);
+  const [repository, setRepository] = useState<TradeRepository | null>(null);
+  const [syncState, setSyncState] = useState<sync.SyncState>(sync.getSyncState());
+  const [remoteChange, setRemoteChange] = useState<RemoteTradeChange | null>(null);
+  const tradesRef = useRef(trades);
+  tradesRef.current = trades;
+
+  useEffect(() => sync.subscribeSyncState(setSyncState), []);
+
+  // Pick the backend on mount and whenever the user signs in or out
+  useEffect(() => {
+    const pickRepository = () => {
+      currentRepository()
+        .then(setRepository)
+        .catch(error => console.error('Error selecting trade storage:', error));
+    };
+
+    pickRepository();
+
+    const { data: { subscription } } = supabaseApi.supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+        pickRepository();
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
 
   const loadTrades = useCallback(async () => {
+    if (!repository) return;
     setLoading(true);
     try {
-      const { data: { session } } = await supabaseApi.supabase.auth.getSession();
-
-      if (session) {
-        const data = await supabaseApi.fetchTrades();
-        setTrades(data || []);
-      } else {
-        // Only check localStorage if NOT logged in
-        const stored = localStorage.getItem('tradezella_trades');
-        if (stored) {
-          try {
-            const localTrades = JSON.parse(stored);
-            setTrades(localTrades);
-          } catch (e) {
-            setTrades([]);
-          }
-        } else {
-          setTrades([]);
-        }
-      }
+      const listed = await repository.list();
+      // Changes received while listing are newer than the listed copy
+      setTrades(prev => applyTradeChange(listed, { type: 'upsert', trades: prev }));
     } catch (error) {
       console.error('Error loading trades:', error);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [repository]);
 
-  // Load trades on mount and sign in
+  // Merge the repository's changes (ours and other tabs'/devices'), then load its trades
   useEffect(() => {
-    loadTrades();
-
-    const { data: { subscription } } = supabaseApi.supabase.auth.onAuthStateChange((event) => {
-      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
-        loadTrades();
+    if (!repository) return;
+    setTrades([]);
+    const unsubscribe = repository.subscribe(change => {
+      if (change.remote) {
+        const { updated, deleted } = describeTradeChange(tradesRef.current, change);
+        if (updated.length > 0 || deleted.length > 0) {
+          setRemoteChange({ updated, deleted, receivedAt: Date.now() });
+        }
       }
+      setTrades(prev => applyTradeChange(prev, change));
     });
+    loadTrades();
+    return unsubscribe;
+  }, [repository, loadTrades]);
 
-    return () => subscription.unsubscribe();
-  }, [loadTrades]);
+  // Files attached while offline are uploaded once the connection is back
+  const online = syncState.status !== 'offline';
+  const hasDeviceAttachments = useMemo(
+    () => trades.some(trade => (trade.screenshots || []).some(isDeviceAttachment)),
+    [trades]
+  );
 
-  const addTrade = useCallback(async (trade: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>) => {
-    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+  useEffect(() => {
+    if (!repository || !online || !hasDeviceAttachments) return;
+    moveDeviceAttachments(tradesRef.current, changes => repository.bulkUpdate(changes))
+      .catch(error => console.error('Error uploading attachments:', error));
+  }, [repository, online, hasDeviceAttachments]);
 
-    if (session) {
-      const newTrade = await supabaseApi.createTrade(trade);
-      if (newTrade) {
-        setTrades(prev => [newTrade, ...prev]);
-        return newTrade;
-      }
-      return null;
-    } else {
-      // Local storage fallback
-      const now = new Date().toISOString();
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const newTrade: any = {
-        ...trade,
-        id: crypto.randomUUID(),
-        createdAt: now,
-        updatedAt: now
-      };
-      setTrades(prev => {
-        const updated = [newTrade, ...prev];
-        localStorage.setItem('tradezella_trades', JSON.stringify(updated));
-        return updated;
-      });
-      return newTrade;
-    }
-  }, []);
+  // Mutations may run before the repository state is set
+  const getRepository = useCallback(
+    async () => repository || currentRepository(),
+    [repository]
+  );
+
+  const addTrade = useCallback(async (trade: NewTrade) => {
+    const repo = await getRepository();
+    return repo.create(trade);
+  }, [getRepository]);
 
   const updateTrade = useCallback(async (id: string, updates: Partial<Trade>) => {
-    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+    const repo = await getRepository();
+    await repo.update(id, updates);
+  }, [getRepository]);
 
-    if (session) {
-      const updatedTrade = await supabaseApi.updateTrade(id, updates);
-      if (updatedTrade) {
-        setTrades(prev => prev.map(trade =>
-          trade.id === id ? updatedTrade : trade
-        ));
-      }
-    } else {
-      setTrades(prev => {
-        const updated = prev.map(trade =>
-          trade.id === id ? { ...trade, ...updates, updatedAt: new Date().toISOString() } : trade
-        );
-        localStorage.setItem('tradezella_trades', JSON.stringify(updated));
-        return updated;
-      });
-    }
-  }, []);
+  const bulkUpdateTrades = useCallback(async (changes: TradeUpdate[]) => {
+    const repo = await getRepository();
+    return repo.bulkUpdate(changes);
+  }, [getRepository]);
 
   const deleteTrade = useCallback(async (id: string) => {
-    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+    const repo = await getRepository();
+    const attachments = trades.find(trade => trade.id === id)?.screenshots || [];
 
-    if (session) {
-      const success = await supabaseApi.deleteTrade(id);
-      if (success) {
-        setTrades(prev => prev.filter(trade => trade.id !== id));
-      }
-    } else {
-      setTrades(prev => {
-        const updated = prev.filter(trade => trade.id !== id);
-        localStorage.setItem('tradezella_trades', JSON.stringify(updated));
-        return updated;
-      });
-    }
-  }, []);
+    const success = await repo.delete(id);
+    if (!success) return;
 
-  const bulkAddTrades = useCallback(async (newTrades: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>[]) => {
-    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+    // Clean up the trade's stored files
+    deleteAttachments(attachments).catch(error => console.error('Error deleting attachments:', error));
+  }, [trades, getRepository]);
 
-    if (session) {
-      const addedTrades = await supabaseApi.bulkCreateTrades(newTrades);
-      if (addedTrades.length > 0) {
-        setTrades(prev => [...addedTrades, ...prev]);
-      }
-      return addedTrades;
-    } else {
-      const now = new Date().toISOString();
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const createdTrades = newTrades.map(t => ({
-        ...t,
-        id: crypto.randomUUID(),
-        createdAt: now,
-        updatedAt: now
-      } as any));
-
-      setTrades(prev => {
-        const updated = [...createdTrades, ...prev];
-        localStorage.setItem('tradezella_trades', JSON.stringify(updated));
-        return updated;
-      });
-      return createdTrades;
-    }
+  // Forget the changes the server refused, once the user has seen them
+  const dismissSyncErrors = useCallback(async () => {
+    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+    if (session) await sync.dismissRejectedMutations(session.user.id);
   }, []);
 
+  const deleteTrades = useCallback(async (ids: string[]) => {
+    const repo = await getRepository();
+    const removed = new Set(ids);
+    const attachments = trades.filter(trade => removed.has(trade.id)).flatMap(trade => trade.screenshots || []);
+
+    const success = await repo.deleteMany(ids);
+    if (!success) return false;
+
+    deleteAttachments(attachments).catch(error => console.error('Error deleting attachments:', error));
+    return true;
+  }, [trades, getRepository]);
+
+  const bulkAddTrades = useCallback(async (newTrades: NewTrade[]) => {
+    const repo = await getRepository();
+    return repo.bulkCreate(newTrades);
+  }, [getRepository]);
+
+  // Journal trades with these source ids, including those not loaded yet
+  const findTradesBySource = useCallback(async (sourceIds: string[]) => {
+    const repo = await getRepository();
+    return repo.findBySourceIds(sourceIds);
+  }, [getRepository]);
+
+  // Trades an import created, including those not loaded yet
+  const findTradesByImportBatch = useCallback(async (batchId: string) => {
+    const repo = await getRepository();
+    return repo.findByImportBatch(batchId);
+  }, [getRepository]);
+
   const clearAllTrades = useCallback(async () => {
-    const { data: { session } } = await supabaseApi.supabase.auth.getSession();
+    const repo = await getRepository();
+    const attachments = trades.flatMap(trade => trade.screenshots || []);
 
-    if (session) {
-      const success = await supabaseApi.deleteAllTrades();
-      if (success) {
-        setTrades([]);
-      }
-    } else {
-      setTrades([]);
-      localStorage.removeItem('tradezella_trades');
-    }
-  }, []);
+    const success = await repo.deleteAll();
+    if (!success) return;
+
+    deleteAttachments(attachments).catch(error => console.error('Error deleting attachments:', error));
+  }, [trades, getRepository]);
 
   // Calculate statistics
   const [preferredCurrency, setPreferredCurrency] = useState('USD');
+  const [excludeEstimated, setExcludeEstimated] = useState(false);
 
   useEffect(() => {
     const savedCurrency = localStorage.getItem('currency') || 'USD';
     setPreferredCurrency(savedCurrency);
+    setExcludeEstimated(localStorage.getItem('exclude_estimated') === 'true');
 
     // Listen for storage changes in case settings are updated in another tab/window
     const handleStorageChange = () => {
       const newCurrency = localStorage.getItem('currency') || 'USD';
       setPreferredCurrency(newCurrency);
+      setExcludeEstimated(localStorage.getItem('exclude_estimated') === 'true');
     };
 
     window.addEventListener('storage', handleStorageChange);
@@ -181,20 +197,68 @@ export function useTradeStore() {
     };
   }, []);
 
-  const stats: TradeStats = calculateStats(trades, preferredCurrency);
-  const dailyStats: DailyStats[] = calculateDailyStats(trades, preferredCurrency);
+  const accountTrades = useMemo(() => (
+    accountId === 'all'
+      ? trades
+      : trades.filter(trade => trade.accountId === accountId)
+  ), [trades, accountId]);
+
+  // Trades imported with guessed values can be left out of the statistics
+  const analyticsTrades = useMemo(() => (
+    excludeEstimated
+      ? accountTrades.filter(trade => !isEstimated(trade))
+      : accountTrades
+  ), [accountTrades, excludeEstimated]);
+
+  // While the history is still downloading, headline stats come from the
+  // server (which counts every trade)
+  const [summaryStats, setSummaryStats] = useState<TradeStats | null>(null);
+
+  useEffect(() => {
+    if (!syncState.loadingHistory || excludeEstimated) {
+      setSummaryStats(null);
+      return;
+    }
+
+    let cancelled = false;
+    supabaseApi.fetchTradeSummary(accountId === 'all' ? null : accountId).then(rows => {
+      if (!cancelled && rows) setSummaryStats(calculateStatsFromSummary(rows, preferredCurrency));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [syncState.loadingHistory, accountId, preferredCurrency, excludeEstimated]);
+
+  const localStats = useMemo(
+    () => calculateStats(analyticsTrades, preferredCurrency),
+    [analyticsTrades, preferredCurrency]
+  );
+  const stats: TradeStats = summaryStats || localStats;
+  const dailyStats: DailyStats[] = useMemo(
+    () => calculateDailyStats(analyticsTrades, preferredCurrency),
+    [analyticsTrades, preferredCurrency]
+  );
 
   return {
-    trades,
+    trades: accountTrades,
+    allTrades: trades,
+    analyticsTrades,
     loading,
     stats,
     dailyStats,
     preferredCurrency,
     addTrade,
     updateTrade,
+    bulkUpdateTrades,
     deleteTrade,
+    deleteTrades,
     bulkAddTrades,
+    findTradesBySource,
+    findTradesByImportBatch,
     loadTrades,
     clearAllTrades,
+    syncState,
+    dismissSyncErrors,
+    remoteChange,
   };
 }
@@ -0,0 +1,252 @@
+import type { Trade } from '../types/trade';
+import { supabase } from './supabase';
+import { idbGet, idbPut, idbDelete, STORES } from './indexedDb';
+import { isOnline } from './syncQueue';
+import type { TradeUpdate } from './tradeRepository';
+
+// Trade attachments (chart screenshots, files) are referenced from
+// Trade.screenshots by a prefixed key, e.g. "sb:<path>" or "idb:<id>",
+// so a reference always resolves to the backend that stored it.
+export interface AttachmentStore {
+  prefix: string;
+  upload(file: File): Promise<string>; // returns the key without prefix
+  read(key: string): Promise<File | null>;
+  getUrl(key: string): Promise<string | null>;
+  remove(keys: string[]): Promise<void>;
+}
+
+const ATTACHMENTS_BUCKET = 'trade-attachments';
+
+function uniqueName(file: File): string {
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  return `${crypto.randomUUID()}-${safeName}`;
+}
+
+export function createSupabaseAttachmentStore(bucket: string = ATTACHMENTS_BUCKET): AttachmentStore {
+  return {
+    prefix: 'sb',
+
+    async upload(file) {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not signed in');
+
+      // One folder per user, matched by the storage RLS policies
+      const path = `${session.user.id}/${uniqueName(file)}`;
+      const { error } = await supabase.storage.from(bucket).upload(path, file, {
+        contentType: file.type || undefined,
+      });
+      if (error) throw error;
+
+      return path;
+    },
+
+    async read(key) {
+      const { data, error } = await supabase.storage.from(bucket).download(key);
+      if (error) {
+        console.error('Error downloading attachment:', error);
+        return null;
+      }
+      return new File([data], key.split('/').pop() || key, { type: data.type });
+    },
+
+    async getUrl(key) {
+      const { data, error } = await supabase.storage.from(bucket).createSignedUrl(key, 60 * 60);
+      if (error) {
+        console.error('Error creating attachment URL:', error);
+        return null;
+      }
+      return data.signedUrl;
+    },
+
+    async remove(keys) {
+      if (keys.length === 0) return;
+      const { error } = await supabase.storage.from(bucket).remove(keys);
+      if (error) console.error('Error deleting attachments:', error);
+    },
+  };
+}
+
+interface StoredAttachment {
+  name: string;
+  type: string;
+  blob: Blob;
+}
+
+export function createIndexedDbAttachmentStore(): AttachmentStore {
+  return {
+    prefix: 'idb',
+
+    async upload(file) {
+      const key = uniqueName(file);
+      await idbPut<StoredAttachment>(STORES.attachments, { name: file.name, type: file.type, blob: file }, key);
+      return key;
+    },
+
+    async read(key) {
+      const stored = await idbGet<StoredAttachment>(STORES.attachments, key);
+      return stored ? new File([stored.blob], stored.name, { type: stored.type }) : null;
+    },
+
+    async getUrl(key) {
+      const stored = await idbGet<StoredAttachment>(STORES.attachments, key);
+      return stored ? URL.createObjectURL(stored.blob) : null;
+    },
+
+    async remove(keys) {
+      await Promise.all(keys.map(key => idbDelete(STORES.attachments, key)));
+    },
+  };
+}
+
+// Keeps files in memory only, for tests and environments without IndexedDB
+export function createMemoryAttachmentStore(): AttachmentStore {
+  const files = new Map<string, File>();
+
+  return {
+    prefix: 'mem',
+
+    async upload(file) {
+      const key = uniqueName(file);
+      files.set(key, file);
+      return key;
+    },
+
+    async read(key) {
+      return files.get(key) || null;
+    },
+
+    async getUrl(key) {
+      const blob = files.get(key);
+      return blob ? URL.createObjectURL(blob) : null;
+    },
+
+    async remove(keys) {
+      keys.forEach(key => files.delete(key));
+    },
+  };
+}
+
+const supabaseStore = createSupabaseAttachmentStore();
+const indexedDbStore = createIndexedDbAttachmentStore();
+let overrideStore: AttachmentStore | null = null;
+
+// Replace the storage backend (e.g. with createMemoryAttachmentStore() in tests).
+// Pass null to go back to Supabase / IndexedDB selection.
+export function setAttachmentStore(store: AttachmentStore | null) {
+  overrideStore = store;
+}
+
+async function getUploadStore(): Promise<AttachmentStore> {
+  if (overrideStore) return overrideStore;
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? supabaseStore : indexedDbStore;
+}
+
+function parseRef(ref: string): { store: AttachmentStore; key: string } | null {
+  const separator = ref.indexOf(':');
+  if (separator === -1) return null;
+
+  const prefix = ref.slice(0, separator);
+  const key = ref.slice(separator + 1);
+  const candidates = [overrideStore, supabaseStore, indexedDbStore];
+  const store = candidates.find(s => s && s.prefix === prefix);
+
+  return store ? { store, key } : null;
+}
+
+// A request that never got an answer from Storage (offline, dropped
+// connection); refusals from the server carry a status
+function isNetworkError(error: unknown): boolean {
+  return !(error instanceof Error && 'status' in error);
+}
+
+// Signed in but offline, the file stays on this device until
+// moveDeviceAttachments uploads it
+export async function uploadAttachment(file: File): Promise<string> {
+  const store = await getUploadStore();
+  if (store === supabaseStore) {
+    try {
+      if (isOnline()) return `${store.prefix}:${await store.upload(file)}`;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+    return `${indexedDbStore.prefix}:${await indexedDbStore.upload(file)}`;
+  }
+
+  const key = await store.upload(file);
+  return `${store.prefix}:${key}`;
+}
+
+// Saved on this device only (IndexedDB): attached while signed out or offline
+export function isDeviceAttachment(ref: string): boolean {
+  return parseRef(ref)?.store === indexedDbStore;
+}
+
+// Stores a copy of the file where uploads go now (Supabase once signed in)
+// and returns its reference; the original is left in place. References
+// already there, or that can't be read, come back unchanged.
+export async function copyAttachment(ref: string): Promise<string> {
+  const parsed = parseRef(ref);
+  const target = await getUploadStore();
+  if (!parsed || parsed.store === target) return ref;
+
+  const file = await parsed.store.read(parsed.key);
+  if (!file) return ref;
+  return `${target.prefix}:${await target.upload(file)}`;
+}
+
+// Upload the files of signed-in users' trades kept on this device, point
+// the trades at the uploaded copies through `save`, then drop the device
+// copies. Does nothing offline or for guests.
+export async function moveDeviceAttachments(trades: Trade[], save: (changes: TradeUpdate[]) => Promise<unknown>): Promise<void> {
+  if (!isOnline() || (await getUploadStore()) !== supabaseStore) return;
+
+  const changes: TradeUpdate[] = [];
+  const moved: string[] = [];
+  const copies: string[] = [];
+  try {
+    for (const trade of trades) {
+      const refs = trade.screenshots || [];
+      if (!refs.some(isDeviceAttachment)) continue;
+
+      const screenshots: string[] = [];
+      for (const ref of refs) {
+        const copy = isDeviceAttachment(ref) ? await copyAttachment(ref) : ref;
+        if (copy !== ref) {
+          moved.push(ref);
+          copies.push(copy);
+        }
+        screenshots.push(copy);
+      }
+      changes.push({ id: trade.id, updates: { screenshots } });
+    }
+    if (copies.length === 0) return;
+    await save(changes);
+  } catch (error) {
+    // The trades still point at the device copies
+    await deleteAttachments(copies);
+    throw error;
+  }
+
+  await deleteAttachments(moved);
+}
+
+export async function getAttachmentUrl(ref: string): Promise<string | null> {
+  // Plain URLs (legacy screenshots) are used as-is
+  if (/^(https?|data|blob):/.test(ref)) return ref;
+
+  const parsed = parseRef(ref);
+  return parsed ? parsed.store.getUrl(parsed.key) : null;
+}
+
+export async function deleteAttachments(refs: string[]): Promise<void> {
+  const byStore = new Map<AttachmentStore, string[]>();
+
+  for (const ref of refs) {
+    const parsed = parseRef(ref);
+    if (!parsed) continue;
+    byStore.set(parsed.store, [...(byStore.get(parsed.store) || []), parsed.key]);
+  }
+
+  await Promise.all(Array.from(byStore.entries()).map(([store, keys]) => store.remove(keys)));
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { readCsvText } from './genericCsv';
+import { parseBinanceFutures, parseBybitFutures } from './cryptoParser';
+
+const csv = (name: string, lines: string[]) => ({ name, table: readCsvText(lines.join('\n')) });
+
+// Binance: USDⓈ-M and COIN-M trade histories are exported apart, newest
+// first; the funding comes from the futures transaction history
+const binanceUsdm = csv('usdm-trades.csv', [
+  'Date(UTC),Trade ID,Symbol,Side,Price,Quantity,Amount,Fee,Fee Coin,Realized Profit',
+  '2024-03-01 20:00:00,4100003,BTCUSDT,SELL,63000.0,0.020,1260.00,0.50400000,USDT,15.00000000',
+  '2024-03-01 09:15:00,4100002,BTCUSDT,BUY,62500.0,0.010,625.00,0.25000000,USDT,0.00000000',
+  '2024-03-01 08:30:00,4100001,BTCUSDT,BUY,62000.0,0.010,620.00,0.24800000,USDT,0.00000000',
+]);
+
+const binanceCoinm = csv('coinm-trades.csv', [
+  'Date(UTC),Trade ID,Symbol,Side,Price,Quantity,Amount,Fee,Fee Coin,Realized Profit',
+  '2024-03-02 14:00:00,900002,BTCUSD_PERP,BUY,58000.0,10,0.01724138,0.00000862,BTC,0.00057471',
+  '2024-03-02 10:00:00,900001,BTCUSD_PERP,SELL,60000.0,10,0.01666667,0.00000833,BTC,0.00000000',
+]);
+
+const binanceTransactions = csv('transactions.csv', [
+  'Time(UTC),Symbol,Type,Amount,Asset',
+  '2024-03-02 16:00:00,BTCUSDT,FUNDING_FEE,-0.15000000,USDT',
+  '2024-03-02 12:00:00,BTCUSD_PERP,FUNDING_FEE,0.00000150,BTC',
+  '2024-03-01 20:00:00,BTCUSDT,COMMISSION,-0.50400000,USDT',
+  '2024-03-01 16:00:00,BTCUSDT,FUNDING_FEE,-0.37250000,USDT',
+  '2024-03-01 08:00:00,,TRANSFER,1000.00000000,USDT',
+]);
+
+// Bybit USDC perpetual: funding settlements are listed with the executions
+const bybit = csv('bybit.csv', [
+  'Contracts,Direction,Filled Qty,Filled Price,Exec Fee,Exec Type,Exec ID,Trade Time',
+  'ETHPERP,Close Long,1,3450.00,0.6900,Trade,c0a1-3,2024-03-03 12:00:00',
+  'ETHPERP,Open Long,1,3400.00,0.0521,Funding,c0a1-2,2024-03-03 08:00:00',
+  'ETHPERP,Open Long,1,3400.00,0.6800,Trade,c0a1-1,2024-03-03 07:00:00',
+]);
+
+describe('parseBinanceFutures', () => {
+  const { trades, diagnostics, warnings } = parseBinanceFutures([binanceUsdm, binanceCoinm, binanceTransactions]);
+  const [linear, inverse] = trades;
+
+  it('pairs USDT-margined fills and books the funding paid while open', () => {
+    expect(linear).toMatchObject({
+      symbol: 'BTCUSDT',
+      direction: 'long',
+      units: 0.02,
+      entryPrice: 62250,
+      exitPrice: 63000,
+      entryTime: '2024-03-01T08:30:00',
+      exitTime: '2024-03-01T20:00:00',
+      currency: 'USDT',
+      sourceId: 'binance:4100001',
+      tags: ['Binance', 'Crypto', 'Imported'],
+    });
+    expect(linear.grossPnl).toBeCloseTo(15, 10);
+    expect(linear.commission).toBeCloseTo(-1.002, 10);
+    expect(linear.swap).toBeCloseTo(-0.3725, 10);
+    expect(linear.pnl).toBeCloseTo(15 - 1.002 - 0.3725, 10);
+  });
+
+  it('settles coin-margined contracts in the coin', () => {
+    expect(inverse).toMatchObject({ symbol: 'BTCUSD', direction: 'short', units: 10, currency: 'BTC', notes: 'Import Binance BTCUSD_PERP (100 USD par contrat)' });
+    // 10 contracts of 100 USD: 1000 × (1 / 58000 - 1 / 60000) BTC
+    expect(inverse.grossPnl).toBeCloseTo(1000 * (1 / 58000 - 1 / 60000), 12);
+    expect(inverse.commission).toBeCloseTo(-0.00001695, 12);
+    expect(inverse.swap).toBeCloseTo(0.0000015, 12);
+  });
+
+  it('warns about funding paid with no position open', () => {
+    expect(trades).toHaveLength(2);
+    expect(warnings).toEqual(['1 paiements de financement sans position ouverte correspondante, ignorés']);
+    // 5 fills and 3 funding payments; the commission and transfer lines are not funding
+    expect(diagnostics.rowsParsed).toBe(8);
+    expect(diagnostics.skipped).toEqual([]);
+  });
+});
+
+describe('parseBybitFutures', () => {
+  const { trades, warnings } = parseBybitFutures([bybit]);
+
+  it('reads the funding listed among the executions of a USDC perpetual', () => {
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({
+      symbol: 'ETHUSDC',
+      direction: 'long',
+      units: 1,
+      grossPnl: 50,
+      currency: 'USDC',
+      sourceId: 'bybit:c0a1-1',
+    });
+    expect(trades[0].executions).toHaveLength(2);
+    expect(trades[0].commission).toBeCloseTo(-1.37, 10);
+    expect(trades[0].swap).toBeCloseTo(-0.0521, 10);
+    expect(trades[0].pnl).toBeCloseTo(48.5779, 10);
+    expect(warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,379 @@
+import type { NewTrade } from './tradeRepository';
+import type { FuturesImport } from './futuresParser';
+import { createDiagnostics } from './importDiagnostics';
+import {
+  columnIndex,
+  guessDateFormat,
+  guessDecimalSeparator,
+  parseDate,
+  parseNumber,
+  rowLine,
+  type CsvRowError,
+  type CsvTable,
+} from './genericCsv';
+import { buildRoundTrips, type Fill, type RoundTrip } from '../utils/executions';
+
+// Binance and Bybit perpetual and delivery futures. The trade history
+// lists fills, paired FIFO into positions; funding payments come from the
+// transaction (or funding fee) history and are booked as swap on the
+// position open at the time. P&L is in the margin asset: USDT or USDC
+// for linear contracts, the coin itself for coin-margined (inverse) ones.
+
+export type Exchange = 'binance' | 'bybit';
+
+// Exports are selected together (trades + funding), possibly as several files
+export interface NamedTable {
+  name: string;
+  table: CsvTable;
+}
+
+const exchangeLabels: Record<Exchange, string> = {
+  binance: 'Binance',
+  bybit: 'Bybit',
+};
+
+interface Perpetual {
+  code: string; // as exported: "BTCUSDT", "BTCUSD_PERP", "BTCPERP"
+  symbol: string; // journal symbol: "BTCUSDT", "BTCUSD"
+  settle: string; // margin and P&L asset
+  inverse: boolean;
+  contractSize: number; // USD per contract for inverse contracts, else 1
+}
+
+const STABLECOINS = ['USDT', 'USDC', 'BUSD', 'FDUSD'];
+
+// Binance COIN-M contracts are worth 100 USD for BTC, 10 USD for the
+// others; Bybit inverse contracts are worth 1 USD
+function inverseContractSize(exchange: Exchange, base: string): number {
+  if (exchange === 'bybit') return 1;
+  return base === 'BTC' ? 100 : 10;
+}
+
+function resolvePerpetual(code: string, exchange: Exchange, warnings: Set<string>): Perpetual {
+  const value = code.trim().toUpperCase().replace(/[-/\s]/g, '');
+
+  // BTCUSDT, ETHUSDC, BTCUSDT_250328 (delivery)
+  const linear = value.match(new RegExp(`^([A-Z0-9]+?)(${STABLECOINS.join('|')})(?:_?\\d{6}|\\d{2}[A-Z]{3}\\d{2})?$`));
+  if (linear) {
+    return { code: code.trim(), symbol: `${linear[1]}${linear[2]}`, settle: linear[2], inverse: false, contractSize: 1 };
+  }
+
+  // Bybit USDC perpetuals: BTCPERP, BTC-PERP
+  const usdcPerp = value.match(/^([A-Z0-9]+?)PERP$/);
+  if (usdcPerp) {
+    return { code: code.trim(), symbol: `${usdcPerp[1]}USDC`, settle: 'USDC', inverse: false, contractSize: 1 };
+  }
+
+  // Coin-margined: BTCUSD_PERP, ETHUSD_250328 (Binance), BTCUSD, BTCUSDZ25 (Bybit)
+  const inverse = value.match(/^([A-Z0-9]+?)USD(?:_PERP|_\d{6}|[FGHJKMNQUVXZ]\d{2})?$/);
+  if (inverse) {
+    const base = inverse[1];
+    return { code: code.trim(), symbol: `${base}USD`, settle: base, inverse: true, contractSize: inverseContractSize(exchange, base) };
+  }
+
+  warnings.add(`Contrat ${code.trim()} non reconnu : traité comme un contrat linéaire en USDT`);
+  return { code: code.trim(), symbol: value, settle: 'USDT', inverse: false, contractSize: 1 };
+}
+
+const FILL_HEADERS = {
+  id: ['trade id', 'exec id', 'transaction id', 'order id', 'order no.', 'id'],
+  symbol: ['symbol', 'contracts', 'contract'],
+  side: ['side', 'direction', 'trade side'],
+  positionSide: ['position side'],
+  price: ['filled price', 'exec price', 'trade price', 'avg. filled price', 'avg filled price', 'price'],
+  quantity: ['filled qty', 'exec qty', 'filled quantity', 'quantity', 'qty'],
+  fee: ['trading fee', 'exec fee', 'fee', 'fees'],
+  feeAsset: ['fee coin', 'fee asset', 'fee currency'],
+  realizedPnl: ['realized profit', 'realized pnl', 'closed p&l'],
+  time: ['date(utc)', 'time(utc)', 'trade time', 'transaction time', 'filled time', 'exec time', 'create time', 'time', 'date'],
+  execType: ['exec type', 'trade type', 'transaction type'],
+};
+
+const FUNDING_HEADERS = {
+  symbol: ['symbol', 'contract', 'contracts'],
+  type: ['type', 'operation', 'income type'],
+  amount: ['cash flow', 'change', 'funding fee', 'funding', 'amount', 'income'],
+  asset: ['asset', 'coin', 'currency'],
+  time: ['date(utc)', 'time(utc)', 'transaction time', 'time', 'date'],
+};
+
+const ROW_ID_PREFIX = 'row:';
+
+type Columns<T> = Record<keyof T, number>;
+
+function columns<T extends Record<string, string[]>>(table: CsvTable, headers: T): Columns<T> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([field, names]) => [field, columnIndex(table, names)])
+  ) as Columns<T>;
+}
+
+// "Buy", "Sell", and Bybit's "Open Long", "Close Short"...
+function parseSide(value: string | undefined): 'buy' | 'sell' | null {
+  const normalized = value?.trim().toLowerCase() || '';
+  if (/^(buy|b$|open long|close short)/.test(normalized)) return 'buy';
+  if (/^(sell|s$|open short|close long)/.test(normalized)) return 'sell';
+  return null;
+}
+
+// Binance writes the asset after the amount: "0.01234 USDT"
+function assetOf(value: string | undefined): string | null {
+  return value?.trim().match(/([A-Z]{2,10})$/)?.[1] || null;
+}
+
+interface FundingPayment {
+  code: string;
+  time: string;
+  amount: number; // signed, negative = paid
+  asset: string | null;
+}
+
+interface Sheet {
+  name: string;
+  table: CsvTable;
+  decimalSeparator: '.' | ',';
+  cell: (cells: string[], index: number) => string | undefined;
+}
+
+function sheet({ name, table }: NamedTable): Sheet {
+  return {
+    name,
+    table,
+    decimalSeparator: guessDecimalSeparator(table.rows),
+    cell: (cells, index) => index >= 0 ? cells[index]?.trim() : undefined,
+  };
+}
+
+function isFundingType(value: string | undefined): boolean {
+  return /funding|settlement/i.test(value || '');
+}
+
+function parseFundingTable(source: Sheet, fundings: FundingPayment[], errors: CsvRowError[]) {
+  const { table, cell, decimalSeparator } = source;
+  const index = columns(table, FUNDING_HEADERS);
+  const dateFormat = guessDateFormat(table.rows.map(cells => cells[index.time]), 'iso');
+
+  table.rows.forEach((cells, rowIndex) => {
+    if (!cells.some(value => value.trim())) return;
+    // Transaction histories also list transfers, commissions and realized P&L
+    if (index.type >= 0 && !isFundingType(cell(cells, index.type))) return;
+
+    const time = parseDate(cell(cells, index.time), dateFormat);
+    const amount = parseNumber(cell(cells, index.amount), decimalSeparator);
+    if (!time || amount === null) {
+      errors.push({ line: rowLine(table, rowIndex), message: 'Paiement de financement illisible', file: source.name });
+      return;
+    }
+
+    fundings.push({
+      code: cell(cells, index.symbol) || '',
+      time,
+      amount,
+      asset: cell(cells, index.asset)?.toUpperCase() || assetOf(cell(cells, index.amount)),
+    });
+  });
+}
+
+function parseExchange(tables: NamedTable[], exchange: Exchange): FuturesImport {
+  const label = exchangeLabels[exchange];
+  const errors: CsvRowError[] = [];
+  const warnings = new Set<string>();
+
+  const fills: Fill[] = [];
+  const fundings: FundingPayment[] = [];
+  const perpetuals = new Map<string, Perpetual>(); // by fill key
+  const reportedPnl = new Map<string, number>(); // by fill id
+
+  for (const named of tables) {
+    const source = sheet(named);
+    const { table, cell, decimalSeparator } = source;
+    const index = columns(table, FILL_HEADERS);
+
+    // The trade history has prices and quantities; anything else with an
+    // amount column is read as a funding (transaction) history
+    if (index.side < 0 || index.price < 0 || index.quantity < 0) {
+      if (columnIndex(table, FUNDING_HEADERS.amount) >= 0 && columnIndex(table, FUNDING_HEADERS.time) >= 0) {
+        parseFundingTable(source, fundings, errors);
+      } else {
+        errors.push({ line: 1, message: `Ni historique des trades ni historique de financement ${label}`, file: named.name });
+      }
+      continue;
+    }
+
+    const dateFormat = guessDateFormat(table.rows.map(cells => cells[index.time]), 'iso');
+    const tableFills: Fill[] = [];
+
+    table.rows.forEach((cells, rowIndex) => {
+      const line = rowLine(table, rowIndex);
+      if (!cells.some(value => value.trim())) return;
+
+      const code = cell(cells, index.symbol);
+      const time = parseDate(cell(cells, index.time), dateFormat);
+
+      // Bybit lists funding settlements among the executions, the fee
+      // being the amount paid
+      if (isFundingType(cell(cells, index.execType))) {
+        const fee = parseNumber(cell(cells, index.fee), decimalSeparator);
+        if (code && time && fee !== null) {
+          fundings.push({ code, time, amount: -fee, asset: cell(cells, index.feeAsset)?.toUpperCase() || assetOf(cell(cells, index.fee)) });
+        }
+        return;
+      }
+
+      const side = parseSide(cell(cells, index.side));
+      const price = parseNumber(cell(cells, index.price), decimalSeparator);
+      const quantity = parseNumber(cell(cells, index.quantity), decimalSeparator);
+
+      if (!code || !side || !price || !quantity || !time) {
+        errors.push({ line, message: 'Exécution illisible', file: named.name });
+        return;
+      }
+
+      const perpetual = resolvePerpetual(code, exchange, warnings);
+      // Hedge mode keeps a long and a short position on the same contract
+      const positionSide = cell(cells, index.positionSide)?.toUpperCase();
+      const key = positionSide === 'LONG' || positionSide === 'SHORT' ? `${perpetual.code}|${positionSide}` : perpetual.code;
+      perpetuals.set(key, perpetual);
+
+      // Fees are positive when paid, negative for maker rebates. Fees paid
+      // in another asset (BNB discount) can't be added to the P&L.
+      let fee = parseNumber(cell(cells, index.fee), decimalSeparator) || 0;
+      const feeAsset = cell(cells, index.feeAsset)?.toUpperCase() || assetOf(cell(cells, index.fee));
+      if (fee !== 0 && feeAsset && feeAsset !== perpetual.settle) {
+        warnings.add(`Frais payés en ${feeAsset} non comptés dans le P&L (${perpetual.code} est réglé en ${perpetual.settle})`);
+        fee = 0;
+      }
+
+      // Without an id column the row stands in for it, but is not stable
+      // enough to recognise the trade on re-import
+      const id = cell(cells, index.id) || `${ROW_ID_PREFIX}${named.name}:${line}`;
+      const realized = parseNumber(cell(cells, index.realizedPnl), decimalSeparator);
+      if (realized !== null) reportedPnl.set(id, realized);
+
+      tableFills.push({
+        id,
+        key,
+        time,
+        side,
+        quantity: Math.abs(quantity),
+        price,
+        fee,
+        multiplier: perpetual.contractSize,
+        inverse: perpetual.inverse,
+      });
+    });
+
+    // Exports are newest first
+    if (tableFills.length > 1 && tableFills[0].time > tableFills[tableFills.length - 1].time) tableFills.reverse();
+    fills.push(...tableFills);
+  }
+
+  const ordered = fills
+    .map((fill, order) => ({ fill, order }))
+    .sort((a, b) => a.fill.time.localeCompare(b.fill.time) || a.order - b.order)
+    .map(({ fill }) => fill);
+
+  const trips = buildRoundTrips(ordered);
+  const funding = attributeFunding(trips, perpetuals, fundings, warnings);
+
+  const trades = trips.map((trip, tripIndex) => {
+    const perpetual = perpetuals.get(trip.key)!;
+    checkReportedPnl(trip, reportedPnl, perpetual, warnings);
+
+    const commission = -trip.fees;
+    const swap = funding[tripIndex];
+    return {
+      symbol: perpetual.symbol,
+      direction: trip.direction,
+      entryPrice: trip.entryPrice,
+      exitPrice: trip.exitPrice,
+      units: trip.units,
+      entryTime: trip.entryTime,
+      exitTime: trip.exitTime,
+      stopLoss: null,
+      takeProfit: null,
+      pnl: trip.isClosed ? trip.grossPnl + commission + swap : null,
+      pnlPercent: null,
+      grossPnl: trip.isClosed ? trip.grossPnl : null,
+      commission,
+      swap,
+      fees: 0,
+      currency: perpetual.settle,
+      status: trip.isClosed ? 'closed' : 'open',
+      notes: `Import ${label} ${perpetual.code}${perpetual.inverse ? ` (${perpetual.contractSize} USD par contrat)` : ''}`,
+      tags: [label, 'Crypto', 'Imported'],
+      sourceId: trip.fillIds[0] && !trip.fillIds[0].startsWith(ROW_ID_PREFIX) ? `${exchange}:${trip.fillIds[0]}` : null,
+      executions: trip.executions,
+    } satisfies NewTrade;
+  });
+
+  if (trades.length === 0 && fundings.length > 0) {
+    errors.push({ line: 1, message: 'Historique de financement seul : ajoutez l\'historique des trades' });
+  }
+
+  return { trades, diagnostics: createDiagnostics(fills.length + fundings.length, errors, trades), warnings: [...warnings] };
+}
+
+// Each funding payment goes to the position on its contract that was open
+// at that time. Returns the funding total per round trip (same order).
+function attributeFunding(
+  trips: RoundTrip[],
+  perpetuals: Map<string, Perpetual>,
+  fundings: FundingPayment[],
+  warnings: Set<string>,
+): number[] {
+  const totals = trips.map(() => 0);
+  let unattributed = 0;
+  let otherAsset = 0;
+
+  for (const payment of fundings) {
+    const code = payment.code.toUpperCase().replace(/[-/\s]/g, '');
+    const tripIndex = trips.findIndex(trip => {
+      const perpetual = perpetuals.get(trip.key)!;
+      return perpetual.code.toUpperCase().replace(/[-/\s]/g, '') === code
+        && trip.entryTime <= payment.time
+        && (trip.exitTime === null || payment.time <= trip.exitTime);
+    });
+
+    if (tripIndex < 0) {
+      unattributed++;
+      continue;
+    }
+    const perpetual = perpetuals.get(trips[tripIndex].key)!;
+    if (payment.asset && payment.asset !== perpetual.settle) {
+      otherAsset++;
+      continue;
+    }
+    totals[tripIndex] += payment.amount;
+  }
+
+  if (unattributed > 0) {
+    warnings.add(`${unattributed} paiements de financement sans position ouverte correspondante, ignorés`);
+  }
+  if (otherAsset > 0) {
+    warnings.add(`${otherAsset} paiements de financement dans un autre actif que la marge, ignorés`);
+  }
+  return totals;
+}
+
+// Realized profit reported on the closing fills (Binance), before fees
+function checkReportedPnl(trip: RoundTrip, reportedPnl: Map<string, number>, perpetual: Perpetual, warnings: Set<string>) {
+  if (!trip.isClosed) return;
+  const entrySide = trip.direction === 'long' ? 'buy' : 'sell';
+  // A reversing fill appears in both trips; its profit is on the closing side
+  const closingIds = trip.fillIds.filter((_, i) => trip.executions[i].side !== entrySide);
+  if (!closingIds.some(id => reportedPnl.has(id))) return;
+
+  const reported = closingIds.reduce((sum, id) => sum + (reportedPnl.get(id) || 0), 0);
+  const tolerance = Math.max(perpetual.inverse ? 1e-8 : 0.01, Math.abs(trip.grossPnl) * 1e-4);
+  if (Math.abs(reported - trip.grossPnl) > tolerance) {
+    warnings.add(`${perpetual.code} : P&L exporté ${reported}, calculé ${trip.grossPnl.toFixed(8).replace(/\.?0+$/, '')} ${perpetual.settle}`);
+  }
+}
+
+export function parseBinanceFutures(tables: NamedTable[]): FuturesImport {
+  return parseExchange(tables, 'binance');
+}
+
+export function parseBybitFutures(tables: NamedTable[]): FuturesImport {
+  return parseExchange(tables, 'bybit');
+}
@@ -1,8 +1,23 @@
-import type { Trade, ParsedCSVEntry } from '../types/trade';
+import type { EstimatedField, Trade, ParsedCSVEntry } from '../types/trade';
 import { v4 as uuidv4 } from 'uuid';
+import { buildRoundTripExecutions } from '../utils/executions';
+import {
+  findHeader,
+  guessDateFormat,
+  guessDecimalSeparator,
+  parseDate,
+  parseNumber,
+  readCsvText,
+  rowLine,
+  type CsvRowError,
+  type CsvTable,
+  type DateFormat,
+} from './genericCsv';
+import { createDiagnostics, type ImportDiagnostics, type UnmatchedEntry } from './importDiagnostics';
 
 // Types for different CSV formats
 export interface BalanceHistoryEntry {
+  line: number; // in the exported file
   time: string;
   balanceBefore: number;
   balanceAfter: number;
@@ -19,6 +34,7 @@ export interface BalanceHistoryEntry {
 }
 
 export interface OrderLogEntry {
+  line?: number;
   time: string;
   text: string;
   // Parsed data
@@ -34,182 +50,350 @@ export interface OrderLogEntry {
 
 export type CSVFormat = 'balance_history' | 'order_logs' | 'unknown';
 
+// Rows that could not be read come back with their file line
+export interface CsvParseResult<T> {
+  entries: T[];
+  errors: CsvRowError[];
+}
+
+type HeaderLanguage = 'en' | 'fr';
+type BalanceField = 'time' | 'balanceBefore' | 'balanceAfter' | 'pnl' | 'currency' | 'action';
+type OrderLogField = 'time' | 'text';
+
+// TradingView names the columns in the interface language
+const BALANCE_HEADERS: Record<HeaderLanguage, Record<BalanceField, string[]>> = {
+  en: {
+    time: ['time', 'date'],
+    balanceBefore: ['balance before'],
+    balanceAfter: ['balance after'],
+    pnl: ['realized p&l (value)', 'realized pnl (value)', 'realized p&l'],
+    currency: ['realized p&l (currency)', 'realized pnl (currency)', 'currency'],
+    action: ['action'],
+  },
+  fr: {
+    time: ['heure', 'date'],
+    balanceBefore: ['balance avant', 'solde avant'],
+    balanceAfter: ['balance après', 'balance apres', 'solde après', 'solde apres'],
+    pnl: ['pertes et profits réalisés (valeur)', 'pertes et profits réalisés'],
+    currency: ['pertes et profits réalisés (devise)', 'devise'],
+    action: ['action'],
+  },
+};
+
+const ORDER_LOG_HEADERS: Record<HeaderLanguage, Record<OrderLogField, string[]>> = {
+  en: { time: ['time', 'date'], text: ['text'] },
+  fr: { time: ['heure', 'date'], text: ['texte'] },
+};
+
+// Column of each field, in the first language whose headers are all there
+function resolveColumns<F extends string>(headers: string[], names: Record<HeaderLanguage, Record<F, string[]>>): Record<F, number> | null {
+  for (const language of Object.keys(names) as HeaderLanguage[]) {
+    const fields = Object.entries(names[language]) as [F, string[]][];
+    const index = Object.fromEntries(fields.map(([field, candidates]) => {
+      const header = findHeader(headers, candidates);
+      return [field, header ? headers.indexOf(header) : -1];
+    })) as Record<F, number>;
+    if (fields.every(([field]) => index[field] >= 0)) return index;
+  }
+  return null;
+}
+
 // Detect CSV format type
 export function detectCSVFormat(csvContent: string): CSVFormat {
-  const firstLine = csvContent.trim().split('\n')[0].toLowerCase();
+  return csvFormatFromHeaders(readCsvText(csvContent).headers);
+}
 
-  if (firstLine.includes('balance') || firstLine.includes('pertes et profits')) {
-    return 'balance_history';
-  }
+export function csvFormatFromHeaders(headers: string[]): CSVFormat {
+  if (resolveColumns(headers, BALANCE_HEADERS)) return 'balance_history';
+  if (resolveColumns(headers, ORDER_LOG_HEADERS)) return 'order_logs';
+  return 'unknown';
+}
+
+// Kept as "YYYY-MM-DD HH:MM:SS", the format of the English export, on the
+// clock of the export (converted to UTC at import)
+function readTime(value: string | undefined, format: DateFormat): string | null {
+  const iso = parseDate(value, format);
+  return iso ? iso.replace('T', ' ').slice(0, 19) : null;
+}
 
-  if (firstLine.includes('heure') && firstLine.includes('texte')) {
-    return 'order_logs';
+function readTable<F extends string>(
+  table: CsvTable,
+  names: Record<HeaderLanguage, Record<F, string[]>>,
+): { table: CsvTable; index: Record<F, number>; dateFormat: DateFormat; decimalSeparator: '.' | ',' } | CsvRowError {
+  const index = resolveColumns(table.headers, names);
+  if (!index) {
+    return { line: 1, message: `En-têtes non reconnus : ${table.headers.join(', ') || 'fichier vide'}` };
   }
 
-  return 'unknown';
+  const timeIndex = (index as Record<string, number>).time;
+  return {
+    table,
+    index,
+    dateFormat: guessDateFormat(table.rows.map(cells => cells[timeIndex]), 'dmy'),
+    decimalSeparator: guessDecimalSeparator(table.rows),
+  };
 }
 
 // Parse balance history CSV
-export function parseBalanceHistoryCSV(csvContent: string): BalanceHistoryEntry[] {
-  const lines = csvContent.trim().split('\n');
-  const entries: BalanceHistoryEntry[] = [];
+export function parseBalanceHistoryCSV(csvContent: string): CsvParseResult<BalanceHistoryEntry> {
+  return parseBalanceHistoryTable(readCsvText(csvContent));
+}
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    // Parse CSV with quoted action field
-    const match = line.match(/^(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}),([^,]+),([^,]+),([^,]+),([^,]+),"(.+)"$/);
-
-    if (match) {
-      const entry: BalanceHistoryEntry = {
-        time: match[1],
-        balanceBefore: parseFloat(match[2]),
-        balanceAfter: parseFloat(match[3]),
-        pnl: parseFloat(match[4]),
-        currency: match[5],
-        action: match[6]
-      };
+// Same, from a file already tokenized (read in chunks by the import worker)
+export function parseBalanceHistoryTable(csvTable: CsvTable): CsvParseResult<BalanceHistoryEntry> {
+  const read = readTable(csvTable, BALANCE_HEADERS);
+  if ('message' in read) return { entries: [], errors: [read] };
 
-      // Parse action string to extract trade details
-      const actionMatch = entry.action.match(
-        /Close (long|short) position for symbol ([A-Z]+):([A-Z]+) at price ([0-9.]+) for ([0-9.]+) units\. Position AVG Price was ([0-9.]+)/i
-      );
-
-      if (actionMatch) {
-        entry.direction = actionMatch[1].toLowerCase() as 'long' | 'short';
-        entry.exchange = actionMatch[2];
-        entry.symbol = actionMatch[3];
-        entry.exitPrice = parseFloat(actionMatch[4]);
-        entry.units = parseFloat(actionMatch[5]);
-        entry.entryPrice = parseFloat(actionMatch[6]);
-      }
+  const { table, index, dateFormat, decimalSeparator } = read;
+  const entries: BalanceHistoryEntry[] = [];
+  const errors: CsvRowError[] = [];
+
+  table.rows.forEach((cells, rowIndex) => {
+    const line = rowLine(table, rowIndex);
+    const cell = (field: BalanceField) => cells[index[field]]?.trim();
+
+    const time = readTime(cell('time'), dateFormat);
+    const balanceBefore = parseNumber(cell('balanceBefore'), decimalSeparator);
+    const balanceAfter = parseNumber(cell('balanceAfter'), decimalSeparator);
+    const pnl = parseNumber(cell('pnl'), decimalSeparator);
+    if (!time || balanceBefore === null || balanceAfter === null || pnl === null) {
+      errors.push({ line, message: 'Date ou montant illisible' });
+      return;
+    }
 
-      entries.push(entry);
+    const entry: BalanceHistoryEntry = {
+      line,
+      time,
+      balanceBefore,
+      balanceAfter,
+      pnl,
+      currency: cell('currency') || '',
+      // Quoted actions may be wrapped over several lines
+      action: (cell('action') || '').replace(/\s+/g, ' '),
+    };
+
+    // Parse action string to extract trade details
+    const actionMatch = entry.action.match(
+      /Close (long|short) position for symbol ([A-Z]+):([A-Z]+) at price ([0-9.]+) for ([0-9.]+) units\. Position AVG Price was ([0-9.]+)/i
+    );
+
+    if (actionMatch) {
+      entry.direction = actionMatch[1].toLowerCase() as 'long' | 'short';
+      entry.exchange = actionMatch[2];
+      entry.symbol = actionMatch[3];
+      entry.exitPrice = parseFloat(actionMatch[4]);
+      entry.units = parseFloat(actionMatch[5]);
+      entry.entryPrice = parseFloat(actionMatch[6]);
+    } else if (/^close (long|short) position/i.test(entry.action)) {
+      // A closed trade we can't read would silently go missing
+      errors.push({ line, message: `Clôture non reconnue : ${entry.action.slice(0, 80)}` });
+      return;
     }
-  }
 
-  return entries;
+    entries.push(entry);
+  });
+
+  return { entries, errors };
 }
 
-// Parse order logs CSV with enhanced extraction
-export function parseOrderLogsCSV(csvContent: string): OrderLogEntry[] {
-  const lines = csvContent.trim().split('\n');
+// Time and text of each journal row
+function readOrderLogRows(csvTable: CsvTable): CsvParseResult<OrderLogEntry> {
+  const read = readTable(csvTable, ORDER_LOG_HEADERS);
+  if ('message' in read) return { entries: [], errors: [read] };
+
+  const { table, index, dateFormat } = read;
   const entries: OrderLogEntry[] = [];
+  const errors: CsvRowError[] = [];
+
+  table.rows.forEach((cells, rowIndex) => {
+    const line = rowLine(table, rowIndex);
+    const time = readTime(cells[index.time], dateFormat);
+    const text = cells[index.text]?.trim();
+    if (!time || !text) {
+      errors.push({ line, message: 'Heure ou texte manquant' });
+      return;
+    }
+    entries.push({ line, time, text });
+  });
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
+  return { entries, errors };
+}
 
-    const match = line.match(/^(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}),(.+)$/);
-    if (match) {
-      const entry: OrderLogEntry = {
-        time: match[1],
-        text: match[2]
-      };
+// Extract the order details from the journal text
+function parseOrderText(entry: OrderLogEntry): OrderLogEntry {
+  // Parse order ID
+  const orderIdMatch = entry.text.match(/Order (\d+)/);
+  if (orderIdMatch) {
+    entry.orderId = orderIdMatch[1];
+  }
 
-      // Parse order ID
-      const orderIdMatch = entry.text.match(/Order (\d+)/);
-      if (orderIdMatch) {
-        entry.orderId = orderIdMatch[1];
-      }
+  // Parse symbol from various patterns
+  const symbolMatch = entry.text.match(/symbol ([A-Z]+:[A-Z]+)/);
+  if (symbolMatch) {
+    entry.symbol = symbolMatch[1];
+  }
 
-      // Parse symbol from various patterns
-      const symbolMatch = entry.text.match(/symbol ([A-Z]+:[A-Z]+)/);
-      if (symbolMatch) {
-        entry.symbol = symbolMatch[1];
-      }
+  // Parse execution: "Order X for symbol Y has been executed at price Z for W units"
+  const execMatch = entry.text.match(/has been executed at price ([0-9.]+) for ([0-9.]+) units/);
+  if (execMatch) {
+    entry.action = 'execute';
+    entry.price = parseFloat(execMatch[1]);
+    entry.units = parseFloat(execMatch[2]);
+  }
 
-      // Parse execution: "Order X for symbol Y has been executed at price Z for W units"
-      const execMatch = entry.text.match(/has been executed at price ([0-9.]+) for ([0-9.]+) units/);
-      if (execMatch) {
-        entry.action = 'execute';
-        entry.price = parseFloat(execMatch[1]);
-        entry.units = parseFloat(execMatch[2]);
-      }
+  // Parse market order call with SL/TP
+  const callWithSlTpMatch = entry.text.match(/Call to place market order to (buy|sell) ([0-9.]+) units of symbol ([A-Z:]+) with SL ([0-9.]+) and TP ([0-9.]+)/);
+  if (callWithSlTpMatch) {
+    entry.action = callWithSlTpMatch[1] as 'buy' | 'sell';
+    entry.units = parseFloat(callWithSlTpMatch[2]);
+    entry.symbol = callWithSlTpMatch[3];
+    entry.stopLoss = parseFloat(callWithSlTpMatch[4]);
+    entry.takeProfit = parseFloat(callWithSlTpMatch[5]);
+    entry.isEntry = true;
+  }
 
-      // Parse market order call with SL/TP
-      const callWithSlTpMatch = entry.text.match(/Call to place market order to (buy|sell) ([0-9.]+) units of symbol ([A-Z:]+) with SL ([0-9.]+) and TP ([0-9.]+)/);
-      if (callWithSlTpMatch) {
-        entry.action = callWithSlTpMatch[1] as 'buy' | 'sell';
-        entry.units = parseFloat(callWithSlTpMatch[2]);
-        entry.symbol = callWithSlTpMatch[3];
-        entry.stopLoss = parseFloat(callWithSlTpMatch[4]);
-        entry.takeProfit = parseFloat(callWithSlTpMatch[5]);
-        entry.isEntry = true;
-      }
+  // Parse market order call without SL/TP (could be closing order)
+  const callMatch = entry.text.match(/Call to place market order to (buy|sell) ([0-9.]+) units of symbol ([A-Z:]+)(?:\s*)$/);
+  if (callMatch) {
+    entry.action = callMatch[1] as 'buy' | 'sell';
+    entry.units = parseFloat(callMatch[2]);
+    entry.symbol = callMatch[3];
+    entry.isEntry = false; // Likely a closing order
+  }
 
-      // Parse market order call without SL/TP (could be closing order)
-      const callMatch = entry.text.match(/Call to place market order to (buy|sell) ([0-9.]+) units of symbol ([A-Z:]+)(?:\s*)$/);
-      if (callMatch) {
-        entry.action = callMatch[1] as 'buy' | 'sell';
-        entry.units = parseFloat(callMatch[2]);
-        entry.symbol = callMatch[3];
-        entry.isEntry = false; // Likely a closing order
-      }
+  // Parse limit order with SL/TP
+  const limitMatch = entry.text.match(/Call to place limit order to (buy|sell) ([0-9.]+) units of symbol ([A-Z:]+) at price ([0-9.]+) with SL ([0-9.]+) and TP ([0-9.]+)/);
+  if (limitMatch) {
+    entry.action = 'limit';
+    entry.units = parseFloat(limitMatch[2]);
+    entry.symbol = limitMatch[3];
+    entry.price = parseFloat(limitMatch[4]);
+    entry.stopLoss = parseFloat(limitMatch[5]);
+    entry.takeProfit = parseFloat(limitMatch[6]);
+    entry.isEntry = true;
+  }
 
-      // Parse limit order with SL/TP
-      const limitMatch = entry.text.match(/Call to place limit order to (buy|sell) ([0-9.]+) units of symbol ([A-Z:]+) at price ([0-9.]+) with SL ([0-9.]+) and TP ([0-9.]+)/);
-      if (limitMatch) {
-        entry.action = 'limit';
-        entry.units = parseFloat(limitMatch[2]);
-        entry.symbol = limitMatch[3];
-        entry.price = parseFloat(limitMatch[4]);
-        entry.stopLoss = parseFloat(limitMatch[5]);
-        entry.takeProfit = parseFloat(limitMatch[6]);
-        entry.isEntry = true;
-      }
+  // Parse position modification: "Modify position for symbol X with SL Y and TP Z"
+  const modifyMatch = entry.text.match(/Modify position for symbol ([A-Z:]+) with SL ([0-9.]+) and TP ([0-9.]+)/);
+  if (modifyMatch) {
+    entry.action = 'modify';
+    entry.symbol = modifyMatch[1];
+    entry.stopLoss = parseFloat(modifyMatch[2]);
+    entry.takeProfit = parseFloat(modifyMatch[3]);
+  }
 
-      // Parse position modification: "Modify position for symbol X with SL Y and TP Z"
-      const modifyMatch = entry.text.match(/Modify position for symbol ([A-Z:]+) with SL ([0-9.]+) and TP ([0-9.]+)/);
-      if (modifyMatch) {
-        entry.action = 'modify';
-        entry.symbol = modifyMatch[1];
-        entry.stopLoss = parseFloat(modifyMatch[2]);
-        entry.takeProfit = parseFloat(modifyMatch[3]);
-      }
+  return entry;
+}
 
-      entries.push(entry);
-    }
-  }
+// Parse order logs CSV with enhanced extraction
+export function parseOrderLogsCSV(csvContent: string): CsvParseResult<OrderLogEntry> {
+  return parseOrderLogsTable(readCsvText(csvContent));
+}
 
-  return entries;
+export function parseOrderLogsTable(csvTable: CsvTable): CsvParseResult<OrderLogEntry> {
+  const { entries, errors } = readOrderLogRows(csvTable);
+  return { entries: entries.map(parseOrderText), errors };
 }
 
 // Build a timeline of SL/TP for each symbol
 interface PositionState {
   symbol: string;
   entryTime: string;
+  openedAt: number; // entryTime, in ms
   entryPrice: number;
   units: number;
   direction: 'long' | 'short';
   stopLoss: number | null;
   takeProfit: number | null;
-  slTpHistory: Array<{ time: string; stopLoss: number; takeProfit: number }>;
+  slTpHistory: Array<{ time: number; stopLoss: number; takeProfit: number }>;
+  orderId?: string; // of the entry fill
+  order: OrderLogEntry; // that opened it
+}
+
+export interface TradingViewImport {
+  trades: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>[];
+  diagnostics: ImportDiagnostics;
+}
+
+// Balance rows that are not a closed position: deposits, withdrawals...
+function skipBalanceRow(entry: BalanceHistoryEntry): CsvRowError {
+  return { line: entry.line, message: `Mouvement sans position : ${entry.action.slice(0, 80) || entry.pnl}` };
+}
+
+// A made-up entry time, 2 hours before the exit ("YYYY-MM-DD HH:MM:SS"),
+// when no order tells it
+function estimateEntryTime(exitTime: string): string {
+  return new Date(new Date(exitTime.replace(' ', 'T') + 'Z').getTime() - 2 * 60 * 60 * 1000).toISOString().slice(0, 19);
+}
+
+// Journal orders with their time read once, in time order
+interface TimedOrder {
+  order: OrderLogEntry;
+  time: number;
+}
+
+// First order at or after the time
+function lowerBound(orders: TimedOrder[], time: number): number {
+  let low = 0;
+  let high = orders.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (orders[middle].time < time) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+// Orders of a symbol, as lists that stay in time order
+function indexBySymbol(orders: TimedOrder[], keep: (order: OrderLogEntry) => boolean = () => true): Map<string, TimedOrder[]> {
+  const index = new Map<string, TimedOrder[]>();
+  for (const timed of orders) {
+    const { symbol } = timed.order;
+    if (!symbol || !keep(timed.order)) continue;
+    const list = index.get(symbol);
+    if (list) list.push(timed);
+    else index.set(symbol, [timed]);
+  }
+  return index;
 }
 
 // Merge balance history with order logs to create complete trades with SL/TP
 export function mergeTradeData(
   balanceEntries: BalanceHistoryEntry[],
   orderEntries: OrderLogEntry[]
-): Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>[] {
+): TradingViewImport {
   const trades: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>[] = [];
-
-  // Sort entries by time (ascending)
-  const sortedOrders = [...orderEntries].sort((a, b) =>
-    new Date(a.time).getTime() - new Date(b.time).getTime()
-  );
-
-  // Sort balance entries by time (descending to process oldest first when reversed)
-  const sortedBalance = [...balanceEntries].sort((a, b) =>
-    new Date(a.time).getTime() - new Date(b.time).getTime()
-  );
+  const skipped: CsvRowError[] = [];
+
+  // Sort entries by time (ascending), each time read once
+  const sortedOrders: TimedOrder[] = orderEntries
+    .map(order => ({ order, time: new Date(order.time).getTime() }))
+    .sort((a, b) => a.time - b.time);
+
+  const sortedBalance = balanceEntries
+    .map(entry => ({ entry, time: new Date(entry.time).getTime() }))
+    .sort((a, b) => a.time - b.time);
+
+  // Lookups by symbol, bounded by time with a binary search, instead of
+  // scanning the whole journal for each trade
+  const ordersBySymbol = indexBySymbol(sortedOrders);
+  const executionsBySymbol = indexBySymbol(sortedOrders, order => order.action === 'execute');
+  const modificationsBySymbol = indexBySymbol(sortedOrders, order => order.action === 'modify');
+
+  // First execution of the symbol within the window around a time
+  const findExecution = (symbol: string, time: number, window: number, matches: (order: OrderLogEntry) => boolean) => {
+    const executions = executionsBySymbol.get(symbol) || [];
+    for (let i = lowerBound(executions, time - window); i < executions.length && executions[i].time < time + window; i++) {
+      if (Math.abs(executions[i].time - time) < window && matches(executions[i].order)) return executions[i];
+    }
+    return undefined;
+  };
 
   // Build position tracking map: symbol -> array of position states
   const positionHistory: Map<string, PositionState[]> = new Map();
 
   // First pass: Build position history from order logs
-  for (const order of sortedOrders) {
+  for (const { order, time } of sortedOrders) {
     if (!order.symbol) continue;
 
     const symbol = order.symbol;
@@ -217,25 +401,23 @@ export function mergeTradeData(
     // Handle new position entries (orders with SL/TP or confirmed entries)
     if ((order.action === 'buy' || order.action === 'sell') && order.isEntry && order.stopLoss && order.takeProfit) {
       // This is an entry order with SL/TP
-      // Find the corresponding execution
-      const execution = sortedOrders.find(o =>
-        o.action === 'execute' &&
-        o.symbol === symbol &&
-        o.units === order.units &&
-        Math.abs(new Date(o.time).getTime() - new Date(order.time).getTime()) < 5000 // Within 5 seconds
-      );
+      // Find the corresponding execution, within 5 seconds
+      const execution = findExecution(symbol, time, 5000, o => o.units === order.units)?.order;
 
       const entryPrice = execution?.price || 0;
 
       const position: PositionState = {
         symbol,
         entryTime: order.time,
+        openedAt: time,
         entryPrice,
         units: order.units || 0,
         direction: order.action === 'buy' ? 'long' : 'short',
         stopLoss: order.stopLoss,
         takeProfit: order.takeProfit,
-        slTpHistory: [{ time: order.time, stopLoss: order.stopLoss, takeProfit: order.takeProfit }]
+        slTpHistory: [{ time, stopLoss: order.stopLoss, takeProfit: order.takeProfit }],
+        orderId: execution?.orderId,
+        order,
       };
 
       const existing = positionHistory.get(symbol) || [];
@@ -252,7 +434,7 @@ export function mergeTradeData(
         lastPosition.stopLoss = order.stopLoss;
         lastPosition.takeProfit = order.takeProfit;
         lastPosition.slTpHistory.push({
-          time: order.time,
+          time,
           stopLoss: order.stopLoss,
           takeProfit: order.takeProfit
         });
@@ -261,17 +443,21 @@ export function mergeTradeData(
   }
 
   // Second pass: Match balance entries (closed trades) with position history
-  for (const balance of sortedBalance) {
-    if (!balance.symbol || !balance.direction || balance.entryPrice === undefined || balance.exitPrice === undefined) continue;
+  for (const { entry: balance, time: exitTime } of sortedBalance) {
+    if (!balance.symbol || !balance.direction || balance.entryPrice === undefined || balance.exitPrice === undefined) {
+      skipped.push(skipBalanceRow(balance));
+      continue;
+    }
 
     const fullSymbol = `${balance.exchange}:${balance.symbol}`;
-    const exitTime = new Date(balance.time);
 
     // Find matching position from history
     let matchedPosition: PositionState | null = null;
     let entryTime = '';
+    let entryOrderId: string | undefined;
     let stopLoss: number | null = null;
     let takeProfit: number | null = null;
+    const estimatedFields: EstimatedField[] = [];
 
     const positions = positionHistory.get(fullSymbol) || [];
 
@@ -281,9 +467,7 @@ export function mergeTradeData(
     // - Entry time before exit time
     for (const pos of positions) {
       if (pos.direction !== balance.direction) continue;
-
-      const entryDate = new Date(pos.entryTime);
-      if (entryDate >= exitTime) continue;
+      if (pos.openedAt >= exitTime) continue;
 
       // Check if entry price matches (within 0.1% tolerance for floating point)
       const balanceEntryPrice = balance.entryPrice || 0;
@@ -302,11 +486,10 @@ export function mergeTradeData(
 
     if (matchedPosition) {
       entryTime = matchedPosition.entryTime;
+      entryOrderId = matchedPosition.orderId;
 
       // Get the last SL/TP values before exit
-      const relevantHistory = matchedPosition.slTpHistory.filter(
-        h => new Date(h.time) <= exitTime
-      );
+      const relevantHistory = matchedPosition.slTpHistory.filter(h => h.time <= exitTime);
 
       if (relevantHistory.length > 0) {
         const lastSlTp = relevantHistory[relevantHistory.length - 1];
@@ -322,48 +505,52 @@ export function mergeTradeData(
       if (idx > -1) positions.splice(idx, 1);
     } else {
       // No matching position found in order logs
-      // Try to find entry by looking at executions with matching price
+      // Try to find entry by looking at executions with matching price, before the exit
       const balanceEntryPriceCheck = balance.entryPrice || 0;
-      const entryOrder = sortedOrders.find(o =>
-        o.symbol === fullSymbol &&
-        o.action === 'execute' &&
-        o.price !== undefined &&
-        balanceEntryPriceCheck > 0 &&
-        Math.abs(o.price - balanceEntryPriceCheck) / balanceEntryPriceCheck < 0.001 &&
-        new Date(o.time) < exitTime
-      );
+      const executions = executionsBySymbol.get(fullSymbol) || [];
+      let entryOrder: TimedOrder | undefined;
+      for (let i = 0; balanceEntryPriceCheck > 0 && i < executions.length && executions[i].time < exitTime; i++) {
+        const { price } = executions[i].order;
+        if (price !== undefined && Math.abs(price - balanceEntryPriceCheck) / balanceEntryPriceCheck < 0.001) {
+          entryOrder = executions[i];
+          break;
+        }
+      }
 
       if (entryOrder) {
-        entryTime = entryOrder.time;
-
-        // Look for SL/TP in nearby orders
-        const nearbyOrders = sortedOrders.filter(o =>
-          o.symbol === fullSymbol &&
-          Math.abs(new Date(o.time).getTime() - new Date(entryOrder.time).getTime()) < 10000 &&
-          o.stopLoss && o.takeProfit
-        );
-
-        if (nearbyOrders.length > 0) {
-          stopLoss = nearbyOrders[0].stopLoss || null;
-          takeProfit = nearbyOrders[0].takeProfit || null;
+        entryTime = entryOrder.order.time;
+        entryOrderId = entryOrder.order.orderId;
+
+        // Look for SL/TP in nearby orders, within 10 seconds
+        const orders = ordersBySymbol.get(fullSymbol) || [];
+        let nearbyOrder: OrderLogEntry | undefined;
+        for (let i = lowerBound(orders, entryOrder.time - 10000); i < orders.length && orders[i].time < entryOrder.time + 10000; i++) {
+          const { order: o, time } = orders[i];
+          if (Math.abs(time - entryOrder.time) < 10000 && o.stopLoss && o.takeProfit) {
+            nearbyOrder = o;
+            break;
+          }
+        }
+
+        // Not necessarily the same position: flagged as a guess
+        if (nearbyOrder) {
+          stopLoss = nearbyOrder.stopLoss || null;
+          takeProfit = nearbyOrder.takeProfit || null;
+          estimatedFields.push('stopLoss', 'takeProfit');
         }
 
-        // Also check for modifications
-        const modifications = sortedOrders.filter(o =>
-          o.symbol === fullSymbol &&
-          o.action === 'modify' &&
-          new Date(o.time) > new Date(entryOrder.time) &&
-          new Date(o.time) <= exitTime
-        );
+        // Also check for modifications: the last one after the entry and up to the exit
+        const modifications = modificationsBySymbol.get(fullSymbol) || [];
+        const lastIndex = lowerBound(modifications, exitTime + 1) - 1;
 
-        if (modifications.length > 0) {
-          const lastMod = modifications[modifications.length - 1];
+        if (lastIndex >= 0 && modifications[lastIndex].time > entryOrder.time) {
+          const lastMod = modifications[lastIndex].order;
           stopLoss = lastMod.stopLoss || stopLoss;
           takeProfit = lastMod.takeProfit || takeProfit;
         }
       } else {
-        // Estimate entry time (2 hours before exit as fallback)
-        entryTime = new Date(exitTime.getTime() - 2 * 60 * 60 * 1000).toISOString().replace('T', ' ').slice(0, 19);
+        entryTime = estimateEntryTime(balance.time);
+        estimatedFields.push('entryTime');
       }
     }
 
@@ -372,18 +559,11 @@ export function mergeTradeData(
       ? (balance.pnl / (balance.entryPrice * (balance.units || 1))) * 100
       : 0;
 
-    // Generate tags
-    const tags: string[] = [];
-    if (balance.exchange) tags.push(balance.exchange);
-    if (Math.abs(balance.pnl) > 5000) tags.push('Big Trade');
-    if (Math.abs(balance.pnl) > 1000) tags.push('Good Trade');
-    if (balance.symbol?.includes('XAU') || balance.symbol?.includes('XAG')) tags.push('Metals');
-    if (['BTC', 'ETH', 'SOL', 'XRP', 'ADA'].some(c => balance.symbol?.includes(c))) tags.push('Crypto');
-    if (['JPY', 'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'CHF', 'NZD'].some(c => balance.symbol?.includes(c))) {
-      if (!balance.symbol?.includes('XAU') && !balance.symbol?.includes('XAG')) {
-        tags.push('Forex');
-      }
-    }
+    // The exchange; other tags come from the user's rules at import (see tagRules)
+    const tags: string[] = balance.exchange ? [balance.exchange] : [];
+
+    const tradeEntryTime = entryTime.replace(' ', 'T');
+    const tradeExitTime = balance.time.replace(' ', 'T');
 
     trades.push({
       symbol: balance.symbol,
@@ -391,47 +571,68 @@ export function mergeTradeData(
       entryPrice: balance.entryPrice,
       exitPrice: balance.exitPrice,
       units: balance.units || 0,
-      entryTime: entryTime.includes('T') ? entryTime : entryTime.replace(' ', 'T') + 'Z',
-      exitTime: balance.time.includes('T') ? balance.time : balance.time.replace(' ', 'T') + 'Z',
+      entryTime: tradeEntryTime,
+      exitTime: tradeExitTime,
       stopLoss: stopLoss,
       takeProfit: takeProfit,
       pnl: balance.pnl,
       pnlPercent: pnlPercent,
-      currency: balance.currency || 'USD',
+      // The balance history only reports the realized result, no cost breakdown
+      grossPnl: balance.pnl,
+      commission: 0,
+      swap: 0,
+      fees: 0,
+      currency: balance.currency || '',
       status: 'closed',
       notes: `Balance: $${balance.balanceBefore.toFixed(2)} → $${balance.balanceAfter.toFixed(2)}`,
       tags: tags,
+      // Trades without a known entry order get a content hash at import
+      sourceId: entryOrderId ? `tv:${entryOrderId}` : null,
+      estimatedFields,
+      executions: buildRoundTripExecutions({
+        direction: balance.direction,
+        entryTime: tradeEntryTime,
+        entryPrice: balance.entryPrice,
+        exitTime: tradeExitTime,
+        exitPrice: balance.exitPrice,
+        quantity: balance.units || 0,
+      }),
     });
   }
 
   // Sort trades by exit time (newest first)
   trades.sort((a, b) => new Date(b.exitTime || 0).getTime() - new Date(a.exitTime || 0).getTime());
 
-  return trades;
+  // Entries with SL/TP that no closed trade picked up
+  const unmatched: UnmatchedEntry[] = [...positionHistory.values()]
+    .flat()
+    .map(({ order }) => ({ line: order.line, time: order.time, text: order.text }))
+    .sort((a, b) => a.time.localeCompare(b.time));
+
+  const rowsParsed = balanceEntries.length - skipped.length + orderEntries.length;
+  return { trades, diagnostics: createDiagnostics(rowsParsed, skipped, trades, unmatched) };
 }
 
 // Parse balance history only (when no order logs available)
-export function parseBalanceHistoryTrades(entries: BalanceHistoryEntry[]): Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>[] {
+export function parseBalanceHistoryTrades(entries: BalanceHistoryEntry[]): TradingViewImport {
   const trades: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>[] = [];
+  const skipped: CsvRowError[] = [];
 
   for (const entry of entries) {
-    if (!entry.symbol || !entry.direction || !entry.entryPrice || !entry.exitPrice) continue;
+    if (!entry.symbol || !entry.direction || !entry.entryPrice || !entry.exitPrice) {
+      skipped.push(skipBalanceRow(entry));
+      continue;
+    }
 
-    const exitTime = new Date(entry.time);
-    const entryTime = new Date(exitTime.getTime() - 2 * 60 * 60 * 1000); // Estimate 2 hours before
+    // Only the order log has the entry time and SL/TP
+    const entryTime = estimateEntryTime(entry.time);
+    const exitTimeIso = entry.time.replace(' ', 'T');
 
     const pnlPercent = entry.entryPrice > 0
       ? (entry.pnl / (entry.entryPrice * (entry.units || 1))) * 100
       : 0;
 
-    const tags: string[] = [];
-    if (entry.exchange) tags.push(entry.exchange);
-    if (Math.abs(entry.pnl) > 5000) tags.push('Big Trade');
-    if (entry.symbol?.includes('XAU') || entry.symbol?.includes('XAG')) tags.push('Metals');
-    if (['BTC', 'ETH', 'SOL'].some(c => entry.symbol?.includes(c))) tags.push('Crypto');
-    if (['JPY', 'USD', 'EUR', 'GBP', 'CAD'].some(c => entry.symbol?.includes(c))) {
-      if (!entry.symbol?.includes('XAU')) tags.push('Forex');
-    }
+    const tags: string[] = entry.exchange ? [entry.exchange] : [];
 
     trades.push({
       symbol: entry.symbol,
@@ -439,41 +640,39 @@ export function parseBalanceHistoryTrades(entries: BalanceHistoryEntry[]): Omit<
       entryPrice: entry.entryPrice,
       exitPrice: entry.exitPrice,
       units: entry.units || 0,
-      entryTime: entryTime.toISOString(),
-      exitTime: entry.time.replace(' ', 'T') + 'Z',
+      entryTime,
+      exitTime: exitTimeIso,
       stopLoss: null,
       takeProfit: null,
       pnl: entry.pnl,
       pnlPercent: pnlPercent,
-      currency: entry.currency || 'USD',
+      grossPnl: entry.pnl,
+      commission: 0,
+      swap: 0,
+      fees: 0,
+      currency: entry.currency || '',
       status: 'closed',
       notes: `Balance: $${entry.balanceBefore.toFixed(2)} → $${entry.balanceAfter.toFixed(2)}`,
       tags: tags,
+      estimatedFields: ['entryTime'],
+      executions: buildRoundTripExecutions({
+        direction: entry.direction,
+        entryTime,
+        entryPrice: entry.entryPrice,
+        exitTime: exitTimeIso,
+        exitPrice: entry.exitPrice,
+        quantity: entry.units || 0,
+      }),
     });
   }
 
-  return trades;
+  return { trades, diagnostics: createDiagnostics(entries.length - skipped.length, skipped, trades) };
 }
 
 // Legacy function for old format
-export function parseCSV(csvContent: string): ParsedCSVEntry[] {
-  const lines = csvContent.trim().split('\n');
-  const entries: ParsedCSVEntry[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const match = line.match(/^(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}),(.+)$/);
-    if (match) {
-      entries.push({
-        time: match[1],
-        text: match[2]
-      });
-    }
-  }
-
-  return entries;
+export function parseCSV(csvContent: string): CsvParseResult<ParsedCSVEntry> {
+  const { entries, errors } = readOrderLogRows(readCsvText(csvContent));
+  return { entries: entries.map(({ time, text }) => ({ time, text })), errors };
 }
 
 export function parseTradingViewLogs(entries: ParsedCSVEntry[]): Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>[] {
@@ -514,7 +713,7 @@ export function parseTradingViewLogs(entries: ParsedCSVEntry[]): Omit<Trade, 'id
     return entry;
   });
 
-  return mergeTradeData([], orderEntries);
+  return mergeTradeData([], orderEntries).trades;
 }
 
 export function generateMockTrades(): Trade[] {
@@ -551,7 +750,7 @@ export function generateMockTrades(): Trade[] {
       takeProfit: direction === 'long' ? entryPrice * 1.02 : entryPrice * 0.98,
       pnl,
       pnlPercent,
-      currency: 'USD',
+      currency: '',
       status: 'closed',
       notes: '',
       tags: [],
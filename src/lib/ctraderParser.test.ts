@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { readCsvText } from './genericCsv';
+import { parseCTraderHistory } from './ctraderParser';
+
+// History tab export: money columns named after the account currency,
+// times on the terminal's clock (UTC+3 here), quantities in lots
+const history = readCsvText([
+  'Position ID,Symbol,Opening Direction,Opening Time (UTC+3),Closing Time (UTC+3),Entry Price,Closing Price,Closing Quantity,Pips,Gross $USD,Commissions,Swap,Net $USD,Balance $USD',
+  '48213377,EURUSD,Buy,14/03/2024 10:15:02.345,14/03/2024 16:40:11.002,1.08500,1.09500,1.00 Lots,100.0,1000.00,-7.00,-1.20,991.80,10991.80',
+  '48213561,XAUUSD,Sell,15/03/2024 09:00:00.000,15/03/2024 11:30:00.000,2160.50,2165.50,0.10 Lots,-500.0,-50.00,0.70,0.00,-50.70,10941.10',
+  '48213600,GBPUSD,Sideways,15/03/2024 12:00:00.000,15/03/2024 12:05:00.000,1.27000,1.27100,0.50 Lots,10.0,50.00,-3.50,0.00,46.50,10987.60',
+].join('\n'));
+
+describe('parseCTraderHistory', () => {
+  const { trades, diagnostics } = parseCTraderHistory(history);
+
+  it('imports closed positions in UTC with their costs', () => {
+    expect(trades[0]).toMatchObject({
+      symbol: 'EURUSD',
+      direction: 'long',
+      units: 1,
+      entryPrice: 1.085,
+      exitPrice: 1.095,
+      entryTime: '2024-03-14T07:15:02.000Z',
+      exitTime: '2024-03-14T13:40:11.000Z',
+      commission: -7,
+      swap: -1.2,
+      status: 'closed',
+      sourceId: 'ctrader:48213377',
+      tags: ['cTrader', 'Imported'],
+    });
+    // Net has the costs taken off already
+    expect(trades[0].grossPnl).toBeCloseTo(1000, 10);
+    expect(trades[0].pnl).toBeCloseTo(991.8, 10);
+  });
+
+  it('counts a commission written without its sign as paid', () => {
+    expect(trades[1]).toMatchObject({ direction: 'short', units: 0.1, commission: -0.7 });
+    expect(trades[1].grossPnl).toBeCloseTo(-50, 10);
+    expect(trades[1].pnl).toBeCloseTo(-50.7, 10);
+  });
+
+  it('reports rows it cannot read', () => {
+    expect(trades).toHaveLength(2);
+    expect(diagnostics.skipped).toEqual([{ line: 4, message: 'Direction inconnue : "Sideways"' }]);
+  });
+});
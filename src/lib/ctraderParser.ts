@@ -0,0 +1,57 @@
+import type { NewTrade } from './tradeRepository';
+import {
+  findHeader,
+  mapColumn,
+  mapCsvRows,
+  mappingFromHeaders,
+  type CsvTable,
+  type MappableField,
+} from './genericCsv';
+import type { ImportDiagnostics } from './importDiagnostics';
+
+// cTrader History tab export (CSV or XLSX): one row per closed position.
+// Money columns carry the account currency in their header ("Net $USD"),
+// time columns the terminal's offset ("Opening Time (UTC+3)").
+
+const CTRADER_HEADERS: Partial<Record<MappableField, string[]>> = {
+  sourceId: ['position id', 'position', 'id'],
+  symbol: ['symbol'],
+  direction: ['opening direction', 'direction', 'side'],
+  entryTime: ['opening time', 'open time'],
+  exitTime: ['closing time', 'close time'],
+  entryPrice: ['entry price', 'opening price'],
+  exitPrice: ['closing price', 'close price'],
+  units: ['closing quantity', 'quantity', 'volume'],
+  commission: ['commissions', 'commission'],
+  swap: ['swap'],
+};
+
+// "(UTC+3)", "(UTC-04:30)" -> "+03:00", "-04:30"
+function headerOffset(header: string | undefined): string | null {
+  const match = header?.match(/UTC\s*([+-])(\d{1,2})(?::?(\d{2}))?/i);
+  if (!match) return null;
+  return `${match[1]}${match[2].padStart(2, '0')}:${match[3] || '00'}`;
+}
+
+export function parseCTraderHistory(table: CsvTable): { trades: NewTrade[]; diagnostics: ImportDiagnostics } {
+  // Net already has commission and swap taken off; Gross is the price result
+  const net = findHeader(table.headers, ['net']);
+  const gross = findHeader(table.headers, ['gross']);
+  const pnlHeader = net || gross;
+
+  const mapping = mappingFromHeaders(table, { ...CTRADER_HEADERS, ...(pnlHeader && { pnl: [pnlHeader.toLowerCase()] }) }, {
+    pnlIncludesCosts: Boolean(net),
+    costsArePositive: false,
+  });
+
+  // "0.10 Lots", "10 000 Units"
+  let prepared = mapColumn(table, mapping.columns.units, value => value.replace(/[^\d.,\s-]/g, ''));
+  // A commission is always paid, whatever sign the export uses
+  prepared = mapColumn(prepared, mapping.columns.commission, value => value.trim().startsWith('-') ? value : `-${value.trim()}`);
+  for (const header of [mapping.columns.entryTime, mapping.columns.exitTime]) {
+    const offset = headerOffset(header);
+    if (offset) prepared = mapColumn(prepared, header, value => /\d:\d{2}/.test(value) ? `${value.trim()} ${offset}` : value);
+  }
+
+  return mapCsvRows(prepared, mapping, { prefix: 'ctrader', tags: ['cTrader', 'Imported'] });
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { readCsvText } from './genericCsv';
+import { parseDXtradeHistory } from './dxtradeParser';
+
+// Closed positions export of a prop firm's DXtrade: UTC times, positive
+// commissions, quoted amounts with thousand separators
+const history = readCsvText([
+  'Position ID,Symbol,Side,Quantity,Open Time,Open Price,Close Time,Close Price,Commission,Swap,Realized P&L',
+  '"900112","US30","Buy","2","2024-03-05 14:31:07","38,950.5","2024-03-05 15:02:44","39,012.0","4.00","0.00","123.00"',
+  '"900131","EUR/USD","Sell","100,000","2024-03-05 16:00:00","1.08760","2024-03-06 09:12:30","1.08810","3.50","-2.10","-50.00"',
+].join('\n'));
+
+describe('parseDXtradeHistory', () => {
+  const { trades, diagnostics } = parseDXtradeHistory(history);
+
+  it('imports closed positions with commissions, swaps and position ids', () => {
+    expect(diagnostics.skipped).toEqual([]);
+    expect(trades[0]).toMatchObject({
+      symbol: 'US30',
+      direction: 'long',
+      units: 2,
+      entryPrice: 38950.5,
+      exitPrice: 39012,
+      entryTime: '2024-03-05T14:31:07',
+      exitTime: '2024-03-05T15:02:44',
+      grossPnl: 123,
+      commission: -4,
+      pnl: 119,
+      sourceId: 'dxtrade:900112',
+      tags: ['DXtrade', 'Imported'],
+    });
+  });
+
+  it('takes the realized P&L as the price result and the costs off it', () => {
+    expect(trades[1]).toMatchObject({ symbol: 'EUR/USD', direction: 'short', units: 100000, commission: -3.5, swap: -2.1, grossPnl: -50 });
+    expect(trades[1].pnl).toBeCloseTo(-55.6, 10);
+  });
+});
@@ -0,0 +1,44 @@
+import type { NewTrade } from './tradeRepository';
+import {
+  findHeader,
+  mapColumn,
+  mapCsvRows,
+  mappingFromHeaders,
+  type CsvTable,
+  type MappableField,
+} from './genericCsv';
+import type { ImportDiagnostics } from './importDiagnostics';
+
+// DXtrade "Closed positions" export (CSV or XLSX), as offered by most prop
+// firms running the platform. Times are UTC.
+
+const DXTRADE_HEADERS: Partial<Record<MappableField, string[]>> = {
+  sourceId: ['position id', 'position code', 'position', 'id'],
+  symbol: ['symbol', 'instrument'],
+  direction: ['side', 'direction'],
+  entryTime: ['open time', 'opened', 'open date'],
+  exitTime: ['close time', 'closed', 'close date'],
+  entryPrice: ['open price', 'entry price'],
+  exitPrice: ['close price', 'exit price'],
+  units: ['quantity', 'qty', 'volume', 'amount'],
+  commission: ['commission', 'commissions'],
+  swap: ['swap', 'financing', 'rollover'],
+  fees: ['fees', 'fee'],
+};
+
+export function parseDXtradeHistory(table: CsvTable): { trades: NewTrade[]; diagnostics: ImportDiagnostics } {
+  // Some versions add a net column next to the price P&L
+  const net = findHeader(table.headers, ['net p&l', 'net pnl', 'net profit']);
+  const gross = findHeader(table.headers, ['realized p&l', 'realized pnl', 'p&l', 'pnl', 'profit']);
+  const pnlHeader = net || gross;
+
+  const mapping = mappingFromHeaders(table, { ...DXTRADE_HEADERS, ...(pnlHeader && { pnl: [pnlHeader.toLowerCase()] }) }, {
+    pnlIncludesCosts: Boolean(net),
+    costsArePositive: false,
+  });
+
+  // A commission is always paid, whatever sign the export uses
+  const prepared = mapColumn(table, mapping.columns.commission, value => value.trim().startsWith('-') ? value : `-${value.trim()}`);
+
+  return mapCsvRows(prepared, mapping, { prefix: 'dxtrade', tags: ['DXtrade', 'Imported'] });
+}
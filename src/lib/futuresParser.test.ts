@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { readCsvText } from './genericCsv';
+import { parseNinjaTraderTrades, parseRithmicFills, parseTradovateFills } from './futuresParser';
+
+// NinjaTrader 8 trade performance, Trades tab: US dates, dollar amounts,
+// losses in parentheses, costs positive
+const ninjaTrader = readCsvText([
+  'Trade number,Instrument,Account,Strategy,Market pos.,Qty,Entry price,Exit price,Entry time,Exit time,Entry name,Exit name,Profit,Cum. net profit,Commission,Exchange fee,MAE,MFE,ETD,Bars',
+  '1,ES 03-24,Sim101,,Long,2,4980.25,4985.50,3/4/2024 9:31:02 AM,3/4/2024 9:45:10 AM,Entry,Exit,$525.00,$514.60,$8.40,$2.00,$50.00,$600.00,$75.00,3',
+  '2,NQ 03-24,Sim101,,Short,1,17950.00,17962.50,3/4/2024 1:02:00 PM,3/4/2024 1:10:30 PM,Entry,Exit,($250.00),$260.40,$4.20,$0.00,$300.00,$40.00,$290.00,2',
+  '3,CL 04-24,Sim101,,Long,1,78.50,78.62,3/5/2024 10:00:00 AM,3/5/2024 10:20:00 AM,Entry,Exit,$12.00,$272.40,$4.20,$0.00,$30.00,$150.00,$138.00,4',
+  ',,,,,,,,,,,,$287.00,,,,,,,',
+].join('\n'));
+
+// Tradovate Orders report, newest first, with the cancelled orders
+const tradovate = readCsvText([
+  'orderId,Account,Order ID,B/S,Contract,Product,avgPrice,filledQty,Fill Time,Status,Timestamp,Date,Quantity,Type,Limit Price,Stop Price,Filled Qty,Avg Fill Price',
+  '5003,DEMO123,5003, Buy,MNQH4,MNQ,17940.00,2,03/04/2024 10:10:00, Filled,03/04/2024 10:10:00,3/4/24,2,Market,,,2,17940.00',
+  '5002,DEMO123,5002, Sell,MNQH4,MNQ,17950.00,1,03/04/2024 10:00:00, Filled,03/04/2024 10:00:00,3/4/24,1,Market,,,1,17950.00',
+  '4004,DEMO123,4004, Sell,ESH4,ES,,0,, Canceled,03/04/2024 09:50:00,3/4/24,1,Limit,4999.00,,0,',
+  '4003,DEMO123,4003, Sell,ESH4,ES,4985.50,3,03/04/2024 09:45:00, Filled,03/04/2024 09:45:00,3/4/24,3,Limit,4985.50,,3,4985.50',
+  '4002,DEMO123,4002, Buy,ESH4,ES,4982.00,1,03/04/2024 09:33:00, Filled,03/04/2024 09:33:00,3/4/24,1,Market,,,1,4982.00',
+  '4001,DEMO123,4001, Buy,ESH4,ES,4980.25,2,03/04/2024 09:31:00, Filled,03/04/2024 09:31:00,3/4/24,2,Market,,,2,4980.25',
+].join('\n'));
+
+// R|Trader order history: report titles above the column headers
+const rithmic = readCsvText([
+  'Completed Orders',
+  'Account : APEX-12345',
+  'Account,Status,Buy/Sell,Qty To Fill,Qty Filled,Symbol,Exchange,Avg Fill Price,Order Number,Update Time,Commission',
+  'APEX-12345,Filled,B,0,1,CLJ4,NYMEX,78.50,1001,2024-03-04 09:00:00,2.10',
+  'APEX-12345,Filled,S,0,1,CLJ4,NYMEX,78.62,1002,2024-03-04 09:20:00,2.10',
+  'APEX-12345,Filled,S,0,1,XYZJ4,NYMEX,10.00,1003,2024-03-04 09:30:00,0.00',
+].join('\n'));
+
+describe('parseNinjaTraderTrades', () => {
+  const { trades, diagnostics, warnings } = parseNinjaTraderTrades(ninjaTrader);
+
+  it('stores the contract root and values points with the contract spec', () => {
+    expect(trades[0]).toMatchObject({
+      symbol: 'ES',
+      direction: 'long',
+      units: 2,
+      entryTime: '2024-03-04T09:31:02',
+      exitTime: '2024-03-04T09:45:10',
+      grossPnl: 525,
+      commission: -8.4,
+      fees: -2,
+      currency: 'USD',
+      tags: ['NinjaTrader', 'Futures', 'Imported'],
+    });
+    expect(trades[0].pnl).toBeCloseTo(514.6, 10);
+    // 12.5 points × $20
+    expect(trades[1]).toMatchObject({ symbol: 'NQ', direction: 'short', grossPnl: -250, exitTime: '2024-03-04T13:10:30' });
+  });
+
+  it('flags a P&L that the point value does not explain', () => {
+    // CL is $1,000 a point: 0.12 is $120, not $12
+    expect(warnings).toEqual(['Ligne 4 (CL 04-24) : P&L exporté 12.00, calculé 120.00']);
+    expect(trades[2].grossPnl).toBeCloseTo(120, 10);
+  });
+
+  it('reports the totals row as unreadable', () => {
+    expect(trades).toHaveLength(3);
+    expect(diagnostics.skipped).toEqual([{ line: 5, message: 'Ligne illisible' }]);
+  });
+});
+
+describe('parseTradovateFills', () => {
+  const { trades, diagnostics } = parseTradovateFills(tradovate);
+  const [es, mnqShort, mnqLong] = trades;
+
+  it('pairs the fills FIFO into round turns and skips cancelled orders', () => {
+    expect(diagnostics.rowsParsed).toBe(5);
+    expect(diagnostics.skipped).toEqual([]);
+    expect(es).toMatchObject({
+      symbol: 'ES',
+      direction: 'long',
+      units: 3,
+      exitPrice: 4985.5,
+      entryTime: '2024-03-04T09:31:00',
+      exitTime: '2024-03-04T09:45:00',
+      status: 'closed',
+      sourceId: 'tradovate:4001',
+      notes: 'Import Tradovate ESH4 (DEMO123)',
+    });
+    expect(es.entryPrice).toBeCloseTo(4980.8333, 4);
+    // (5.25 × 2 + 3.5 × 1) points × $50
+    expect(es.grossPnl).toBeCloseTo(700, 10);
+  });
+
+  it('turns a fill larger than the position into a reversal', () => {
+    expect(mnqShort).toMatchObject({ symbol: 'MNQ', direction: 'short', units: 1, status: 'closed' });
+    // 10 points × $2
+    expect(mnqShort.grossPnl).toBeCloseTo(20, 10);
+    expect(mnqLong).toMatchObject({ direction: 'long', units: 1, entryPrice: 17940, status: 'open', pnl: null });
+  });
+});
+
+describe('parseRithmicFills', () => {
+  const { trades, diagnostics, warnings } = parseRithmicFills(rithmic);
+
+  it('finds the header below the report titles', () => {
+    expect(trades[0]).toMatchObject({
+      symbol: 'CL',
+      direction: 'long',
+      units: 1,
+      commission: -4.2,
+      status: 'closed',
+      sourceId: 'rithmic:1001',
+      notes: 'Import Rithmic CLJ4 (APEX-12345)',
+    });
+    expect(trades[0].grossPnl).toBeCloseTo(120, 10);
+    expect(trades[0].pnl).toBeCloseTo(115.8, 10);
+    expect(diagnostics.rowsParsed).toBe(3);
+  });
+
+  it('imports unknown contracts at one point value, with a warning', () => {
+    expect(trades[1]).toMatchObject({ symbol: 'XYZ', direction: 'short', status: 'open' });
+    expect(warnings).toEqual(['Contrat inconnu XYZJ4 : valeur du point 1 supposée, P&L à vérifier']);
+  });
+});
@@ -0,0 +1,290 @@
+import type { NewTrade } from './tradeRepository';
+import {
+  columnIndex,
+  guessDateFormat,
+  guessDecimalSeparator,
+  locateHeader,
+  parseDate,
+  rowLine,
+  parseNumber,
+  type CsvRowError,
+  type CsvTable,
+} from './genericCsv';
+import { isOnTick, parseFuturesSymbol, type ContractSpec } from '../utils/futures';
+import { buildRoundTrips, type Fill } from '../utils/executions';
+import { createDiagnostics, type ImportDiagnostics } from './importDiagnostics';
+
+// Futures platforms: NinjaTrader's trade performance export already has
+// round turns; Tradovate and Rithmic export fills, paired here FIFO.
+// Symbols are stored as the contract root (ESZ5 -> ES) and P&L uses the
+// contract's point value.
+
+export interface FuturesImport {
+  trades: NewTrade[];
+  diagnostics: ImportDiagnostics; // rows read and rows that could not be
+  warnings: string[]; // imported, but worth a look
+}
+
+type FuturesPlatform = 'ninjatrader' | 'tradovate' | 'rithmic';
+
+const platformLabels: Record<FuturesPlatform, string> = {
+  ninjatrader: 'NinjaTrader',
+  tradovate: 'Tradovate',
+  rithmic: 'Rithmic',
+};
+
+interface Contract {
+  code: string; // as exported: "ESZ5", "ES 12-25"
+  root: string;
+  spec: ContractSpec | null;
+  pointValue: number;
+}
+
+// Unknown roots are imported with a point value of 1, once flagged
+function resolveContract(code: string, warnings: Set<string>): Contract {
+  const parsed = parseFuturesSymbol(code);
+  const root = parsed?.root || code.trim().toUpperCase();
+  if (!parsed?.spec) {
+    warnings.add(`Contrat inconnu ${code.trim()} : valeur du point 1 supposée, P&L à vérifier`);
+  }
+  return { code: code.trim(), root, spec: parsed?.spec || null, pointValue: parsed?.spec?.pointValue || 1 };
+}
+
+function checkTick(contract: Contract, price: number, warnings: Set<string>) {
+  if (contract.spec && !isOnTick(price, contract.spec.tickSize)) {
+    warnings.add(`${contract.code} : prix ${price} hors du pas de cotation (${contract.spec.tickSize})`);
+  }
+}
+
+// "Buy", "B", "Bought", "Sell", "S", "Sold"
+function parseSide(value: string | undefined): 'buy' | 'sell' | null {
+  const normalized = value?.trim().toLowerCase() || '';
+  if (normalized.startsWith('b')) return 'buy';
+  if (normalized.startsWith('s')) return 'sell';
+  return null;
+}
+
+const NINJATRADER_HEADERS = {
+  instrument: ['instrument'],
+  account: ['account'],
+  position: ['market pos.', 'market pos', 'market position'],
+  quantity: ['qty', 'quantity'],
+  entryPrice: ['entry price'],
+  exitPrice: ['exit price'],
+  entryTime: ['entry time'],
+  exitTime: ['exit time'],
+  profit: ['profit'],
+  commission: ['commission'],
+};
+
+// NinjaTrader 8 trade performance, Trades tab exported to CSV
+export function parseNinjaTraderTrades(table: CsvTable): FuturesImport {
+  const index = Object.fromEntries(
+    Object.entries(NINJATRADER_HEADERS).map(([field, names]) => [field, columnIndex(table, names)])
+  ) as Record<keyof typeof NINJATRADER_HEADERS, number>;
+  // Clearing, exchange, NFA... fees each have a column
+  const feeIndexes = table.headers.flatMap((header, i) => /fee$/i.test(header.trim()) ? [i] : []);
+
+  const trades: NewTrade[] = [];
+  const errors: CsvRowError[] = [];
+  const warnings = new Set<string>();
+
+  const required: (keyof typeof NINJATRADER_HEADERS)[] = ['instrument', 'position', 'quantity', 'entryPrice', 'exitPrice', 'entryTime'];
+  const missing = required.filter(field => index[field] < 0);
+  if (missing.length > 0) {
+    return { trades, diagnostics: createDiagnostics(0, [{ line: 1, message: `Colonnes NinjaTrader manquantes : ${missing.join(', ')}` }]), warnings: [] };
+  }
+
+  const decimalSeparator = guessDecimalSeparator(table.rows);
+  const dateFormat = guessDateFormat(table.rows.map(cells => cells[index.entryTime]), 'mdy');
+
+  table.rows.forEach((cells, rowIndex) => {
+    const line = rowLine(table, rowIndex);
+    const cell = (i: number) => i >= 0 ? cells[i] : undefined;
+    const number = (i: number) => parseNumber(cell(i), decimalSeparator);
+
+    const instrument = cell(index.instrument)?.trim();
+    const position = cell(index.position)?.trim().toLowerCase();
+    const direction = position === 'long' ? 'long' : position === 'short' ? 'short' : null;
+    const quantity = number(index.quantity);
+    const entryPrice = number(index.entryPrice);
+    const exitPrice = number(index.exitPrice);
+    const entryTime = parseDate(cell(index.entryTime), dateFormat);
+    const exitTime = parseDate(cell(index.exitTime), dateFormat);
+
+    if (!instrument || !direction || !quantity || entryPrice === null || exitPrice === null || !entryTime) {
+      // Blank lines and the summary row at the end
+      if (cells.some(value => value.trim())) errors.push({ line, message: 'Ligne illisible' });
+      return;
+    }
+
+    const contract = resolveContract(instrument, warnings);
+    checkTick(contract, entryPrice, warnings);
+    checkTick(contract, exitPrice, warnings);
+
+    const units = Math.abs(quantity);
+    const sign = direction === 'long' ? 1 : -1;
+    const grossPnl = (exitPrice - entryPrice) * units * sign * contract.pointValue;
+    // Costs are reported positive
+    const commission = -Math.abs(number(index.commission) || 0);
+    const fees = -feeIndexes.reduce((sum, i) => sum + Math.abs(number(i) || 0), 0);
+    const pnl = grossPnl + commission + fees;
+
+    // Profit is gross or net depending on the commission settings; any
+    // other value means the point value or the prices are off
+    const reported = number(index.profit);
+    if (reported !== null && Math.abs(reported - grossPnl) > 0.015 && Math.abs(reported - pnl) > 0.015) {
+      warnings.add(`Ligne ${line} (${contract.code}) : P&L exporté ${reported.toFixed(2)}, calculé ${grossPnl.toFixed(2)}`);
+    }
+
+    trades.push({
+      symbol: contract.root,
+      direction,
+      entryPrice,
+      exitPrice,
+      units,
+      entryTime,
+      exitTime: exitTime || entryTime,
+      stopLoss: null,
+      takeProfit: null,
+      pnl,
+      pnlPercent: null,
+      grossPnl,
+      commission,
+      swap: 0,
+      fees,
+      currency: contract.spec?.currency || '',
+      status: 'closed',
+      notes: `Import NinjaTrader ${contract.code}`,
+      tags: ['NinjaTrader', 'Futures', 'Imported'],
+      sourceId: null,
+      // A row without exit time is taken as closed at the entry
+      estimatedFields: exitTime ? [] : ['exitTime'],
+      executions: [
+        { id: crypto.randomUUID(), time: entryTime, side: direction === 'long' ? 'buy' : 'sell', price: entryPrice, quantity: units, fee: -commission / 2 },
+        { id: crypto.randomUUID(), time: exitTime || entryTime, side: direction === 'long' ? 'sell' : 'buy', price: exitPrice, quantity: units, fee: -commission / 2 },
+      ],
+    });
+  });
+
+  return { trades, diagnostics: createDiagnostics(trades.length, errors, trades), warnings: [...warnings] };
+}
+
+const FILL_HEADERS = {
+  id: ['fill id', 'execution id', 'exec id', '_id', 'order number', 'order id', 'orderid', 'id'],
+  account: ['account'],
+  contract: ['contract', 'symbol', 'instrument'],
+  side: ['b/s', 'buy/sell', 'side', 'action', '_action'],
+  quantity: ['filled qty', 'qty filled', 'fill qty', 'fill size', 'quantity', 'qty', '_qty'],
+  price: ['avg fill price', 'fill price', 'avg price', 'avgprice', 'price', '_price'],
+  time: ['fill time', 'timestamp', 'update time', 'time', 'date/time', '_timestamp'],
+  commission: ['commission', 'commissions', 'fees'],
+  status: ['status'],
+};
+
+// Tradovate (Orders/Fills report) and Rithmic (R|Trader order history) fills
+function parseFills(source: CsvTable, platform: Exclude<FuturesPlatform, 'ninjatrader'>): FuturesImport {
+  const table = locateHeader(source, [FILL_HEADERS.contract, FILL_HEADERS.side]);
+  const index = Object.fromEntries(
+    Object.entries(FILL_HEADERS).map(([field, names]) => [field, columnIndex(table, names)])
+  ) as Record<keyof typeof FILL_HEADERS, number>;
+
+  const errors: CsvRowError[] = [];
+  const warnings = new Set<string>();
+  const label = platformLabels[platform];
+
+  const required: (keyof typeof FILL_HEADERS)[] = ['contract', 'side', 'quantity', 'price', 'time'];
+  const missing = required.filter(field => index[field] < 0);
+  if (missing.length > 0) {
+    return { trades: [], diagnostics: createDiagnostics(0, [{ line: 1, message: `Colonnes ${label} manquantes : ${missing.join(', ')}` }]), warnings: [] };
+  }
+
+  const decimalSeparator = guessDecimalSeparator(table.rows);
+  const dateFormat = guessDateFormat(table.rows.map(cells => cells[index.time]), 'mdy');
+
+  const fills: Fill[] = [];
+  const positions = new Map<string, { account: string; contract: Contract }>();
+  table.rows.forEach((cells, rowIndex) => {
+    // Without line numbers, count from the header found above
+    const line = table.lines ? rowLine(table, rowIndex) : source.rows.length - table.rows.length + rowIndex + 2;
+    const cell = (i: number) => i >= 0 ? cells[i]?.trim() : undefined;
+    if (!cells.some(value => value.trim())) return;
+
+    // Order reports also list working, cancelled and rejected orders
+    const status = cell(index.status)?.toLowerCase();
+    if (status && !/fill|complete/.test(status)) return;
+
+    const code = cell(index.contract);
+    const side = parseSide(cell(index.side));
+    const quantity = parseNumber(cell(index.quantity), decimalSeparator);
+    const price = parseNumber(cell(index.price), decimalSeparator);
+    const time = parseDate(cell(index.time), dateFormat);
+
+    if (!code || !side || !quantity || price === null || !time) {
+      errors.push({ line, message: 'Exécution illisible' });
+      return;
+    }
+
+    const contract = resolveContract(code, warnings);
+    checkTick(contract, price, warnings);
+    const account = cell(index.account) || '';
+    const key = `${account}|${contract.code}`;
+    positions.set(key, { account, contract });
+    fills.push({
+      id: cell(index.id) || '',
+      key,
+      time,
+      side,
+      quantity: Math.abs(quantity),
+      price,
+      // Commissions are reported positive
+      fee: Math.abs(parseNumber(cell(index.commission), decimalSeparator) || 0),
+      multiplier: contract.pointValue,
+    });
+  });
+
+  // Exports are often newest first; keep the file order within a timestamp
+  if (fills.length > 1 && fills[0].time > fills[fills.length - 1].time) fills.reverse();
+  const ordered = fills
+    .map((fill, order) => ({ fill, order }))
+    .sort((a, b) => a.fill.time.localeCompare(b.fill.time) || a.order - b.order)
+    .map(({ fill }) => fill);
+
+  const trades = buildRoundTrips(ordered).map(trip => {
+    const { account, contract } = positions.get(trip.key)!;
+    const commission = -trip.fees;
+    return {
+      symbol: contract.root,
+      direction: trip.direction,
+      entryPrice: trip.entryPrice,
+      exitPrice: trip.exitPrice,
+      units: trip.units,
+      entryTime: trip.entryTime,
+      exitTime: trip.exitTime,
+      stopLoss: null,
+      takeProfit: null,
+      pnl: trip.isClosed ? trip.grossPnl + commission : null,
+      pnlPercent: null,
+      grossPnl: trip.isClosed ? trip.grossPnl : null,
+      commission,
+      swap: 0,
+      fees: 0,
+      currency: contract.spec?.currency || '',
+      status: trip.isClosed ? 'closed' : 'open',
+      notes: `Import ${label} ${contract.code}${account ? ` (${account})` : ''}`,
+      tags: [label, 'Futures', 'Imported'],
+      sourceId: trip.fillIds[0] ? `${platform}:${trip.fillIds[0]}` : null,
+      executions: trip.executions,
+    } satisfies NewTrade;
+  });
+
+  return { trades, diagnostics: createDiagnostics(fills.length, errors, trades), warnings: [...warnings] };
+}
+
+export function parseTradovateFills(table: CsvTable): FuturesImport {
+  return parseFills(table, 'tradovate');
+}
+
+export function parseRithmicFills(table: CsvTable): FuturesImport {
+  return parseFills(table, 'rithmic');
+}
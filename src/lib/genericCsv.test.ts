@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createCsvTokenizer, parseDate, readCsvText, tokenizeCsv } from './genericCsv';
+
+describe('CSV tokenizer', () => {
+  it('reads quoted cells with delimiters, quotes and line breaks', () => {
+    const records = tokenizeCsv('a,b,c\n"1,5","say ""hi""","two\nlines"\n3,4,5\n', ',');
+
+    expect(records.map(record => record.cells)).toEqual([
+      ['a', 'b', 'c'],
+      ['1,5', 'say "hi"', 'two\nlines'],
+      ['3', '4', '5'],
+    ]);
+    // The record after the quoted line break starts on line 4 of the file
+    expect(records.map(record => record.line)).toEqual([1, 2, 4]);
+  });
+
+  it('drops blank lines but keeps counting them', () => {
+    const records = tokenizeCsv('\uFEFFa;b\r\n\r\n1;2\r\n;\r\n3;4', ';');
+
+    expect(records.map(record => record.cells)).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+    expect(records.map(record => record.line)).toEqual([1, 3, 5]);
+  });
+
+  it('gives the same records when the text comes in chunks', () => {
+    const text = 'a,b\n"x ""y""",z\r\n1,2\n';
+    const tokenizer = createCsvTokenizer(',');
+    const records = [...text].flatMap(ch => tokenizer.push(ch)).concat(tokenizer.end());
+
+    expect(records).toEqual(tokenizeCsv(text, ','));
+  });
+
+  it('guesses the delimiter from the first records', () => {
+    const table = readCsvText('Date;Symbol;Profit\n2024-01-05;EURUSD;"1,5"\n');
+
+    expect(table.headers).toEqual(['Date', 'Symbol', 'Profit']);
+    expect(table.rows).toEqual([['2024-01-05', 'EURUSD', '1,5']]);
+    expect(table.lines).toEqual([2]);
+  });
+});
+
+describe('parseDate', () => {
+  it('keeps times without a zone on the file clock', () => {
+    expect(parseDate('2024-01-05 09:30:01', 'iso')).toBe('2024-01-05T09:30:01');
+    expect(parseDate('05/01/2024 9:30', 'dmy')).toBe('2024-01-05T09:30:00');
+    expect(parseDate('01/05/2024', 'mdy')).toBe('2024-01-05T00:00:00');
+  });
+
+  it('reads 12-hour clocks', () => {
+    expect(parseDate('1/5/2024 9:30:01 PM', 'mdy')).toBe('2024-01-05T21:30:01');
+    expect(parseDate('1/5/2024 12:15:00 AM', 'mdy')).toBe('2024-01-05T00:15:00');
+  });
+
+  it('converts times with a zone and timestamps to UTC', () => {
+    expect(parseDate('2024-01-05T09:30:00+02:00', 'iso')).toBe('2024-01-05T07:30:00.000Z');
+    expect(parseDate('1704447000', 'unix')).toBe('2024-01-05T09:30:00.000Z');
+    expect(parseDate('1704447000000', 'unix_ms')).toBe('2024-01-05T09:30:00.000Z');
+  });
+
+  it('returns null for values that do not fit the format', () => {
+    expect(parseDate('', 'iso')).toBeNull();
+    expect(parseDate('05/01/2024', 'iso')).toBeNull();
+    expect(parseDate('2024-01-05 soon', 'iso')).toBeNull();
+    expect(parseDate('2024-13-45', 'iso')).toBeNull();
+  });
+});
@@ -0,0 +1,610 @@
+import type { NewTrade } from './tradeRepository';
+import { buildRoundTripExecutions } from '../utils/executions';
+import { createDiagnostics, type ImportDiagnostics } from './importDiagnostics';
+import { streamText, type ReadProgress } from './streamFile';
+
+// Import path for any broker's CSV: the user maps columns to trade fields
+// once, and the mapping is saved as a preset recognised by its headers.
+
+export type MappableField =
+  | 'symbol'
+  | 'direction'
+  | 'entryTime'
+  | 'exitTime'
+  | 'entryPrice'
+  | 'exitPrice'
+  | 'units'
+  | 'stopLoss'
+  | 'takeProfit'
+  | 'pnl'
+  | 'commission'
+  | 'swap'
+  | 'fees'
+  | 'sourceId'
+  | 'notes';
+
+export const MAPPABLE_FIELDS: { field: MappableField; label: string; required?: boolean }[] = [
+  { field: 'symbol', label: 'Symbole', required: true },
+  { field: 'direction', label: 'Direction', required: true },
+  { field: 'entryTime', label: 'Heure d\'entrée', required: true },
+  { field: 'entryPrice', label: 'Prix d\'entrée', required: true },
+  { field: 'units', label: 'Quantité', required: true },
+  { field: 'exitTime', label: 'Heure de sortie' },
+  { field: 'exitPrice', label: 'Prix de sortie' },
+  { field: 'stopLoss', label: 'Stop loss' },
+  { field: 'takeProfit', label: 'Take profit' },
+  { field: 'pnl', label: 'P&L' },
+  { field: 'commission', label: 'Commission' },
+  { field: 'swap', label: 'Swap' },
+  { field: 'fees', label: 'Frais' },
+  { field: 'sourceId', label: 'Ticket / ID' },
+  { field: 'notes', label: 'Notes' },
+];
+
+export type DateFormat = 'iso' | 'dmy' | 'mdy' | 'unix' | 'unix_ms';
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: 'iso', label: 'AAAA-MM-JJ hh:mm:ss' },
+  { value: 'dmy', label: 'JJ/MM/AAAA hh:mm:ss' },
+  { value: 'mdy', label: 'MM/JJ/AAAA hh:mm:ss' },
+  { value: 'unix', label: 'Timestamp (secondes)' },
+  { value: 'unix_ms', label: 'Timestamp (millisecondes)' },
+];
+
+export interface ColumnMapping {
+  columns: Partial<Record<MappableField, string>>; // field -> header
+  delimiter: string;
+  decimalSeparator: '.' | ',';
+  dateFormat: DateFormat;
+  // Cell values meaning long / short, compared case-insensitively
+  directionValues: { long: string[]; short: string[] };
+  pnlIncludesCosts: boolean;
+  costsArePositive: boolean; // statement shows paid costs as positive numbers
+}
+
+export interface CsvPreset {
+  id: string;
+  name: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  createdAt: string;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+  lines?: number[]; // file line where each row starts, when known
+}
+
+// A record of a delimited file, with the line it starts on (1-based).
+// Quoted cells can span several lines.
+export interface CsvRecord {
+  cells: string[];
+  line: number;
+}
+
+export interface CsvRowError {
+  line: number; // 1-based, header included
+  message: string;
+  file?: string; // when several files are read together
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+export const DEFAULT_DIRECTION_VALUES = {
+  long: ['buy', 'long', 'achat', 'b'],
+  short: ['sell', 'short', 'vente', 's'],
+};
+
+// Likely header names for each field, lowercase
+const HEADER_HINTS: Record<MappableField, string[]> = {
+  symbol: ['symbol', 'symbole', 'instrument', 'ticker', 'item', 'pair', 'market', 'contract', 'asset'],
+  direction: ['side', 'direction', 'type', 'action', 'buy/sell', 'sens'],
+  entryTime: ['open time', 'entry time', 'opened', 'open date', 'entry date', 'date', 'time', 'heure d\'ouverture'],
+  exitTime: ['close time', 'exit time', 'closed', 'close date', 'exit date', 'heure de clôture'],
+  entryPrice: ['open price', 'entry price', 'entry', 'avg entry', 'prix d\'entrée', 'price'],
+  exitPrice: ['close price', 'exit price', 'exit', 'avg exit', 'prix de sortie'],
+  units: ['size', 'quantity', 'qty', 'volume', 'lots', 'units', 'amount', 'quantité'],
+  stopLoss: ['stop loss', 'sl', 's/l', 'stop'],
+  takeProfit: ['take profit', 'tp', 't/p', 'target'],
+  pnl: ['profit', 'pnl', 'p&l', 'p/l', 'realized pnl', 'net profit', 'résultat'],
+  commission: ['commission', 'commissions', 'comm'],
+  swap: ['swap', 'rollover', 'financing'],
+  fees: ['fees', 'fee', 'frais'],
+  sourceId: ['ticket', 'id', 'order id', 'trade id', 'position', 'position id', 'deal'],
+  notes: ['comment', 'notes', 'note', 'commentaire'],
+};
+
+// RFC 4180 tokenizer. Quotes open a quoted cell only at its start ("" is
+// a literal quote inside); CRLF, LF and CR all end a record. Blank records
+// are dropped but still counted, so line numbers match the file.
+// Text is pushed in chunks as a file is read; records come back as soon as
+// they are complete.
+export interface CsvTokenizer {
+  push(text: string): CsvRecord[];
+  end(): CsvRecord[];
+}
+
+export function createCsvTokenizer(delimiter: string): CsvTokenizer {
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let cellStart = true;
+  let line = 1;
+  let recordLine = 1;
+  let started = false;
+  // A chunk ending on a quote or a CR: the next character tells what it is
+  let carry = '';
+
+  const scan = (text: string, final: boolean): CsvRecord[] => {
+    const records: CsvRecord[] = [];
+    const endRecord = () => {
+      row.push(cell);
+      if (row.some(value => value.trim() !== '')) records.push({ cells: row, line: recordLine });
+      row = [];
+      cell = '';
+      cellStart = true;
+    };
+
+    let input = carry + text;
+    if (!started && input) {
+      input = input.replace(/^\uFEFF/, '');
+      started = true;
+    }
+    const last = input[input.length - 1];
+    const limit = !final && (last === '"' || last === '\r') ? input.length - 1 : input.length;
+
+    let i = 0;
+    for (; i < limit; i++) {
+      const ch = input[i];
+
+      if (inQuotes) {
+        if (ch === '"' && input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (ch === '"') {
+          inQuotes = false;
+        } else {
+          if (ch === '\n' || (ch === '\r' && input[i + 1] !== '\n')) line++;
+          cell += ch;
+        }
+      } else if (ch === '"' && cellStart) {
+        inQuotes = true;
+        cellStart = false;
+      } else if (ch === delimiter) {
+        row.push(cell);
+        cell = '';
+        cellStart = true;
+      } else if (ch === '\n' || ch === '\r') {
+        if (ch === '\r' && input[i + 1] === '\n') i++;
+        endRecord();
+        line++;
+        recordLine = line;
+      } else {
+        // Spaces before an opening quote are kept out of the cell start test
+        if (ch !== ' ') cellStart = false;
+        cell += ch;
+      }
+    }
+    carry = input.slice(i);
+
+    if (final && (cell !== '' || row.length > 0)) endRecord();
+    return records;
+  };
+
+  return {
+    push: text => scan(text, false),
+    end: () => scan('', true),
+  };
+}
+
+export function tokenizeCsv(text: string, delimiter: string): CsvRecord[] {
+  const tokenizer = createCsvTokenizer(delimiter);
+  return tokenizer.push(text).concat(tokenizer.end());
+}
+
+// Rows of cells of a whole file
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  return tokenizeCsv(text, delimiter).map(record => record.cells);
+}
+
+// The delimiter that splits the first records into the same, largest number of cells
+// (records, not raw lines: a quoted cell may hold a line break)
+export function guessDelimiter(text: string): string {
+  const sample = text.slice(0, 64 * 1024);
+  let best = ',';
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITERS) {
+    const counts = tokenizeCsv(sample, delimiter).slice(0, 10).map(record => record.cells.length);
+    if (counts.length === 0 || counts[0] < 2) continue;
+    const consistent = counts.filter(count => count === counts[0]).length;
+    const score = consistent * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// "1.234,56" and "0,5" mean a decimal comma
+export function guessDecimalSeparator(rows: string[][]): '.' | ',' {
+  let comma = 0;
+  let dot = 0;
+  for (const cells of rows.slice(0, 50)) {
+    for (const value of cells) {
+      const trimmed = value.trim();
+      if (/^-?\d{1,3}(\.\d{3})*,\d+$/.test(trimmed) || /^-?\d+,\d+$/.test(trimmed)) comma++;
+      else if (/^-?\d{1,3}(,\d{3})*\.\d+$/.test(trimmed) || /^-?\d+\.\d+$/.test(trimmed)) dot++;
+    }
+  }
+  return comma > dot ? ',' : '.';
+}
+
+// First record as the headers, the others as rows
+export function csvTableFromRecords([header, ...records]: CsvRecord[]): CsvTable {
+  return {
+    headers: (header?.cells || []).map(value => value.trim()),
+    rows: records.map(record => record.cells),
+    lines: records.map(record => record.line),
+  };
+}
+
+export function readCsvTable(text: string, delimiter: string): CsvTable {
+  return csvTableFromRecords(tokenizeCsv(text, delimiter));
+}
+
+// Delimiter detected from the first lines
+export function readCsvText(text: string): CsvTable {
+  return readCsvTable(text, guessDelimiter(text));
+}
+
+// Same as readCsvText, tokenizing the file as it is read: the delimiter is
+// guessed from the first 64 KB
+export async function readCsvFile(file: Blob, onProgress?: ReadProgress, signal?: AbortSignal): Promise<CsvTable> {
+  const records: CsvRecord[] = [];
+  let tokenizer: CsvTokenizer | null = null;
+  let head = '';
+
+  const add = (batch: CsvRecord[]) => {
+    for (const record of batch) records.push(record);
+  };
+  const start = () => {
+    const created = createCsvTokenizer(guessDelimiter(head));
+    add(created.push(head));
+    return created;
+  };
+
+  await streamText(file, (text, loaded) => {
+    if (tokenizer) {
+      add(tokenizer.push(text));
+    } else {
+      head += text;
+      if (head.length >= 64 * 1024) tokenizer = start();
+    }
+    onProgress?.(loaded);
+  }, signal);
+
+  add((tokenizer || start()).end());
+  return csvTableFromRecords(records);
+}
+
+// Line of the file to quote for a row; tables without line numbers are
+// assumed to have the header on line 1 and no blank lines
+export function rowLine(table: CsvTable, rowIndex: number): number {
+  return table.lines?.[rowIndex] ?? rowIndex + 2;
+}
+
+export function parseNumber(value: string | undefined, decimalSeparator: '.' | ','): number | null {
+  if (value === undefined) return null;
+  let cleaned = value.trim().replace(/[\s $€£¥]/g, '');
+  if (!cleaned) return null;
+
+  // Accounting negatives: (12.50)
+  const negative = /^\(.*\)$/.test(cleaned);
+  if (negative) cleaned = cleaned.slice(1, -1);
+
+  cleaned = decimalSeparator === ','
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+
+  const number = parseFloat(cleaned);
+  if (isNaN(number)) return null;
+  return negative ? -number : number;
+}
+
+// Returns an ISO string, or null when the value doesn't match the format.
+// Times with a zone (or Unix timestamps) come back in UTC; times without
+// one are kept on the file's clock ("2024-01-05T09:30:00") and converted
+// at import from the timezone picked for the source.
+export function parseDate(value: string | undefined, format: DateFormat): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+
+  if (format === 'unix' || format === 'unix_ms') {
+    const number = Number(trimmed);
+    if (isNaN(number)) return null;
+    return new Date(format === 'unix' ? number * 1000 : number).toISOString();
+  }
+
+  let year: string, month: string, day: string, rest: string;
+  if (format === 'iso') {
+    const match = trimmed.match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})[T\s]*(.*)$/);
+    if (!match) return null;
+    [, year, month, day, rest] = match;
+  } else {
+    const match = trimmed.match(/^(\d{1,2})[-./](\d{1,2})[-./](\d{4})[T\s]*(.*)$/);
+    if (!match) return null;
+    [, day, month, year, rest] = match;
+    if (format === 'mdy') [day, month] = [month, day];
+  }
+
+  // US platforms write "9:30:01 AM"
+  const time = rest.match(/^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?\s*(AM|PM)?\s*(Z|[+-]\d{2}:?\d{2})?$/i);
+  if (rest && !time) return null;
+
+  const [clockHours, minutes, seconds] = time ? [time[1], time[2], time[3] || '0'] : ['0', '0', '0'];
+  const meridiem = time?.[5]?.toUpperCase();
+  const hours = meridiem ? String((Number(clockHours) % 12) + (meridiem === 'PM' ? 12 : 0)) : clockHours;
+  const zone = time?.[6]?.toUpperCase();
+  const clock = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}T${hours.padStart(2, '0')}:${minutes.padStart(2, '0')}:${seconds.padStart(2, '0')}`;
+  const date = new Date(clock + (zone || 'Z'));
+  if (isNaN(date.getTime())) return null;
+  return zone ? date.toISOString() : clock;
+}
+
+// Map each field to the first header that looks like it
+export function guessColumns(headers: string[]): Partial<Record<MappableField, string>> {
+  const columns: Partial<Record<MappableField, string>> = {};
+  const used = new Set<string>();
+
+  for (const { field } of MAPPABLE_FIELDS) {
+    const header = HEADER_HINTS[field]
+      .map(hint => headers.find(h => !used.has(h) && h.toLowerCase() === hint))
+      .find(Boolean)
+      || HEADER_HINTS[field]
+        .map(hint => headers.find(h => !used.has(h) && h.toLowerCase().includes(hint)))
+        .find(Boolean);
+
+    if (header) {
+      columns[field] = header;
+      used.add(header);
+    }
+  }
+
+  return columns;
+}
+
+// First header equal to one of the names, else starting with one of them
+// ("Net $USD", "Opening Time (UTC+2)"). Names are lowercase, in priority order.
+export function findHeader(headers: string[], names: string[]): string | undefined {
+  const normalized = headers.map(header => header.toLowerCase().trim());
+  const exact = names.map(name => normalized.indexOf(name)).find(index => index >= 0);
+  if (exact !== undefined) return headers[exact];
+  const prefixed = names.map(name => normalized.findIndex(header => header.startsWith(name))).find(index => index >= 0);
+  return prefixed !== undefined ? headers[prefixed] : undefined;
+}
+
+export function columnIndex(table: CsvTable, names: string[]): number {
+  const header = findHeader(table.headers, names);
+  return header ? table.headers.indexOf(header) : -1;
+}
+
+// Some exports (Rithmic) put report titles above the column headers
+export function locateHeader(table: CsvTable, markers: string[][]): CsvTable {
+  const lines = [table.headers, ...table.rows];
+  const index = lines.findIndex(cells => markers.every(names => findHeader(cells, names)));
+  if (index <= 0) return table;
+  return { headers: lines[index].map(header => header.trim()), rows: lines.slice(index + 1), lines: table.lines?.slice(index) };
+}
+
+// Day or month first can only be told apart by a part over 12; otherwise
+// the fallback (the platform's usual order) is used.
+export function guessDateFormat(values: string[], fallback: DateFormat = 'dmy'): DateFormat {
+  // Blank and text cells (a stray summary row) can't be dates
+  const sample = values.filter(value => value && /^\s*\d/.test(value)).slice(0, 20);
+  if (sample.length === 0) return 'iso';
+  if (sample.every(value => /^\d{13}$/.test(value.trim()))) return 'unix_ms';
+  if (sample.every(value => /^\d{9,10}$/.test(value.trim()))) return 'unix';
+  if (sample.every(value => parseDate(value, 'iso'))) return 'iso';
+  // A first part over 12 can only be a day
+  if (sample.some(value => parseInt(value, 10) > 12)) return 'dmy';
+  if (sample.some(value => parseInt(value.split(/[-./]/)[1], 10) > 12)) return 'mdy';
+  return fallback;
+}
+
+export function createMapping(text: string): { table: CsvTable; mapping: ColumnMapping } {
+  const delimiter = guessDelimiter(text);
+  const table = readCsvTable(text, delimiter);
+  const columns = guessColumns(table.headers);
+  const entryIndex = columns.entryTime ? table.headers.indexOf(columns.entryTime) : -1;
+
+  return {
+    table,
+    mapping: {
+      columns,
+      delimiter,
+      decimalSeparator: guessDecimalSeparator(table.rows),
+      dateFormat: entryIndex >= 0 ? guessDateFormat(table.rows.map(cells => cells[entryIndex])) : 'iso',
+      directionValues: DEFAULT_DIRECTION_VALUES,
+      pnlIncludesCosts: false,
+      costsArePositive: false,
+    },
+  };
+}
+
+// Mapping for a platform export with known column names
+export function mappingFromHeaders(
+  table: CsvTable,
+  names: Partial<Record<MappableField, string[]>>,
+  options: Pick<ColumnMapping, 'pnlIncludesCosts' | 'costsArePositive'>
+): ColumnMapping {
+  const columns: Partial<Record<MappableField, string>> = {};
+  for (const [field, candidates] of Object.entries(names) as [MappableField, string[]][]) {
+    const header = findHeader(table.headers, candidates);
+    if (header) columns[field] = header;
+  }
+  const entryIndex = columns.entryTime ? table.headers.indexOf(columns.entryTime) : -1;
+
+  return {
+    columns,
+    delimiter: ',',
+    decimalSeparator: guessDecimalSeparator(table.rows),
+    dateFormat: entryIndex >= 0 ? guessDateFormat(table.rows.map(cells => cells[entryIndex])) : 'iso',
+    directionValues: DEFAULT_DIRECTION_VALUES,
+    ...options,
+  };
+}
+
+// Copy of the table with one column's cells rewritten
+export function mapColumn(table: CsvTable, header: string | undefined, transform: (value: string) => string): CsvTable {
+  const index = header ? table.headers.indexOf(header) : -1;
+  if (index < 0) return table;
+  return {
+    ...table,
+    rows: table.rows.map(cells => cells.map((value, i) => i === index && value ? transform(value) : value)),
+  };
+}
+
+function parseDirection(value: string | undefined, values: ColumnMapping['directionValues']): 'long' | 'short' | null {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) return null;
+  if (values.long.some(v => v.toLowerCase() === normalized)) return 'long';
+  if (values.short.some(v => v.toLowerCase() === normalized)) return 'short';
+  return null;
+}
+
+// How imported trades are labelled: the platform parsers reuse the mapping
+// with their own tags and source id prefix
+export interface RowSource {
+  prefix: string;
+  tags: string[];
+}
+
+const CSV_SOURCE: RowSource = { prefix: 'csv', tags: ['CSV', 'Imported'] };
+
+// Build trades from the table. Rows that can't be read are reported, not imported.
+export function mapCsvRows(table: CsvTable, mapping: ColumnMapping, source: RowSource = CSV_SOURCE): { trades: NewTrade[]; diagnostics: ImportDiagnostics } {
+  const trades: NewTrade[] = [];
+  const errors: CsvRowError[] = [];
+  const index = (field: MappableField) => {
+    const header = mapping.columns[field];
+    return header ? table.headers.indexOf(header) : -1;
+  };
+  const indexes = Object.fromEntries(MAPPABLE_FIELDS.map(({ field }) => [field, index(field)])) as Record<MappableField, number>;
+
+  const missing = MAPPABLE_FIELDS.filter(({ field, required }) => required && indexes[field] < 0);
+  if (missing.length > 0) {
+    return { trades, diagnostics: createDiagnostics(0, [{ line: 1, message: `Colonnes non associées : ${missing.map(f => f.label).join(', ')}` }]) };
+  }
+
+  table.rows.forEach((cells, rowIndex) => {
+    const line = rowLine(table, rowIndex);
+    const cell = (field: MappableField) => indexes[field] >= 0 ? cells[indexes[field]] : undefined;
+    const number = (field: MappableField) => parseNumber(cell(field), mapping.decimalSeparator);
+    const cost = (field: MappableField) => {
+      const value = number(field) || 0;
+      return mapping.costsArePositive ? -value : value;
+    };
+
+    const symbol = cell('symbol')?.trim();
+    const direction = parseDirection(cell('direction'), mapping.directionValues);
+    const entryTime = parseDate(cell('entryTime'), mapping.dateFormat);
+    const entryPrice = number('entryPrice');
+    const units = number('units');
+
+    const error =
+      !symbol ? 'Symbole manquant'
+      : !direction ? `Direction inconnue : "${cell('direction') || ''}"`
+      : !entryTime ? `Date d'entrée illisible : "${cell('entryTime') || ''}"`
+      : entryPrice === null ? 'Prix d\'entrée manquant'
+      : units === null ? 'Quantité manquante'
+      : null;
+    if (!symbol || !direction || !entryTime || entryPrice === null || units === null) {
+      errors.push({ line, message: error || 'Ligne illisible' });
+      return;
+    }
+
+    const exitTime = parseDate(cell('exitTime'), mapping.dateFormat);
+    const exitPrice = number('exitPrice');
+    const quantity = Math.abs(units);
+    const commission = cost('commission');
+    const swap = cost('swap');
+    const fees = cost('fees');
+    const costs = commission + swap + fees;
+    const closed = exitTime !== null && exitPrice !== null;
+
+    // Without a P&L column, compute it from the prices
+    const reported = number('pnl');
+    const sign = direction === 'long' ? 1 : -1;
+    const priceGross = closed ? (exitPrice - entryPrice) * quantity * sign : null;
+    const grossPnl = reported === null ? priceGross : mapping.pnlIncludesCosts ? reported - costs : reported;
+    const pnl = grossPnl === null ? null : grossPnl + costs;
+
+    const sourceValue = cell('sourceId')?.trim();
+
+    trades.push({
+      symbol: symbol.toUpperCase(),
+      direction,
+      entryPrice,
+      exitPrice: closed ? exitPrice : null,
+      units: quantity,
+      entryTime,
+      exitTime: closed ? exitTime : null,
+      stopLoss: number('stopLoss'),
+      takeProfit: number('takeProfit'),
+      pnl: closed ? pnl : null,
+      pnlPercent: closed && pnl !== null && entryPrice > 0 ? (pnl / (entryPrice * quantity)) * 100 : null,
+      grossPnl: closed ? grossPnl : null,
+      commission,
+      swap,
+      fees,
+      currency: '', // the import currency applies
+      status: closed ? 'closed' : 'open',
+      notes: cell('notes')?.trim() || '',
+      tags: [...source.tags],
+      sourceId: sourceValue ? `${source.prefix}:${sourceValue}` : null,
+      executions: buildRoundTripExecutions({
+        direction,
+        entryTime,
+        entryPrice,
+        exitTime: closed ? exitTime : null,
+        exitPrice: closed ? exitPrice : null,
+        quantity,
+        entryFee: -commission,
+      }),
+    });
+  });
+
+  return { trades, diagnostics: createDiagnostics(trades.length, errors, trades) };
+}
+
+// Presets are kept per device, like the other import settings
+
+const PRESETS_KEY = 'tradezella_csv_presets';
+
+export function loadCsvPresets(): CsvPreset[] {
+  const stored = localStorage.getItem(PRESETS_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    return [];
+  }
+}
+
+export function saveCsvPresets(presets: CsvPreset[]) {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+}
+
+function headerKey(headers: string[]): string {
+  return headers.map(header => header.trim().toLowerCase()).sort().join('\u0000');
+}
+
+// The preset saved for files with exactly these headers (in any order)
+export function findCsvPreset(headers: string[], presets: CsvPreset[]): CsvPreset | null {
+  const key = headerKey(headers);
+  return presets.find(preset => headerKey(preset.headers) === key) || null;
+}
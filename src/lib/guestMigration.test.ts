@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from 'vitest';
+import { trade } from '../test/fixtures';
+import { planGuestMigration } from './guestMigration';
+
+// Attachment references are only parsed here; the Supabase client would
+// need a WebSocket to be created
+vi.mock('./supabase', () => ({}));
+
+describe('planGuestMigration', () => {
+  it('skips guest trades whose source id the account already has', () => {
+    const cloud = [trade({ id: 'cloud', accountId: 'acc', sourceId: 'mt5:1', entryTime: '2024-02-01T09:00:00.000Z' })];
+    const guest = [
+      trade({ id: 'same-ticket', accountId: 'acc', sourceId: 'mt5:1' }),
+      trade({ id: 'other-account', accountId: 'guest-acc', sourceId: 'mt5:1', entryTime: '2024-01-06T09:00:00.000Z' }),
+      trade({ id: 'copy', accountId: 'guest-acc', sourceId: 'mt5:1', entryTime: '2024-01-07T09:00:00.000Z' }),
+    ];
+
+    const plan = planGuestMigration({ trades: guest, strategies: [] }, cloud, [], ['acc']);
+
+    // The guest account is dropped: the second trade goes without one, the
+    // third would then collide with it
+    expect(plan.trades.map(item => [item.id, item.accountId])).toEqual([['other-account', null]]);
+    expect(plan.duplicateTrades).toBe(2);
+  });
+
+  it('drops links to guest import batches', () => {
+    const plan = planGuestMigration({ trades: [trade({ importBatchId: 'guest-batch' })], strategies: [] }, [], []);
+    expect(plan.trades[0].importBatchId).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import type { Trade, PlaybookStrategy } from '../types/trade';
+import { isDeviceAttachment } from './attachmentStorage';
+
+// Data created while signed out lives in localStorage only. After sign-in
+// it is offered for upload to the cloud account, then archived or cleared.
+
+const GUEST_TRADES_KEY = 'tradezella_trades';
+const GUEST_PLAYBOOK_KEY = 'tradezella_playbook';
+const GUEST_ARCHIVE_KEY = 'tradezella_guest_archive';
+
+export interface GuestData {
+  trades: Trade[];
+  strategies: PlaybookStrategy[];
+}
+
+export interface GuestMigrationPlan {
+  trades: Trade[]; // to upload
+  duplicateTrades: number; // same trade, or same broker ticket in the same account
+  // Files attached while signed out are kept in IndexedDB: those of the
+  // trades to upload go with them, those of the duplicates stay behind
+  attachments: number;
+  duplicateAttachments: number;
+  strategies: PlaybookStrategy[]; // to upload
+  duplicateStrategies: number;
+}
+
+function readJson<T>(key: string): T[] {
+  const stored = localStorage.getItem(key);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+// Returns null when there is nothing to migrate
+export function readGuestData(): GuestData | null {
+  const trades = readJson<Trade>(GUEST_TRADES_KEY);
+  const strategies = readJson<PlaybookStrategy>(GUEST_PLAYBOOK_KEY);
+  if (trades.length === 0 && strategies.length === 0) return null;
+  return { trades, strategies };
+}
+
+// Same symbol, entry time and entry price (at the DB's 6 decimals)
+function tradeKey(trade: Trade): string {
+  return [
+    trade.symbol.toUpperCase(),
+    new Date(trade.entryTime).getTime(),
+    Number(trade.entryPrice).toFixed(6),
+  ].join('|');
+}
+
+function sourceKey(trade: Trade): string {
+  return `${trade.accountId ?? ''}|${trade.sourceId}`;
+}
+
+export function planGuestMigration(
+  guest: GuestData,
+  cloudTrades: Trade[],
+  cloudStrategies: PlaybookStrategy[],
+  accountIds: string[] = []
+): GuestMigrationPlan {
+  const seenTrades = new Set(cloudTrades.map(tradeKey));
+  // The server allows one trade per source id in an account (migrations/0010):
+  // one taken already would make the whole upload fail
+  const seenSources = new Set(cloudTrades.filter(trade => trade.sourceId).map(sourceKey));
+  const knownAccounts = new Set(accountIds);
+  const trades: Trade[] = [];
+
+  for (const guestTrade of guest.trades) {
+    // Guest accounts and import batches are not migrated, so links to them are dropped
+    const trade = {
+      ...guestTrade,
+      accountId: guestTrade.accountId && knownAccounts.has(guestTrade.accountId) ? guestTrade.accountId : null,
+      importBatchId: null,
+    };
+    const key = tradeKey(trade);
+    if (seenTrades.has(key) || (trade.sourceId && seenSources.has(sourceKey(trade)))) continue;
+    seenTrades.add(key);
+    if (trade.sourceId) seenSources.add(sourceKey(trade));
+    trades.push(trade);
+  }
+
+  const seenStrategies = new Set(cloudStrategies.map(s => s.name.trim().toLowerCase()));
+  const strategies: PlaybookStrategy[] = [];
+
+  for (const strategy of guest.strategies) {
+    const key = strategy.name.trim().toLowerCase();
+    if (seenStrategies.has(key)) continue;
+    seenStrategies.add(key);
+    strategies.push({ ...strategy, id: crypto.randomUUID() });
+  }
+
+  const uploaded = new Set(trades.map(trade => trade.id));
+  const countAttachments = (list: Trade[]) => guestAttachments(list).length;
+
+  return {
+    trades,
+    duplicateTrades: guest.trades.length - trades.length,
+    attachments: countAttachments(trades),
+    duplicateAttachments: countAttachments(guest.trades.filter(trade => !uploaded.has(trade.id))),
+    strategies,
+    duplicateStrategies: guest.strategies.length - strategies.length,
+  };
+}
+
+// References of the files kept on this device for these trades
+export function guestAttachments(trades: Trade[]): string[] {
+  return trades.flatMap(trade => trade.screenshots || []).filter(isDeviceAttachment);
+}
+
+export function clearGuestData() {
+  localStorage.removeItem(GUEST_TRADES_KEY);
+  localStorage.removeItem(GUEST_PLAYBOOK_KEY);
+}
+
+// Keep a copy under a separate key so it is no longer offered for migration
+export function archiveGuestData(guest: GuestData) {
+  localStorage.setItem(GUEST_ARCHIVE_KEY, JSON.stringify({
+    archivedAt: new Date().toISOString(),
+    ...guest,
+  }));
+  clearGuestData();
+}
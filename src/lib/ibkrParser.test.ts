@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { detectIbkrFlex, parseIbkrFlex } from './ibkrParser';
+
+// Flex Query with Trades at execution and order level, the unbundled
+// commissions and the cash transactions
+const flex = `<?xml version="1.0" encoding="UTF-8"?>
+<FlexQueryResponse queryName="Journal" type="AF">
+<FlexStatements count="1">
+<FlexStatement accountId="U1234567" fromDate="20240301" toDate="20240308" period="LastWeek" whenGenerated="20240309;081500">
+<AccountInformation accountId="U1234567" acctAlias="" currency="USD" />
+<Trades>
+<Trade accountId="U1234567" currency="USD" assetCategory="STK" symbol="AAPL" description="APPLE INC" conid="265598" underlyingSymbol="" multiplier="1" tradeID="501" dateTime="20240304;093001" quantity="100" tradePrice="175.10" ibCommission="-1" buySell="BUY" fifoPnlRealized="0" levelOfDetail="EXECUTION" />
+<Trade accountId="U1234567" currency="USD" assetCategory="STK" symbol="AAPL" description="APPLE INC" conid="265598" underlyingSymbol="" multiplier="1" tradeID="502" dateTime="20240304;103000" quantity="-60" tradePrice="176.00" ibCommission="-1" buySell="SELL" fifoPnlRealized="53" levelOfDetail="EXECUTION" />
+<Trade accountId="U1234567" currency="USD" assetCategory="STK" symbol="AAPL" description="APPLE INC" conid="265598" underlyingSymbol="" multiplier="1" tradeID="" dateTime="20240304;103000" quantity="-60" tradePrice="176.00" ibCommission="-1" buySell="SELL" levelOfDetail="ORDER" />
+<Trade accountId="U1234567" currency="USD" assetCategory="STK" symbol="AAPL" description="APPLE INC" conid="265598" underlyingSymbol="" multiplier="1" tradeID="503" dateTime="20240304;113000" quantity="-40" tradePrice="174.60" ibCommission="-1" buySell="SELL" fifoPnlRealized="-21" levelOfDetail="EXECUTION" />
+<Trade accountId="U1234567" currency="USD" assetCategory="OPT" symbol="SPY   240315C00510000" description="SPY 15MAR24 510 C" conid="683004216" underlyingSymbol="SPY" multiplier="100" tradeID="504" dateTime="20240305;100500" quantity="2" tradePrice="3.20" ibCommission="-1.30" buySell="BUY" levelOfDetail="EXECUTION" />
+<Trade accountId="U1234567" currency="USD" assetCategory="OPT" symbol="SPY   240315C00510000" description="SPY 15MAR24 510 C" conid="683004216" underlyingSymbol="SPY" multiplier="100" tradeID="505" dateTime="20240305;143000" quantity="-2" tradePrice="4.10" ibCommission="-1.30" buySell="SELL" levelOfDetail="EXECUTION" />
+<Trade accountId="U1234567" currency="USD" assetCategory="FUT" symbol="ESH4" description="ES 15MAR24" conid="495512563" underlyingSymbol="ES" multiplier="50" tradeID="506" dateTime="20240306;093500" quantity="-1" tradePrice="5100.00" ibCommission="-2.15" buySell="SELL" levelOfDetail="EXECUTION" />
+<Trade accountId="U1234567" currency="USD" assetCategory="FUT" symbol="ESH4" description="ES 15MAR24" conid="495512563" underlyingSymbol="ES" multiplier="50" tradeID="507" dateTime="20240306;101000" quantity="1" tradePrice="5090.25" ibCommission="-2.15" buySell="BUY" fifoPnlRealized="485.35" levelOfDetail="EXECUTION" />
+<Trade accountId="U1234567" currency="USD" assetCategory="STK" symbol="MSFT" description="MICROSOFT CORP" conid="272093" underlyingSymbol="" multiplier="1" tradeID="508" dateTime="20240307;100000" quantity="-10" tradePrice="410.00" ibCommission="0" buySell="SELL (Ca.)" levelOfDetail="EXECUTION" />
+</Trades>
+<UnbundledCommissionDetails>
+<UnbundledCommissionDetail accountId="U1234567" tradeID="506" brokerExecutionCharge="-0.85" brokerClearingCharge="0" thirdPartyExecutionCharge="-1.28" thirdPartyClearingCharge="0" thirdPartyRegulatoryCharge="0" regOther="-0.02" />
+<UnbundledCommissionDetail accountId="U1234567" tradeID="507" brokerExecutionCharge="-0.85" brokerClearingCharge="0" thirdPartyExecutionCharge="-1.28" thirdPartyClearingCharge="0" thirdPartyRegulatoryCharge="0" regOther="-0.02" />
+</UnbundledCommissionDetails>
+<CashTransactions>
+<CashTransaction accountId="U1234567" currency="USD" type="Deposits/Withdrawals" description="CASH RECEIPTS / ELECTRONIC FUND TRANSFERS" dateTime="20240301;120000" amount="5000" transactionID="9001" levelOfDetail="DETAIL" />
+<CashTransaction accountId="U1234567" currency="USD" type="Dividends" description="AAPL(US0378331005) CASH DIVIDEND USD 0.24 PER SHARE" dateTime="20240307;202000" amount="24" transactionID="9002" levelOfDetail="DETAIL" />
+<CashTransaction accountId="U1234567" currency="USD" type="Deposits/Withdrawals" description="" dateTime="" amount="5000" transactionID="" levelOfDetail="SUMMARY" />
+</CashTransactions>
+</FlexStatement>
+</FlexStatements>
+</FlexQueryResponse>`;
+
+describe('parseIbkrFlex', () => {
+  const statement = parseIbkrFlex(flex);
+  const bySymbol = (symbol: string) => statement.trades.find(trade => trade.symbol === symbol)!;
+
+  it('is recognised from its root element', () => {
+    expect(detectIbkrFlex(flex)).toBe(true);
+    expect(statement.currency).toBe('USD');
+  });
+
+  it('groups stock executions into one round trip', () => {
+    const aapl = bySymbol('AAPL');
+
+    expect(aapl).toMatchObject({
+      direction: 'long',
+      units: 100,
+      entryPrice: 175.1,
+      entryTime: '2024-03-04T09:30:01',
+      exitTime: '2024-03-04T11:30:00',
+      commission: -3,
+      status: 'closed',
+      sourceId: 'ibkr:501',
+      tags: ['IBKR', 'Stocks', 'Imported'],
+    });
+    expect(aapl.exitPrice).toBeCloseTo(175.44, 10);
+    // 60 × 0.90 - 40 × 0.50, the order line is not counted again
+    expect(aapl.grossPnl).toBeCloseTo(34, 10);
+    expect(aapl.pnl).toBeCloseTo(31, 10);
+    expect(aapl.executions).toHaveLength(3);
+  });
+
+  it('journals options under their underlying with the contract multiplier', () => {
+    const option = bySymbol('SPY');
+
+    expect(option).toMatchObject({ units: 2, notes: 'Import IBKR SPY 15MAR24 510 C', tags: ['IBKR', 'Options', 'Imported'] });
+    expect(option.grossPnl).toBeCloseTo(180, 10);
+    expect(option.commission).toBeCloseTo(-2.6, 10);
+  });
+
+  it('splits futures costs into commission and exchange fees', () => {
+    const future = bySymbol('ES');
+
+    expect(future).toMatchObject({ direction: 'short', entryPrice: 5100, exitPrice: 5090.25, tags: ['IBKR', 'Futures', 'Imported'] });
+    // 9.75 points × 50
+    expect(future.grossPnl).toBeCloseTo(487.5, 10);
+    expect(future.commission).toBeCloseTo(-1.7, 10);
+    expect(future.fees).toBeCloseTo(-2.6, 10);
+    expect(future.pnl).toBeCloseTo(483.2, 10);
+  });
+
+  it('keeps deposits and leaves out cancelled executions and other cash lines', () => {
+    expect(statement.trades).toHaveLength(3);
+    expect(statement.balanceOperations).toEqual([{
+      ticket: '9001',
+      time: '2024-03-01T12:00:00',
+      type: 'deposit',
+      amount: 5000,
+      comment: 'CASH RECEIPTS / ELECTRONIC FUND TRANSFERS',
+    }]);
+    expect(statement.warnings).toEqual([
+      'Exécutions annulées par IBKR (Ca.) ignorées',
+      '1 mouvements de trésorerie (dividendes, intérêts, frais) non importés',
+    ]);
+  });
+
+  it('refuses a file that is not well-formed', () => {
+    expect(() => parseIbkrFlex('<FlexQueryResponse><FlexStatement><Trades></FlexStatement>')).toThrow('Fichier XML illisible');
+  });
+});
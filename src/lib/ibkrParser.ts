@@ -0,0 +1,292 @@
+import type { NewTrade } from './tradeRepository';
+import type { BalanceOperation, MetaTraderStatement } from './mt5Parser';
+import { parseFuturesSymbol } from '../utils/futures';
+import { buildRoundTrips, type Fill, type RoundTrip } from '../utils/executions';
+import { createDiagnostics } from './importDiagnostics';
+import { createMarkupScanner, type MarkupReader } from './markup';
+
+// Interactive Brokers Flex Query report (XML). Trades lists every
+// execution; they are grouped into round trips per account and contract
+// (conid). Stocks, options and futures carry their multiplier.
+
+export interface IbkrStatement extends MetaTraderStatement {
+  warnings: string[];
+}
+
+export function detectIbkrFlex(content: string): boolean {
+  return /<FlexQueryResponse[\s>]/.test(content) || /<FlexStatement[\s>]/.test(content);
+}
+
+// "20240105;093001", "2024-01-05;09:30:01", "2024-01-05, 09:30:01", "20240105".
+// In the account's timezone (set in the Flex Query), converted at import.
+function parseIbDateTime(value: string | null): string | null {
+  const match = value?.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})(?:[;,\s]+(\d{2}):?(\d{2}):?(\d{2}))?/);
+  if (!match) return null;
+  const [, year, month, day, hours = '00', minutes = '00', seconds = '00'] = match;
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
+}
+
+// Attributes of an element of the report
+type FlexElement = Record<string, string>;
+
+function attr(element: FlexElement, name: string): string {
+  return element[name]?.trim() || '';
+}
+
+function amount(element: FlexElement, name: string): number {
+  const value = parseFloat(attr(element, name));
+  return isNaN(value) ? 0 : value;
+}
+
+// Costs from UnbundledCommissionDetail, keyed by tradeID: the broker part
+// is the commission, the exchange and regulatory part are fees
+const BROKER_CHARGES = ['brokerExecutionCharge', 'brokerClearingCharge'];
+const OTHER_CHARGES = [
+  'thirdPartyExecutionCharge',
+  'thirdPartyClearingCharge',
+  'thirdPartyRegulatoryCharge',
+  'regFINRATradingActivityFee',
+  'regSection31TransactionFee',
+  'regOther',
+  'other',
+];
+
+interface Instrument {
+  symbol: string;
+  description: string;
+  assetCategory: string; // STK, OPT, FUT, FOP, CASH...
+  tags: string[];
+}
+
+const ASSET_TAGS: Record<string, string> = {
+  STK: 'Stocks',
+  OPT: 'Options',
+  FUT: 'Futures',
+  FOP: 'Options',
+  CASH: 'Forex',
+  CFD: 'CFD',
+};
+
+function instrumentOf(trade: FlexElement): Instrument {
+  const assetCategory = attr(trade, 'assetCategory').toUpperCase();
+  const symbol = attr(trade, 'symbol');
+  const underlying = attr(trade, 'underlyingSymbol');
+
+  // Options are journaled under their underlying; the contract goes in the notes.
+  // Futures use the contract root, like the futures platform importers.
+  const journalSymbol =
+    assetCategory === 'OPT' || assetCategory === 'FOP' ? underlying || symbol.split(/\s+/)[0]
+    : assetCategory === 'FUT' ? parseFuturesSymbol(symbol)?.root || underlying || symbol
+    : assetCategory === 'CASH' ? symbol.replace('.', '')
+    : symbol;
+
+  return {
+    symbol: journalSymbol.toUpperCase(),
+    description: attr(trade, 'description') || symbol,
+    assetCategory,
+    tags: ['IBKR', ...(ASSET_TAGS[assetCategory] ? [ASSET_TAGS[assetCategory]] : []), 'Imported'],
+  };
+}
+
+const ELEMENTS = ['FlexStatement', 'UnbundledCommissionDetail', 'Trade', 'CashTransaction', 'AccountInformation'];
+
+// The elements the import reads, by tag name
+export type FlexDocument = Record<string, FlexElement[]>;
+
+// Tags that don't nest properly make the file unreadable, as they would
+// for an XML parser
+export function createFlexReader(): MarkupReader<FlexDocument> {
+  const elements: FlexDocument = Object.fromEntries(ELEMENTS.map(name => [name, []]));
+  const open: string[] = [];
+  let wellFormed = true;
+
+  const scanner = createMarkupScanner({
+    open: (name, attributes, selfClosing) => {
+      elements[name]?.push(attributes);
+      if (!selfClosing) open.push(name);
+    },
+    close: name => {
+      if (open.pop() !== name) wellFormed = false;
+    },
+  });
+
+  return {
+    push: scanner.push,
+    end: () => {
+      scanner.end();
+      if (!wellFormed || open.length > 0) throw new Error('Fichier XML illisible');
+      return elements;
+    },
+  };
+}
+
+// The report as text, or its elements already read (see createFlexReader)
+export function parseIbkrFlex(report: string | FlexDocument): IbkrStatement {
+  let doc: FlexDocument;
+  if (typeof report === 'string') {
+    const reader = createFlexReader();
+    reader.push(report);
+    doc = reader.end();
+  } else {
+    doc = report;
+  }
+  if (doc.FlexStatement.length === 0) {
+    throw new Error('Aucun FlexStatement dans le rapport IBKR');
+  }
+
+  const warnings = new Set<string>();
+
+  const charges = new Map<string, { commission: number; fees: number }>();
+  for (const detail of doc.UnbundledCommissionDetail) {
+    const tradeId = attr(detail, 'tradeID');
+    if (!tradeId) continue;
+    const current = charges.get(tradeId) || { commission: 0, fees: 0 };
+    current.commission += BROKER_CHARGES.reduce((sum, name) => sum + Math.abs(amount(detail, name)), 0);
+    current.fees += OTHER_CHARGES.reduce((sum, name) => sum + Math.abs(amount(detail, name)), 0);
+    charges.set(tradeId, current);
+  }
+
+  const instruments = new Map<string, Instrument>();
+  const reportedPnl = new Map<string, number>(); // fifoPnlRealized per fill id
+  const currencies = new Map<string, string>();
+  const fills: Fill[] = [];
+
+  for (const trade of doc.Trade) {
+    // Order and summary lines repeat the executions
+    const detail = attr(trade, 'levelOfDetail').toUpperCase();
+    if (detail && detail !== 'EXECUTION') continue;
+
+    const buySell = attr(trade, 'buySell').toUpperCase();
+    if (buySell.includes('(CA.)')) {
+      warnings.add('Exécutions annulées par IBKR (Ca.) ignorées');
+      continue;
+    }
+
+    const side = buySell.startsWith('BUY') ? 'buy' : buySell.startsWith('SELL') ? 'sell' : null;
+    const time = parseIbDateTime(trade.dateTime || trade.tradeDate || null);
+    const quantity = Math.abs(amount(trade, 'quantity'));
+    if (!side || !time || quantity === 0) continue;
+
+    const id = attr(trade, 'tradeID') || attr(trade, 'ibExecID') || attr(trade, 'transactionID');
+    const instrument = instrumentOf(trade);
+    const key = `${attr(trade, 'accountId')}|${attr(trade, 'conid') || attr(trade, 'symbol')}`;
+    instruments.set(key, instrument);
+    currencies.set(key, attr(trade, 'currency') || '');
+
+    // ibCommission is negative when paid and already includes the
+    // unbundled fees; split it when the detail is there
+    const split = charges.get(id);
+    const totalCost = Math.abs(amount(trade, 'ibCommission'));
+    const fee = split ? split.commission : totalCost;
+    const otherCharges = split ? split.fees : 0;
+
+    if ('fifoPnlRealized' in trade) reportedPnl.set(id, amount(trade, 'fifoPnlRealized'));
+
+    fills.push({
+      id,
+      key,
+      time,
+      side,
+      quantity,
+      price: amount(trade, 'tradePrice'),
+      fee,
+      charges: otherCharges,
+      multiplier: amount(trade, 'multiplier') || 1,
+    });
+  }
+
+  const ordered = fills
+    .map((fill, order) => ({ fill, order }))
+    .sort((a, b) => a.fill.time.localeCompare(b.fill.time) || a.order - b.order)
+    .map(({ fill }) => fill);
+
+  const trades = buildRoundTrips(ordered).map(trip => {
+    const instrument = instruments.get(trip.key)!;
+    checkReportedPnl(trip, reportedPnl, instrument, warnings);
+
+    const commission = -trip.fees;
+    const fees = -trip.charges;
+    return {
+      symbol: instrument.symbol,
+      direction: trip.direction,
+      entryPrice: trip.entryPrice,
+      exitPrice: trip.exitPrice,
+      units: trip.units,
+      entryTime: trip.entryTime,
+      exitTime: trip.exitTime,
+      stopLoss: null,
+      takeProfit: null,
+      pnl: trip.isClosed ? trip.grossPnl + commission + fees : null,
+      pnlPercent: null,
+      grossPnl: trip.isClosed ? trip.grossPnl : null,
+      commission,
+      swap: 0,
+      fees,
+      currency: currencies.get(trip.key) || '',
+      status: trip.isClosed ? 'closed' : 'open',
+      notes: `Import IBKR ${instrument.description}`,
+      tags: instrument.tags,
+      sourceId: trip.fillIds[0] ? `ibkr:${trip.fillIds[0]}` : null,
+      executions: trip.executions,
+    } satisfies NewTrade;
+  });
+
+  const { balanceOperations, skipped } = parseCashTransactions(doc.CashTransaction);
+  if (skipped > 0) {
+    warnings.add(`${skipped} mouvements de trésorerie (dividendes, intérêts, frais) non importés`);
+  }
+
+  const baseCurrency = doc.AccountInformation[0]?.currency;
+
+  return {
+    trades,
+    balanceOperations,
+    currency: baseCurrency || trades[0]?.currency || '',
+    // Executions carry no line; what was left out is in the warnings
+    diagnostics: createDiagnostics(fills.length + balanceOperations.length, [], trades),
+    warnings: [...warnings],
+  };
+}
+
+// IBKR's own FIFO result for the closing fills; a gap means a missing
+// opening execution (outside the report period) or a wrong multiplier
+function checkReportedPnl(trip: RoundTrip, reportedPnl: Map<string, number>, instrument: Instrument, warnings: Set<string>) {
+  if (!trip.isClosed) return;
+  const reported = trip.fillIds.reduce((sum, id) => sum + (reportedPnl.get(id) || 0), 0);
+  if (!trip.fillIds.some(id => reportedPnl.has(id))) return;
+  // fifoPnlRealized has some of the commissions taken off (those of the
+  // closing fills), so it may differ from the gross by up to the costs
+  if (Math.abs(reported - trip.grossPnl) > trip.fees + trip.charges + 0.01) {
+    warnings.add(`${instrument.description} : P&L IBKR ${reported.toFixed(2)}, calculé ${trip.grossPnl.toFixed(2)} (brut)`);
+  }
+}
+
+function parseCashTransactions(transactions: FlexElement[]): { balanceOperations: BalanceOperation[]; skipped: number } {
+  const balanceOperations: BalanceOperation[] = [];
+  let skipped = 0;
+
+  for (const transaction of transactions) {
+    // Summary lines repeat the details
+    const detail = attr(transaction, 'levelOfDetail').toUpperCase();
+    if (detail && detail !== 'DETAIL') continue;
+
+    const type = attr(transaction, 'type');
+    const time = parseIbDateTime(transaction.dateTime || transaction.settleDate || null);
+    if (!/deposit|withdrawal/i.test(type)) {
+      skipped++;
+      continue;
+    }
+    if (!time) continue;
+
+    const value = amount(transaction, 'amount');
+    balanceOperations.push({
+      ticket: attr(transaction, 'transactionID') || `${time}:${value}`,
+      time,
+      type: value < 0 ? 'withdrawal' : 'deposit',
+      amount: value,
+      comment: attr(transaction, 'description'),
+    });
+  }
+
+  return { balanceOperations, skipped };
+}
@@ -0,0 +1,61 @@
+import type { EstimatedField, Trade } from '../types/trade';
+import type { CsvRowError } from './genericCsv';
+import type { NewTrade } from './tradeRepository';
+
+// What an importer made of a file, shown before anything is saved: rows
+// read, rows left out and why, journal entries no trade used, and values
+// that had to be guessed (also flagged on each trade in estimatedFields).
+
+// A journal entry (TradingView order log) that no closed trade used:
+// a position still open, or an entry the balance history doesn't list.
+// Also MT5 closing deals whose position opened before the report.
+export interface UnmatchedEntry {
+  line?: number;
+  time: string;
+  text: string;
+}
+
+export interface ImportDiagnostics {
+  rowsParsed: number; // rows read into a trade, a fill or a balance entry
+  skipped: CsvRowError[];
+  unmatched: UnmatchedEntry[];
+  estimated: Partial<Record<EstimatedField, number>>; // trades per field
+}
+
+export function isEstimated(trade: Pick<Trade, 'estimatedFields'>, field?: EstimatedField): boolean {
+  const fields = trade.estimatedFields || [];
+  return field ? fields.includes(field) : fields.length > 0;
+}
+
+function countEstimated(trades: NewTrade[]): Partial<Record<EstimatedField, number>> {
+  const counts: Partial<Record<EstimatedField, number>> = {};
+  for (const field of trades.flatMap(trade => trade.estimatedFields || [])) {
+    counts[field] = (counts[field] || 0) + 1;
+  }
+  return counts;
+}
+
+export function createDiagnostics(
+  rowsParsed: number,
+  skipped: CsvRowError[],
+  trades: NewTrade[] = [],
+  unmatched: UnmatchedEntry[] = [],
+): ImportDiagnostics {
+  return { rowsParsed, skipped, unmatched, estimated: countEstimated(trades) };
+}
+
+// Reports of files read together (TradingView balance history and order log)
+export function combineDiagnostics(...reports: ImportDiagnostics[]): ImportDiagnostics {
+  const estimated: Partial<Record<EstimatedField, number>> = {};
+  for (const report of reports) {
+    for (const [field, count] of Object.entries(report.estimated) as [EstimatedField, number][]) {
+      estimated[field] = (estimated[field] || 0) + count;
+    }
+  }
+  return {
+    rowsParsed: reports.reduce((sum, report) => sum + report.rowsParsed, 0),
+    skipped: reports.flatMap(report => report.skipped),
+    unmatched: reports.flatMap(report => report.unmatched),
+    estimated,
+  };
+}
@@ -0,0 +1,173 @@
+import type { NewTrade } from './tradeRepository';
+import {
+  parseBalanceHistoryTable,
+  parseOrderLogsTable,
+  mergeTradeData,
+  parseBalanceHistoryTrades,
+  type CsvParseResult,
+  type TradingViewImport,
+} from './csvParser';
+import { parseCTraderHistory } from './ctraderParser';
+import { parseDXtradeHistory } from './dxtradeParser';
+import { parseNinjaTraderTrades, parseTradovateFills, parseRithmicFills, type FuturesImport } from './futuresParser';
+import { parseBinanceFutures, parseBybitFutures, type NamedTable } from './cryptoParser';
+import { readCsvFile, type CsvRowError, type CsvTable } from './genericCsv';
+import { createDiagnostics, type ImportDiagnostics } from './importDiagnostics';
+import { readSpreadsheetFile } from './xlsx';
+import { readText, streamText, type ReadProgress } from './streamFile';
+import { createHtmlTableReader, type MarkupReader } from './markup';
+import { parseMT5Report, type MetaTraderStatement } from './mt5Parser';
+import { detectMetaTraderReport, parseMT4Statement } from './mt4Parser';
+import { createFlexReader, detectIbkrFlex, parseIbkrFlex } from './ibkrParser';
+
+// The parsing work of an import, from the dropped files to trades. Jobs
+// run in the import worker (see parseImport) so that multi-year exports
+// don't freeze the page; they take the files themselves since reading
+// them is most of the work.
+
+export type HistoryMode = 'ctrader' | 'dxtrade' | 'ninjatrader' | 'tradovate' | 'rithmic';
+export type ExchangeMode = 'binance' | 'bybit';
+export type StatementPlatform = 'metatrader' | 'ibkr';
+
+export interface HistoryImport {
+  trades: NewTrade[];
+  diagnostics: ImportDiagnostics;
+  warnings?: string[];
+}
+
+// Platforms exporting a table (CSV or XLSX)
+export const historyParsers: Record<HistoryMode, (table: CsvTable) => HistoryImport> = {
+  ctrader: parseCTraderHistory,
+  dxtrade: parseDXtradeHistory,
+  ninjatrader: parseNinjaTraderTrades,
+  tradovate: parseTradovateFills,
+  rithmic: parseRithmicFills,
+};
+
+// Crypto exchanges export trades and funding payments separately; the files are read together
+export const exchangeParsers: Record<ExchangeMode, (tables: NamedTable[]) => FuturesImport> = {
+  binance: parseBinanceFutures,
+  bybit: parseBybitFutures,
+};
+
+export type ImportJob =
+  | { kind: 'tradingview'; balance: File | null; journal: File | null }
+  | { kind: 'history'; mode: HistoryMode; file: File }
+  | { kind: 'exchange'; mode: ExchangeMode; files: File[] }
+  | { kind: 'statement'; platform: StatementPlatform; file: File };
+
+// Rows read from each TradingView file, and those rejected. Without the
+// balance history there are no trades, only the journal's counts.
+export interface TradingViewFileRead {
+  entries: number;
+  errors: CsvRowError[];
+}
+
+export interface TradingViewJobResult extends TradingViewImport {
+  balance: TradingViewFileRead | null;
+  journal: TradingViewFileRead | null;
+}
+
+// Account statement (HTML or XML report), with the format it was read as:
+// mt4 or mt5 for MetaTrader
+export interface StatementJobResult {
+  statement: MetaTraderStatement & { warnings?: string[] };
+  format: string;
+}
+
+export interface ImportJobResults {
+  tradingview: TradingViewJobResult;
+  history: HistoryImport;
+  exchange: FuturesImport;
+  statement: StatementJobResult;
+}
+
+export type ImportJobResult = ImportJobResults[ImportJob['kind']];
+
+export function jobFiles(job: ImportJob): File[] {
+  switch (job.kind) {
+    case 'tradingview':
+      return [job.balance, job.journal].filter((file): file is File => file !== null);
+    case 'history':
+    case 'statement':
+      return [job.file];
+    case 'exchange':
+      return job.files;
+  }
+}
+
+// Progress over all the files of the job, in bytes
+function fileProgress(job: ImportJob, onProgress: ReadProgress): (file: File) => ReadProgress {
+  const files = jobFiles(job);
+  const offsets = new Map(files.map((file, index) => [file, files.slice(0, index).reduce((sum, previous) => sum + previous.size, 0)]));
+  return file => loaded => onProgress((offsets.get(file) || 0) + loaded);
+}
+
+async function runTradingViewJob(
+  { balance, journal }: { balance: File | null; journal: File | null },
+  progress: (file: File) => ReadProgress,
+  signal?: AbortSignal,
+): Promise<TradingViewJobResult> {
+  const balanceRead = balance ? parseBalanceHistoryTable(await readCsvFile(balance, progress(balance), signal)) : null;
+  const journalRead = journal ? parseOrderLogsTable(await readCsvFile(journal, progress(journal), signal)) : null;
+  signal?.throwIfAborted();
+
+  // Without the journal: no SL/TP and estimated entry times
+  const merged = !balanceRead || balanceRead.entries.length === 0
+    ? { trades: [], diagnostics: createDiagnostics(0, []) }
+    : journalRead && journalRead.entries.length > 0
+      ? mergeTradeData(balanceRead.entries, journalRead.entries)
+      : parseBalanceHistoryTrades(balanceRead.entries);
+
+  const read = (result: CsvParseResult<unknown> | null) => result && { entries: result.entries.length, errors: result.errors };
+  return { ...merged, balance: read(balanceRead), journal: read(journalRead) };
+}
+
+// Statements go through the reader chunk by chunk: only the rows or
+// elements it keeps are in memory, not the whole text of the file
+async function streamMarkup<T>(file: File, reader: MarkupReader<T>, progress: ReadProgress, signal?: AbortSignal): Promise<T> {
+  await streamText(file, (text, loaded) => {
+    reader.push(text);
+    progress(loaded);
+  }, signal);
+  signal?.throwIfAborted();
+  return reader.end();
+}
+
+async function runStatementJob(platform: StatementPlatform, file: File, progress: ReadProgress, signal?: AbortSignal): Promise<StatementJobResult> {
+  if (platform === 'ibkr') {
+    // The root element is at the top of the report
+    const head = await readText(file.slice(0, 4096), undefined, signal);
+    if (!detectIbkrFlex(head)) throw new Error(`${file.name} : ce fichier n'est pas une Flex Query IBKR en XML`);
+    const elements = await streamMarkup(file, createFlexReader(), progress, signal);
+    return { statement: parseIbkrFlex(elements), format: 'ibkr' };
+  }
+
+  // The section titles can be anywhere in the page
+  const doc = await streamMarkup(file, createHtmlTableReader(), progress, signal);
+  const format = detectMetaTraderReport(doc.text);
+  if (!format) {
+    throw new Error(`${file.name} : format de rapport non reconnu. Utilisez le relevé détaillé MT4 ou le rapport HTML standard MT5.`);
+  }
+  return { statement: format === 'mt4' ? parseMT4Statement(doc) : parseMT5Report(doc), format };
+}
+
+export async function runImportJob(job: ImportJob, onProgress: ReadProgress, signal?: AbortSignal): Promise<ImportJobResult> {
+  const progress = fileProgress(job, onProgress);
+
+  switch (job.kind) {
+    case 'tradingview':
+      return runTradingViewJob(job, progress, signal);
+    case 'history':
+      return historyParsers[job.mode](await readSpreadsheetFile(job.file, progress(job.file), signal));
+    case 'exchange': {
+      const tables: NamedTable[] = [];
+      for (const file of job.files) {
+        tables.push({ name: file.name, table: await readSpreadsheetFile(file, progress(file), signal) });
+      }
+      return exchangeParsers[job.mode](tables);
+    }
+    case 'statement':
+      return runStatementJob(job.platform, job.file, progress(job.file), signal);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { toUtc, tradeToUtc } from './importTimezone';
+
+describe('toUtc', () => {
+  it('reads fixed offsets', () => {
+    expect(toUtc('2024-01-05T09:30:00', 'UTC')).toBe('2024-01-05T09:30:00.000Z');
+    expect(toUtc('2024-01-05 09:30:00', 'Etc/GMT-2')).toBe('2024-01-05T07:30:00.000Z');
+  });
+
+  it('follows daylight saving of the zone', () => {
+    expect(toUtc('2024-01-15T12:00:00', 'Europe/Paris')).toBe('2024-01-15T11:00:00.000Z');
+    expect(toUtc('2024-07-15T12:00:00', 'Europe/Paris')).toBe('2024-07-15T10:00:00.000Z');
+  });
+
+  it('uses the offset of the instant on the day of the change', () => {
+    // Europe switches on 31 March 2024 at 01:00 UTC
+    expect(toUtc('2024-03-31T01:30:00', 'Europe/London')).toBe('2024-03-31T01:30:00.000Z');
+    expect(toUtc('2024-03-31T03:00:00', 'Europe/London')).toBe('2024-03-31T02:00:00.000Z');
+    // New York falls back on 3 November 2024 at 06:00 UTC
+    expect(toUtc('2024-11-03T00:30:00', 'America/New_York')).toBe('2024-11-03T04:30:00.000Z');
+    expect(toUtc('2024-11-03T03:00:00', 'America/New_York')).toBe('2024-11-03T08:00:00.000Z');
+  });
+
+  it('keeps MetaTrader servers at New York time + 7 hours', () => {
+    // GMT+2 in winter, GMT+3 once the US has moved its clocks (10 March),
+    // before Europe does
+    expect(toUtc('2024-03-08T12:00:00', 'ny-close')).toBe('2024-03-08T10:00:00.000Z');
+    expect(toUtc('2024-03-12T12:00:00', 'ny-close')).toBe('2024-03-12T09:00:00.000Z');
+  });
+
+  it('only normalises times that carry their zone', () => {
+    expect(toUtc('2024-01-05T09:30:00+02:00', 'America/New_York')).toBe('2024-01-05T07:30:00.000Z');
+    expect(toUtc('2024-01-05T09:30:00Z', 'Europe/Paris')).toBe('2024-01-05T09:30:00.000Z');
+  });
+
+  it('converts the executions of a trade as well', () => {
+    const trade = tradeToUtc({
+      entryTime: '2024-07-01T10:00:00',
+      exitTime: null,
+      executions: [{ id: 'a', time: '2024-07-01T10:00:00', side: 'buy', price: 1, quantity: 1, fee: 0 }],
+    }, 'Etc/GMT-3');
+
+    expect(trade.entryTime).toBe('2024-07-01T07:00:00.000Z');
+    expect(trade.exitTime).toBeNull();
+    expect(trade.executions?.[0].time).toBe('2024-07-01T07:00:00.000Z');
+  });
+});
@@ -0,0 +1,108 @@
+import type { Execution } from '../types/trade';
+
+// Exports write times on the clock of the platform that produced them:
+// MetaTrader the broker server's, TradingView and desktop platforms the
+// user's. Parsers keep those times without a zone ("2024-01-05T09:30:00")
+// and the importer converts them to UTC from the timezone picked for the
+// format. Times that carry their zone are only normalised.
+
+export interface SourceTimezone {
+  id: string; // IANA zone, or one of the presets below
+  label: string;
+}
+
+// Most MetaTrader servers run on GMT+2 in winter and GMT+3 in summer,
+// switching with US daylight saving so that the New York 17:00 close falls
+// at midnight: New York time + 7 hours, all year round
+const NEW_YORK_CLOSE = 'ny-close';
+const LOCAL = 'local';
+
+export const SOURCE_TIMEZONES: SourceTimezone[] = [
+  { id: 'UTC', label: 'UTC' },
+  { id: NEW_YORK_CLOSE, label: 'Serveur GMT+2/+3, heure d\'été américaine (clôture New York)' },
+  { id: 'Europe/Athens', label: 'Serveur GMT+2/+3, heure d\'été européenne' },
+  { id: 'Etc/GMT-2', label: 'Serveur GMT+2 fixe' },
+  { id: 'Etc/GMT-3', label: 'Serveur GMT+3 fixe' },
+  { id: LOCAL, label: 'Heure locale de ce navigateur' },
+  { id: 'Europe/London', label: 'Londres' },
+  { id: 'Europe/Paris', label: 'Paris, Francfort' },
+  { id: 'America/New_York', label: 'New York' },
+  { id: 'America/Chicago', label: 'Chicago (CME)' },
+  { id: 'Asia/Tokyo', label: 'Tokyo' },
+  { id: 'Australia/Sydney', label: 'Sydney' },
+];
+
+export const DEFAULT_SOURCE_TIMEZONE = 'UTC';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(zone: string): Intl.DateTimeFormat {
+  let format = formatters.get(zone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone === LOCAL ? undefined : zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(zone, format);
+  }
+  return format;
+}
+
+// Minutes ahead of UTC of a zone at an instant, daylight saving included
+function zoneOffset(zone: string, time: number): number {
+  if (zone === NEW_YORK_CLOSE) return zoneOffset('America/New_York', time) + 7 * 60;
+
+  const parts = Object.fromEntries(formatter(zone).formatToParts(new Date(time)).map(part => [part.type, Number(part.value)]));
+  const clock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((clock - Math.floor(time / 1000) * 1000) / 60000);
+}
+
+const HAS_ZONE = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+// "2024-01-05T09:30:00" (or with a space) read on the zone's clock, as a
+// UTC ISO string
+export function toUtc(time: string, zone: string): string {
+  if (HAS_ZONE.test(time)) return new Date(time).toISOString();
+
+  const clock = new Date(time.replace(' ', 'T') + 'Z').getTime();
+  if (isNaN(clock)) return time;
+  // The offset at the clock time is a first guess; the offset at the
+  // instant found is the right one, also across a DST change
+  const guess = clock - zoneOffset(zone, clock) * 60000;
+  return new Date(clock - zoneOffset(zone, guess) * 60000).toISOString();
+}
+
+export function tradeToUtc<T extends { entryTime: string; exitTime: string | null; executions?: Execution[] }>(trade: T, zone: string): T {
+  return {
+    ...trade,
+    entryTime: toUtc(trade.entryTime, zone),
+    exitTime: trade.exitTime && toUtc(trade.exitTime, zone),
+    ...(trade.executions && {
+      executions: trade.executions.map(execution => ({ ...execution, time: toUtc(execution.time, zone) })),
+    }),
+  };
+}
+
+// Chosen timezone per import format ("mt5", "tradingview"...), kept per
+// device like the other import settings
+const STORAGE_KEY = 'tradezella_import_timezones';
+
+export function loadImportTimezones(): Record<string, string> {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    return {};
+  }
+}
+
+export function saveImportTimezones(timezones: Record<string, string>) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(timezones));
+}
@@ -0,0 +1,20 @@
+import { runImportJob, type ImportJob, type ImportJobResult } from './importJobs';
+
+// Entry of the import worker: one job per worker, progress while the
+// files are read, then the result. Cancelling terminates the worker.
+
+export type ImportWorkerMessage =
+  | { type: 'progress'; loaded: number }
+  | { type: 'done'; result: ImportJobResult }
+  | { type: 'error'; message: string };
+
+const post = (message: ImportWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ImportJob>) => {
+  try {
+    const result = await runImportJob(event.data, loaded => post({ type: 'progress', loaded }));
+    post({ type: 'done', result });
+  } catch (err) {
+    post({ type: 'error', message: (err as Error).message });
+  }
+};
@@ -0,0 +1,412 @@
+import type { NewTrade } from './tradeRepository';
+import type { BalanceOperation } from './mt5Parser';
+import { detectIbkrFlex } from './ibkrParser';
+import { csvFormatFromHeaders } from './csvParser';
+import {
+  createMapping,
+  findCsvPreset,
+  findHeader,
+  loadCsvPresets,
+  locateHeader,
+  mapCsvRows,
+  readCsvTable,
+  readCsvText,
+  type CsvTable,
+} from './genericCsv';
+import { combineDiagnostics, createDiagnostics, type ImportDiagnostics } from './importDiagnostics';
+import type { ExchangeMode, HistoryMode, StatementJobResult } from './importJobs';
+import { parseImport, type ParseOptions } from './parseImport';
+import { readText } from './streamFile';
+import { isXlsxFile, readXlsxTable } from './xlsx';
+
+// Importers turn the files of one platform into trades. Each one tells how
+// sure it is that a file is its own (detect), so that dropped files go to
+// the importer that recognises them best; the page lists the others in
+// case the guess is wrong.
+
+// What detect gets to look at: the start of the file, and its first rows
+// when it reads as a table (CSV or XLSX). HTML and XML reports have no table.
+export interface FileSample {
+  file: File;
+  head: string; // first 64 KB as text, empty for XLSX
+  table: CsvTable | null;
+}
+
+export type ImporterOptionValue = boolean | string;
+export type ImporterOptionValues = Record<string, ImporterOptionValue>;
+
+// Settings shown under the detected importer, remembered per importer
+export interface ImporterOption {
+  key: string;
+  label: string;
+  type: 'boolean' | 'select';
+  default: ImporterOptionValue;
+  choices?: { value: string; label: string }[]; // select only
+}
+
+export interface ImportResult {
+  trades: NewTrade[];
+  diagnostics: ImportDiagnostics;
+  warnings: string[];
+  balanceOperations: BalanceOperation[]; // deposits and withdrawals, from account statements
+  format: string; // the format actually read (mt4 or mt5 for the MetaTrader importer)
+}
+
+export interface Importer {
+  id: string;
+  label: string;
+  description: string;
+  help: string; // how to export the file from the platform
+  emptyHint?: string; // shown when the file holds no trade
+  accept: string[]; // extensions, for the file picker
+  truncatesSymbols?: boolean; // symbols are cut to 6 characters (EURUSD.P -> EURUSD)
+  mapsColumns?: boolean; // columns are mapped by hand on the page
+  options: ImporterOption[];
+  // 0 when the file is not for this importer, up to 1 when sure
+  detect: (sample: FileSample) => number;
+  parse: (files: File[], options: ImporterOptionValues, parse: ParseOptions) => Promise<ImportResult>;
+}
+
+const SAMPLE_SIZE = 64 * 1024;
+const samples = new WeakMap<File, Promise<FileSample>>();
+
+async function readSample(file: File): Promise<FileSample> {
+  if (isXlsxFile(file)) {
+    const table = await readXlsxTable(file, SAMPLE_SIZE).catch(() => null);
+    return { file, head: '', table };
+  }
+  const head = await readText(file.slice(0, SAMPLE_SIZE));
+  // Markup (HTML and XML reports) is never a table
+  const table = /^\s*</.test(head) ? null : readCsvText(head);
+  return { file, head, table: table && table.headers.length >= 2 ? table : null };
+}
+
+// Read once per file, however many times the files are routed
+export function sampleFile(file: File): Promise<FileSample> {
+  let sample = samples.get(file);
+  if (!sample) {
+    sample = readSample(file);
+    samples.set(file, sample);
+  }
+  return sample;
+}
+
+// Share of the column groups found in the headers (any name of a group
+// will do), scaled by weight. Under 60% of them, the table is not the format.
+function headerConfidence(table: CsvTable | null, groups: string[][], weight: number): number {
+  if (!table) return 0;
+  const found = groups.filter(names => findHeader(table.headers, names)).length / groups.length;
+  return found >= 0.6 ? found * weight : 0;
+}
+
+// The platform's name in the file name ("binance_trades.csv") tips the balance
+function withNameHint(confidence: number, file: File, names: string[]): number {
+  if (confidence === 0) return 0;
+  const lower = file.name.toLowerCase();
+  return Math.min(1, confidence + (names.some(name => lower.includes(name)) ? 0.1 : 0));
+}
+
+function toResult(result: { trades: NewTrade[]; diagnostics: ImportDiagnostics; warnings?: string[] }, format: string): ImportResult {
+  return { trades: result.trades, diagnostics: result.diagnostics, warnings: result.warnings || [], balanceOperations: [], format };
+}
+
+// Files read one after the other as separate exports of the same platform
+async function parseEach(
+  files: File[],
+  { onProgress, signal }: ParseOptions,
+  parseFile: (file: File, parse: ParseOptions) => Promise<ImportResult>,
+): Promise<ImportResult> {
+  const total = files.reduce((sum, file) => sum + file.size, 0);
+  const results: ImportResult[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const start = offset;
+    const result = await parseFile(file, { signal, onProgress: progress => onProgress?.({ loaded: start + progress.loaded, total }) });
+    results.push({ ...result, diagnostics: { ...result.diagnostics, skipped: result.diagnostics.skipped.map(row => ({ ...row, file: file.name })) } });
+    offset += file.size;
+  }
+
+  return {
+    trades: results.flatMap(result => result.trades),
+    diagnostics: combineDiagnostics(...results.map(result => result.diagnostics)),
+    warnings: results.flatMap(result => result.warnings),
+    balanceOperations: results.flatMap(result => result.balanceOperations),
+    format: results[0]?.format || '',
+  };
+}
+
+function readFileText(file: File, { onProgress, signal }: ParseOptions): Promise<string> {
+  return readText(file, loaded => onProgress?.({ loaded, total: file.size }), signal);
+}
+
+// TradingView: the balance history (P&L and prices) and the order log
+// (SL/TP and entry times), told apart by their headers and read together
+
+async function parseTradingView(files: File[], parse: ParseOptions): Promise<ImportResult> {
+  const formats = await Promise.all(files.map(async file => {
+    const { table } = await sampleFile(file);
+    return table ? csvFormatFromHeaders(table.headers) : 'unknown';
+  }));
+  const balance = files.find((_, index) => formats[index] === 'balance_history') || null;
+  const journal = files.find((_, index) => formats[index] === 'order_logs') || null;
+  const result = await parseImport({ kind: 'tradingview', balance, journal }, parse);
+
+  // Rows unreadable in either file, then those the merge left out (balance history rows)
+  const unreadable = createDiagnostics(0, [
+    ...(result.balance?.errors || []).map(error => ({ ...error, file: balance?.name })),
+    ...(result.journal?.errors || []).map(error => ({ ...error, file: journal?.name })),
+  ]);
+  const merged = { ...result.diagnostics, skipped: result.diagnostics.skipped.map(row => ({ ...row, file: balance?.name })) };
+
+  const warnings: string[] = [];
+  if (balance && !journal) {
+    warnings.push('Journal de trading absent : SL/TP manquants et heures d\'entrée estimées');
+  }
+  const extra = files.filter(file => file !== balance && file !== journal);
+  if (extra.length > 0) {
+    warnings.push(`Un seul historique des soldes et un seul journal par import : ${extra.map(file => file.name).join(', ')} non lus`);
+  }
+
+  return { trades: result.trades, diagnostics: combineDiagnostics(unreadable, merged), warnings, balanceOperations: [], format: 'tradingview' };
+}
+
+const tradingView: Importer = {
+  id: 'tradingview',
+  label: 'TradingView',
+  description: 'Historique des soldes et, en option, journal de trading (CSV)',
+  help: 'Dans TradingView, Panel de Trading → Historique → Exporter, pour l\'historique des soldes et pour le journal. Déposez les deux fichiers : le journal apporte les SL/TP et les heures d\'entrée.',
+  emptyHint: 'L\'historique des soldes est requis : il contient les P&L et les prix.',
+  accept: ['.csv'],
+  truncatesSymbols: true,
+  options: [],
+  detect: ({ table }) => table && csvFormatFromHeaders(table.headers) !== 'unknown' ? 0.95 : 0,
+  parse: (files, _options, parse) => parseTradingView(files, parse),
+};
+
+// Account statements: trades, then deposits and withdrawals, read in the import worker
+
+const statementOptions: ImporterOption[] = [
+  { key: 'balanceOperations', label: 'Importer les dépôts et retraits', type: 'boolean', default: true },
+];
+
+function statementResult({ statement, format }: StatementJobResult, options: ImporterOptionValues): ImportResult {
+  return {
+    trades: statement.trades,
+    diagnostics: statement.diagnostics,
+    warnings: statement.warnings || [],
+    balanceOperations: options.balanceOperations === false ? [] : statement.balanceOperations,
+    format,
+  };
+}
+
+const metaTrader: Importer = {
+  id: 'metatrader',
+  label: 'MetaTrader 4/5',
+  description: 'Relevé détaillé MT4 ou rapport complet MT5 (HTML)',
+  help: 'Dans MetaTrader 5, onglet Historique → Clic droit → Rapport → HTML (Standard). Dans MetaTrader 4, onglet Historique du compte → Clic droit → Enregistrer comme rapport détaillé. Le terminal est reconnu automatiquement.',
+  emptyHint: 'Assurez-vous d\'utiliser le rapport HTML standard.',
+  accept: ['.html', '.htm'],
+  options: statementOptions,
+  detect: ({ file, head }) => {
+    if (!/<(html|table)/i.test(head)) return 0;
+    // MT5 lists the positions first: the deals may be past the sample
+    if (/Closed Transactions/i.test(head) || /Positions/.test(head)) return 0.9;
+    return /\.html?$/i.test(file.name) ? 0.2 : 0;
+  },
+  parse: (files, options, parse) => parseEach(files, parse, async (file, fileParse) =>
+    statementResult(await parseImport({ kind: 'statement', platform: 'metatrader', file }, fileParse), options)
+  ),
+};
+
+const ibkr: Importer = {
+  id: 'ibkr',
+  label: 'Interactive Brokers',
+  description: 'Flex Query : sections Trades, Commissions et Cash Transactions (XML)',
+  help: 'Dans le Portail Client, Performance et rapports → Flex Queries → créez une Activity Flex Query avec les sections Trades (niveau Execution), Unbundled Commission Details et Cash Transactions, au format XML. Les exécutions sont regroupées en trades aller-retour.',
+  emptyHint: 'Vérifiez que la section Trades est incluse au niveau Execution.',
+  accept: ['.xml'],
+  options: statementOptions,
+  detect: ({ head }) => detectIbkrFlex(head) ? 0.95 : 0,
+  parse: (files, options, parse) => parseEach(files, parse, async (file, fileParse) =>
+    statementResult(await parseImport({ kind: 'statement', platform: 'ibkr', file }, fileParse), options)
+  ),
+};
+
+// Platforms exporting a table of closed positions or fills, read in the import worker
+
+function historyImporter(
+  mode: HistoryMode,
+  meta: Pick<Importer, 'label' | 'description' | 'help' | 'accept'>,
+  groups: string[][],
+  weight: number,
+  markers?: string[][], // Rithmic: the header row found below report titles
+): Importer {
+  return {
+    id: mode,
+    ...meta,
+    options: [],
+    detect: ({ file, table }) => withNameHint(
+      headerConfidence(table && markers ? locateHeader(table, markers) : table, groups, weight),
+      file,
+      [mode],
+    ),
+    parse: (files, _options, parse) => parseEach(files, parse, async (file, fileParse) =>
+      toResult(await parseImport({ kind: 'history', mode, file }, fileParse), mode)
+    ),
+  };
+}
+
+const historyImporters: Importer[] = [
+  historyImporter('ctrader', {
+    label: 'cTrader',
+    description: 'Historique des positions clôturées (CSV/XLSX)',
+    help: 'Dans cTrader, onglet Historique → Clic droit → Exporter (CSV ou Excel). Les heures sont converties depuis le fuseau indiqué dans l\'en-tête.',
+    accept: ['.csv', '.xlsx'],
+  }, [['opening direction'], ['opening time'], ['closing time'], ['entry price', 'opening price'], ['closing price'], ['net', 'gross']], 0.9),
+  historyImporter('dxtrade', {
+    label: 'DXtrade',
+    description: 'Export des positions clôturées (CSV/XLSX)',
+    help: 'Dans DXtrade, Historique → Positions clôturées → Exporter (CSV ou Excel).',
+    accept: ['.csv', '.xlsx'],
+  }, [['position id', 'position code'], ['open time', 'opened', 'open date'], ['close time', 'closed', 'close date'], ['open price'], ['close price'], ['side', 'direction'], ['quantity', 'qty', 'volume', 'amount']], 0.85),
+  historyImporter('ninjatrader', {
+    label: 'NinjaTrader',
+    description: 'Onglet Trades de la performance des trades (CSV)',
+    help: 'Dans NinjaTrader, Performance des trades → onglet Trades → Clic droit → Exporter. Le P&L est recalculé avec la valeur du point de chaque contrat et comparé à celui de l\'export.',
+    accept: ['.csv'],
+  }, [['trade number'], ['instrument'], ['market pos.', 'market pos', 'market position'], ['entry time'], ['exit time'], ['entry price'], ['exit price'], ['profit']], 0.95),
+  historyImporter('tradovate', {
+    label: 'Tradovate',
+    description: 'Rapport des ordres ou des exécutions (CSV)',
+    help: 'Dans Tradovate, Orders → Export CSV. Les exécutions sont appariées en FIFO et les contrats (ESZ5, NQH6...) regroupés sous leur racine.',
+    accept: ['.csv'],
+  }, [['b/s', '_action'], ['contract', 'product'], ['avgprice', 'avg fill price', '_price'], ['filledqty', 'filled qty', '_qty'], ['fill time', 'timestamp', '_timestamp'], ['orderid', 'order id', '_id']], 0.85),
+  historyImporter('rithmic', {
+    label: 'Rithmic',
+    description: 'Historique des ordres R|Trader Pro (CSV)',
+    help: 'Dans R|Trader Pro, Order History → Export. Les exécutions sont appariées en FIFO et les contrats (ESZ5, NQH6...) regroupés sous leur racine.',
+    accept: ['.csv'],
+  }, [['buy/sell'], ['symbol'], ['avg fill price'], ['qty filled'], ['update time'], ['status'], ['account']], 0.85, [['contract', 'symbol', 'instrument'], ['b/s', 'buy/sell', 'side']]),
+];
+
+// Crypto exchanges: the trade history and the funding history, read together
+
+const FUNDING_GROUPS = [['type', 'operation', 'income type'], ['cash flow', 'change', 'funding fee', 'funding', 'amount', 'income'], ['date(utc)', 'time(utc)', 'transaction time', 'time', 'date']];
+
+function exchangeImporter(mode: ExchangeMode, meta: Pick<Importer, 'label' | 'description' | 'help'>, groups: string[][]): Importer {
+  return {
+    id: mode,
+    ...meta,
+    accept: ['.csv', '.xlsx'],
+    options: [],
+    detect: ({ file, head, table }) => {
+      const fills = headerConfidence(table, groups, 0.85);
+      // Funding histories look alike across exchanges: only the file name tells them apart
+      const funding = fills === 0 && /funding/i.test(head) ? headerConfidence(table, FUNDING_GROUPS, 0.5) : 0;
+      return withNameHint(Math.max(fills, funding), file, [mode]);
+    },
+    parse: async (files, _options, parse) => toResult(await parseImport({ kind: 'exchange', mode, files }, parse), mode),
+  };
+}
+
+const exchangeImporters: Importer[] = [
+  exchangeImporter('binance', {
+    label: 'Binance Futures',
+    description: 'Historique des trades et, en option, historique des transactions (CSV/XLSX)',
+    help: 'Dans Binance Futures, Historique des ordres → Historique des trades → Exporter, puis Historique des transactions → Exporter pour les frais de financement. Déposez les deux fichiers : chaque financement est attribué à la position ouverte à ce moment. Les contrats USDⓈ-M sont en USDT/USDC, les contrats COIN-M dans la crypto de marge.',
+  }, [['date(utc)', 'time(utc)'], ['symbol'], ['side'], ['price'], ['quantity'], ['fee'], ['realized profit']]),
+  exchangeImporter('bybit', {
+    label: 'Bybit',
+    description: 'Historique des trades dérivés et, en option, frais de financement (CSV/XLSX)',
+    help: 'Dans Bybit, Ordres → Dérivés → Historique des trades → Exporter, et si besoin l\'historique des frais de financement depuis le Journal des transactions. Les contrats USDT et USDC sont en stablecoin, les contrats inverses (BTCUSD) en BTC.',
+  }, [['contracts'], ['filled price', 'exec price', 'avg. filled price', 'avg filled price'], ['filled qty', 'exec qty', 'filled quantity'], ['trading fee', 'exec fee'], ['trade time', 'filled time', 'transaction time', 'create time'], ['direction', 'side']]),
+];
+
+// Any other broker: columns mapped by hand, or by a preset saved for the same headers
+
+const generic: Importer = {
+  id: 'generic',
+  label: 'CSV générique',
+  description: 'Export CSV de n\'importe quel courtier, colonnes associées à la main',
+  help: 'Exportez l\'historique des trades depuis votre courtier, puis associez ses colonnes aux champs du journal. Enregistrez l\'association en preset : elle sera appliquée automatiquement aux prochains fichiers ayant les mêmes colonnes.',
+  accept: ['.csv', '.txt', '.tsv'],
+  mapsColumns: true,
+  options: [],
+  // Any table will do as a last resort; a saved preset makes it a match
+  detect: ({ file, table }) => !table || isXlsxFile(file) ? 0 : findCsvPreset(table.headers, loadCsvPresets()) ? 0.6 : 0.1,
+  parse: (files, _options, parse) => parseEach(files, parse, async (file, fileParse) => {
+    const text = await readFileText(file, fileParse);
+    const guessed = createMapping(text);
+    const preset = findCsvPreset(guessed.table.headers, loadCsvPresets());
+    return toResult(preset ? mapCsvRows(readCsvTable(text, preset.mapping.delimiter), preset.mapping) : mapCsvRows(guessed.table, guessed.mapping), 'generic');
+  }),
+};
+
+const importers: Importer[] = [tradingView, metaTrader, ibkr, ...historyImporters, ...exchangeImporters, generic];
+
+// Adds an importer, or replaces the one with the same id
+export function registerImporter(importer: Importer) {
+  const index = importers.findIndex(existing => existing.id === importer.id);
+  if (index >= 0) importers[index] = importer;
+  else importers.push(importer);
+}
+
+export function getImporters(): Importer[] {
+  return importers;
+}
+
+export function findImporter(id: string): Importer | undefined {
+  return importers.find(importer => importer.id === id);
+}
+
+export interface ImporterMatch {
+  importer: Importer;
+  confidence: number; // over its best file
+  files: File[]; // the files it recognises
+}
+
+// Importers recognising at least one of the files, best first. The sum of
+// the confidences decides, so that an importer reading the balance history
+// and the journal outranks one reading only one of them; ties keep the
+// registration order.
+export function rankImporters(fileSamples: FileSample[]): ImporterMatch[] {
+  return importers
+    .map(importer => {
+      const scores = fileSamples.map(sample => ({ file: sample.file, confidence: importer.detect(sample) })).filter(score => score.confidence > 0);
+      return {
+        match: { importer, confidence: Math.max(0, ...scores.map(score => score.confidence)), files: scores.map(score => score.file) },
+        total: scores.reduce((sum, score) => sum + score.confidence, 0),
+      };
+    })
+    .filter(({ match }) => match.files.length > 0)
+    .sort((a, b) => b.total - a.total)
+    .map(({ match }) => match);
+}
+
+export async function rankFiles(files: File[]): Promise<ImporterMatch[]> {
+  return rankImporters(await Promise.all(files.map(sampleFile)));
+}
+
+// Kept per device, like the CSV presets
+
+const OPTIONS_KEY = 'tradezella_importer_options';
+
+export function loadImporterOptions(): Record<string, ImporterOptionValues> {
+  const stored = localStorage.getItem(OPTIONS_KEY);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    return {};
+  }
+}
+
+export function saveImporterOptions(options: Record<string, ImporterOptionValues>) {
+  localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+}
+
+// Saved values over the schema defaults
+export function importerOptionValues(importer: Importer, saved: Record<string, ImporterOptionValues>): ImporterOptionValues {
+  return Object.fromEntries(importer.options.map(option => [option.key, saved[importer.id]?.[option.key] ?? option.default]));
+}
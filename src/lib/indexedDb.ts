@@ -0,0 +1,103 @@
+// Minimal promise wrapper around IndexedDB for offline data
+
+const DB_NAME = 'tradezen';
+const DB_VERSION = 3;
+
+export const STORES = {
+  attachments: 'attachments',
+  trades: 'trades', // trades per owner (guest or user mirror), keyed by id
+  outbox: 'outbox', // pending mutations, in the order they were made
+  meta: 'meta', // small key/value records, e.g. sync cursors
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.attachments)) {
+        db.createObjectStore(STORES.attachments);
+      }
+      if (!db.objectStoreNames.contains(STORES.trades)) {
+        db.createObjectStore(STORES.trades, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.outbox)) {
+        db.createObjectStore(STORES.outbox, { keyPath: 'seq', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(STORES.meta)) {
+        db.createObjectStore(STORES.meta);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDatabase();
+  return promisify<T>(db.transaction(store, 'readonly').objectStore(store).get(key));
+}
+
+export async function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDatabase();
+  return promisify<T[]>(db.transaction(store, 'readonly').objectStore(store).getAll());
+}
+
+export async function idbPut<T>(store: StoreName, value: T, key?: IDBValidKey): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+}
+
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
+
+export async function idbPutMany<T>(store: StoreName, values: T[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  values.forEach(value => objectStore.put(value));
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function idbDeleteMany(store: StoreName, keys: IDBValidKey[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  keys.forEach(key => objectStore.delete(key));
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function idbClear(store: StoreName): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).clear());
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createHtmlTableReader, readHtmlTables, scanMarkup, createMarkupScanner } from './markup';
+
+const page = `<!DOCTYPE html><html><head><style>td { color: red } </td></style>
+<script>if (a < b) document.write('<table>')</script></head><body>
+<!-- <table><tr><td>commented out</td></tr></table> -->
+<table><tr><th colspan="2"><b>Closed&nbsp;Transactions:</b></th></tr>
+<tr align=right><td>50002</td><td class=mspt>1&#160;000.00 &amp; more</td></tr>
+<tr><td>a < b</td><td><table><tr><td>nested</td></tr></table></td></tr>
+</table></body></html>`;
+
+// Fed a few characters at a time, as a file streams in
+function readInChunks(source: string, size: number) {
+  const reader = createHtmlTableReader();
+  for (let index = 0; index < source.length; index += size) reader.push(source.slice(index, index + size));
+  return reader.end();
+}
+
+describe('createHtmlTableReader', () => {
+  const whole = readHtmlTables(page);
+
+  it('reads the rows and cells of the page', () => {
+    expect(whole.rows.map(row => row.cells.map(cell => cell.text))).toEqual([
+      ['Closed Transactions:'],
+      ['50002', '1 000.00 & more'],
+      ['a < b', 'nested'],
+      ['nested'],
+    ]);
+    expect(whole.text).not.toContain('commented out');
+    expect(whole.text).not.toContain('color');
+  });
+
+  it('gives the same tables whichever way the text is cut', () => {
+    for (const size of [1, 2, 3, 7, 64]) {
+      expect(readInChunks(page, size)).toEqual(whole);
+    }
+  });
+});
+
+describe('createMarkupScanner', () => {
+  it('decodes an entity cut between two chunks', () => {
+    const texts: string[] = [];
+    const scanner = createMarkupScanner({ text: text => texts.push(text) });
+    scanner.push('<v>1&#x');
+    scanner.push('41;2</v>');
+    scanner.end();
+    expect(texts.join('')).toBe('1A2');
+  });
+
+  it('reads the end of an unfinished document', () => {
+    const opened: string[] = [];
+    scanMarkup('<a><b x="1"', { open: name => opened.push(name) });
+    expect(opened).toEqual(['a']);
+  });
+});
@@ -0,0 +1,271 @@
+// Streaming reader for the HTML and XML the importers get (MetaTrader
+// reports, IBKR Flex Queries, XLSX parts), without DOMParser: workers
+// don't have it. Tags are reported as they are met, SAX style; names keep
+// their case (XML) and entities are decoded.
+
+export interface MarkupHandler {
+  open?: (name: string, attributes: Record<string, string>, selfClosing: boolean) => void;
+  close?: (name: string) => void;
+  text?: (text: string) => void;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: '\u00a0',
+};
+
+export function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  });
+}
+
+const TAG = /<(\/?)([A-Za-z][\w:.-]*)((?:\s+[^\s=>/"']+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>"']+))?)*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=>/"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>"']+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+// Markup read in chunks, as a file streams in; end() reads what is left
+// and gives the result
+export interface MarkupReader<T> {
+  push(text: string): void;
+  end(): T;
+}
+
+// Longest entity the text of a chunk may end with: "&#x10ffff;"
+const ENTITY_LENGTH = 10;
+
+// rawText: elements whose content is not markup (script and style in HTML).
+// What a chunk ends with and the next one may complete (a tag, comment or
+// entity cut in two) is kept until then.
+export function createMarkupScanner(handler: MarkupHandler, rawText: string[] = []): MarkupReader<void> {
+  const text = (value: string) => {
+    if (value) handler.text?.(decodeEntities(value));
+  };
+  let buffer = '';
+  let skipping: string | null = null; // closing tag of the raw text being skipped
+
+  // Reads the source as far as it can; returns where it stopped
+  const scan = (source: string, final: boolean): number => {
+    let index = 0;
+
+    while (index < source.length) {
+      if (skipping) {
+        const end = source.toLowerCase().indexOf(skipping, index);
+        if (end === -1) return final ? source.length : Math.max(index, source.length - skipping.length);
+        skipping = null;
+        index = end;
+        continue;
+      }
+
+      const start = source.indexOf('<', index);
+      if (start === -1) {
+        const entity = final ? -1 : source.indexOf('&', Math.max(index, source.length - ENTITY_LENGTH));
+        const stop = entity !== -1 && !source.includes(';', entity) ? entity : source.length;
+        text(source.slice(index, stop));
+        return stop;
+      }
+      text(source.slice(index, start));
+
+      if (source.startsWith('<!--', start)) {
+        const end = source.indexOf('-->', start + 4);
+        if (end === -1 && !final) return start;
+        index = end === -1 ? source.length : end + 3;
+        continue;
+      }
+      if (source.startsWith('<![CDATA[', start)) {
+        const end = source.indexOf(']]>', start);
+        if (end === -1 && !final) return start;
+        const content = source.slice(start + 9, end === -1 ? source.length : end);
+        if (content) handler.text?.(content);
+        index = end === -1 ? source.length : end + 3;
+        continue;
+      }
+      // Doctype and processing instructions
+      if (source[start + 1] === '!' || source[start + 1] === '?') {
+        const end = source.indexOf('>', start);
+        if (end === -1 && !final) return start;
+        index = end === -1 ? source.length : end + 1;
+        continue;
+      }
+
+      TAG.lastIndex = start;
+      const match = TAG.exec(source);
+      if (!match) {
+        // A tag cut at the end of the chunk, or a lone "<" in text
+        if (!final && source.indexOf('<', start + 1) === -1) return start;
+        text('<');
+        index = start + 1;
+        continue;
+      }
+      index = TAG.lastIndex;
+
+      const [, closing, name, attributes, selfClosing] = match;
+      if (closing) {
+        handler.close?.(name);
+        continue;
+      }
+      handler.open?.(name, parseAttributes(attributes), selfClosing === '/');
+
+      if (!selfClosing && rawText.includes(name.toLowerCase())) {
+        skipping = `</${name.toLowerCase()}`;
+      }
+    }
+    return index;
+  };
+
+  return {
+    push: chunk => {
+      buffer += chunk;
+      buffer = buffer.slice(scan(buffer, false));
+    },
+    end: () => {
+      scan(buffer, true);
+      buffer = '';
+    },
+  };
+}
+
+export function scanMarkup(source: string, handler: MarkupHandler, rawText: string[] = []): void {
+  const scanner = createMarkupScanner(handler, rawText);
+  scanner.push(source);
+  scanner.end();
+}
+
+// Elements of an XML document with their attributes, by tag name
+export function readXmlElements(source: string, names: string[]): Record<string, Record<string, string>[]> {
+  const elements: Record<string, Record<string, string>[]> = Object.fromEntries(names.map(name => [name, []]));
+  scanMarkup(source, {
+    open: (name, attributes) => {
+      elements[name]?.push(attributes);
+    },
+  });
+  return elements;
+}
+
+// HTML tables, row by row: what the MetaTrader reports are made of
+
+export interface HtmlCell {
+  text: string; // trimmed, like textContent
+  header: boolean; // <th>
+  colSpan: number;
+  classes: string[];
+}
+
+export interface HtmlRow {
+  table: number; // rows of the same table share it
+  line: number; // position of the row in its table, from 1
+  cells: HtmlCell[];
+  text: string;
+}
+
+export interface HtmlDocument {
+  rows: HtmlRow[]; // in document order
+  text: string; // all the text, like the body's textContent
+}
+
+interface OpenTable {
+  id: number;
+  rows: number;
+  row: HtmlRow | null;
+  cell: (HtmlCell & { raw: string[] }) | null;
+}
+
+// Rows and cells the way the browser builds them: tags left open (<td>
+// without </td>) are closed by the next cell, row or end of table
+export function createHtmlTableReader(): MarkupReader<HtmlDocument> {
+  const rows: HtmlRow[] = [];
+  const rowTexts = new Map<HtmlRow, string[]>();
+  const text: string[] = [];
+  const tables: OpenTable[] = [];
+  let tableCount = 0;
+
+  const current = () => tables[tables.length - 1];
+  const closeCell = (table: OpenTable) => {
+    if (!table.cell) return;
+    const { raw, ...cell } = table.cell;
+    table.row?.cells.push({ ...cell, text: raw.join('').trim() });
+    table.cell = null;
+  };
+  const closeRow = (table: OpenTable) => {
+    closeCell(table);
+    if (table.row) {
+      table.row.text = (rowTexts.get(table.row) || []).join('').trim();
+      rowTexts.delete(table.row);
+    }
+    table.row = null;
+  };
+
+  const scanner = createMarkupScanner({
+    open: (tag, attributes, selfClosing) => {
+      const name = tag.toLowerCase();
+      const table = current();
+      if (name === 'table' && !selfClosing) {
+        tables.push({ id: tableCount++, rows: 0, row: null, cell: null });
+      } else if (name === 'tr' && table) {
+        closeRow(table);
+        table.row = { table: table.id, line: ++table.rows, cells: [], text: '' };
+        rowTexts.set(table.row, []);
+        rows.push(table.row);
+      } else if ((name === 'td' || name === 'th') && table?.row) {
+        closeCell(table);
+        table.cell = {
+          text: '',
+          raw: [],
+          header: name === 'th',
+          colSpan: Math.max(1, parseInt(attributes.colspan, 10) || 1),
+          classes: (attributes.class || '').split(/\s+/).filter(Boolean),
+        };
+      }
+    },
+    close: tag => {
+      const name = tag.toLowerCase();
+      const table = current();
+      if (!table) return;
+      if (name === 'table') {
+        closeRow(table);
+        tables.pop();
+      } else if (name === 'tr') {
+        closeRow(table);
+      } else if (name === 'td' || name === 'th') {
+        closeCell(table);
+      }
+    },
+    text: value => {
+      text.push(value);
+      // Text of a nested table is also text of the cells around it
+      for (const table of tables) {
+        table.cell?.raw.push(value);
+        if (table.row) rowTexts.get(table.row)!.push(value);
+      }
+    },
+  }, ['script', 'style']);
+
+  return {
+    push: scanner.push,
+    end: () => {
+      scanner.end();
+      tables.forEach(closeRow);
+      return { rows, text: text.join('') };
+    },
+  };
+}
+
+export function readHtmlTables(html: string): HtmlDocument {
+  const reader = createHtmlTableReader();
+  reader.push(html);
+  return reader.end();
+}
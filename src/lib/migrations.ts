@@ -0,0 +1,72 @@
+import { fetchAppliedMigrations, hasTradesTable } from './supabase';
+
+// Versioned schema migrations, bundled from migrations/NNNN_name.sql.
+// Each file is idempotent and records itself in schema_version, so the
+// pending ones can be pasted into the Supabase SQL editor in order.
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export interface SchemaStatus {
+  currentVersion: number; // 0 when no migration has been recorded
+  latestVersion: number;
+  pending: Migration[];
+  // Tables exist but schema_version doesn't: set up with the old one-shot
+  // script. Running every migration brings it under version control.
+  legacySchema: boolean;
+}
+
+const files = import.meta.glob<string>('../../migrations/*.sql', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+});
+
+function parseMigration(path: string, sql: string): Migration | null {
+  const match = path.match(/(\d+)_([\w-]+)\.sql$/);
+  if (!match) return null;
+  return { version: parseInt(match[1], 10), name: match[2], sql };
+}
+
+export const MIGRATIONS: Migration[] = Object.entries(files)
+  .map(([path, sql]) => parseMigration(path, sql))
+  .filter((migration): migration is Migration => migration !== null)
+  .sort((a, b) => a.version - b.version);
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.length > 0 ? MIGRATIONS[MIGRATIONS.length - 1].version : 0;
+
+export function formatMigrationName(migration: Migration): string {
+  return `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+}
+
+// One script with the given migrations, in order
+export function combineMigrations(migrations: Migration[]): string {
+  return migrations
+    .map(migration => `-- ${formatMigrationName(migration)}.sql\n${migration.sql.trim()}\n`)
+    .join('\n');
+}
+
+export async function fetchSchemaStatus(): Promise<SchemaStatus | null> {
+  const applied = await fetchAppliedMigrations();
+  if (!applied) return null;
+
+  const appliedVersions = new Set(applied.map(row => row.version));
+  const currentVersion = applied.reduce((max, row) => Math.max(max, row.version), 0);
+
+  let legacySchema = false;
+  if (applied.length === 0) {
+    const hasTrades = await hasTradesTable();
+    if (hasTrades === null) return null;
+    legacySchema = hasTrades;
+  }
+
+  return {
+    currentVersion,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    pending: MIGRATIONS.filter(migration => !appliedVersions.has(migration.version)),
+    legacySchema,
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { detectMetaTraderReport, parseMT4Statement } from './mt4Parser';
+
+// Detailed Statement as MT4 saves it: unquoted attributes, &nbsp; thousand
+// separators, a title row per section and balance rows among the trades
+const statement = `<html><head><title>Statement: 1234567 - John Doe</title></head><body>
+<div align=center><table cellspacing=1 cellpadding=3 border=0>
+<tr align=left><td colspan=2><b>Account: 1234567</b></td><td colspan=5><b>Name: John Doe</b></td><td colspan=2><b>Currency: USD</b></td><td colspan=2><b>Leverage: 1:100</b></td><td colspan=3 align=right><b>2024 March 8, 23:59</b></td></tr>
+<tr align=left><td colspan=13><b>Closed Transactions:</b></td></tr>
+<tr align=center bgcolor="#C0C0C0"><td>Ticket</td><td nowrap>Open Time</td><td>Type</td><td>Size</td><td>Item</td><td>Price</td><td>S / L</td><td>T / P</td><td nowrap>Close Time</td><td>Price</td><td>Commission</td><td>Taxes</td><td>Swap</td><td>Profit</td></tr>
+<tr align=right><td>50001</td><td class=msdate nowrap>2024.03.01 08:00:00</td><td>balance</td><td colspan=10 align=left>Deposit</td><td class=mspt>10&nbsp;000.00</td></tr>
+<tr bgcolor=#E0E0E0 align=right><td title="#12">50002</td><td class=msdate nowrap>2024.03.04 09:15:02</td><td>buy</td><td class=mspt>1.00</td><td>eurusd</td><td style="mso-number-format:0\\.00000;">1.08500</td><td style="mso-number-format:0\\.00000;">1.08000</td><td style="mso-number-format:0\\.00000;">1.09500</td><td class=msdate nowrap>2024.03.04 15:40:11</td><td style="mso-number-format:0\\.00000;">1.09500</td><td class=mspt>-7.00</td><td class=mspt>0.00</td><td class=mspt>-1.20</td><td class=mspt>1&nbsp;000.00</td></tr>
+<tr align=right><td>50003</td><td class=msdate nowrap>2024.03.05 10:00:00</td><td>sell</td><td class=mspt>0.50</td><td>gbpusd</td><td>1.27000</td><td>0.00000</td><td>0.00000</td><td class=msdate nowrap>2024.03.05 12:00:00</td><td>1.27400</td><td class=mspt>-3.50</td><td class=mspt>0.00</td><td class=mspt>0.00</td><td class=mspt>-200.00</td></tr>
+<tr bgcolor=#E0E0E0 align=right><td>50004</td><td class=msdate nowrap>2024.03.05 11:00:00</td><td>buy limit</td><td class=mspt>1.00</td><td>eurusd</td><td>1.08000</td><td>0.00000</td><td>0.00000</td><td class=msdate nowrap>2024.03.05 18:00:00</td><td>1.08700</td><td colspan=4>cancelled</td></tr>
+<tr align=right><td>50005</td><td class=msdate nowrap>2024.03.06 08:00:00</td><td>balance</td><td colspan=10 align=left>Withdrawal</td><td class=mspt>-500.00</td></tr>
+<tr align=right><td colspan=10>&nbsp;</td><td class=mspt>-10.50</td><td class=mspt>0.00</td><td class=mspt>-1.20</td><td class=mspt>300.00</td></tr>
+<tr align=left><td colspan=13><b>Open Trades:</b></td></tr>
+<tr align=center bgcolor="#C0C0C0"><td>Ticket</td><td nowrap>Open Time</td><td>Type</td><td>Size</td><td>Item</td><td>Price</td><td>S / L</td><td>T / P</td><td nowrap>&nbsp;</td><td>Price</td><td>Commission</td><td>Taxes</td><td>Swap</td><td>Profit</td></tr>
+<tr align=right><td>50006</td><td class=msdate nowrap>2024.03.08 14:00:00</td><td>sell</td><td class=mspt>0.10</td><td>xauusd</td><td>2160.50</td><td>2170.00</td><td>0.00</td><td>&nbsp;</td><td>2158.00</td><td class=mspt>-0.70</td><td class=mspt>0.00</td><td class=mspt>0.00</td><td class=mspt>25.00</td></tr>
+<tr align=left><td colspan=13><b>Working Orders:</b></td></tr>
+<tr align=right><td>50007</td><td class=msdate nowrap>2024.03.08 15:00:00</td><td>sell stop</td><td class=mspt>0.10</td><td>xauusd</td><td>2150.00</td><td>0.00</td><td>0.00</td><td colspan=2>&nbsp;</td><td>2158.00</td><td colspan=3>&nbsp;</td></tr>
+<tr align=left><td colspan=13><b>Summary:</b></td></tr>
+<tr align=right><td colspan=3><b>Deposit/Withdrawal:</b></td><td colspan=2 class=mspt>9&nbsp;500.00</td></tr>
+</table></div></body></html>`;
+
+describe('parseMT4Statement', () => {
+  const result = parseMT4Statement(statement);
+  const bySource = (sourceId: string) => result.trades.find(trade => trade.sourceId === sourceId)!;
+
+  it('is told apart from an MT5 report', () => {
+    expect(detectMetaTraderReport(statement)).toBe('mt4');
+  });
+
+  it('imports the closed trades with their costs', () => {
+    expect(result.currency).toBe('USD');
+    expect(bySource('mt4:50002')).toMatchObject({
+      symbol: 'EURUSD',
+      direction: 'long',
+      units: 1,
+      entryPrice: 1.085,
+      exitPrice: 1.095,
+      entryTime: '2024-03-04T09:15:02',
+      exitTime: '2024-03-04T15:40:11',
+      stopLoss: 1.08,
+      takeProfit: 1.095,
+      grossPnl: 1000,
+      commission: -7,
+      swap: -1.2,
+      status: 'closed',
+    });
+    expect(bySource('mt4:50002').pnl).toBeCloseTo(991.8, 10);
+
+    const loss = bySource('mt4:50003');
+    expect(loss).toMatchObject({ direction: 'short', stopLoss: null, takeProfit: null, pnl: -203.5 });
+    expect(loss.executions?.map(e => [e.side, e.quantity, e.price])).toEqual([['sell', 0.5, 1.27], ['buy', 0.5, 1.274]]);
+  });
+
+  it('keeps open trades open without their floating profit', () => {
+    expect(bySource('mt4:50006')).toMatchObject({
+      symbol: 'XAUUSD',
+      direction: 'short',
+      status: 'open',
+      exitPrice: null,
+      exitTime: null,
+      pnl: null,
+      grossPnl: null,
+      stopLoss: 2170,
+    });
+  });
+
+  it('reads deposits and withdrawals apart from the trades', () => {
+    expect(result.balanceOperations).toEqual([
+      { ticket: '50001', time: '2024-03-01T08:00:00', type: 'deposit', amount: 10000, comment: 'Deposit' },
+      { ticket: '50005', time: '2024-03-06T08:00:00', type: 'withdrawal', amount: -500, comment: 'Withdrawal' },
+    ]);
+  });
+
+  it('reports cancelled orders and leaves the working orders out', () => {
+    expect(result.trades.map(trade => trade.sourceId)).toEqual(['mt4:50002', 'mt4:50003', 'mt4:50006']);
+    expect(result.diagnostics.skipped).toEqual([{ line: 7, message: 'Ticket 50004 non importé (buy limit)' }]);
+    expect(result.diagnostics.rowsParsed).toBe(5);
+  });
+
+  it('refuses a page without the Closed Transactions section', () => {
+    expect(() => parseMT4Statement('<table><tr><td>Positions</td></tr></table>')).toThrow('Closed Transactions');
+  });
+});
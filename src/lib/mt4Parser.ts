@@ -0,0 +1,175 @@
+import { buildRoundTripExecutions } from '../utils/executions';
+import { formatMT5Date, type BalanceOperation, type MetaTraderStatement } from './mt5Parser';
+import type { CsvRowError } from './genericCsv';
+import { createDiagnostics } from './importDiagnostics';
+import { readHtmlTables, type HtmlCell, type HtmlDocument } from './markup';
+
+// Both terminals export an HTML statement; only the section titles differ
+export function detectMetaTraderReport(htmlContent: string): 'mt4' | 'mt5' | null {
+    if (/Closed Transactions/i.test(htmlContent)) return 'mt4';
+    if (/Positions/.test(htmlContent) && /Deals/.test(htmlContent)) return 'mt5';
+    return null;
+}
+
+type Section = 'closed' | 'open' | 'orders' | 'other';
+
+// Amounts use spaces (often &nbsp;) as thousand separators: "1 234.56"
+function parseAmount(text: string | null | undefined): number {
+    const value = parseFloat((text || '').replace(/\s/g, ''));
+    return isNaN(value) ? 0 : value;
+}
+
+function cellText(cell: HtmlCell | undefined): string {
+    return cell?.text || '';
+}
+
+// The statement as text, or its tables already read (see createHtmlTableReader)
+export function parseMT4Statement(statement: string | HtmlDocument): MetaTraderStatement {
+    const doc = typeof statement === 'string' ? readHtmlTables(statement) : statement;
+    const trades: MetaTraderStatement['trades'] = [];
+    const balanceOperations: BalanceOperation[] = [];
+    const skipped: CsvRowError[] = [];
+
+    let detectedCurrency = ''; // the import currency applies
+    // "Currency: USD" sits in a cell of its own: the page text runs the
+    // cells together ("Currency: USDLeverage: 1:100")
+    for (const cell of doc.rows.flatMap(row => row.cells)) {
+        const currencyMatch = cell.text.match(/^Currency:\s*(\w+)/i);
+        if (currencyMatch) {
+            detectedCurrency = currencyMatch[1].toUpperCase();
+            break;
+        }
+    }
+
+    const rows = doc.rows;
+    if (!rows.some(row => /Closed Transactions/i.test(row.text))) {
+        throw new Error('Section "Closed Transactions" non trouvée dans le relevé MT4');
+    }
+
+    let section: Section = 'other';
+
+    for (const row of rows) {
+        const { cells, text } = row;
+
+        // Section titles span the whole table: "Closed Transactions:", "Open Trades:"...
+        if (cells.length === 1) {
+            if (/^Closed Transactions/i.test(text)) section = 'closed';
+            else if (/^Open Trades/i.test(text)) section = 'open';
+            else if (/^Working Orders/i.test(text)) section = 'orders';
+            else if (/^Summary/i.test(text)) break;
+            continue;
+        }
+
+        if (section === 'other' || section === 'orders') continue;
+        // Column headers and totals
+        if (cellText(cells[0]) === 'Ticket' || !/^\d+$/.test(cellText(cells[0]))) continue;
+
+        const ticket = cellText(cells[0]);
+        const type = cellText(cells[2]).toLowerCase();
+        const line = row.line;
+
+        // Balance rows: 0 Ticket, 1 Time, 2 Type, 3 Comment (colspan), 4 Amount
+        if (type === 'balance' || type === 'credit') {
+            const amount = parseAmount(cellText(cells[cells.length - 1]));
+            balanceOperations.push({
+                ticket,
+                time: formatMT5Date(cellText(cells[1])),
+                type: type === 'credit' ? 'credit' : amount < 0 ? 'withdrawal' : 'deposit',
+                amount,
+                comment: cellText(cells[3]),
+            });
+            continue;
+        }
+
+        // MT4 Detailed Statement trade rows:
+        // 0: Ticket
+        // 1: Open Time
+        // 2: Type (buy/sell; pending orders are buy limit, sell stop...)
+        // 3: Size
+        // 4: Item (symbol)
+        // 5: Price (Entry)
+        // 6: S/L
+        // 7: T/P
+        // 8: Close Time (empty for open trades)
+        // 9: Price (Exit, or current price for open trades)
+        // 10: Commission
+        // 11: Taxes
+        // 12: Swap
+        // 13: Profit
+        // Cancelled pending orders have fewer cells ("cancelled" spans the rest)
+        if ((type !== 'buy' && type !== 'sell') || cells.length < 14) {
+            skipped.push({ line, message: `Ticket ${ticket} non importé (${type || 'type inconnu'})` });
+            continue;
+        }
+
+        const symbol = cellText(cells[4]).toUpperCase();
+        const entryTimeStr = cellText(cells[1]);
+        if (!symbol || !entryTimeStr) {
+            skipped.push({ line, message: `Ticket ${ticket} : heure ou symbole manquant` });
+            continue;
+        }
+
+        const isOpen = section === 'open';
+        const volume = parseAmount(cellText(cells[3]));
+        const entryPrice = parseAmount(cellText(cells[5]));
+
+        const slText = cellText(cells[6]);
+        const sl = slText && parseAmount(slText) !== 0 ? parseAmount(slText) : null;
+
+        const tpText = cellText(cells[7]);
+        const tp = tpText && parseAmount(tpText) !== 0 ? parseAmount(tpText) : null;
+
+        const exitTimeStr = cellText(cells[8]);
+        const exitPrice = parseAmount(cellText(cells[9]));
+
+        const commission = parseAmount(cellText(cells[10]));
+        const taxes = parseAmount(cellText(cells[11]));
+        const swap = parseAmount(cellText(cells[12]));
+        const profit = parseAmount(cellText(cells[13]));
+
+        const direction = type === 'buy' ? 'long' : 'short';
+        const entryTime = formatMT5Date(entryTimeStr);
+        const exitTime = !isOpen && exitTimeStr ? formatMT5Date(exitTimeStr) : null;
+
+        trades.push({
+            symbol,
+            direction,
+            entryPrice,
+            // Open trades show the current market price, not an exit
+            exitPrice: exitTime ? exitPrice : null,
+            units: volume,
+            entryTime,
+            exitTime,
+            stopLoss: sl,
+            takeProfit: tp,
+            // Floating profit of an open trade is not a result yet
+            pnl: isOpen ? null : profit + commission + swap + taxes,
+            pnlPercent: null,
+            grossPnl: isOpen ? null : profit,
+            commission,
+            swap,
+            fees: taxes,
+            currency: detectedCurrency,
+            status: isOpen ? 'open' : 'closed',
+            notes: `Import MT4 #${ticket}`,
+            tags: ['MT4', 'Imported'],
+            sourceId: `mt4:${ticket}`,
+            executions: buildRoundTripExecutions({
+                direction,
+                entryTime,
+                entryPrice,
+                exitTime,
+                exitPrice: exitTime ? exitPrice : null,
+                quantity: volume,
+                entryFee: -commission,
+            }),
+        });
+    }
+
+    return {
+        trades,
+        balanceOperations,
+        currency: detectedCurrency,
+        diagnostics: createDiagnostics(trades.length + balanceOperations.length, skipped, trades),
+    };
+}
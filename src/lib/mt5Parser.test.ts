@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { parseMT5Report } from './mt5Parser';
+
+// Trade History Report the way MT5 exports it: one table, a <th> title per
+// section, then a row of column names and the data rows
+
+const ORDER_COLUMNS = ['Open Time', 'Order', 'Symbol', 'Type', 'Volume', 'Price', 'S / L', 'T / P', 'Time', 'State', 'Comment'];
+const DEAL_COLUMNS = ['Time', 'Deal', 'Symbol', 'Type', 'Direction', 'Volume', 'Price', 'Order', 'Commission', 'Fee', 'Swap', 'Profit', 'Balance', 'Comment'];
+
+const row = (cells: string[]) => `<tr>${cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`;
+
+const section = (title: string, columns: string[], rows: string[][]) => [
+  `<tr><th colspan="${columns.length}"><div><b>${title}</b></div></th></tr>`,
+  `<tr bgcolor="#E5F0FC">${columns.map(column => `<td><b>${column}</b></td>`).join('')}</tr>`,
+  ...rows.map(row),
+].join('\n');
+
+const report = (account: string, orders: string[][], deals: string[][]) => `<html><body><table>
+<tr><th colspan="3"><div>Account:</div></th><th colspan="11"><div><b>${account}</b></div></th></tr>
+<tr><th colspan="3"><div>Company:</div></th><th colspan="11"><div><b>Hedge Markets Ltd</b></div></th></tr>
+${section('Orders', ORDER_COLUMNS, orders)}
+${section('Deals', DEAL_COLUMNS, deals)}
+</table></body></html>`;
+
+const deal = (time: string, ticket: string, symbol: string, type: string, direction: string, volume: string, price: string, order: string, commission: string, profit = '0.00', comment = '') =>
+  [time, ticket, symbol, type, direction, volume, price, order, commission, '0.00', '0.00', profit, '', comment];
+
+const hedging = report('5012345 (USD, MetaQuotes-Demo, demo, Hedge)', [
+  ['2024.03.04 09:00:00', '10', 'EURUSD', 'buy', '1.00 / 1.00', '1.10000', '1.09500', '1.11000', '2024.03.04 09:00:00', 'filled', ''],
+  ['2024.03.04 09:30:00', '15', 'EURUSD', 'buy limit', '1.00 / 0.00', '1.09000', '', '', '2024.03.04 18:00:00', 'canceled', ''],
+], [
+  ['2024.03.01 08:00:00', '1', '', 'balance', '', '', '', '', '0.00', '0.00', '0.00', '10 000.00', '10 000.00', 'Deposit'],
+  deal('2024.03.04 09:00:00', '2', 'EURUSD', 'buy', 'in', '1.00', '1.10000', '10', '-7.00'),
+  deal('2024.03.04 10:00:00', '3', 'EURUSD', 'buy', 'in', '0.50', '1.10100', '11', '-3.50'),
+  deal('2024.03.04 12:00:00', '4', 'EURUSD', 'sell', 'out', '1.50', '1.10500', '12', '-10.50', '700.00'),
+  deal('2024.03.05 09:00:00', '5', 'GBPUSD', 'sell', 'in', '2.00', '1.27000', '13', '-14.00'),
+  deal('2024.03.05 11:00:00', '6', 'GBPUSD', 'buy', 'out', '0.50', '1.26500', '14', '-3.50', '250.00'),
+  // Opened before the report starts
+  deal('2024.03.05 12:00:00', '7', 'USDJPY', 'sell', 'out', '0.30', '150.000', '16', '-2.10', '45.00'),
+]);
+
+// Netting account: orders on the same symbol add to one position, "in/out"
+// closes it and opens the other side. Comments mention hedging on purpose.
+const netting = report('7001234 (USD, Broker-Server, real, Netting)', [], [
+  deal('2024.03.04 09:00:00', '2', 'XAUUSD', 'buy', 'in', '1.00', '2000.00', '20', '-2.00', '0.00', 'hedge'),
+  deal('2024.03.04 10:00:00', '3', 'XAUUSD', 'buy', 'in', '1.00', '2010.00', '21', '-2.00'),
+  deal('2024.03.04 11:00:00', '4', 'XAUUSD', 'sell', 'in/out', '3.00', '2020.00', '22', '-6.00', '3 000.00', 'Hedging reversal'),
+  deal('2024.03.04 12:00:00', '5', 'XAUUSD', 'buy', 'out', '1.00', '2015.00', '23', '-2.00', '500.00'),
+]);
+
+describe('parseMT5Report on a hedging account', () => {
+  const statement = parseMT5Report(hedging);
+  const bySource = (sourceId: string) => statement.trades.find(trade => trade.sourceId === sourceId)!;
+
+  it('closes the oldest positions first and splits the closing deal pro rata', () => {
+    const first = bySource('mt5:10');
+    const second = bySource('mt5:11');
+
+    expect(first).toMatchObject({ direction: 'long', units: 1, entryPrice: 1.1, exitPrice: 1.105, status: 'closed', stopLoss: 1.095, takeProfit: 1.11 });
+    expect(first.entryTime).toBe('2024-03-04T09:00:00');
+    expect(first.exitTime).toBe('2024-03-04T12:00:00');
+    // 1.00 of the 1.50 lots closed: two thirds of the commission and profit
+    expect(first.commission).toBeCloseTo(-14, 10);
+    expect(first.grossPnl).toBeCloseTo(466.67, 2);
+    expect(first.pnl).toBeCloseTo(452.67, 2);
+
+    expect(second).toMatchObject({ units: 0.5, entryPrice: 1.101, status: 'closed' });
+    expect(second.commission).toBeCloseTo(-7, 10);
+    expect(second.grossPnl).toBeCloseTo(233.33, 2);
+    expect(second.executions?.map(e => [e.side, e.quantity])).toEqual([['buy', 0.5], ['sell', 0.5]]);
+  });
+
+  it('keeps a partly closed position open', () => {
+    const position = bySource('mt5:13');
+
+    expect(position).toMatchObject({ direction: 'short', units: 2, status: 'open', exitPrice: null, exitTime: null, pnl: null });
+    expect(position.commission).toBeCloseTo(-17.5, 10);
+    expect(position.executions).toHaveLength(2);
+  });
+
+  it('imports cancelled pending orders', () => {
+    expect(bySource('mt5:order:15')).toMatchObject({
+      symbol: 'EURUSD',
+      direction: 'long',
+      units: 1,
+      entryPrice: 1.09,
+      status: 'cancelled',
+      pnl: null,
+    });
+  });
+
+  it('reports the volume closed without an open position', () => {
+    expect(statement.trades.some(trade => trade.symbol === 'USDJPY')).toBe(false);
+    expect(statement.diagnostics.unmatched).toEqual([
+      expect.objectContaining({ time: '2024-03-05T12:00:00', text: expect.stringContaining('Deal 7 : 0.3 USDJPY') }),
+    ]);
+    expect(statement.diagnostics.unmatched[0].line).toBeGreaterThan(0);
+  });
+
+  it('reads the balance lines apart from the trades', () => {
+    expect(statement.balanceOperations).toEqual([
+      { ticket: '1', time: '2024-03-01T08:00:00', type: 'deposit', amount: 10000, comment: 'Deposit' },
+    ]);
+    expect(statement.trades).toHaveLength(4);
+  });
+});
+
+describe('parseMT5Report on a netting account', () => {
+  const statement = parseMT5Report(netting);
+  const [first, reversed] = statement.trades;
+
+  it('adds to the position and closes it on the reversal', () => {
+    expect(statement.trades).toHaveLength(2);
+    expect(first).toMatchObject({ sourceId: 'mt5:20', direction: 'long', units: 2, entryPrice: 2005, exitPrice: 2020, status: 'closed' });
+    expect(first.exitTime).toBe('2024-03-04T11:00:00');
+    // The closing two of the three lots carry their share of the commission
+    // and all the profit of the in/out deal
+    expect(first.commission).toBeCloseTo(-8, 10);
+    expect(first.grossPnl).toBeCloseTo(3000, 10);
+    expect(first.pnl).toBeCloseTo(2992, 10);
+  });
+
+  it('opens the other side with what the reversal did not close', () => {
+    expect(reversed).toMatchObject({ sourceId: 'mt5:22', direction: 'short', units: 1, entryPrice: 2020, exitPrice: 2015, status: 'closed' });
+    expect(reversed.commission).toBeCloseTo(-4, 10);
+    expect(reversed.grossPnl).toBeCloseTo(500, 10);
+    expect(statement.diagnostics.unmatched).toEqual([]);
+  });
+
+  it('is not taken for a hedging account by comments about hedging', () => {
+    // On a hedging account the second buy would have been its own position
+    expect(statement.trades.some(trade => trade.sourceId === 'mt5:21')).toBe(false);
+  });
+});
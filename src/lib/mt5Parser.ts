@@ -1,48 +1,80 @@
-import type { Trade } from '../types/trade';
+import type { Trade, Execution } from '../types/trade';
+import { buildRoundTripExecutions } from '../utils/executions';
+import type { CsvRowError } from './genericCsv';
+import { createDiagnostics, type ImportDiagnostics, type UnmatchedEntry } from './importDiagnostics';
+import { readHtmlTables, type HtmlDocument, type HtmlRow } from './markup';
 
-export function parseMT5Report(htmlContent: string): Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>[] {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(htmlContent, 'text/html');
-    const trades: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>[] = [];
+type ImportedTrade = Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Deposit, withdrawal or credit line of a MetaTrader statement
+export interface BalanceOperation {
+    ticket: string;
+    time: string;
+    type: 'deposit' | 'withdrawal' | 'credit';
+    amount: number; // signed: withdrawals are negative
+    comment: string;
+}
+
+export interface MetaTraderStatement {
+    trades: ImportedTrade[];
+    balanceOperations: BalanceOperation[];
+    currency: string;
+    diagnostics: ImportDiagnostics; // lines are rows of the report table
+}
+
+// The report as text, or its tables already read (see createHtmlTableReader)
+export function parseMT5Report(report: string | HtmlDocument): MetaTraderStatement {
+    const doc = typeof report === 'string' ? readHtmlTables(report) : report;
 
     // Try to detect currency from the report
     // MT5 reports usually mention currency in the Account Information section
-    let detectedCurrency = 'USD'; // default
+    let detectedCurrency = ''; // the import currency applies
 
     // Look for "Currency:" in the document
-    const bodyText = doc.body.textContent || '';
+    const bodyText = doc.text;
     const currencyMatch = bodyText.match(/Currency[:\s]+(\w+)/i);
     if (currencyMatch && currencyMatch[1]) {
         detectedCurrency = currencyMatch[1].toUpperCase();
     }
 
-    // Find the Positions table header
-    // Searching for <b>Positions</b> inside a div inside a th
-    const headers = Array.from(doc.querySelectorAll('tr > th'));
-    const positionsHeaderIdx = headers.findIndex(h => h.textContent?.includes('Positions'));
+    const orders = readSection(doc, 'Orders') || [];
+    const deals = readSection(doc, 'Deals');
 
-    if (positionsHeaderIdx === -1) {
-        throw new Error('Table "Positions" non trouvée dans le rapport MT5');
-    }
+    // The Deals table has every fill; the Positions summary is only a fallback
+    // for reports exported without it
+    const skipped: CsvRowError[] = deals ? skippedDeals(deals) : [];
+    const unmatched: UnmatchedEntry[] = [];
+    const trades = deals
+        ? rebuildPositions(deals, orders, detectAccountMode(doc, deals), detectedCurrency, unmatched)
+        : parsePositionsTable(doc, detectedCurrency, skipped);
+    const cancelled = parseCancelledOrders(orders, detectedCurrency);
+    const rowsParsed = deals ? deals.length - skipped.length : trades.length;
 
-    const positionsHeader = headers[positionsHeaderIdx];
-    const titleRow = positionsHeader.closest('tr');
-    if (!titleRow) return [];
+    return {
+        trades: [...trades, ...cancelled],
+        balanceOperations: deals ? parseBalanceDeals(deals) : [],
+        currency: detectedCurrency,
+        diagnostics: createDiagnostics(rowsParsed + cancelled.length, skipped, trades, unmatched),
+    };
+}
 
-    // The next row is the column headers
-    const headerRow = titleRow.nextElementSibling;
-    if (!headerRow) return [];
+// Summary table: one row per position, opening and closing price only.
+// Rows that can't be read are reported with their row in the table.
+function parsePositionsTable(doc: HtmlDocument, detectedCurrency: string, skipped: CsvRowError[]): ImportedTrade[] {
+    const trades: ImportedTrade[] = [];
 
-    // Iterate over data rows
-    let currentRow = headerRow.nextElementSibling;
+    // Find the Positions table header
+    // Searching for <b>Positions</b> inside a div inside a th
+    const section = findSection(doc, text => text.includes('Positions'));
+    if (!section) {
+        throw new Error('Table "Positions" non trouvée dans le rapport MT5');
+    }
 
-    while (currentRow) {
-        // Stop if we hit another header or spacer (look for 'th' or specific row style)
-        if (currentRow.querySelector('th') || (currentRow as HTMLTableRowElement).cells.length < 5) {
-            break;
-        }
+    for (const currentRow of section.rows) {
+        const { cells, line } = currentRow;
 
-        const cells = Array.from(currentRow.children) as HTMLElement[];
+        // Spacers
+        if (!currentRow.text) continue;
 
         // MT5 Standard Report "Positions" Table Structure:
         // 0: Time (Entry)
@@ -59,65 +91,432 @@ export function parseMT5Report(htmlContent: string): Omit<Trade, 'id' | 'created
         // 11: Commission
         // 12: Swap
         // 13: Profit
+        if (cells.length < 14) {
+            skipped.push({ line, message: `Ligne incomplète (${cells.length} cellules)` });
+            continue;
+        }
 
-        if (cells.length >= 14) {
-            const type = cells[3].textContent?.trim().toLowerCase();
-
-            if (type === 'buy' || type === 'sell') {
-                const entryTimeStr = cells[0].textContent?.trim();
-                const symbol = cells[2].textContent?.trim();
-                const volume = parseFloat(cells[5].textContent?.trim() || '0');
-                const entryPrice = parseFloat(cells[6].textContent?.trim() || '0');
-
-                // SL/TP might be empty
-                const slText = cells[7].textContent?.trim();
-                const sl = slText ? parseFloat(slText) : null;
-
-                const tpText = cells[8].textContent?.trim();
-                const tp = tpText ? parseFloat(tpText) : null;
-
-                const exitTimeStr = cells[9].textContent?.trim();
-                const exitPrice = parseFloat(cells[10].textContent?.trim() || '0');
-
-                const commission = parseFloat(cells[11].textContent?.trim() || '0');
-                const swap = parseFloat(cells[12].textContent?.trim() || '0');
-                const profit = parseFloat(cells[13].textContent?.trim() || '0');
-
-                // Calculate Net PnL
-                // In MT5 reports, Profit is usually gross profit of the trade (Entry vs Exit)
-                // Commission and Swap are separate charge columns.
-                // Total PnL = Profit + Commission + Swap
-                const pnl = profit + commission + swap;
-
-                if (entryTimeStr && symbol) {
-                    trades.push({
-                        symbol: symbol,
-                        direction: type === 'buy' ? 'long' : 'short',
-                        entryPrice: entryPrice,
-                        exitPrice: exitPrice,
-                        units: volume,
-                        entryTime: formatMT5Date(entryTimeStr),
-                        exitTime: exitTimeStr ? formatMT5Date(exitTimeStr) : null,
-                        stopLoss: sl,
-                        takeProfit: tp,
-                        pnl: pnl,
-                        pnlPercent: null, // to be calculated if needed
-                        currency: detectedCurrency,
-                        status: 'closed',
-                        notes: `Import MT5 #${cells[1].textContent?.trim()}`,
-                        tags: ['MT5', 'Imported'],
-                    });
-                }
-            }
+        const type = cells[3].text.toLowerCase();
+        if (type !== 'buy' && type !== 'sell') {
+            skipped.push({ line, message: `Type non importé : ${type || 'vide'}` });
+            continue;
         }
 
-        currentRow = currentRow.nextElementSibling;
+        const entryTimeStr = cells[0].text;
+        const ticket = cells[1].text;
+        const symbol = cells[2].text;
+        if (!entryTimeStr || !symbol) {
+            skipped.push({ line, message: 'Heure ou symbole manquant' });
+            continue;
+        }
+
+        const volume = parseFloat(cells[5].text || '0');
+        const entryPrice = parseFloat(cells[6].text || '0');
+
+        // SL/TP might be empty
+        const slText = cells[7].text;
+        const sl = slText ? parseFloat(slText) : null;
+
+        const tpText = cells[8].text;
+        const tp = tpText ? parseFloat(tpText) : null;
+
+        const exitTimeStr = cells[9].text;
+        const exitPrice = parseFloat(cells[10].text || '0');
+
+        const commission = parseFloat(cells[11].text || '0');
+        const swap = parseFloat(cells[12].text || '0');
+        const profit = parseFloat(cells[13].text || '0');
+
+        // Calculate Net PnL
+        // In MT5 reports, Profit is usually gross profit of the trade (Entry vs Exit)
+        // Commission and Swap are separate charge columns.
+        // Total PnL = Profit + Commission + Swap
+        const pnl = profit + commission + swap;
+
+        const direction = type === 'buy' ? 'long' : 'short';
+        const entryTime = formatMT5Date(entryTimeStr);
+        const exitTime = exitTimeStr ? formatMT5Date(exitTimeStr) : null;
+
+        trades.push({
+            symbol: symbol,
+            direction,
+            entryPrice: entryPrice,
+            exitPrice: exitPrice,
+            units: volume,
+            entryTime,
+            exitTime,
+            stopLoss: sl,
+            takeProfit: tp,
+            pnl: pnl,
+            pnlPercent: null, // to be calculated if needed
+            grossPnl: profit,
+            commission,
+            swap,
+            fees: 0,
+            currency: detectedCurrency,
+            status: 'closed',
+            notes: `Import MT5 #${ticket}`,
+            tags: ['MT5', 'Imported'],
+            sourceId: ticket ? `mt5:${ticket}` : null,
+            // Commission is reported negative, fills store it as a cost
+            executions: buildRoundTripExecutions({
+                direction,
+                entryTime,
+                entryPrice,
+                exitTime,
+                exitPrice: exitTime ? exitPrice : null,
+                quantity: volume,
+                entryFee: -commission,
+            }),
+        });
     }
 
     return trades;
 }
 
-function formatMT5Date(dateStr: string): string {
+// Rows of a titled report section, keyed by lowercase column header.
+// Returns null when the report has no such section.
+type SectionRow = Record<string, string>;
+
+// Row of the report table each section row was read from
+const sectionLines = new WeakMap<SectionRow, number>();
+
+// Sections start with a row holding a <th> title; the next row of the
+// table is the column headers, then data rows up to the next title
+function findSection(doc: HtmlDocument, isTitle: (text: string) => boolean): { header?: HtmlRow; rows: HtmlRow[] } | null {
+    const titleIndex = doc.rows.findIndex(row => row.cells.some(cell => cell.header && isTitle(cell.text)));
+    if (titleIndex === -1) return null;
+
+    const table = doc.rows[titleIndex].table;
+    const [header, ...following] = doc.rows.slice(titleIndex + 1).filter(row => row.table === table);
+    const end = following.findIndex(row => row.cells.some(cell => cell.header));
+    return { header, rows: end === -1 ? following : following.slice(0, end) };
+}
+
+function readSection(doc: HtmlDocument, title: string): SectionRow[] | null {
+    const section = findSection(doc, text => text === title);
+    if (!section?.header) return null;
+
+    const columns = logicalCells(section.header).map(name => name.toLowerCase());
+    const rows: SectionRow[] = [];
+
+    for (const currentRow of section.rows) {
+        const cells = logicalCells(currentRow);
+        // Spacers and the totals line have almost no cells
+        if (cells.filter(Boolean).length >= 5) {
+            const row: SectionRow = {};
+            columns.forEach((column, i) => {
+                if (column && !(column in row)) row[column] = cells[i] || '';
+            });
+            sectionLines.set(row, currentRow.line);
+            rows.push(row);
+        }
+    }
+
+    return rows;
+}
+
+// Cell texts with colspans expanded, so that data cells line up with their
+// header; the report pads some rows with hidden cells
+function logicalCells(row: HtmlRow): string[] {
+    const cells: string[] = [];
+    for (const cell of row.cells) {
+        if (cell.classes.includes('hidden')) continue;
+        cells.push(cell.text);
+        for (let i = 1; i < cell.colSpan; i++) cells.push('');
+    }
+    return cells;
+}
+
+// Amounts use spaces as thousand separators: "1 234.56"
+function parseAmount(text: string | undefined): number {
+    const value = parseFloat((text || '').replace(/\s/g, ''));
+    return isNaN(value) ? 0 : value;
+}
+
+function parseOptionalPrice(text: string | undefined): number | null {
+    const value = parseAmount(text);
+    return value !== 0 ? value : null;
+}
+
+type AccountMode = 'hedging' | 'netting';
+
+// The header reads e.g. "Account: 123456 (USD, Broker-Server, real, Hedge)":
+// only the last item of that row counts, symbols and comments elsewhere in
+// the report may say anything. Without it, a reversal deal can only come
+// from a netting account.
+function detectAccountMode(doc: HtmlDocument, deals: SectionRow[]): AccountMode {
+    const account = doc.rows.find(row => /^Account\s*:/i.test(row.cells[0]?.text || ''));
+    const details = account?.text.match(/\(([^()]*)\)\s*$/)?.[1].split(',') || [];
+    const mode = (details[details.length - 1] || '').trim().toLowerCase();
+    if (mode.startsWith('hedg')) return 'hedging';
+    if (mode === 'netting') return 'netting';
+    return deals.some(deal => dealEntry(deal) === 'inout') ? 'netting' : 'hedging';
+}
+
+// "in", "out", "in/out" (reversal on netting accounts)
+function dealEntry(deal: SectionRow): 'in' | 'out' | 'inout' | null {
+    const entry = (deal.direction || '').toLowerCase().replace(/[^a-z]/g, '');
+    return entry === 'in' || entry === 'out' || entry === 'inout' ? entry : null;
+}
+
+interface Deal {
+    line: number; // row of the report table
+    ticket: string;
+    order: string;
+    time: string;
+    symbol: string;
+    side: 'buy' | 'sell';
+    entry: 'in' | 'out' | 'inout';
+    volume: number;
+    price: number;
+    commission: number;
+    fee: number;
+    swap: number;
+    profit: number;
+}
+
+interface PositionBuilder {
+    id: string; // order that opened it, i.e. the MT5 position ticket
+    symbol: string;
+    direction: 'long' | 'short';
+    openVolume: number;
+    executions: Execution[];
+    commission: number;
+    fee: number;
+    swap: number;
+    profit: number;
+}
+
+const VOLUME_EPSILON = 1e-9;
+
+function toDeal(row: SectionRow): Deal | null {
+    const side = (row.type || '').toLowerCase();
+    const entry = dealEntry(row);
+    if ((side !== 'buy' && side !== 'sell') || !entry || !row.symbol || !row.time) return null;
+
+    return {
+        line: sectionLines.get(row) || 0,
+        ticket: row.deal || '',
+        order: row.order || row.deal || '',
+        time: formatMT5Date(row.time),
+        symbol: row.symbol,
+        side,
+        entry,
+        volume: parseAmount(row.volume),
+        price: parseAmount(row.price),
+        commission: parseAmount(row.commission),
+        fee: parseAmount(row.fee),
+        swap: parseAmount(row.swap),
+        profit: parseAmount(row.profit),
+    };
+}
+
+function openPosition(deal: Deal, volume: number, id: string): PositionBuilder {
+    const position: PositionBuilder = {
+        id,
+        symbol: deal.symbol,
+        direction: deal.side === 'buy' ? 'long' : 'short',
+        openVolume: 0,
+        executions: [],
+        commission: 0,
+        fee: 0,
+        swap: 0,
+        profit: 0,
+    };
+    addFill(position, deal, volume, 0);
+    return position;
+}
+
+// Book part (or all) of a deal on a position. Costs are split pro rata when
+// one deal touches several positions; profit only goes to the volume it
+// closed, so the opening side of a reversal gets none.
+function addFill(position: PositionBuilder, deal: Deal, volume: number, profit: number) {
+    const share = deal.volume > 0 ? volume / deal.volume : 1;
+    const commission = deal.commission * share;
+
+    position.executions.push({
+        id: crypto.randomUUID(),
+        time: deal.time,
+        side: deal.side,
+        price: deal.price,
+        quantity: volume,
+        // Commission is reported negative, fills store it as a cost
+        fee: -commission,
+    });
+    position.commission += commission;
+    position.fee += deal.fee * share;
+    position.swap += deal.swap * share;
+    position.profit += profit;
+
+    const entrySide = position.direction === 'long' ? 'buy' : 'sell';
+    position.openVolume += deal.side === entrySide ? volume : -volume;
+}
+
+// Hedging accounts keep one position per opening deal; closing deals are
+// matched to the oldest open position of the symbol on the other side.
+// Netting accounts keep a single position per symbol: "in" adds to it,
+// "out" reduces it and "in/out" closes it and opens the opposite side.
+// Volume closed with no open position to match (the report starts while it
+// was open) is reported in unmatched.
+function rebuildPositions(
+    rows: SectionRow[],
+    orders: SectionRow[],
+    mode: AccountMode,
+    currency: string,
+    unmatched: UnmatchedEntry[],
+): ImportedTrade[] {
+    const deals = rows
+        .map(toDeal)
+        .filter((deal): deal is Deal => deal !== null)
+        .sort((a, b) => a.time.localeCompare(b.time) || Number(a.ticket) - Number(b.ticket));
+
+    const ordersByTicket = new Map(orders.map(order => [order.order, order]));
+    const open: PositionBuilder[] = [];
+    const finished: PositionBuilder[] = [];
+
+    const close = (deal: Deal, volume: number): number => {
+        let remaining = volume;
+        const closesDirection = deal.side === 'sell' ? 'long' : 'short';
+        const matching = open.filter(p => p.symbol === deal.symbol && p.direction === closesDirection);
+        const closing = Math.min(volume, matching.reduce((sum, p) => sum + p.openVolume, 0));
+        for (const position of matching) {
+            if (remaining <= VOLUME_EPSILON) break;
+            const closed = Math.min(remaining, position.openVolume);
+            addFill(position, deal, closed, deal.profit * closed / closing);
+            remaining -= closed;
+            if (position.openVolume <= VOLUME_EPSILON) {
+                open.splice(open.indexOf(position), 1);
+                finished.push(position);
+            }
+        }
+        return remaining;
+    };
+
+    for (const deal of deals) {
+        if (deal.entry === 'in') {
+            const current = mode === 'netting' ? open.find(p => p.symbol === deal.symbol) : undefined;
+            if (current) addFill(current, deal, deal.volume, deal.profit);
+            else open.push(openPosition(deal, deal.volume, deal.order));
+        } else {
+            // Whatever is left after closing is a reversal into a new position
+            const remaining = close(deal, deal.volume);
+            if (deal.entry === 'inout' && remaining > VOLUME_EPSILON) {
+                open.push(openPosition(deal, remaining, deal.order));
+            } else if (remaining > VOLUME_EPSILON) {
+                unmatched.push({
+                    line: deal.line,
+                    time: deal.time,
+                    text: `Deal ${deal.ticket} : ${+remaining.toFixed(8)} ${deal.symbol} clôturés sans position ouverte dans le rapport`,
+                });
+            }
+        }
+    }
+
+    return [...finished, ...open]
+        .map(position => toTrade(position, ordersByTicket.get(position.id), currency))
+        .sort((a, b) => a.entryTime.localeCompare(b.entryTime));
+}
+
+function toTrade(position: PositionBuilder, order: SectionRow | undefined, currency: string): ImportedTrade {
+    const entrySide = position.direction === 'long' ? 'buy' : 'sell';
+    const entries = position.executions.filter(e => e.side === entrySide);
+    const exits = position.executions.filter(e => e.side !== entrySide);
+    const average = (fills: Execution[]) => {
+        const quantity = fills.reduce((sum, e) => sum + e.quantity, 0);
+        return quantity > 0 ? fills.reduce((sum, e) => sum + e.price * e.quantity, 0) / quantity : 0;
+    };
+
+    const isClosed = position.openVolume <= VOLUME_EPSILON;
+    const executions = position.executions;
+
+    return {
+        symbol: position.symbol,
+        direction: position.direction,
+        entryPrice: average(entries),
+        exitPrice: isClosed ? average(exits) : null,
+        units: entries.reduce((sum, e) => sum + e.quantity, 0),
+        entryTime: executions[0].time,
+        exitTime: isClosed ? executions[executions.length - 1].time : null,
+        stopLoss: parseOptionalPrice(order?.['s / l']),
+        takeProfit: parseOptionalPrice(order?.['t / p']),
+        // Profit of partial closes is realized, but the trade is not done yet
+        pnl: isClosed ? position.profit + position.commission + position.swap + position.fee : null,
+        pnlPercent: null,
+        grossPnl: isClosed ? position.profit : null,
+        commission: position.commission,
+        swap: position.swap,
+        fees: position.fee,
+        currency,
+        status: isClosed ? 'closed' : 'open',
+        notes: `Import MT5 #${position.id}`,
+        tags: ['MT5', 'Imported'],
+        sourceId: `mt5:${position.id}`,
+        executions,
+    };
+}
+
+// Pending orders that never filled: "buy limit", "sell stop"... with state
+// canceled or expired
+function parseCancelledOrders(orders: SectionRow[], currency: string): ImportedTrade[] {
+    return orders.flatMap(order => {
+        const state = (order.state || '').toLowerCase();
+        const type = (order.type || '').toLowerCase();
+        const time = order['open time'];
+        if (!/^(cancel|expired)/.test(state) || !/^(buy|sell)/.test(type) || !order.symbol || !time) return [];
+
+        // "1 / 0": requested / filled
+        const volume = parseAmount((order.volume || '').split('/')[0]);
+
+        return [{
+            symbol: order.symbol,
+            direction: type.startsWith('buy') ? 'long' : 'short',
+            entryPrice: parseAmount(order.price),
+            exitPrice: null,
+            units: volume,
+            entryTime: formatMT5Date(time),
+            exitTime: null,
+            stopLoss: parseOptionalPrice(order['s / l']),
+            takeProfit: parseOptionalPrice(order['t / p']),
+            pnl: null,
+            pnlPercent: null,
+            currency,
+            status: 'cancelled',
+            notes: `Import MT5 #${order.order} (${type}, ${state})`,
+            tags: ['MT5', 'Imported'],
+            sourceId: `mt5:order:${order.order}`,
+        } satisfies ImportedTrade];
+    });
+}
+
+// Deals that are neither a fill nor a balance line: commissions, charges,
+// interest, corrections... charged on the account outside any position
+function skippedDeals(deals: SectionRow[]): CsvRowError[] {
+    return deals.flatMap(deal => {
+        const type = (deal.type || '').toLowerCase();
+        if (toDeal(deal) || ((type === 'balance' || type === 'credit') && deal.time)) return [];
+        return [{ line: sectionLines.get(deal) || 0, message: `Deal ${deal.deal || ''} non importé (${type || 'type inconnu'})` }];
+    });
+}
+
+function parseBalanceDeals(deals: SectionRow[]): BalanceOperation[] {
+    return deals.flatMap(deal => {
+        const type = (deal.type || '').toLowerCase();
+        if ((type !== 'balance' && type !== 'credit') || !deal.time) return [];
+
+        const amount = parseAmount(deal.profit);
+        return [{
+            ticket: deal.deal || '',
+            time: formatMT5Date(deal.time),
+            type: type === 'credit' ? 'credit' : amount < 0 ? 'withdrawal' : 'deposit',
+            amount,
+            comment: deal.comment || '',
+        } satisfies BalanceOperation];
+    });
+}
+
+// Broker server time, without a zone: converted to UTC at import
+export function formatMT5Date(dateStr: string): string {
     // Format: 2026.02.14 15:34:03 -> 2026-02-14T15:34:03
     return dateStr.replace(/\./g, '-').replace(' ', 'T');
 }
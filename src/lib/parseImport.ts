@@ -0,0 +1,68 @@
+import { jobFiles, runImportJob, type ImportJob, type ImportJobResults } from './importJobs';
+import type { ImportWorkerMessage } from './importWorker';
+
+// Runs an import job off the page, in a worker of its own. Browsers without
+// module workers run it here.
+
+export interface ParseProgress {
+  loaded: number; // bytes read, over all the files of the job
+  total: number;
+}
+
+export interface ParseOptions {
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+function abortError(): DOMException {
+  return new DOMException('Analyse annulée', 'AbortError');
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+function runInWorker(job: ImportJob, onProgress: (loaded: number) => void, signal?: AbortSignal): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./importWorker.ts', import.meta.url), { type: 'module' });
+    const stop = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      stop();
+      reject(abortError());
+    };
+
+    worker.onmessage = (event: MessageEvent<ImportWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.loaded);
+        return;
+      }
+      stop();
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      stop();
+      reject(new Error(event.message || 'Erreur du worker d\'import'));
+    };
+
+    signal?.addEventListener('abort', cancel);
+    worker.postMessage(job);
+  });
+}
+
+export async function parseImport<J extends ImportJob>(job: J, { onProgress, signal }: ParseOptions = {}): Promise<ImportJobResults[J['kind']]> {
+  if (signal?.aborted) throw abortError();
+
+  const total = jobFiles(job).reduce((sum, file) => sum + file.size, 0);
+  const report = (loaded: number) => onProgress?.({ loaded: Math.min(loaded, total), total });
+  report(0);
+
+  const result = typeof Worker === 'undefined'
+    ? await runImportJob(job, report, signal)
+    : await runInWorker(job, report, signal);
+  return result as ImportJobResults[J['kind']];
+}
@@ -0,0 +1,70 @@
+// Files read in chunks rather than in one FileReader call, so that a
+// multi-year export shows its progress and can be stopped half way.
+
+// Bytes of the file read so far
+export type ReadProgress = (loaded: number) => void;
+
+// MetaTrader saves its HTML reports in UTF-16; FileReader recognised them
+// from the byte order mark, and so does this
+function decoderFor(bytes: Uint8Array): TextDecoder {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le');
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be');
+  return new TextDecoder('utf-8');
+}
+
+// Decoded text of each chunk as it is read
+export async function streamText(
+  file: Blob,
+  onText: (text: string, loaded: number) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const reader = file.stream().getReader();
+  let decoder: TextDecoder | null = null;
+  let loaded = 0;
+
+  try {
+    for (;;) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (!decoder) decoder = decoderFor(value);
+      loaded += value.byteLength;
+      onText(decoder.decode(value, { stream: true }), loaded);
+    }
+    if (decoder) onText(decoder.decode(), loaded);
+  } catch (err) {
+    await reader.cancel();
+    throw err;
+  }
+}
+
+export async function readText(file: Blob, onProgress?: ReadProgress, signal?: AbortSignal): Promise<string> {
+  const chunks: string[] = [];
+  await streamText(file, (text, loaded) => {
+    chunks.push(text);
+    onProgress?.(loaded);
+  }, signal);
+  return chunks.join('');
+}
+
+// Whole file as bytes, for the zipped formats (XLSX) that can't be decoded chunk by chunk
+export async function readBytes(file: Blob, onProgress?: ReadProgress, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const reader = file.stream().getReader();
+  const bytes = new Uint8Array(file.size);
+  let loaded = 0;
+
+  try {
+    for (;;) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytes.set(value, loaded);
+      loaded += value.byteLength;
+      onProgress?.(loaded);
+    }
+  } catch (err) {
+    await reader.cancel();
+    throw err;
+  }
+  return bytes.buffer;
+}
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { trade } from '../test/fixtures';
+import { createSupabaseTradeRepository } from './tradeRepository';
+
+// A trades table behind the query builder calls updateTrade makes:
+// from().update().eq().select().single()
+const rows = vi.hoisted(() => new Map<string, Record<string, unknown>>());
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: () => ({
+      update: (patch: Record<string, unknown>) => ({
+        eq: (_column: string, id: string) => ({
+          select: () => ({
+            single: async () => {
+              const row = rows.get(id);
+              if (!row) return { data: null, error: { message: 'not found' } };
+              rows.set(id, { ...row, ...patch });
+              return { data: rows.get(id), error: null };
+            },
+          }),
+        }),
+      }),
+    }),
+  }),
+}));
+
+describe('Supabase trade mapping', () => {
+  beforeEach(() => {
+    const { id, symbol, direction, entryTime, tags, status } = trade();
+    rows.clear();
+    rows.set(id, { id, symbol, direction, entry_time: entryTime, tags, status, strategy: null });
+  });
+
+  it('saves a strategy set on its own and reads it back', async () => {
+    const repository = createSupabaseTradeRepository();
+
+    const [updated] = await repository.bulkUpdate([{ id: 'trade-1', updates: { strategy: 'Breakout' } }]);
+
+    expect(rows.get('trade-1')?.strategy).toBe('Breakout');
+    expect(updated.strategy).toBe('Breakout');
+    expect(updated.tags).toEqual([]);
+  });
+
+  it('leaves the strategy out of trades without one', async () => {
+    const [updated] = await createSupabaseTradeRepository().bulkUpdate([{ id: 'trade-1', updates: { notes: 'Late entry' } }]);
+    expect(updated.strategy).toBeUndefined();
+  });
+});
@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
-import type { Trade } from '../types/trade';
+import type { Trade, Account, PlaybookStrategy, ImportBatch, CashTransaction } from '../types/trade';
 
 // Configuration Supabase - à remplacer par vos propres clés
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || 'https://your-project.supabase.co';
@@ -8,18 +8,233 @@ const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY || 'your-anon-k
 export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
 
 // Fonctions pour gérer les trades
-export async function fetchTrades(): Promise<Trade[]> {
-  const { data, error } = await supabase
+// Position after the last trade of a page (entry_time desc, id desc)
+export interface TradeCursor {
+  entryTime: string;
+  id: string;
+}
+
+export interface TradePage {
+  trades: Trade[];
+  nextCursor: TradeCursor | null;
+}
+
+// PostgREST caps responses at 1000 rows by default
+export const TRADE_PAGE_SIZE = 1000;
+
+// Keyset paging: stable under inserts, and cheap at any depth
+export async function fetchTradesPage(cursor: TradeCursor | null, limit: number = TRADE_PAGE_SIZE): Promise<TradePage | null> {
+  let query = supabase
     .from('trades')
     .select('*')
-    .order('entry_time', { ascending: false });
+    .order('entry_time', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (cursor) {
+    query = query.or(`entry_time.lt.${cursor.entryTime},and(entry_time.eq.${cursor.entryTime},id.lt.${cursor.id})`);
+  }
+
+  const { data, error } = await query;
 
   if (error) {
     console.error('Error fetching trades:', error);
-    return [];
+    return null;
   }
 
-  return (data || []).map(mapDbToTrade);
+  const rows = data || [];
+  const last = rows[rows.length - 1];
+  return {
+    trades: rows.map(mapDbToTrade),
+    nextCursor: rows.length === limit ? { entryTime: last.entry_time, id: last.id } : null,
+  };
+}
+
+// Returns null on failure so callers can tell "no trades" from "unreachable"
+export async function fetchTrades(): Promise<Trade[] | null> {
+  const trades: Trade[] = [];
+  let cursor: TradeCursor | null = null;
+
+  do {
+    const page: TradePage | null = await fetchTradesPage(cursor);
+    if (!page) return null;
+    trades.push(...page.trades);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return trades;
+}
+
+export interface TradeChangeSet {
+  trades: Trade[];
+  deletedIds: string[];
+  cursor: string | null; // newest updated_at / deleted_at seen
+}
+
+// Newest updated_at / deleted_at on the server, where an incremental refresh
+// can start after a full download. Both are set by the database (see
+// migrations/0014), so later writes from any device come after it.
+export async function fetchSyncWatermark(): Promise<string | null> {
+  const [updated, deleted] = await Promise.all([
+    supabase.from('trades').select('updated_at').order('updated_at', { ascending: false }).limit(1),
+    supabase.from('deleted_trades').select('deleted_at').order('deleted_at', { ascending: false }).limit(1),
+  ]);
+
+  if (updated.error || deleted.error) {
+    console.error('Error fetching sync watermark:', updated.error || deleted.error);
+    return null;
+  }
+
+  const times = [updated.data?.[0]?.updated_at, deleted.data?.[0]?.deleted_at].filter((time): time is string => !!time);
+  if (times.length === 0) return new Date(0).toISOString();
+  return times.reduce((latest, time) => (new Date(time) > new Date(latest) ? time : latest));
+}
+
+// Trades modified and deleted after `since` (incremental refresh)
+export async function fetchTradeChangesSince(since: string): Promise<TradeChangeSet | null> {
+  const trades: Trade[] = [];
+  const deletedIds: string[] = [];
+  let cursor: string | null = null;
+  const advance = (time: string) => {
+    if (!cursor || new Date(time) > new Date(cursor)) cursor = time;
+  };
+
+  for (let offset = 0; ; offset += TRADE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('trades')
+      .select('*')
+      .gt('updated_at', since)
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + TRADE_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching trade changes:', error);
+      return null;
+    }
+
+    (data || []).forEach(row => {
+      trades.push(mapDbToTrade(row));
+      advance(row.updated_at);
+    });
+    if (!data || data.length < TRADE_PAGE_SIZE) break;
+  }
+
+  for (let offset = 0; ; offset += TRADE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('deleted_trades')
+      .select('id, deleted_at')
+      .gt('deleted_at', since)
+      .order('deleted_at', { ascending: true })
+      .range(offset, offset + TRADE_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching deleted trades:', error);
+      return null;
+    }
+
+    (data || []).forEach(row => {
+      deletedIds.push(row.id);
+      advance(row.deleted_at);
+    });
+    if (!data || data.length < TRADE_PAGE_SIZE) break;
+  }
+
+  return { trades, deletedIds, cursor };
+}
+
+// Per-currency totals computed by the database (see trade_summary in migrations/0009)
+export interface TradeSummaryRow {
+  currency: string;
+  totalTrades: number;
+  closedTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  totalPnl: number;
+  grossProfit: number;
+  grossLoss: number;
+  largestWin: number;
+  largestLoss: number;
+}
+
+export async function fetchTradeSummary(accountId: string | null = null): Promise<TradeSummaryRow[] | null> {
+  const { data, error } = await supabase.rpc('trade_summary', { p_account_id: accountId });
+
+  if (error) {
+    console.error('Error fetching trade summary:', error);
+    return null;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (data || []).map((row: any) => ({
+    currency: row.currency || 'USD',
+    totalTrades: Number(row.total_trades) || 0,
+    closedTrades: Number(row.closed_trades) || 0,
+    winningTrades: Number(row.winning_trades) || 0,
+    losingTrades: Number(row.losing_trades) || 0,
+    totalPnl: Number(row.total_pnl) || 0,
+    grossProfit: Number(row.gross_profit) || 0,
+    grossLoss: Number(row.gross_loss) || 0,
+    largestWin: Number(row.largest_win) || 0,
+    largestLoss: Number(row.largest_loss) || 0,
+  }));
+}
+
+export async function fetchTrade(id: string): Promise<Trade | null> {
+  const { data, error } = await supabase
+    .from('trades')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching trade:', error);
+    return null;
+  }
+
+  return data ? mapDbToTrade(data) : null;
+}
+
+// Source ids go in the query string: asked for in chunks
+const SOURCE_CHUNK_SIZE = 200;
+
+// Trades with these source ids, whether or not the history has been paged in yet
+export async function fetchTradesBySourceIds(sourceIds: string[]): Promise<Trade[] | null> {
+  const trades: Trade[] = [];
+  for (let i = 0; i < sourceIds.length; i += SOURCE_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('trades')
+      .select('*')
+      .in('source_id', sourceIds.slice(i, i + SOURCE_CHUNK_SIZE));
+
+    if (error) {
+      console.error('Error fetching trades by source:', error);
+      return null;
+    }
+    trades.push(...(data || []).map(mapDbToTrade));
+  }
+  return trades;
+}
+
+// Trades an import created, loaded or not: what rolling it back deletes
+export async function fetchTradesByImportBatch(batchId: string): Promise<Trade[] | null> {
+  const trades: Trade[] = [];
+  for (let offset = 0; ; offset += TRADE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('trades')
+      .select('*')
+      .eq('import_batch_id', batchId)
+      .order('id', { ascending: true })
+      .range(offset, offset + TRADE_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching trades by import:', error);
+      return null;
+    }
+    trades.push(...(data || []).map(mapDbToTrade));
+    if (!data || data.length < TRADE_PAGE_SIZE) break;
+  }
+  return trades;
 }
 
 export async function createTrade(trade: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>): Promise<Trade | null> {
@@ -67,32 +282,394 @@ export async function deleteTrade(id: string): Promise<boolean> {
   return true;
 }
 
+export async function deleteTrades(ids: string[]): Promise<boolean> {
+  try {
+    await removeTrades(ids);
+    return true;
+  } catch (error) {
+    console.error('Error deleting trades:', error);
+    return false;
+  }
+}
+
 export async function deleteAllTrades(): Promise<boolean> {
-  const { error } = await supabase
+  try {
+    await removeAllTrades();
+    return true;
+  } catch (error) {
+    console.error('Error deleting all trades:', error);
+    return false;
+  }
+}
+
+export async function bulkCreateTrades(trades: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<Trade[]> {
+  const { data, error } = await supabase
+    .from('trades')
+    .insert(trades.map(mapTradeToDb))
+    .select();
+
+  if (error) {
+    console.error('Error bulk creating trades:', error);
+    return [];
+  }
+
+  return (data || []).map(mapDbToTrade);
+}
+
+// Offline sync replay: these throw a RequestError, so the outbox can tell
+// a request worth retrying from one the server refused
+
+// network: no response; auth: missing or expired session; server: the
+// server failed or is busy; rejected: the request itself was refused
+export type RequestFailure = 'network' | 'auth' | 'server' | 'rejected';
+
+export class RequestError extends Error {
+  failure: RequestFailure;
+  code: string;
+
+  constructor(message: string, failure: RequestFailure, code: string) {
+    super(message);
+    this.name = 'RequestError';
+    this.failure = failure;
+    this.code = code;
+  }
+}
+
+// PostgREST answers 401 for a missing or expired JWT (and for RLS checks
+// run as anon); the client reports status 0 when fetch itself failed
+function requestFailure(status: number): RequestFailure {
+  if (status === 0) return 'network';
+  if (status === 401) return 'auth';
+  if (status === 408 || status === 429 || status >= 500) return 'server';
+  return 'rejected';
+}
+
+function requestError(error: { message: string; code: string }, status: number): RequestError {
+  return new RequestError(error.message, requestFailure(status), error.code);
+}
+
+// Insert trades with client-generated ids, leaving alone the ids the server
+// already has. Returns the server version (updated_at) of the inserted ones.
+export async function insertTrades(trades: Trade[]): Promise<Record<string, string>> {
+  const { data, error, status } = await supabase
+    .from('trades')
+    .upsert(trades.map(trade => ({
+      ...mapTradeToDb(trade),
+      id: trade.id,
+      created_at: trade.createdAt,
+    })), { ignoreDuplicates: true })
+    .select('id, updated_at');
+
+  if (error) throw requestError(error, status);
+  return Object.fromEntries((data || []).map(row => [row.id, row.updated_at]));
+}
+
+// Update a trade only if the server still has the version the change was
+// made on. Returns the new version, or null when the trade was modified or
+// deleted since.
+export async function saveTradeUpdate(id: string, updates: Partial<Trade>, baseVersion: string): Promise<string | null> {
+  const { data, error, status } = await supabase
+    .from('trades')
+    .update(mapTradeToDb(updates))
+    .eq('id', id)
+    .eq('updated_at', baseVersion)
+    .select('updated_at');
+
+  if (error) throw requestError(error, status);
+  return data && data.length > 0 ? data[0].updated_at : null;
+}
+
+// Ids go in the query string: delete in chunks to keep URLs short
+const DELETE_CHUNK_SIZE = 200;
+
+export async function removeTrades(ids: string[]): Promise<void> {
+  for (let i = 0; i < ids.length; i += DELETE_CHUNK_SIZE) {
+    const { error, status } = await supabase
+      .from('trades')
+      .delete()
+      .in('id', ids.slice(i, i + DELETE_CHUNK_SIZE));
+
+    if (error) throw requestError(error, status);
+  }
+}
+
+// When `before` (a server version) is set, trades modified after it are kept
+export async function removeAllTrades(before?: string): Promise<void> {
+  let query = supabase
     .from('trades')
     .delete()
     .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all rows (RLS will filter by user)
+  if (before) query = query.lte('updated_at', before);
+
+  const { error, status } = await query;
+  if (error) throw requestError(error, status);
+}
+
+export type RealtimeTradeEvent =
+  | { type: 'upsert'; trade: Trade }
+  | { type: 'delete'; id: string };
+
+// Listen to inserts, updates and deletes on the user's trades.
+// Returns a function that closes the channel.
+export function subscribeToTradeChanges(userId: string, onChange: (event: RealtimeTradeEvent) => void): () => void {
+  const channel = supabase
+    .channel(`trades:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'trades', filter: `user_id=eq.${userId}` },
+      (payload) => {
+        if (payload.eventType === 'DELETE') {
+          const id = (payload.old as { id?: string }).id;
+          if (id) onChange({ type: 'delete', id });
+        } else {
+          onChange({ type: 'upsert', trade: mapDbToTrade(payload.new) });
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Fonctions pour gérer les comptes de trading
+export async function fetchAccounts(): Promise<Account[]> {
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('*')
+    .order('created_at', { ascending: true });
 
   if (error) {
-    console.error('Error deleting all trades:', error);
+    console.error('Error fetching accounts:', error);
+    return [];
+  }
+
+  return (data || []).map(mapDbToAccount);
+}
+
+export async function createAccount(account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>): Promise<Account | null> {
+  const { data, error } = await supabase
+    .from('accounts')
+    .insert([mapAccountToDb(account)])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating account:', error);
+    return null;
+  }
+
+  return mapDbToAccount(data);
+}
+
+export async function updateAccount(id: string, updates: Partial<Account>): Promise<Account | null> {
+  const { data, error } = await supabase
+    .from('accounts')
+    .update(mapAccountToDb(updates))
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating account:', error);
+    return null;
+  }
+
+  return mapDbToAccount(data);
+}
+
+export async function deleteAccount(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('accounts')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting account:', error);
     return false;
   }
 
   return true;
 }
 
-export async function bulkCreateTrades(trades: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<Trade[]> {
+// Fonctions pour gérer le playbook
+export async function fetchPlaybookStrategies(): Promise<PlaybookStrategy[]> {
   const { data, error } = await supabase
-    .from('trades')
-    .insert(trades.map(mapTradeToDb))
+    .from('playbook_strategies')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching playbook:', error);
+    return [];
+  }
+
+  return (data || []).map(mapDbToStrategy);
+}
+
+// Insert or overwrite strategies by id
+export async function savePlaybookStrategies(strategies: PlaybookStrategy[]): Promise<PlaybookStrategy[]> {
+  const { data, error } = await supabase
+    .from('playbook_strategies')
+    .upsert(strategies.map(strategy => ({ ...mapStrategyToDb(strategy), id: strategy.id })))
     .select();
 
   if (error) {
-    console.error('Error bulk creating trades:', error);
+    console.error('Error saving playbook:', error);
     return [];
   }
 
-  return (data || []).map(mapDbToTrade);
+  return (data || []).map(mapDbToStrategy);
+}
+
+export async function deletePlaybookStrategy(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('playbook_strategies')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting strategy:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// Fonctions pour gérer les dépôts et retraits
+export async function fetchCashTransactions(): Promise<CashTransaction[]> {
+  const { data, error } = await supabase
+    .from('cash_transactions')
+    .select('*')
+    .order('time', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching cash transactions:', error);
+    return [];
+  }
+
+  return (data || []).map(mapDbToCashTransaction);
+}
+
+export async function createCashTransactions(transactions: CashTransaction[]): Promise<CashTransaction[]> {
+  const { data, error } = await supabase
+    .from('cash_transactions')
+    .insert(transactions.map(transaction => ({ ...mapCashTransactionToDb(transaction), id: transaction.id })))
+    .select();
+
+  if (error) {
+    console.error('Error creating cash transactions:', error);
+    return [];
+  }
+
+  return (data || []).map(mapDbToCashTransaction);
+}
+
+export async function deleteCashTransactions(ids: string[]): Promise<boolean> {
+  const { error } = await supabase
+    .from('cash_transactions')
+    .delete()
+    .in('id', ids);
+
+  if (error) {
+    console.error('Error deleting cash transactions:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// Fonctions pour gérer l'historique des imports
+export async function fetchImportBatches(): Promise<ImportBatch[]> {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching import batches:', error);
+    return [];
+  }
+
+  return (data || []).map(mapDbToImportBatch);
+}
+
+// The id is generated client-side so trades can reference the batch
+// before it is saved
+export async function createImportBatch(batch: ImportBatch): Promise<ImportBatch | null> {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .insert([{ ...mapImportBatchToDb(batch), id: batch.id }])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating import batch:', error);
+    return null;
+  }
+
+  return mapDbToImportBatch(data);
+}
+
+export async function updateImportBatch(id: string, updates: Partial<ImportBatch>): Promise<ImportBatch | null> {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .update(mapImportBatchToDb(updates))
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating import batch:', error);
+    return null;
+  }
+
+  return mapDbToImportBatch(data);
+}
+
+// Schéma de la base (voir migrations/)
+export interface SchemaVersionRow {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+// PostgREST/Postgres codes for a table that doesn't exist
+const MISSING_TABLE_CODES = ['42P01', 'PGRST205'];
+
+// Applied migrations, oldest first. Empty when schema_version doesn't exist
+// yet (no migration run, or a database set up before versioning).
+export async function fetchAppliedMigrations(): Promise<SchemaVersionRow[] | null> {
+  const { data, error } = await supabase
+    .from('schema_version')
+    .select('version, name, applied_at')
+    .order('version', { ascending: true });
+
+  if (error) {
+    if (MISSING_TABLE_CODES.includes(error.code)) return [];
+    console.error('Error fetching schema version:', error);
+    return null;
+  }
+
+  return (data || []).map(row => ({ version: row.version, name: row.name, appliedAt: row.applied_at }));
+}
+
+// Whether the trades table exists, to tell an empty database from one
+// created with the old single setup script
+export async function hasTradesTable(): Promise<boolean | null> {
+  const { error } = await supabase
+    .from('trades')
+    .select('id', { head: true })
+    .limit(1);
+
+  if (error) {
+    if (MISSING_TABLE_CODES.includes(error.code)) return false;
+    console.error('Error checking trades table:', error);
+    return null;
+  }
+
+  return true;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -100,6 +677,7 @@ function mapDbToTrade(data: any): Trade {
   return {
     id: data.id,
     userId: data.user_id,
+    accountId: data.account_id ?? null,
     symbol: data.symbol,
     direction: data.direction,
     entryPrice: data.entry_price,
@@ -111,10 +689,21 @@ function mapDbToTrade(data: any): Trade {
     takeProfit: data.take_profit,
     pnl: data.pnl,
     pnlPercent: data.pnl_percent,
+    grossPnl: data.gross_pnl ?? data.pnl,
+    commission: Number(data.commission) || 0,
+    swap: Number(data.swap) || 0,
+    fees: Number(data.fees) || 0,
     currency: data.currency || 'USD',
     status: data.status,
     notes: data.notes || '',
     tags: data.tags || [],
+    strategy: data.strategy ?? undefined,
+    executions: data.executions || [],
+    maxPositionSize: data.max_position_size != null ? Number(data.max_position_size) : null,
+    screenshots: data.screenshots || [],
+    sourceId: data.source_id ?? null,
+    importBatchId: data.import_batch_id ?? null,
+    estimatedFields: data.estimated_fields || [],
     createdAt: data.created_at,
     updatedAt: data.updated_at,
   };
@@ -125,6 +714,7 @@ function mapTradeToDb(trade: Partial<Trade>): any {
   const dbTrade: Record<string, unknown> = {};
 
   if (trade.userId !== undefined) dbTrade.user_id = trade.userId;
+  if (trade.accountId !== undefined) dbTrade.account_id = trade.accountId;
   if (trade.symbol !== undefined) dbTrade.symbol = trade.symbol;
   if (trade.direction !== undefined) dbTrade.direction = trade.direction;
   if (trade.entryPrice !== undefined) dbTrade.entry_price = trade.entryPrice;
@@ -136,62 +726,152 @@ function mapTradeToDb(trade: Partial<Trade>): any {
   if (trade.takeProfit !== undefined) dbTrade.take_profit = trade.takeProfit;
   if (trade.pnl !== undefined) dbTrade.pnl = trade.pnl;
   if (trade.pnlPercent !== undefined) dbTrade.pnl_percent = trade.pnlPercent;
+  if (trade.grossPnl !== undefined) dbTrade.gross_pnl = trade.grossPnl;
+  if (trade.commission !== undefined) dbTrade.commission = trade.commission;
+  if (trade.swap !== undefined) dbTrade.swap = trade.swap;
+  if (trade.fees !== undefined) dbTrade.fees = trade.fees;
   if (trade.currency !== undefined) dbTrade.currency = trade.currency;
   if (trade.status !== undefined) dbTrade.status = trade.status;
   if (trade.notes !== undefined) dbTrade.notes = trade.notes;
   if (trade.tags !== undefined) dbTrade.tags = trade.tags;
+  if (trade.strategy !== undefined) dbTrade.strategy = trade.strategy;
+  if (trade.executions !== undefined) dbTrade.executions = trade.executions;
+  if (trade.maxPositionSize !== undefined) dbTrade.max_position_size = trade.maxPositionSize;
+  if (trade.screenshots !== undefined) dbTrade.screenshots = trade.screenshots;
+  if (trade.sourceId !== undefined) dbTrade.source_id = trade.sourceId;
+  if (trade.importBatchId !== undefined) dbTrade.import_batch_id = trade.importBatchId;
+  if (trade.estimatedFields !== undefined) dbTrade.estimated_fields = trade.estimatedFields;
+  if (trade.updatedAt !== undefined) dbTrade.updated_at = trade.updatedAt;
 
   return dbTrade;
 }
 
-// SQL pour créer la table avec RLS dans Supabase
-export const CREATE_TABLE_SQL = `
--- 1. Créer la table avec la colonne user_id
-CREATE TABLE IF NOT EXISTS trades (
-  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
-  symbol VARCHAR(50) NOT NULL,
-  direction VARCHAR(10) NOT NULL CHECK (direction IN ('long', 'short')),
-  entry_price DECIMAL(20, 6) NOT NULL,
-  exit_price DECIMAL(20, 6),
-  units DECIMAL(20, 6) NOT NULL,
-  entry_time TIMESTAMPTZ NOT NULL,
-  exit_time TIMESTAMPTZ,
-  stop_loss DECIMAL(20, 6),
-  take_profit DECIMAL(20, 6),
-  pnl DECIMAL(20, 6),
-  pnl_percent DECIMAL(10, 4),
-  currency VARCHAR(10) DEFAULT 'USD',
-  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'cancelled')),
-  notes TEXT DEFAULT '',
-  tags TEXT[] DEFAULT '{}',
-  created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW()
-);
-
--- 2. Activer la RLS (Row Level Security)
-ALTER TABLE trades ENABLE ROW LEVEL SECURITY;
-
--- 3. Créer les politiques d'accès
-CREATE POLICY "Users can view their own trades" 
-ON trades FOR SELECT 
-USING (auth.uid() = user_id);
-
-CREATE POLICY "Users can insert their own trades" 
-ON trades FOR INSERT 
-WITH CHECK (auth.uid() = user_id);
-
-CREATE POLICY "Users can update their own trades" 
-ON trades FOR UPDATE 
-USING (auth.uid() = user_id);
-
-CREATE POLICY "Users can delete their own trades" 
-ON trades FOR DELETE 
-USING (auth.uid() = user_id);
-
--- 4. Index pour améliorer les performances
-CREATE INDEX IF NOT EXISTS idx_trades_user_id ON trades(user_id);
-CREATE INDEX IF NOT EXISTS idx_trades_symbol ON trades(symbol);
-CREATE INDEX IF NOT EXISTS idx_trades_status ON trades(status);
-CREATE INDEX IF NOT EXISTS idx_trades_entry_time ON trades(entry_time);
-`;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapDbToAccount(data: any): Account {
+  return {
+    id: data.id,
+    userId: data.user_id,
+    name: data.name,
+    broker: data.broker || '',
+    baseCurrency: data.base_currency || 'USD',
+    startingBalance: Number(data.starting_balance) || 0,
+    type: data.type || 'live',
+    createdAt: data.created_at,
+    updatedAt: data.updated_at,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapAccountToDb(account: Partial<Account>): any {
+  const dbAccount: Record<string, unknown> = {};
+
+  if (account.userId !== undefined) dbAccount.user_id = account.userId;
+  if (account.name !== undefined) dbAccount.name = account.name;
+  if (account.broker !== undefined) dbAccount.broker = account.broker;
+  if (account.baseCurrency !== undefined) dbAccount.base_currency = account.baseCurrency;
+  if (account.startingBalance !== undefined) dbAccount.starting_balance = account.startingBalance;
+  if (account.type !== undefined) dbAccount.type = account.type;
+
+  return dbAccount;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapDbToCashTransaction(data: any): CashTransaction {
+  return {
+    id: data.id,
+    userId: data.user_id,
+    accountId: data.account_id ?? null,
+    type: data.type,
+    amount: Number(data.amount) || 0,
+    currency: data.currency || 'USD',
+    time: data.time,
+    comment: data.comment || '',
+    sourceId: data.source_id ?? null,
+    importBatchId: data.import_batch_id ?? null,
+    createdAt: data.created_at,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapCashTransactionToDb(transaction: Partial<CashTransaction>): any {
+  const dbTransaction: Record<string, unknown> = {};
+
+  if (transaction.accountId !== undefined) dbTransaction.account_id = transaction.accountId;
+  if (transaction.type !== undefined) dbTransaction.type = transaction.type;
+  if (transaction.amount !== undefined) dbTransaction.amount = transaction.amount;
+  if (transaction.currency !== undefined) dbTransaction.currency = transaction.currency;
+  if (transaction.time !== undefined) dbTransaction.time = transaction.time;
+  if (transaction.comment !== undefined) dbTransaction.comment = transaction.comment;
+  if (transaction.sourceId !== undefined) dbTransaction.source_id = transaction.sourceId;
+  if (transaction.importBatchId !== undefined) dbTransaction.import_batch_id = transaction.importBatchId;
+
+  return dbTransaction;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapDbToImportBatch(data: any): ImportBatch {
+  return {
+    id: data.id,
+    userId: data.user_id,
+    accountId: data.account_id ?? null,
+    sourceFormat: data.source_format,
+    fileName: data.file_name || '',
+    rowCount: data.row_count || 0,
+    createdCount: data.created_count || 0,
+    updatedCount: data.updated_count || 0,
+    skippedCount: data.skipped_count || 0,
+    warnings: data.warnings || [],
+    createdAt: data.created_at,
+    rolledBackAt: data.rolled_back_at ?? null,
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapImportBatchToDb(batch: Partial<ImportBatch>): any {
+  const dbBatch: Record<string, unknown> = {};
+
+  if (batch.accountId !== undefined) dbBatch.account_id = batch.accountId;
+  if (batch.sourceFormat !== undefined) dbBatch.source_format = batch.sourceFormat;
+  if (batch.fileName !== undefined) dbBatch.file_name = batch.fileName;
+  if (batch.rowCount !== undefined) dbBatch.row_count = batch.rowCount;
+  if (batch.createdCount !== undefined) dbBatch.created_count = batch.createdCount;
+  if (batch.updatedCount !== undefined) dbBatch.updated_count = batch.updatedCount;
+  if (batch.skippedCount !== undefined) dbBatch.skipped_count = batch.skippedCount;
+  if (batch.warnings !== undefined) dbBatch.warnings = batch.warnings;
+  if (batch.createdAt !== undefined) dbBatch.created_at = batch.createdAt;
+  if (batch.rolledBackAt !== undefined) dbBatch.rolled_back_at = batch.rolledBackAt;
+
+  return dbBatch;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapDbToStrategy(data: any): PlaybookStrategy {
+  return {
+    id: data.id,
+    name: data.name,
+    description: data.description || '',
+    rules: data.rules || [],
+    entryConditions: data.entry_conditions || [],
+    exitConditions: data.exit_conditions || [],
+    riskManagement: data.risk_management || '',
+    timeframe: data.timeframe || '',
+    pairs: data.pairs || [],
+    notes: data.notes || '',
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function mapStrategyToDb(strategy: PlaybookStrategy): any {
+  return {
+    name: strategy.name,
+    description: strategy.description,
+    rules: strategy.rules,
+    entry_conditions: strategy.entryConditions,
+    exit_conditions: strategy.exitConditions,
+    risk_management: strategy.riskManagement,
+    timeframe: strategy.timeframe,
+    pairs: strategy.pairs,
+    notes: strategy.notes,
+    updated_at: new Date().toISOString(),
+  };
+}
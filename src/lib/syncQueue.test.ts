@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { trade } from '../test/fixtures';
+import * as supabaseApi from './supabase';
+import {
+  enqueueMutation,
+  getPendingClearVersion,
+  getPendingTradeIds,
+  getRejectedMutations,
+  getSyncState,
+  replayOutbox,
+} from './syncQueue';
+
+// The stores in memory: outbox entries get their seq like the real
+// auto-increment key, trades are keyed by id
+const stores = vi.hoisted(() => new Map<string, Map<unknown, unknown>>());
+
+vi.mock('./indexedDb', () => {
+  let seq = 0;
+  const store = (name: string) => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    return stores.get(name)!;
+  };
+  const put = (name: string, value: Record<string, unknown>, key?: unknown) => {
+    if (name === 'outbox' && value.seq === undefined) value = { ...value, seq: ++seq };
+    store(name).set(key ?? value.seq ?? value.id, value);
+  };
+  return {
+    STORES: { attachments: 'attachments', trades: 'trades', outbox: 'outbox', meta: 'meta' },
+    idbGet: async (name: string, key: unknown) => store(name).get(key),
+    idbGetAll: async (name: string) => [...store(name).values()],
+    idbPut: async (name: string, value: Record<string, unknown>, key?: unknown) => put(name, value, key),
+    idbPutMany: async (name: string, values: Record<string, unknown>[]) => values.forEach(value => put(name, value)),
+    idbDelete: async (name: string, key: unknown) => {
+      store(name).delete(key);
+    },
+  };
+});
+
+vi.mock('./supabase', () => ({
+  RequestError: class extends Error {},
+  insertTrades: vi.fn(),
+  saveTradeUpdate: vi.fn(),
+  removeTrades: vi.fn(),
+  removeAllTrades: vi.fn(),
+}));
+
+describe('getPendingTradeIds', () => {
+  beforeEach(() => stores.clear());
+
+  it('counts trades deleted locally as pending until the delete is sent', async () => {
+    await enqueueMutation('user', { type: 'upsert', trades: [trade({ id: 'created' })] });
+    await enqueueMutation('user', { type: 'update', id: 'edited', updates: { notes: 'x' }, baseVersion: 'v1' });
+    await enqueueMutation('user', { type: 'delete', id: 'deleted' });
+    await enqueueMutation('user', { type: 'deleteMany', ids: ['a', 'b'] });
+    await enqueueMutation('user', { type: 'deleteAll', before: '2024-02-01T00:00:00Z', ids: ['unsent'] });
+    await enqueueMutation('other-user', { type: 'delete', id: 'not-mine' });
+
+    expect([...(await getPendingTradeIds('user'))].sort()).toEqual(['a', 'b', 'created', 'deleted', 'edited', 'unsent']);
+    expect(await getPendingClearVersion('user')).toBe('2024-02-01T00:00:00Z');
+  });
+});
+
+describe('replayOutbox', () => {
+  beforeEach(() => stores.clear());
+
+  it('keeps an update made on an outdated version as a rejected change', async () => {
+    vi.mocked(supabaseApi.saveTradeUpdate).mockResolvedValueOnce(null);
+    await enqueueMutation('user', { type: 'update', id: 'trade-1', updates: { notes: 'offline edit' }, baseVersion: 'v1' });
+
+    const result = await replayOutbox('user');
+
+    expect(result).toMatchObject({ applied: 1, conflicts: 1, remaining: 0 });
+    const [rejected] = await getRejectedMutations('user');
+    expect(rejected.mutation).toMatchObject({ type: 'update', updates: { notes: 'offline edit' } });
+    expect(getSyncState().rejectedCount).toBe(1);
+  });
+});
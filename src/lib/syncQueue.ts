@@ -0,0 +1,290 @@
+import type { Trade } from '../types/trade';
+import * as supabaseApi from './supabase';
+import { idbGet, idbGetAll, idbPut, idbPutMany, idbDelete, STORES } from './indexedDb';
+
+// Durable outbox of trade mutations made by a signed-in user. Mutations are
+// applied locally first (see createSyncedTradeRepository) and replayed
+// against Supabase, in order, once the connection or the session is back.
+// A mutation leaves the outbox once applied, or once the server refuses it
+// or already has a newer version of the trade: those are kept aside and
+// shown as a sync error, so the change is never dropped unnoticed.
+
+export type PendingMutation =
+  | { type: 'upsert'; trades: Trade[] }
+  // baseVersion: server updatedAt of the trade the change was made on
+  | { type: 'update'; id: string; updates: Partial<Trade>; baseVersion: string }
+  | { type: 'delete'; id: string }
+  | { type: 'deleteMany'; ids: string[] }
+  // Trades up to the `before` version, and the given ones not sent yet
+  | { type: 'deleteAll'; before: string | null; ids: string[] };
+
+interface OutboxEntry {
+  seq?: number;
+  userId: string;
+  queuedAt: string;
+  attempts: number; // replays that failed on the server side
+  mutation: PendingMutation;
+}
+
+export interface RejectedMutation {
+  queuedAt: string;
+  rejectedAt: string;
+  reason: string;
+  mutation: PendingMutation;
+}
+
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline' | 'error';
+
+export interface SyncState {
+  status: SyncStatus;
+  pendingCount: number;
+  lastSyncedAt: string | null;
+  loadingHistory: boolean; // first download of the trade history in progress
+  rejectedCount: number; // mutations the server refused, until dismissed
+  lastError: string | null;
+}
+
+export interface ReplayResult {
+  applied: number;
+  conflicts: number; // changes skipped because the server copy had changed (kept as rejected)
+  remaining: number;
+  versions: Record<string, string>; // new server updatedAt of the trades written
+}
+
+let state: SyncState = {
+  status: 'synced',
+  pendingCount: 0,
+  lastSyncedAt: null,
+  loadingHistory: false,
+  rejectedCount: 0,
+  lastError: null,
+};
+const listeners = new Set<(state: SyncState) => void>();
+
+function setState(next: Partial<SyncState>) {
+  state = { ...state, ...next };
+  listeners.forEach(listener => listener(state));
+}
+
+export function getSyncState(): SyncState {
+  return state;
+}
+
+export function subscribeSyncState(listener: (state: SyncState) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function setLoadingHistory(loadingHistory: boolean) {
+  if (state.loadingHistory !== loadingHistory) setState({ loadingHistory });
+}
+
+export function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
+
+export function isNewer(a: string, b: string): boolean {
+  return new Date(a).getTime() > new Date(b).getTime();
+}
+
+async function getOutbox(userId: string): Promise<OutboxEntry[]> {
+  const entries = await idbGetAll<OutboxEntry>(STORES.outbox);
+  return entries
+    .filter(entry => entry.userId === userId)
+    .sort((a, b) => (a.seq || 0) - (b.seq || 0));
+}
+
+const rejectedKey = (userId: string) => `sync-rejected:${userId}`;
+
+export async function getRejectedMutations(userId: string): Promise<RejectedMutation[]> {
+  return (await idbGet<RejectedMutation[]>(STORES.meta, rejectedKey(userId))) || [];
+}
+
+async function recordRejection(userId: string, entry: OutboxEntry, reason: string) {
+  const rejected = await getRejectedMutations(userId);
+  await idbPut<RejectedMutation[]>(STORES.meta, [
+    ...rejected,
+    { queuedAt: entry.queuedAt, rejectedAt: new Date().toISOString(), reason, mutation: entry.mutation },
+  ], rejectedKey(userId));
+}
+
+export async function dismissRejectedMutations(userId: string): Promise<void> {
+  await idbDelete(STORES.meta, rejectedKey(userId));
+  setState({ rejectedCount: 0, lastError: null });
+}
+
+export async function enqueueMutation(userId: string, mutation: PendingMutation): Promise<void> {
+  await enqueueMutations(userId, [mutation]);
+}
+
+// Several mutations in one write, in order
+export async function enqueueMutations(userId: string, mutations: PendingMutation[]): Promise<void> {
+  const queuedAt = new Date().toISOString();
+  await idbPutMany<OutboxEntry>(STORES.outbox, mutations.map(mutation => ({ userId, queuedAt, attempts: 0, mutation })));
+  await refreshSyncState(userId);
+}
+
+// Trades created, changed or deleted locally that the server doesn't have
+// yet: server copies of them must not overwrite (or bring back) the local state
+export async function getPendingTradeIds(userId: string): Promise<Set<string>> {
+  const ids = new Set<string>();
+  for (const { mutation } of await getOutbox(userId)) {
+    switch (mutation.type) {
+      case 'upsert':
+        mutation.trades.forEach(trade => ids.add(trade.id));
+        break;
+      case 'update':
+      case 'delete':
+        ids.add(mutation.id);
+        break;
+      case 'deleteMany':
+      case 'deleteAll':
+        mutation.ids.forEach(id => ids.add(id));
+        break;
+    }
+  }
+  return ids;
+}
+
+// Newest server version a pending "delete all" covers: server trades up to
+// it are gone once the outbox is replayed
+export async function getPendingClearVersion(userId: string): Promise<string | null> {
+  return (await getOutbox(userId)).reduce<string | null>((latest, { mutation }) => {
+    if (mutation.type !== 'deleteAll' || !mutation.before) return latest;
+    return !latest || isNewer(mutation.before, latest) ? mutation.before : latest;
+  }, null);
+}
+
+export async function refreshSyncState(userId: string): Promise<SyncState> {
+  const pendingCount = (await getOutbox(userId)).length;
+  const rejectedCount = (await getRejectedMutations(userId)).length;
+  let status: SyncStatus;
+  if (!isOnline()) status = 'offline';
+  else if (pendingCount === 0) status = 'synced';
+  else status = state.status === 'error' ? 'error' : 'pending';
+
+  setState({ status, pendingCount, rejectedCount });
+  return state;
+}
+
+interface MutationResult {
+  conflicts: number;
+  versions: Record<string, string>;
+  lost?: string; // why the change itself could not be applied
+}
+
+// Send one mutation. Versions are the server's updated_at, so no device
+// clock is compared: an update only applies to the version it was made on,
+// and is skipped (counted as a conflict) when the trade was changed or
+// deleted elsewhere since. Throws when a request fails.
+async function replayMutation(mutation: PendingMutation): Promise<MutationResult> {
+  switch (mutation.type) {
+    case 'upsert': {
+      // Ids already on the server were sent by an earlier, interrupted replay
+      const versions = await supabaseApi.insertTrades(mutation.trades);
+      return { conflicts: mutation.trades.filter(trade => !versions[trade.id]).length, versions };
+    }
+    case 'update': {
+      const version = await supabaseApi.saveTradeUpdate(mutation.id, mutation.updates, mutation.baseVersion);
+      if (version) return { conflicts: 0, versions: { [mutation.id]: version } };
+      return { conflicts: 1, versions: {}, lost: 'The trade was changed or deleted on another device before this edit was sent' };
+    }
+    case 'delete':
+      await supabaseApi.removeTrades([mutation.id]);
+      return { conflicts: 0, versions: {} };
+    case 'deleteMany':
+      await supabaseApi.removeTrades(mutation.ids);
+      return { conflicts: 0, versions: {} };
+    case 'deleteAll':
+      if (mutation.before) await supabaseApi.removeAllTrades(mutation.before);
+      if (mutation.ids.length > 0) await supabaseApi.removeTrades(mutation.ids);
+      return { conflicts: 0, versions: {} };
+  }
+}
+
+// Later updates of a written trade were made on the version just replaced
+async function rebaseUpdates(entries: OutboxEntry[], versions: Record<string, string>) {
+  for (const entry of entries) {
+    const { mutation } = entry;
+    if (mutation.type !== 'update' || !versions[mutation.id]) continue;
+
+    entry.mutation = { ...mutation, baseVersion: versions[mutation.id] };
+    await idbPut<OutboxEntry>(STORES.outbox, entry);
+  }
+}
+
+let replaying: Promise<ReplayResult> | null = null;
+
+// Replay the user's outbox in order. Stops at the first failure so later
+// mutations never overtake the ones they depend on; a mutation the server
+// refused is set aside instead, since retrying it would fail the same way.
+export function replayOutbox(userId: string): Promise<ReplayResult> {
+  if (!replaying) {
+    replaying = replay(userId).finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+async function replay(userId: string): Promise<ReplayResult> {
+  const entries = await getOutbox(userId);
+  if (!isOnline()) {
+    setState({ status: 'offline', pendingCount: entries.length });
+    return { applied: 0, conflicts: 0, remaining: entries.length, versions: {} };
+  }
+
+  setState({ status: 'syncing', pendingCount: entries.length });
+
+  let applied = 0;
+  let conflicts = 0;
+  let failed = false;
+
+  let lastError = state.lastError;
+  const versions: Record<string, string> = {};
+
+  for (const [index, entry] of entries.entries()) {
+    try {
+      const result = await replayMutation(entry.mutation);
+      applied++;
+      conflicts += result.conflicts;
+      Object.assign(versions, result.versions);
+      if (result.lost) {
+        lastError = result.lost;
+        await recordRejection(userId, entry, result.lost);
+      }
+      await idbDelete(STORES.outbox, entry.seq!);
+      await rebaseUpdates(entries.slice(index + 1), result.versions);
+      continue;
+    } catch (error) {
+      const failure = error instanceof supabaseApi.RequestError ? error.failure : 'server';
+      lastError = error instanceof Error ? error.message : String(error);
+
+      if (failure === 'rejected') {
+        await recordRejection(userId, entry, lastError);
+        await idbDelete(STORES.outbox, entry.seq!);
+        continue;
+      }
+
+      // Lost connections and expired sessions don't count against the mutation
+      if (failure === 'server') {
+        await idbPut<OutboxEntry>(STORES.outbox, { ...entry, attempts: entry.attempts + 1 });
+      }
+      failed = true;
+      break;
+    }
+  }
+
+  const remaining = (await getOutbox(userId)).length;
+  setState({
+    status: !isOnline() ? 'offline' : failed ? 'error' : remaining > 0 ? 'pending' : 'synced',
+    pendingCount: remaining,
+    rejectedCount: (await getRejectedMutations(userId)).length,
+    lastError,
+    lastSyncedAt: failed ? state.lastSyncedAt : new Date().toISOString(),
+  });
+
+  return { applied, conflicts, remaining, versions };
+}
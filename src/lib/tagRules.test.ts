@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { trade as journalTrade } from '../test/fixtures';
+import { applyTagRules, ruleMatches, type RuleTrade, type TagRule } from './tagRules';
+
+// XAUUSD long won 10 points for 5 risked, a Friday at 13:00 UTC (London
+// and New York)
+const trade = (overrides: Partial<RuleTrade> = {}): RuleTrade => journalTrade({
+  symbol: 'XAUUSD',
+  entryPrice: 2000,
+  exitPrice: 2010,
+  entryTime: '2024-01-05T13:00:00.000Z',
+  exitTime: '2024-01-05T13:45:00.000Z',
+  stopLoss: 1995,
+  pnl: 1000,
+  ...overrides,
+});
+
+const rule = (conditions: TagRule['conditions'], overrides: Partial<TagRule> = {}): TagRule => ({
+  id: 'rule',
+  name: 'Rule',
+  enabled: true,
+  conditions,
+  tags: ['Tagged'],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('ruleMatches', () => {
+  it('matches symbols by pattern, and by substring without a wildcard', () => {
+    expect(ruleMatches(trade(), rule([{ field: 'symbol', operator: 'matches', value: 'XAU*' }]))).toBe(true);
+    expect(ruleMatches(trade(), rule([{ field: 'symbol', operator: 'matches', value: '*JPY, usd' }]))).toBe(true);
+    expect(ruleMatches(trade(), rule([{ field: 'symbol', operator: 'matches', value: 'USD*' }]))).toBe(false);
+    expect(ruleMatches(trade(), rule([{ field: 'symbol', operator: 'notMatches', value: 'XAG' }]))).toBe(true);
+  });
+
+  it('compares amounts, holding time and R-multiple', () => {
+    expect(ruleMatches(trade(), rule([{ field: 'pnl', operator: 'gt', value: '500' }]))).toBe(true);
+    expect(ruleMatches(trade({ pnl: -1500 }), rule([{ field: 'pnl', operator: 'absGt', value: '1000' }]))).toBe(true);
+    expect(ruleMatches(trade({ pnl: null }), rule([{ field: 'pnl', operator: 'lt', value: '0' }]))).toBe(false);
+    expect(ruleMatches(trade(), rule([{ field: 'holdingTime', operator: 'lt', value: '60' }]))).toBe(true);
+    // 10 points won for 5 risked
+    expect(ruleMatches(trade(), rule([{ field: 'rMultiple', operator: 'gt', value: '1.5' }]))).toBe(true);
+    expect(ruleMatches(trade({ stopLoss: null }), rule([{ field: 'rMultiple', operator: 'gt', value: '0' }]))).toBe(false);
+  });
+
+  it('checks the sessions of the entry in UTC', () => {
+    expect(ruleMatches(trade(), rule([{ field: 'session', operator: 'in', value: 'london' }]))).toBe(true);
+    expect(ruleMatches(trade(), rule([{ field: 'session', operator: 'in', value: 'asia, sydney' }]))).toBe(false);
+    expect(ruleMatches(trade({ entryTime: '2024-01-05T23:00:00.000Z' }), rule([{ field: 'session', operator: 'in', value: 'sydney' }]))).toBe(true);
+  });
+
+  it('needs every condition, and at least one', () => {
+    const both = rule([
+      { field: 'symbol', operator: 'matches', value: 'XAU' },
+      { field: 'pnl', operator: 'lt', value: '0' },
+    ]);
+    expect(ruleMatches(trade(), both)).toBe(false);
+    expect(ruleMatches(trade(), rule([]))).toBe(false);
+    expect(ruleMatches(trade(), rule([{ field: 'symbol', operator: 'matches', value: 'XAU' }], { enabled: false }))).toBe(false);
+  });
+});
+
+describe('applyTagRules', () => {
+  it('adds missing tags and lets the last matching strategy win', () => {
+    const rules = [
+      rule([{ field: 'symbol', operator: 'matches', value: 'XAU' }], { tags: ['Metals', 'Gold'], strategy: 'Trend' }),
+      rule([{ field: 'pnl', operator: 'gt', value: '0' }], { tags: ['Winner'], strategy: 'Breakout' }),
+    ];
+
+    const tagged = applyTagRules(trade({ tags: ['Gold'] }), rules);
+    expect(tagged.tags).toEqual(['Gold', 'Metals', 'Winner']);
+    expect(tagged.strategy).toBe('Breakout');
+  });
+
+  it('returns the trade itself when nothing changes', () => {
+    const unchanged = trade({ tags: ['Tagged'] });
+    expect(applyTagRules(unchanged, [rule([{ field: 'symbol', operator: 'matches', value: 'XAU' }])])).toBe(unchanged);
+  });
+});
@@ -0,0 +1,191 @@
+import type { Trade } from '../types/trade';
+
+// User-defined rules tagging trades: every condition of a rule must hold
+// for its tags to be added and its strategy set. Rules run on import and,
+// from the settings, over the trades already in the journal.
+
+export type RuleField = 'symbol' | 'pnl' | 'session' | 'holdingTime' | 'weekday' | 'rMultiple';
+export type RuleOperator = 'matches' | 'notMatches' | 'gt' | 'lt' | 'absGt' | 'in';
+
+// Values are kept as typed in the editor: "XAU*, XAG*", "5000", "london,newyork", "1,5"
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value: string;
+}
+
+export interface TagRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleCondition[];
+  tags: string[];
+  strategy?: string;
+  createdAt: string;
+}
+
+export type RuleTrade = Pick<Trade, 'symbol' | 'direction' | 'entryPrice' | 'exitPrice' | 'entryTime' | 'exitTime' | 'stopLoss' | 'pnl' | 'tags' | 'strategy'>;
+
+export const RULE_FIELDS: { field: RuleField; label: string; operators: RuleOperator[]; hint: string }[] = [
+  { field: 'symbol', label: 'Symbol', operators: ['matches', 'notMatches'], hint: 'Patterns, * for any text: XAU*, *JPY' },
+  { field: 'pnl', label: 'P&L', operators: ['gt', 'lt', 'absGt'], hint: 'In the trade currency' },
+  { field: 'session', label: 'Session', operators: ['in'], hint: 'Session of the entry' },
+  { field: 'holdingTime', label: 'Holding time', operators: ['gt', 'lt'], hint: 'In minutes' },
+  { field: 'weekday', label: 'Weekday', operators: ['in'], hint: 'Day of the entry' },
+  { field: 'rMultiple', label: 'R-multiple', operators: ['gt', 'lt'], hint: 'Result over the stop distance' },
+];
+
+export const RULE_OPERATORS: Record<RuleOperator, string> = {
+  matches: 'matches',
+  notMatches: 'does not match',
+  gt: 'above',
+  lt: 'below',
+  absGt: 'above (gain or loss)',
+  in: 'is one of',
+};
+
+// Market hours in UTC, without daylight saving shifts. Sessions overlap:
+// an entry at 13:00 UTC is both London and New York.
+export const TRADING_SESSIONS: { id: string; label: string; start: number; end: number }[] = [
+  { id: 'sydney', label: 'Sydney', start: 21, end: 6 },
+  { id: 'asia', label: 'Asia', start: 0, end: 9 },
+  { id: 'london', label: 'London', start: 7, end: 16 },
+  { id: 'newyork', label: 'New York', start: 12, end: 21 },
+];
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// "XAU*" -> /^XAU.*$/i; without a wildcard the symbol only has to contain the pattern
+function symbolPattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(pattern.includes('*') ? `^${escaped}$` : escaped, 'i');
+}
+
+function tradeSessions(entryTime: string): string[] {
+  const hour = new Date(entryTime).getUTCHours();
+  return TRADING_SESSIONS
+    .filter(session => session.start < session.end
+      ? hour >= session.start && hour < session.end
+      : hour >= session.start || hour < session.end)
+    .map(session => session.id);
+}
+
+// Price move over the stop distance: 2 for a trade closed twice as far as its stop
+export function rMultiple(trade: RuleTrade): number | null {
+  if (trade.stopLoss === null || trade.exitPrice === null) return null;
+  const risk = Math.abs(trade.entryPrice - trade.stopLoss);
+  if (risk === 0) return null;
+  const move = trade.direction === 'long' ? trade.exitPrice - trade.entryPrice : trade.entryPrice - trade.exitPrice;
+  return move / risk;
+}
+
+function compare(value: number | null, operator: RuleOperator, threshold: string): boolean {
+  const limit = parseFloat(threshold);
+  if (value === null || isNaN(limit)) return false;
+  switch (operator) {
+    case 'gt':
+      return value > limit;
+    case 'lt':
+      return value < limit;
+    case 'absGt':
+      return Math.abs(value) > limit;
+    default:
+      return false;
+  }
+}
+
+export function conditionMatches(trade: RuleTrade, { field, operator, value }: RuleCondition): boolean {
+  switch (field) {
+    case 'symbol': {
+      const matched = splitList(value).some(pattern => symbolPattern(pattern).test(trade.symbol));
+      return operator === 'notMatches' ? !matched : matched;
+    }
+    case 'pnl':
+      return compare(trade.pnl, operator, value);
+    case 'session': {
+      const sessions = tradeSessions(trade.entryTime);
+      return splitList(value).some(session => sessions.includes(session));
+    }
+    case 'holdingTime': {
+      const minutes = trade.exitTime ? (new Date(trade.exitTime).getTime() - new Date(trade.entryTime).getTime()) / 60000 : null;
+      return compare(minutes, operator, value);
+    }
+    case 'weekday':
+      // Days of the week as the journal shows them, in local time
+      return splitList(value).map(Number).includes(new Date(trade.entryTime).getDay());
+    case 'rMultiple':
+      return compare(rMultiple(trade), operator, value);
+  }
+}
+
+// A rule without conditions tags nothing rather than every trade
+export function ruleMatches(trade: RuleTrade, rule: TagRule): boolean {
+  return rule.enabled && rule.conditions.length > 0 && rule.conditions.every(condition => conditionMatches(trade, condition));
+}
+
+// Tags the matching rules would add, and the strategy they set (the last
+// matching rule setting one wins)
+export function ruleChanges(trade: RuleTrade, rules: TagRule[]): { tags: string[]; strategy: string | null } {
+  const tags: string[] = [];
+  let strategy: string | null = null;
+
+  for (const rule of rules.filter(candidate => ruleMatches(trade, candidate))) {
+    for (const tag of rule.tags) {
+      if (!trade.tags.includes(tag) && !tags.includes(tag)) tags.push(tag);
+    }
+    if (rule.strategy) strategy = rule.strategy;
+  }
+
+  return { tags, strategy: strategy !== null && strategy !== trade.strategy ? strategy : null };
+}
+
+export function applyTagRules<T extends RuleTrade>(trade: T, rules: TagRule[]): T {
+  const { tags, strategy } = ruleChanges(trade, rules);
+  if (tags.length === 0 && strategy === null) return trade;
+  return { ...trade, tags: [...trade.tags, ...tags], ...(strategy !== null && { strategy }) };
+}
+
+// Trades the rules would change, with what they would get
+export function previewTagRules<T extends RuleTrade>(trades: T[], rules: TagRule[]): { trade: T; tags: string[]; strategy: string | null }[] {
+  return trades
+    .map(trade => ({ trade, ...ruleChanges(trade, rules) }))
+    .filter(change => change.tags.length > 0 || change.strategy !== null);
+}
+
+const rule = (id: string, name: string, conditions: RuleCondition[], tags: string[]): TagRule => ({
+  id, name, enabled: true, conditions, tags, createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+// The tags TradingView imports used to get, as rules the user can change
+export const DEFAULT_TAG_RULES: TagRule[] = [
+  rule('big-trade', 'Big trade', [{ field: 'pnl', operator: 'absGt', value: '5000' }], ['Big Trade']),
+  rule('good-trade', 'Good trade', [{ field: 'pnl', operator: 'absGt', value: '1000' }], ['Good Trade']),
+  rule('metals', 'Metals', [{ field: 'symbol', operator: 'matches', value: 'XAU, XAG' }], ['Metals']),
+  rule('crypto', 'Crypto', [{ field: 'symbol', operator: 'matches', value: 'BTC, ETH, SOL, XRP, ADA' }], ['Crypto']),
+  rule('forex', 'Forex', [
+    { field: 'symbol', operator: 'matches', value: 'JPY, USD, EUR, GBP, CAD, AUD, CHF, NZD' },
+    { field: 'symbol', operator: 'notMatches', value: 'XAU, XAG' },
+  ], ['Forex']),
+];
+
+// Kept per device, like the CSV presets
+
+const RULES_KEY = 'tradezella_tag_rules';
+
+export function loadTagRules(): TagRule[] {
+  const stored = localStorage.getItem(RULES_KEY);
+  if (!stored) return DEFAULT_TAG_RULES;
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    return DEFAULT_TAG_RULES;
+  }
+}
+
+export function saveTagRules(rules: TagRule[]) {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+}
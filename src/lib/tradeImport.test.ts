@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { newTrade, trade } from '../test/fixtures';
+import type { Trade } from '../types/trade';
+import type { NewTrade } from './tradeRepository';
+import { classifyImport, contentSourceId, mergeImportedTrade } from './tradeImport';
+
+// A trade from an MT5 statement, and the journal copy of its first import
+const imported = (overrides: Partial<NewTrade> = {}) => newTrade({ accountId: 'acc', tags: ['MT5'], sourceId: 'mt5:1', ...overrides });
+const journal = (overrides: Partial<Trade> = {}) => trade({ ...imported(), ...overrides });
+
+describe('classifyImport', () => {
+  it('marks trades not in the journal as new', () => {
+    expect(classifyImport([imported()], []).map(row => row.status)).toEqual(['new']);
+  });
+
+  it('finds the same source id in the same account', () => {
+    const existing = journal({ notes: 'my notes' });
+    const [row] = classifyImport([imported()], [existing]);
+
+    expect(row.status).toBe('duplicate');
+    expect(row.existing).toBe(existing);
+  });
+
+  it('does not match a source id of another account', () => {
+    const [row] = classifyImport([imported()], [journal({ accountId: 'other' })]);
+    expect(row.status).toBe('new');
+  });
+
+  it('reports the broker fields the statement changes', () => {
+    const [row] = classifyImport([imported({ pnl: 480, exitPrice: 1.1048 })], [journal()]);
+
+    expect(row.status).toBe('conflict');
+    expect(row.changedFields).toEqual(['exitPrice', 'pnl']);
+  });
+
+  it('ignores fields the statement does not know', () => {
+    const [row] = classifyImport([imported({ stopLoss: null })], [journal({ stopLoss: 1.09 })]);
+    expect(row.status).toBe('duplicate');
+  });
+
+  it('marks the second copy of a trade in the same file as a duplicate', () => {
+    const rows = classifyImport([imported(), imported()], []);
+    expect(rows.map(row => row.status)).toEqual(['new', 'duplicate']);
+  });
+
+  it('falls back to the fingerprint for trades with another id scheme', () => {
+    const handEntered = journal({ sourceId: null });
+    const [row] = classifyImport([imported()], [handEntered]);
+    expect(row.existing).toBe(handEntered);
+
+    // Two tickets of the same platform are two trades, however alike
+    const [other] = classifyImport([imported({ sourceId: 'mt5:2' })], [journal()]);
+    expect(other.status).toBe('new');
+  });
+
+  it('gives trades without a source id a stable content id', () => {
+    const withoutId = imported({ sourceId: null });
+    expect(contentSourceId(withoutId)).toBe(contentSourceId({ ...withoutId, notes: 'changed' }));
+    expect(contentSourceId(withoutId)).not.toBe(contentSourceId({ ...withoutId, entryPrice: 1.2 }));
+  });
+});
+
+describe('mergeImportedTrade', () => {
+  it('updates broker fields and keeps what the user added', () => {
+    const updates = mergeImportedTrade(
+      journal({ notes: 'my notes', tags: ['A+ setup'], strategy: 'Breakout' }),
+      imported({ pnl: 480, tags: ['MT5', 'Imported'], notes: 'Import MT5 #1' }),
+    );
+
+    expect(updates.pnl).toBe(480);
+    expect(updates.tags).toEqual(['A+ setup', 'MT5', 'Imported']);
+    expect(updates).not.toHaveProperty('notes');
+    expect(updates).not.toHaveProperty('strategy');
+  });
+});
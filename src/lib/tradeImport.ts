@@ -0,0 +1,171 @@
+import type { EstimatedField, Trade } from '../types/trade';
+import type { NewTrade } from './tradeRepository';
+import { isEstimated } from './importDiagnostics';
+
+// Re-importing a statement must not duplicate trades nor overwrite what the
+// user added by hand. Each imported trade carries a sourceId (broker ticket,
+// or a content hash when the export has none) and is compared with the
+// journal before anything is written.
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'conflict';
+
+// Fields that come from the broker statement. Everything else (notes, tags,
+// strategy, screenshots) belongs to the user and survives a re-import.
+const BROKER_FIELDS = [
+  'symbol',
+  'direction',
+  'entryPrice',
+  'exitPrice',
+  'units',
+  'entryTime',
+  'exitTime',
+  'stopLoss',
+  'takeProfit',
+  'pnl',
+  'grossPnl',
+  'commission',
+  'swap',
+  'fees',
+  'status',
+] as const;
+
+export type BrokerField = typeof BROKER_FIELDS[number];
+
+const TIME_FIELDS = new Set<BrokerField>(['entryTime', 'exitTime']);
+
+export interface ImportRow {
+  trade: NewTrade; // as it will be saved
+  status: ImportRowStatus;
+  existing: Trade | null; // the journal trade it matched
+  changedFields: BrokerField[]; // conflict: where the statement disagrees
+}
+
+// Symbol, side, close time, entry price and size. Stable across exports of
+// the same trade, even when the entry time had to be estimated.
+export function tradeFingerprint(trade: Pick<Trade, 'symbol' | 'direction' | 'entryTime' | 'exitTime' | 'entryPrice' | 'units'>): string {
+  return [
+    trade.symbol.toUpperCase(),
+    trade.direction,
+    new Date(trade.exitTime || trade.entryTime).getTime(),
+    Number(trade.entryPrice).toFixed(6),
+    Number(trade.units).toFixed(6),
+  ].join('|');
+}
+
+// cyrb53: short, well-spread, synchronous (crypto.subtle is async)
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+export function contentSourceId(trade: NewTrade): string {
+  return `hash:${hashString(tradeFingerprint(trade))}`;
+}
+
+// Imported values never blank out a field: the statement only fills in
+// what it knows (e.g. no SL/TP without the TradingView journal).
+function isKnown(value: unknown): boolean {
+  return value !== null && value !== undefined;
+}
+
+// A guessed value (entry time without the order log) never replaces one
+// the journal already has for real
+function keepsExisting(field: BrokerField, existing: Trade, imported: NewTrade): boolean {
+  return isEstimated(imported, field as EstimatedField) && isKnown(existing[field]) && !isEstimated(existing, field as EstimatedField);
+}
+
+function sameValue(field: BrokerField, a: unknown, b: unknown): boolean {
+  if (!isKnown(b)) return true;
+  if (!isKnown(a)) return false;
+  if (TIME_FIELDS.has(field)) return new Date(a as string).getTime() === new Date(b as string).getTime();
+  // Prices and amounts are stored with 6 decimals
+  if (typeof a === 'number' || typeof b === 'number') return Number(a).toFixed(6) === Number(b).toFixed(6);
+  return a === b;
+}
+
+// "mt5", "tv", "hash"...
+function sourceScheme(sourceId: string): string {
+  return sourceId.split(':')[0];
+}
+
+function scopeKey(accountId: string | null | undefined, key: string): string {
+  return `${accountId || ''}|${key}`;
+}
+
+// Classify imported trades against the journal. Trades are matched within
+// the same account, by sourceId first, then by fingerprint (trades entered
+// before source ids existed, or imported with a different id scheme).
+export function classifyImport(imported: NewTrade[], existing: Trade[]): ImportRow[] {
+  const bySource = new Map<string, Trade>();
+  const byFingerprint = new Map<string, Trade>();
+  for (const trade of existing) {
+    if (trade.sourceId) bySource.set(scopeKey(trade.accountId, trade.sourceId), trade);
+    byFingerprint.set(scopeKey(trade.accountId, tradeFingerprint(trade)), trade);
+  }
+
+  const seen = new Set<string>();
+
+  return imported.map(trade => {
+    const sourceId = trade.sourceId || contentSourceId(trade);
+    const sourceKey = scopeKey(trade.accountId, sourceId);
+    const fingerprintKey = scopeKey(trade.accountId, tradeFingerprint(trade));
+
+    // Listed twice in the same file
+    if (seen.has(sourceKey)) {
+      return { trade, status: 'duplicate', existing: null, changedFields: [] };
+    }
+    seen.add(sourceKey);
+
+    // Two ids from the same scheme are two different trades
+    const similar = byFingerprint.get(fingerprintKey);
+    const fallback = similar && (!similar.sourceId || sourceScheme(similar.sourceId) !== sourceScheme(sourceId)) ? similar : null;
+
+    const match = bySource.get(sourceKey) || fallback;
+    if (!match) return { trade, status: 'new', existing: null, changedFields: [] };
+
+    const changedFields = BROKER_FIELDS.filter(field => !keepsExisting(field, match, trade) && !sameValue(field, match[field], trade[field]));
+    return {
+      trade,
+      status: changedFields.length > 0 ? 'conflict' : 'duplicate',
+      existing: match,
+      changedFields,
+    };
+  });
+}
+
+// Updates that bring a journal trade in line with the statement while
+// keeping the user's notes, tags, strategy and screenshots
+export function mergeImportedTrade(existing: Trade, imported: NewTrade): Partial<Trade> {
+  const updates: Partial<Trade> = {};
+  for (const field of BROKER_FIELDS) {
+    if (isKnown(imported[field]) && !keepsExisting(field, existing, imported)) Object.assign(updates, { [field]: imported[field] });
+  }
+
+  // Still a guess: estimated in the statement and not known before, or
+  // estimated before and not given by the statement
+  const estimatedFields = [...new Set([...(existing.estimatedFields || []), ...(imported.estimatedFields || [])])]
+    .filter(field => isEstimated(imported, field)
+      ? !isKnown(existing[field]) || isEstimated(existing, field)
+      : !isKnown(imported[field]) && isEstimated(existing, field));
+  if (estimatedFields.length !== (existing.estimatedFields || []).length || estimatedFields.some(field => !isEstimated(existing, field))) {
+    updates.estimatedFields = estimatedFields;
+  }
+
+  if (isKnown(imported.pnlPercent)) updates.pnlPercent = imported.pnlPercent;
+  if (imported.executions && imported.executions.length > 0) updates.executions = imported.executions;
+  if (imported.sourceId) updates.sourceId = imported.sourceId;
+
+  const tags = [...existing.tags, ...imported.tags.filter(tag => !existing.tags.includes(tag))];
+  if (tags.length !== existing.tags.length) updates.tags = tags;
+  if (!existing.notes && imported.notes) updates.notes = imported.notes;
+
+  return updates;
+}
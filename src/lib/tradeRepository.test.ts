@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import { newTrade, trade as journalTrade } from '../test/fixtures';
+import { applyTradeChange, createMemoryTradeRepository, type TradeChange } from './tradeRepository';
+
+// The in-memory backend never reaches Supabase; its client would need a
+// WebSocket to be created
+vi.mock('./supabase', () => ({}));
+
+describe('createMemoryTradeRepository', () => {
+  it('creates, reads, updates and deletes trades', async () => {
+    const repository = createMemoryTradeRepository();
+
+    const created = await repository.create(newTrade());
+    expect(created?.id).toBeTruthy();
+    expect(await repository.get(created!.id)).toEqual(created);
+
+    const updated = await repository.update(created!.id, { notes: 'Clean breakout' });
+    expect(updated?.notes).toBe('Clean breakout');
+    expect((await repository.list())[0].notes).toBe('Clean breakout');
+
+    expect(await repository.delete(created!.id)).toBe(true);
+    expect(await repository.list()).toEqual([]);
+    expect(await repository.update(created!.id, { notes: 'gone' })).toBeNull();
+  });
+
+  it('starts from the given trades and looks them up by source id', async () => {
+    const repository = createMemoryTradeRepository();
+    const [first, second] = await repository.bulkCreate([newTrade({ sourceId: 'mt5:1' }), newTrade({ sourceId: 'mt5:2' })]);
+    const copy = createMemoryTradeRepository(await repository.list());
+
+    expect(await copy.findBySourceIds(['mt5:2', 'mt5:3'])).toEqual([second]);
+    await copy.deleteMany([second.id]);
+    expect((await copy.list()).map(trade => trade.id)).toEqual([first.id]);
+    // The original is left alone
+    expect(await repository.list()).toHaveLength(2);
+  });
+
+  it('finds the trades an import created', async () => {
+    const repository = createMemoryTradeRepository();
+    const [imported] = await repository.bulkCreate([newTrade({ importBatchId: 'batch-1' }), newTrade({ importBatchId: 'batch-2' }), newTrade()]);
+
+    expect(await repository.findByImportBatch('batch-1')).toEqual([imported]);
+  });
+
+  it('tells subscribers what changed', async () => {
+    const repository = createMemoryTradeRepository();
+    const listener = vi.fn<(change: TradeChange) => void>();
+    const unsubscribe = repository.subscribe(listener);
+
+    const [trade] = await repository.bulkCreate([newTrade()]);
+    await repository.update(trade.id, { tags: ['A+'] });
+    await repository.deleteAll();
+    unsubscribe();
+    await repository.create(newTrade());
+
+    expect(listener.mock.calls.map(([change]) => change.type)).toEqual(['upsert', 'upsert', 'reset']);
+  });
+});
+
+describe('applyTradeChange', () => {
+  const trade = (id: string, notes = '') => journalTrade({ id, notes });
+
+  it('updates trades in place and puts new ones first', () => {
+    const result = applyTradeChange([trade('a'), trade('b')], { type: 'upsert', trades: [trade('b', 'edited'), trade('c')] });
+    expect(result.map(item => [item.id, item.notes])).toEqual([['c', ''], ['a', ''], ['b', 'edited']]);
+  });
+
+  it('removes deleted trades and replaces the list on reset', () => {
+    expect(applyTradeChange([trade('a'), trade('b')], { type: 'delete', ids: ['a'] }).map(item => item.id)).toEqual(['b']);
+    expect(applyTradeChange([trade('a')], { type: 'reset', trades: [] })).toEqual([]);
+  });
+});
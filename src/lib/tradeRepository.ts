@@ -0,0 +1,838 @@
+import type { Trade } from '../types/trade';
+import * as supabaseApi from './supabase';
+import { idbGet, idbGetAll, idbPut, idbPutMany, idbDelete, idbDeleteMany, STORES } from './indexedDb';
+import {
+  enqueueMutations,
+  replayOutbox,
+  getPendingTradeIds,
+  getPendingClearVersion,
+  refreshSyncState,
+  setLoadingHistory,
+  isOnline,
+  isNewer,
+  type PendingMutation,
+} from './syncQueue';
+
+export type NewTrade = Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Changes to one trade, for bulkUpdate
+export interface TradeUpdate {
+  id: string;
+  updates: Partial<Trade>;
+}
+
+// What changed in a repository, as seen by its subscribers.
+// `remote` marks changes made in another tab or on another device.
+export type TradeChange = (
+  | { type: 'upsert'; trades: Trade[] }
+  | { type: 'delete'; ids: string[] }
+  | { type: 'reset'; trades: Trade[] }
+) & { remote?: boolean };
+
+// Storage backend for trades. Mutations resolve to null / false on failure,
+// like the Supabase helpers, and notify subscribers when they succeed.
+export interface TradeRepository {
+  list(): Promise<Trade[]>;
+  get(id: string): Promise<Trade | null>;
+  // Trades carrying these source ids, looked up in the whole journal: the
+  // listed trades can be a part of it while the history is loading
+  findBySourceIds(sourceIds: string[]): Promise<Trade[]>;
+  // Trades created by an import, in the whole journal as well
+  findByImportBatch(batchId: string): Promise<Trade[]>;
+  create(trade: NewTrade): Promise<Trade | null>;
+  update(id: string, updates: Partial<Trade>): Promise<Trade | null>;
+  // Trades not found are left out of the result
+  bulkUpdate(changes: TradeUpdate[]): Promise<Trade[]>;
+  delete(id: string): Promise<boolean>;
+  deleteMany(ids: string[]): Promise<boolean>;
+  bulkCreate(trades: NewTrade[]): Promise<Trade[]>;
+  deleteAll(): Promise<boolean>;
+  subscribe(listener: (change: TradeChange) => void): () => void;
+}
+
+// Apply a change to a list of trades: updated trades stay in place, new ones go first
+export function applyTradeChange(trades: Trade[], change: TradeChange): Trade[] {
+  switch (change.type) {
+    case 'upsert': {
+      const changed = new Map(change.trades.map(trade => [trade.id, trade]));
+      const existing = new Set(trades.map(trade => trade.id));
+      const added = change.trades.filter(trade => !existing.has(trade.id));
+      return [...added, ...trades.map(trade => changed.get(trade.id) || trade)];
+    }
+    case 'delete': {
+      const ids = new Set(change.ids);
+      return trades.filter(trade => !ids.has(trade.id));
+    }
+    case 'reset':
+      return change.trades;
+  }
+}
+
+// Ids of already-known trades that a change modifies or removes
+export function describeTradeChange(trades: Trade[], change: TradeChange): { updated: string[]; deleted: string[] } {
+  const known = new Map(trades.map(trade => [trade.id, trade]));
+
+  switch (change.type) {
+    case 'upsert':
+      return { updated: change.trades.filter(trade => known.has(trade.id)).map(trade => trade.id), deleted: [] };
+    case 'delete':
+      return { updated: [], deleted: change.ids.filter(id => known.has(id)) };
+    case 'reset': {
+      const next = new Map(change.trades.map(trade => [trade.id, trade]));
+      return {
+        updated: change.trades.filter(trade => known.has(trade.id) && known.get(trade.id)!.updatedAt !== trade.updatedAt).map(trade => trade.id),
+        deleted: trades.filter(trade => !next.has(trade.id)).map(trade => trade.id),
+      };
+    }
+  }
+}
+
+// Changes that turn one full list into another, for backends that only see snapshots
+function diffTrades(prev: Trade[], next: Trade[]): TradeChange[] {
+  const before = new Map(prev.map(trade => [trade.id, trade]));
+  const nextIds = new Set(next.map(trade => trade.id));
+  const upserted = next.filter(trade => before.get(trade.id)?.updatedAt !== trade.updatedAt);
+  const deleted = prev.filter(trade => !nextIds.has(trade.id)).map(trade => trade.id);
+
+  const changes: TradeChange[] = [];
+  if (upserted.length > 0) changes.push({ type: 'upsert', trades: upserted, remote: true });
+  if (deleted.length > 0) changes.push({ type: 'delete', ids: deleted, remote: true });
+  return changes;
+}
+
+function buildTrade(trade: NewTrade): Trade {
+  const now = new Date().toISOString();
+  return {
+    ...trade,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+function sortByEntryTime(trades: Trade[]): Trade[] {
+  return trades.sort((a, b) => new Date(b.entryTime).getTime() - new Date(a.entryTime).getTime());
+}
+
+function createChangeEmitter() {
+  const listeners = new Set<(change: TradeChange) => void>();
+
+  return {
+    emit(change: TradeChange) {
+      listeners.forEach(listener => listener(change));
+    },
+    subscribe(listener: (change: TradeChange) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    get size() {
+      return listeners.size;
+    },
+  };
+}
+
+// Trades held in one array, read and written as a whole
+function createArrayRepository(load: () => Trade[], save: (trades: Trade[]) => void): TradeRepository {
+  const emitter = createChangeEmitter();
+
+  return {
+    async list() {
+      return load();
+    },
+
+    async get(id) {
+      return load().find(trade => trade.id === id) || null;
+    },
+
+    async findBySourceIds(sourceIds) {
+      const wanted = new Set(sourceIds);
+      return load().filter(trade => trade.sourceId && wanted.has(trade.sourceId));
+    },
+
+    async findByImportBatch(batchId) {
+      return load().filter(trade => trade.importBatchId === batchId);
+    },
+
+    async create(trade) {
+      const newTrade = buildTrade(trade);
+      save([newTrade, ...load()]);
+      emitter.emit({ type: 'upsert', trades: [newTrade] });
+      return newTrade;
+    },
+
+    async update(id, updates) {
+      const current = load().find(trade => trade.id === id);
+      if (!current) return null;
+
+      const updated = { ...current, ...updates, updatedAt: new Date().toISOString() };
+      save(load().map(trade => trade.id === id ? updated : trade));
+      emitter.emit({ type: 'upsert', trades: [updated] });
+      return updated;
+    },
+
+    async bulkUpdate(changes) {
+      const now = new Date().toISOString();
+      const byId = new Map(changes.map(change => [change.id, change.updates]));
+      const updated: Trade[] = [];
+      save(load().map(trade => {
+        const updates = byId.get(trade.id);
+        if (!updates) return trade;
+        const next = { ...trade, ...updates, updatedAt: now };
+        updated.push(next);
+        return next;
+      }));
+      if (updated.length > 0) emitter.emit({ type: 'upsert', trades: updated });
+      return updated;
+    },
+
+    async delete(id) {
+      save(load().filter(trade => trade.id !== id));
+      emitter.emit({ type: 'delete', ids: [id] });
+      return true;
+    },
+
+    async deleteMany(ids) {
+      const removed = new Set(ids);
+      save(load().filter(trade => !removed.has(trade.id)));
+      emitter.emit({ type: 'delete', ids });
+      return true;
+    },
+
+    async bulkCreate(trades) {
+      const created = trades.map(buildTrade);
+      save([...created, ...load()]);
+      emitter.emit({ type: 'upsert', trades: created });
+      return created;
+    },
+
+    async deleteAll() {
+      save([]);
+      emitter.emit({ type: 'reset', trades: [] });
+      return true;
+    },
+
+    subscribe: emitter.subscribe,
+  };
+}
+
+function parseTrades(stored: string | null): Trade[] {
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    return [];
+  }
+}
+
+// Guest trades, kept under the key the app has always used.
+// Other tabs' writes arrive through the `storage` event.
+export function createLocalStorageTradeRepository(key: string = 'tradezella_trades'): TradeRepository {
+  const repository = createArrayRepository(
+    () => parseTrades(localStorage.getItem(key)),
+    trades => {
+      if (trades.length === 0) {
+        localStorage.removeItem(key);
+      } else {
+        localStorage.setItem(key, JSON.stringify(trades));
+      }
+    }
+  );
+
+  return {
+    ...repository,
+    subscribe(listener) {
+      const unsubscribe = repository.subscribe(listener);
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key !== key) return;
+        diffTrades(parseTrades(event.oldValue), parseTrades(event.newValue)).forEach(listener);
+      };
+      window.addEventListener('storage', handleStorage);
+
+      return () => {
+        unsubscribe();
+        window.removeEventListener('storage', handleStorage);
+      };
+    },
+  };
+}
+
+// Keeps trades in memory only, for tests
+export function createMemoryTradeRepository(initialTrades: Trade[] = []): TradeRepository {
+  let trades = [...initialTrades];
+  return createArrayRepository(() => trades, updated => {
+    trades = updated;
+  });
+}
+
+interface TradeRecord {
+  id: string;
+  ownerId: string;
+  trade: Trade;
+}
+
+export interface IndexedDbTradeRepository extends TradeRepository {
+  // Store trades as given, keeping their ids and timestamps
+  putMany(trades: Trade[]): Promise<void>;
+  removeMany(ids: string[]): Promise<void>;
+  replaceAll(trades: Trade[]): Promise<void>;
+}
+
+// Trades of one owner (a user id, or 'guest') in the shared IndexedDB store.
+// Changes are announced to other tabs over a BroadcastChannel.
+export function createIndexedDbTradeRepository(ownerId: string = 'guest'): IndexedDbTradeRepository {
+  const emitter = createChangeEmitter();
+  const channel = typeof BroadcastChannel !== 'undefined'
+    ? new BroadcastChannel(`tradezen-trades:${ownerId}`)
+    : null;
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<TradeChange>) => {
+      emitter.emit({ ...event.data, remote: true });
+    };
+  }
+
+  const publish = (change: TradeChange) => {
+    emitter.emit(change);
+    channel?.postMessage(change);
+  };
+
+  const ownRecords = async () =>
+    (await idbGetAll<TradeRecord>(STORES.trades)).filter(record => record.ownerId === ownerId);
+
+  const putMany = (trades: Trade[]) =>
+    idbPutMany<TradeRecord>(STORES.trades, trades.map(trade => ({ id: trade.id, ownerId, trade })));
+
+  const get = async (id: string) => {
+    const record = await idbGet<TradeRecord>(STORES.trades, id);
+    return record && record.ownerId === ownerId ? record.trade : null;
+  };
+
+  const removeAll = async () => {
+    await idbDeleteMany(STORES.trades, (await ownRecords()).map(record => record.id));
+  };
+
+  return {
+    async list() {
+      return sortByEntryTime((await ownRecords()).map(record => record.trade));
+    },
+
+    get,
+
+    async findBySourceIds(sourceIds) {
+      const wanted = new Set(sourceIds);
+      return (await ownRecords()).map(record => record.trade).filter(trade => trade.sourceId && wanted.has(trade.sourceId));
+    },
+
+    async findByImportBatch(batchId) {
+      return (await ownRecords()).map(record => record.trade).filter(trade => trade.importBatchId === batchId);
+    },
+
+    async create(trade) {
+      const newTrade = buildTrade(trade);
+      await putMany([newTrade]);
+      publish({ type: 'upsert', trades: [newTrade] });
+      return newTrade;
+    },
+
+    async update(id, updates) {
+      const current = await get(id);
+      if (!current) return null;
+
+      const updated = { ...current, ...updates, updatedAt: new Date().toISOString() };
+      await putMany([updated]);
+      publish({ type: 'upsert', trades: [updated] });
+      return updated;
+    },
+
+    async bulkUpdate(changes) {
+      const now = new Date().toISOString();
+      const updated: Trade[] = [];
+      for (const { id, updates } of changes) {
+        const current = await get(id);
+        if (current) updated.push({ ...current, ...updates, updatedAt: now });
+      }
+      if (updated.length === 0) return updated;
+
+      await putMany(updated);
+      publish({ type: 'upsert', trades: updated });
+      return updated;
+    },
+
+    async delete(id) {
+      await idbDelete(STORES.trades, id);
+      publish({ type: 'delete', ids: [id] });
+      return true;
+    },
+
+    async deleteMany(ids) {
+      await idbDeleteMany(STORES.trades, ids);
+      publish({ type: 'delete', ids });
+      return true;
+    },
+
+    async bulkCreate(trades) {
+      const created = trades.map(buildTrade);
+      await putMany(created);
+      publish({ type: 'upsert', trades: created });
+      return created;
+    },
+
+    async deleteAll() {
+      await removeAll();
+      publish({ type: 'reset', trades: [] });
+      return true;
+    },
+
+    async putMany(trades) {
+      await putMany(trades);
+      publish({ type: 'upsert', trades });
+    },
+
+    async removeMany(ids) {
+      await idbDeleteMany(STORES.trades, ids);
+      publish({ type: 'delete', ids });
+    },
+
+    async replaceAll(trades) {
+      await removeAll();
+      await putMany(trades);
+      publish({ type: 'reset', trades });
+    },
+
+    subscribe: emitter.subscribe,
+  };
+}
+
+// Direct Supabase access, no local copy
+export function createSupabaseTradeRepository(): TradeRepository {
+  const emitter = createChangeEmitter();
+
+  return {
+    async list() {
+      const trades = await supabaseApi.fetchTrades();
+      if (!trades) throw new Error('Could not load trades');
+      return trades;
+    },
+
+    get: supabaseApi.fetchTrade,
+
+    async findBySourceIds(sourceIds) {
+      const trades = await supabaseApi.fetchTradesBySourceIds(sourceIds);
+      if (!trades) throw new Error('Could not look up trades');
+      return trades;
+    },
+
+    async findByImportBatch(batchId) {
+      const trades = await supabaseApi.fetchTradesByImportBatch(batchId);
+      if (!trades) throw new Error('Could not look up trades');
+      return trades;
+    },
+
+    async create(trade) {
+      const newTrade = await supabaseApi.createTrade(trade);
+      if (newTrade) emitter.emit({ type: 'upsert', trades: [newTrade] });
+      return newTrade;
+    },
+
+    async update(id, updates) {
+      const updated = await supabaseApi.updateTrade(id, updates);
+      if (updated) emitter.emit({ type: 'upsert', trades: [updated] });
+      return updated;
+    },
+
+    // PostgREST updates one set of values at a time: one request per trade,
+    // one notification for all
+    async bulkUpdate(changes) {
+      const updated: Trade[] = [];
+      for (const { id, updates } of changes) {
+        const trade = await supabaseApi.updateTrade(id, updates);
+        if (trade) updated.push(trade);
+      }
+      if (updated.length > 0) emitter.emit({ type: 'upsert', trades: updated });
+      return updated;
+    },
+
+    async delete(id) {
+      const success = await supabaseApi.deleteTrade(id);
+      if (success) emitter.emit({ type: 'delete', ids: [id] });
+      return success;
+    },
+
+    async deleteMany(ids) {
+      const success = await supabaseApi.deleteTrades(ids);
+      if (success) emitter.emit({ type: 'delete', ids });
+      return success;
+    },
+
+    async bulkCreate(trades) {
+      const created = await supabaseApi.bulkCreateTrades(trades);
+      if (created.length > 0) emitter.emit({ type: 'upsert', trades: created });
+      return created;
+    },
+
+    async deleteAll() {
+      const success = await supabaseApi.deleteAllTrades();
+      if (success) emitter.emit({ type: 'reset', trades: [] });
+      return success;
+    },
+
+    subscribe: emitter.subscribe,
+  };
+}
+
+// Offline-first repository for a signed-in user: reads and writes hit the
+// IndexedDB mirror, and each change is queued in the outbox for Supabase.
+// The mirror is filled page by page once, then kept current with changes
+// newer than the last pull (and realtime events while subscribed).
+// Mirrored trades keep the server's updatedAt, the version local edits are
+// made on; the sync cursor is a server time as well.
+export function createSyncedTradeRepository(userId: string): TradeRepository {
+  const local = createIndexedDbTradeRepository(userId);
+  const emitter = createChangeEmitter();
+  const cursorKey = `trades-cursor:${userId}`;
+
+  // updatedAt of mirrored trades, for all of them or only the given ids
+  const knownVersions = async (ids?: string[]) => {
+    const trades = ids
+      ? (await Promise.all(ids.map(id => local.get(id)))).filter((trade): trade is Trade => trade !== null)
+      : await local.list();
+    return new Map(trades.map(trade => [trade.id, trade.updatedAt]));
+  };
+
+  // Store server rows newer than the mirrored ones, except for trades with
+  // local changes (deletes included) waiting in the outbox
+  const mergeServerTrades = async (trades: Trade[], known: Map<string, string>) => {
+    const pending = await getPendingTradeIds(userId);
+    const clearedUpTo = await getPendingClearVersion(userId);
+    const fresh = trades.filter(trade => {
+      const localVersion = known.get(trade.id);
+      if (pending.has(trade.id) || (clearedUpTo && !isNewer(trade.updatedAt, clearedUpTo))) return false;
+      return !localVersion || isNewer(trade.updatedAt, localVersion);
+    });
+    if (fresh.length === 0) return;
+
+    await local.putMany(fresh);
+    emitter.emit({ type: 'upsert', trades: fresh, remote: true });
+  };
+
+  const removeFromMirror = async (ids: string[], known: Map<string, string>) => {
+    const present = ids.filter(id => known.has(id));
+    if (present.length === 0) return;
+
+    await local.removeMany(present);
+    emitter.emit({ type: 'delete', ids: present, remote: true });
+  };
+
+  // First sync: download the whole history, keyset page by keyset page
+  const pullAll = async (onFirstPage: () => void) => {
+    setLoadingHistory(true);
+    try {
+      // Changes made while paging come after the watermark, and are pulled next time
+      const watermark = await supabaseApi.fetchSyncWatermark();
+      if (!watermark) throw new Error('Could not load trades');
+      const known = await knownVersions();
+      const seen = new Set<string>();
+      let cursor: supabaseApi.TradeCursor | null = null;
+
+      do {
+        const page: supabaseApi.TradePage | null = await supabaseApi.fetchTradesPage(cursor);
+        if (!page) throw new Error('Could not load trades');
+
+        page.trades.forEach(trade => seen.add(trade.id));
+        await mergeServerTrades(page.trades, known);
+        onFirstPage();
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      // Drop mirrored trades the server no longer has, unless they are waiting to be sent
+      const pending = await getPendingTradeIds(userId);
+      await removeFromMirror([...known.keys()].filter(id => !seen.has(id) && !pending.has(id)), known);
+
+      await idbPut(STORES.meta, watermark, cursorKey);
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  // Later syncs: only rows updated or deleted since the last pull
+  const pullChanges = async (since: string) => {
+    const changes = await supabaseApi.fetchTradeChangesSince(since);
+    if (!changes) throw new Error('Could not load trade changes');
+
+    const known = await knownVersions([...changes.trades.map(trade => trade.id), ...changes.deletedIds]);
+    await mergeServerTrades(changes.trades, known);
+    await removeFromMirror(changes.deletedIds, known);
+
+    if (changes.cursor && isNewer(changes.cursor, since)) {
+      await idbPut(STORES.meta, changes.cursor, cursorKey);
+    }
+  };
+
+  // Written trades take the version the server gave them
+  const adoptServerVersions = async (versions: Record<string, string>) => {
+    const ids = Object.keys(versions);
+    if (ids.length === 0) return;
+
+    const trades = (await Promise.all(ids.map(id => local.get(id))))
+      .filter((trade): trade is Trade => trade !== null && trade.updatedAt !== versions[trade.id])
+      .map(trade => ({ ...trade, updatedAt: versions[trade.id] }));
+    if (trades.length > 0) await local.putMany(trades);
+  };
+
+  const replay = async () => {
+    const result = await replayOutbox(userId);
+    await adoptServerVersions(result.versions);
+    return result;
+  };
+
+  let refreshing: Promise<void> | null = null;
+  let firstPage: Promise<void> = Promise.resolve();
+
+  // Send pending changes, then pull what changed on the server
+  const refresh = () => {
+    if (!refreshing) {
+      let markFirstPage = () => {};
+      firstPage = new Promise(resolve => {
+        markFirstPage = resolve;
+      });
+
+      refreshing = (async () => {
+        await replay();
+        if (isOnline()) {
+          const since = await idbGet<string>(STORES.meta, cursorKey);
+          if (since) {
+            await pullChanges(since);
+          } else {
+            await pullAll(markFirstPage);
+          }
+        }
+        await refreshSyncState(userId);
+      })()
+        .catch(error => console.error('Error refreshing trades:', error))
+        .finally(() => {
+          markFirstPage();
+          refreshing = null;
+        });
+    }
+    return refreshing;
+  };
+
+  // Pull again when the server kept newer versions of some trades; the
+  // local edits they replace are listed as rejected changes
+  const flush = async () => {
+    const result = await replay();
+    if (result.conflicts > 0) await refresh();
+  };
+
+  const record = async (mutation: PendingMutation | PendingMutation[], change: TradeChange) => {
+    await enqueueMutations(userId, Array.isArray(mutation) ? mutation : [mutation]);
+    emitter.emit(change);
+    flush().catch(error => console.error('Error syncing trades:', error));
+  };
+
+  // Merge a change pushed by Supabase realtime into the mirror
+  const applyRealtimeEvent = async (event: supabaseApi.RealtimeTradeEvent) => {
+    if (event.type === 'upsert') {
+      const current = await local.get(event.trade.id);
+      // Versions already mirrored, and local edits not sent yet, are not overwritten
+      if (current && !isNewer(event.trade.updatedAt, current.updatedAt)) return;
+      if ((await getPendingTradeIds(userId)).has(event.trade.id)) return;
+
+      await local.putMany([event.trade]);
+      emitter.emit({ type: 'upsert', trades: [event.trade], remote: true });
+    } else {
+      if (!(await local.get(event.id))) return;
+
+      await local.delete(event.id);
+      emitter.emit({ type: 'delete', ids: [event.id], remote: true });
+    }
+  };
+
+  // Background sync runs while someone is subscribed
+  let stopWatching: (() => void) | null = null;
+
+  const startWatching = () => {
+    const stopRealtime = supabaseApi.subscribeToTradeChanges(userId, event => {
+      applyRealtimeEvent(event).catch(error => console.error('Error applying realtime change:', error));
+    });
+    // Other tabs share the mirror and announce their writes
+    const stopTabs = local.subscribe(change => {
+      if (change.remote) emitter.emit(change);
+    });
+
+    const handleOnline = () => {
+      refresh();
+    };
+    const handleOffline = () => {
+      refreshSyncState(userId);
+    };
+    const retry = setInterval(() => {
+      if (isOnline()) flush().catch(error => console.error('Error syncing trades:', error));
+    }, 30000);
+    const { data: { subscription } } = supabaseApi.supabase.auth.onAuthStateChange((event) => {
+      if (event === 'TOKEN_REFRESHED') handleOnline();
+    });
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      stopRealtime();
+      stopTabs();
+      clearInterval(retry);
+      subscription.unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  };
+
+  return {
+    async list() {
+      const cached = await local.list();
+      refresh();
+      if (cached.length > 0) return cached;
+
+      // Nothing to show yet: wait for the first page from the server
+      await firstPage;
+      return local.list();
+    },
+
+    get: local.get,
+
+    // The mirror has the local changes; the server has the trades not paged
+    // in yet. Offline, the mirror is all there is: a trade imported twice is
+    // then refused by the source id index and reported as a rejected change.
+    async findBySourceIds(sourceIds) {
+      const mirrored = await local.findBySourceIds(sourceIds);
+      const remote = sourceIds.length > 0 && isOnline() ? await supabaseApi.fetchTradesBySourceIds(sourceIds) : null;
+      const pending = await getPendingTradeIds(userId);
+      const known = new Set(mirrored.map(trade => trade.id));
+      return [...mirrored, ...(remote || []).filter(trade => !known.has(trade.id) && !pending.has(trade.id))];
+    },
+
+    // The mirror, and the server when online; a rollback must not miss the
+    // trades not paged in yet, so a failed lookup throws
+    async findByImportBatch(batchId) {
+      const mirrored = await local.findByImportBatch(batchId);
+      const remote = isOnline() ? await supabaseApi.fetchTradesByImportBatch(batchId) : [];
+      if (!remote) throw new Error('Could not look up trades');
+      const pending = await getPendingTradeIds(userId);
+      const known = new Set(mirrored.map(trade => trade.id));
+      return [...mirrored, ...remote.filter(trade => !known.has(trade.id) && !pending.has(trade.id))];
+    },
+
+    async create(trade) {
+      const newTrade = buildTrade(trade);
+      await local.putMany([newTrade]);
+      await record({ type: 'upsert', trades: [newTrade] }, { type: 'upsert', trades: [newTrade] });
+      return newTrade;
+    },
+
+    async update(id, updates) {
+      const current = await local.get(id);
+      if (!current) return null;
+
+      // updatedAt stays the server version the change is made on
+      const { updatedAt: _updatedAt, ...changes } = updates;
+      const updated = { ...current, ...changes };
+      await local.putMany([updated]);
+      await record({ type: 'update', id, updates: changes, baseVersion: current.updatedAt }, { type: 'upsert', trades: [updated] });
+      return updated;
+    },
+
+    // One outbox write and one notification; each trade keeps its own
+    // conditional update on the server
+    async bulkUpdate(changes) {
+      const mutations: PendingMutation[] = [];
+      const updated: Trade[] = [];
+      for (const { id, updates } of changes) {
+        const current = await local.get(id);
+        if (!current) continue;
+        const { updatedAt: _updatedAt, ...fields } = updates;
+        mutations.push({ type: 'update', id, updates: fields, baseVersion: current.updatedAt });
+        updated.push({ ...current, ...fields });
+      }
+      if (updated.length === 0) return updated;
+
+      await local.putMany(updated);
+      await record(mutations, { type: 'upsert', trades: updated });
+      return updated;
+    },
+
+    async delete(id) {
+      await local.delete(id);
+      await record({ type: 'delete', id }, { type: 'delete', ids: [id] });
+      return true;
+    },
+
+    async deleteMany(ids) {
+      if (ids.length === 0) return true;
+      await local.removeMany(ids);
+      await record({ type: 'deleteMany', ids }, { type: 'delete', ids });
+      return true;
+    },
+
+    async bulkCreate(trades) {
+      const created = trades.map(buildTrade);
+      if (created.length === 0) return created;
+
+      await local.putMany(created);
+      await record({ type: 'upsert', trades: created }, { type: 'upsert', trades: created });
+      return created;
+    },
+
+    async deleteAll() {
+      // Trades created or edited on another device after the newest version
+      // mirrored here survive the replay; local ones not sent yet go by id
+      const pending = await getPendingTradeIds(userId);
+      const versions = [...(await knownVersions()).entries()]
+        .filter(([id]) => !pending.has(id))
+        .map(([, version]) => version);
+      const before = versions.reduce<string | null>(
+        (latest, version) => (!latest || isNewer(version, latest) ? version : latest),
+        (await idbGet<string>(STORES.meta, cursorKey)) || null
+      );
+
+      await local.deleteAll();
+      await record({ type: 'deleteAll', before, ids: [...pending] }, { type: 'reset', trades: [] });
+      return true;
+    },
+
+    subscribe(listener) {
+      const unsubscribe = emitter.subscribe(listener);
+      if (!stopWatching) stopWatching = startWatching();
+
+      return () => {
+        unsubscribe();
+        if (emitter.size === 0 && stopWatching) {
+          stopWatching();
+          stopWatching = null;
+        }
+      };
+    },
+  };
+}
+
+const repositories = new Map<string, TradeRepository>();
+let overrideRepository: TradeRepository | null = null;
+
+// Replace the backend (e.g. with createMemoryTradeRepository() in tests).
+// Pass null to go back to picking one from the auth state.
+export function setTradeRepository(repository: TradeRepository | null) {
+  overrideRepository = repository;
+}
+
+// Signed-in users get the synced repository, guests keep using localStorage
+export function getTradeRepository(userId: string | null): TradeRepository {
+  if (overrideRepository) return overrideRepository;
+
+  const key = userId || 'guest';
+  let repository = repositories.get(key);
+  if (!repository) {
+    repository = userId ? createSyncedTradeRepository(userId) : createLocalStorageTradeRepository();
+    repositories.set(key, repository);
+  }
+  return repository;
+}
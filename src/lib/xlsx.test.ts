@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { readXlsxTable } from './xlsx';
+
+// Zip archive of the given parts, deflated like Excel does. The reader
+// does not check CRCs, so they are left at 0.
+async function zip(parts: Record<string, string>): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  const directory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(parts)) {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const stream = new Blob([raw]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    const data = new Uint8Array(await new Response(stream).arrayBuffer());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, 8, true);
+    local.setUint32(18, data.byteLength, true);
+    local.setUint32(22, raw.byteLength, true);
+    local.setUint16(26, nameBytes.byteLength, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, 8, true);
+    central.setUint32(20, data.byteLength, true);
+    central.setUint32(24, raw.byteLength, true);
+    central.setUint16(28, nameBytes.byteLength, true);
+    central.setUint32(42, offset, true);
+
+    chunks.push(new Uint8Array(local.buffer), nameBytes, data);
+    directory.push(new Uint8Array(central.buffer), nameBytes);
+    offset += 30 + nameBytes.byteLength + data.byteLength;
+  }
+
+  const size = directory.reduce((sum, part) => sum + part.byteLength, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Object.keys(parts).length, true);
+  end.setUint16(10, Object.keys(parts).length, true);
+  end.setUint32(12, size, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...chunks, ...directory, new Uint8Array(end.buffer)]);
+}
+
+// cTrader-like history: a title row, the header, then one row per position
+// with a date cell (style 1) and the symbol from the shared strings
+const ROWS = 2000;
+const strings = ['Trade history', 'Position ID', 'Symbol', 'Closing Time', 'Net', 'EURUSD'];
+const sheetRows = [
+  '<row r="1"><c r="A1" t="s"><v>0</v></c></row>',
+  '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3" t="s"><v>2</v></c><c r="C3" t="s"><v>3</v></c><c r="D3" t="s"><v>4</v></c></row>',
+  ...Array.from({ length: ROWS }, (_, i) =>
+    `<row r="${i + 4}"><c r="A${i + 4}"><v>${1000 + i}</v></c><c r="B${i + 4}" t="s"><v>5</v></c><c r="C${i + 4}" s="1"><v>45356.5</v></c><c r="D${i + 4}"><v>${(i % 7) - 3}.5</v></c></row>`),
+];
+
+const workbook = zip({
+  'xl/workbook.xml': '<workbook><sheets><sheet name="History" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+  'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${sheetRows.join('')}</sheetData></worksheet>`,
+  'xl/sharedStrings.xml': `<sst>${strings.map(text => `<si><t>${text}</t></si>`).join('')}</sst>`,
+  'xl/styles.xml': '<styleSheet><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="22"/></cellXfs></styleSheet>',
+});
+
+describe('readXlsxTable', () => {
+  it('reads the first sheet below its title rows', async () => {
+    const table = await readXlsxTable(await (await workbook).arrayBuffer());
+
+    expect(table.headers).toEqual(['Position ID', 'Symbol', 'Closing Time', 'Net']);
+    expect(table.rows).toHaveLength(ROWS);
+    expect(table.rows[0]).toEqual(['1000', 'EURUSD', '2024-03-05 12:00:00', '-3.5']);
+    expect(table.lines?.[0]).toBe(4);
+  });
+
+  it('reads only the start of the sheet for a sample', async () => {
+    const table = await readXlsxTable(await workbook, 4096);
+
+    expect(table.headers).toEqual(['Position ID', 'Symbol', 'Closing Time', 'Net']);
+    expect(table.rows.length).toBeGreaterThan(10);
+    expect(table.rows.length).toBeLessThan(ROWS);
+    // The row cut by the sample is left out, not read half
+    expect(table.rows.every(cells => cells.length === 4)).toBe(true);
+  });
+});
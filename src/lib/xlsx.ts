@@ -0,0 +1,201 @@
+import { readCsvFile, type CsvTable } from './genericCsv';
+import { readBytes, type ReadProgress } from './streamFile';
+import { openZip } from './zip';
+import { readXmlElements, scanMarkup } from './markup';
+
+// Minimal reader for broker history exports saved as .xlsx: the first
+// worksheet as a table of strings, the same shape as a parsed CSV.
+// An .xlsx file is a zip of XML parts, read without DOMParser so that it
+// runs in the import worker.
+
+// Built-in number formats that display a date or time
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Style indexes (the s attribute of a cell) whose number format is a date
+function dateStyles(styles: string | null): Set<number> {
+  const result = new Set<number>();
+  if (!styles) return result;
+
+  const customDates = new Set<number>();
+  let inCellXfs = false;
+  let xfIndex = 0;
+  scanMarkup(styles, {
+    open: (name, attributes, selfClosing) => {
+      if (name === 'numFmt') {
+        // Quoted literals and [colors] can contain letters that are not date codes
+        const code = (attributes.formatCode || '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+        if (/[dmyhs]/i.test(code)) customDates.add(Number(attributes.numFmtId));
+      } else if (name === 'cellXfs' && !selfClosing) {
+        inCellXfs = true;
+      } else if (name === 'xf' && inCellXfs) {
+        const id = Number(attributes.numFmtId);
+        if (DATE_FORMAT_IDS.has(id) || customDates.has(id)) result.add(xfIndex);
+        xfIndex++;
+      }
+    },
+    close: name => {
+      if (name === 'cellXfs') inCellXfs = false;
+    },
+  });
+
+  return result;
+}
+
+// Excel counts days from 1899-12-30; times are the fraction of a day.
+// Written without a zone, like the exports' own text dates.
+function serialToDate(serial: number): string {
+  const date = new Date(Math.round((serial - 25569) * 86400) * 1000);
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+// "C12" -> 2
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '');
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+// Text of each <si> of the shared strings; rich text keeps its runs in separate <t> elements
+function readSharedStrings(xml: string | null): string[] {
+  const strings: string[] = [];
+  if (!xml) return strings;
+
+  let runs: string[] | null = null;
+  let inText = false;
+  scanMarkup(xml, {
+    open: (name, _attributes, selfClosing) => {
+      if (name === 'si' && selfClosing) strings.push('');
+      else if (name === 'si') runs = [];
+      else if (name === 't' && !selfClosing) inText = true;
+    },
+    close: name => {
+      if (name === 't') inText = false;
+      else if (name === 'si' && runs) {
+        strings.push(runs.join(''));
+        runs = null;
+      }
+    },
+    text: text => {
+      if (inText && runs) runs.push(text);
+    },
+  });
+  return strings;
+}
+
+interface SheetCell {
+  reference: string | undefined;
+  type: string | undefined;
+  style: string | undefined;
+  value: string[];
+  inline: string[];
+}
+
+// Rows of the worksheet with their row number (r), cells at their column
+function readSheetRows(xml: string, sharedStrings: string[], dates: Set<number>): { cells: string[]; line: number }[] {
+  const rows: { cells: string[]; line: number }[] = [];
+  let row: { cells: string[]; line: number; position: number } | null = null;
+  let cell: SheetCell | null = null;
+  let target: 'value' | 'inline' | null = null;
+
+  const closeCell = () => {
+    if (!cell || !row) return;
+    const { reference, type, style } = cell;
+    const value = cell.value.join('');
+    const index = reference ? columnIndex(reference) : row.position;
+    row.position = index + 1;
+
+    let text: string;
+    if (type === 's') text = sharedStrings[Number(value)] || '';
+    else if (type === 'inlineStr') text = cell.inline.join('');
+    else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+    else if (!type && value && dates.has(Number(style))) text = serialToDate(Number(value));
+    else text = value;
+
+    while (row.cells.length < index) row.cells.push('');
+    row.cells[index] = text;
+    cell = null;
+  };
+
+  scanMarkup(xml, {
+    open: (name, attributes, selfClosing) => {
+      if (name === 'row') {
+        row = { cells: [], line: Number(attributes.r) || rows.length + 1, position: 0 };
+        rows.push(row);
+      } else if (name === 'c') {
+        cell = { reference: attributes.r, type: attributes.t, style: attributes.s, value: [], inline: [] };
+        if (selfClosing) closeCell();
+      } else if (name === 'v' && !selfClosing) {
+        target = 'value';
+      } else if (name === 't' && !selfClosing && cell) {
+        target = 'inline';
+      }
+    },
+    close: name => {
+      if (name === 'v' || name === 't') target = null;
+      else if (name === 'c') closeCell();
+      else if (name === 'row') row = null;
+    },
+    text: text => {
+      if (cell && target) cell[target].push(text);
+    },
+  });
+
+  return rows.map(({ cells, line }) => ({ cells, line }));
+}
+
+// sampleSize: read only about that much of the sheet and of its strings,
+// from a file sliced rather than read whole. Enough for the header and the
+// first rows, which is what format detection looks at; strings past the
+// sample come out empty.
+export async function readXlsxTable(source: ArrayBuffer | Blob, sampleSize?: number): Promise<CsvTable> {
+  const archive = await openZip(source, 'XLSX');
+  const decoder = new TextDecoder();
+  const read = async (name: string, limit?: number) => {
+    const bytes = await archive.read(name, limit);
+    return bytes ? decoder.decode(bytes) : null;
+  };
+
+  // First sheet of the workbook, through its relationship id
+  const workbook = await read('xl/workbook.xml');
+  const rels = await read('xl/_rels/workbook.xml.rels');
+  const sheetId = workbook ? readXmlElements(workbook, ['sheet']).sheet[0]?.['r:id'] : undefined;
+  const target = rels
+    ? readXmlElements(rels, ['Relationship']).Relationship.find(rel => rel.Id === sheetId)?.Target
+    : undefined;
+  const sheetPath = target ? `xl/${target.replace(/^\/?xl\//, '')}` : 'xl/worksheets/sheet1.xml';
+
+  const sheet = await read(sheetPath, sampleSize) || await read('xl/worksheets/sheet1.xml', sampleSize);
+  if (!sheet) throw new Error('Aucune feuille trouvée dans le fichier XLSX');
+
+  const sharedStrings = readSharedStrings(await read('xl/sharedStrings.xml', sampleSize));
+  const dates = dateStyles(await read('xl/styles.xml'));
+
+  // Row numbers (r) skip empty rows; they are the lines shown in Excel
+  const rows = readSheetRows(sheet, sharedStrings, dates);
+  // A sample cut in the middle of the sheet ends with a partial row
+  if (sampleSize !== undefined && !sheet.includes('</sheetData>')) rows.pop();
+
+  // Title lines above the table have fewer cells than the header row
+  const widest = Math.max(0, ...rows.map(({ cells }) => cells.filter(Boolean).length));
+  const headerIndex = rows.findIndex(({ cells }) => cells.filter(Boolean).length === widest);
+  const start = Math.max(0, headerIndex);
+  const [{ cells: headers } = { cells: [] }] = rows.slice(start);
+  const body = rows.slice(start + 1).filter(({ cells }) => cells.some(Boolean));
+
+  return {
+    headers: headers.map(header => header.trim()),
+    rows: body.map(({ cells }) => cells),
+    lines: body.map(({ line }) => line),
+  };
+}
+
+// Broker exports come as CSV or XLSX depending on the platform and version
+export async function readSpreadsheetFile(file: File, onProgress?: ReadProgress, signal?: AbortSignal): Promise<CsvTable> {
+  if (isXlsxFile(file)) return readXlsxTable(await readBytes(file, onProgress, signal));
+  return readCsvFile(file, onProgress, signal);
+}
+
+export function isXlsxFile(file: File): boolean {
+  return /\.xlsx$/i.test(file.name);
+}
@@ -0,0 +1,138 @@
+// Minimal zip reader: the parts of an .xlsx workbook, and the exports
+// dropped as a .zip archive. The browser inflates the entries.
+
+interface ZipEntry {
+  name: string;
+  method: number; // 0 stored, 8 deflate
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  names: string[];
+  // limit: stop inflating once that many bytes are out (the start of a
+  // large part is enough to recognise a file)
+  read(name: string, limit?: number): Promise<Uint8Array | null>;
+}
+
+// The archive as bytes already read, or as a file read in slices: only
+// the central directory and the entries asked for are then read
+type ZipSource = ArrayBuffer | Blob;
+
+async function readRange(source: ZipSource, start: number, end: number): Promise<DataView> {
+  if (source instanceof Blob) return new DataView(await source.slice(start, end).arrayBuffer());
+  return new DataView(source, start, Math.min(end, source.byteLength) - start);
+}
+
+function sourceSize(source: ZipSource): number {
+  return source instanceof Blob ? source.size : source.byteLength;
+}
+
+// kind names the file in error messages: "XLSX", "ZIP"
+async function readZipEntries(source: ZipSource, kind: string): Promise<ZipEntry[]> {
+  // End of central directory record, found from the end (it may be followed by a comment)
+  const tailStart = Math.max(0, sourceSize(source) - 22 - 0xffff);
+  const tail = await readRange(source, tailStart, sourceSize(source));
+  let end = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error(`Fichier ${kind} invalide`);
+
+  const count = tail.getUint16(end + 10, true);
+  const size = tail.getUint32(end + 12, true);
+  const directoryStart = tail.getUint32(end + 16, true);
+  const data = await readRange(source, directoryStart, directoryStart + size);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.byteLength || data.getUint32(offset, true) !== 0x02014b50) throw new Error(`Fichier ${kind} invalide`);
+    const nameLength = data.getUint16(offset + 28, true);
+    const extraLength = data.getUint16(offset + 30, true);
+    const commentLength = data.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(new Uint8Array(data.buffer, data.byteOffset + offset + 46, nameLength)),
+      method: data.getUint16(offset + 10, true),
+      compressedSize: data.getUint32(offset + 20, true),
+      localHeaderOffset: data.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+// Chunks of the stream until limit bytes, then the rest is not read
+async function readStream(stream: ReadableStream<Uint8Array>, limit: number): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  while (length < limit) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.byteLength;
+  }
+  if (length >= limit) await reader.cancel();
+
+  const bytes = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, position);
+    position += chunk.byteLength;
+  }
+  return bytes;
+}
+
+async function readZipEntry(source: ZipSource, entry: ZipEntry, kind: string, limit = Infinity): Promise<Uint8Array> {
+  const header = await readRange(source, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  const start = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const compressed = source instanceof Blob
+    ? source.slice(start, start + entry.compressedSize)
+    : new Blob([new Uint8Array(source, start, entry.compressedSize).slice()]);
+
+  if (entry.method === 0) return new Uint8Array(await (limit < entry.compressedSize ? compressed.slice(0, limit) : compressed).arrayBuffer());
+  if (entry.method !== 8) throw new Error(`Compression non supportée dans le fichier ${kind} (${entry.method})`);
+
+  return readStream(compressed.stream().pipeThrough(new DecompressionStream('deflate-raw')), limit);
+}
+
+export async function openZip(source: ZipSource, kind: string = 'ZIP'): Promise<ZipArchive> {
+  const entries = new Map((await readZipEntries(source, kind)).map(entry => [entry.name, entry]));
+  return {
+    names: [...entries.keys()],
+    read: async (name, limit) => {
+      const entry = entries.get(name);
+      return entry ? readZipEntry(source, entry, kind, limit) : null;
+    },
+  };
+}
+
+export function isZipFile(file: File): boolean {
+  return /\.zip$/i.test(file.name);
+}
+
+// Files of the dropped .zip archives, next to the other dropped files.
+// Folders are flattened; macOS resource forks are left out.
+export async function expandZipFiles(files: File[]): Promise<File[]> {
+  const expanded: File[] = [];
+  for (const file of files) {
+    if (!isZipFile(file)) {
+      expanded.push(file);
+      continue;
+    }
+    const archive = await openZip(file);
+    for (const name of archive.names) {
+      if (name.endsWith('/') || name.startsWith('__MACOSX/')) continue;
+      const bytes = await archive.read(name);
+      if (bytes) expanded.push(new File([bytes.slice()], name.split('/').pop() || name, { lastModified: file.lastModified }));
+    }
+  }
+  return expanded;
+}
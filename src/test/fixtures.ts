@@ -0,0 +1,32 @@
+import type { Trade } from '../types/trade';
+import type { NewTrade } from '../lib/tradeRepository';
+
+// Trades for the unit tests: a closed EURUSD long won 500, changed
+// through the overrides
+
+export const newTrade = (overrides: Partial<NewTrade> = {}): NewTrade => ({
+  symbol: 'EURUSD',
+  direction: 'long',
+  entryPrice: 1.1,
+  exitPrice: 1.105,
+  units: 1,
+  entryTime: '2024-01-05T09:00:00.000Z',
+  exitTime: '2024-01-05T10:00:00.000Z',
+  stopLoss: null,
+  takeProfit: null,
+  pnl: 500,
+  pnlPercent: null,
+  currency: 'USD',
+  status: 'closed',
+  notes: '',
+  tags: [],
+  ...overrides,
+});
+
+export const trade = (overrides: Partial<Trade> = {}): Trade => ({
+  ...newTrade(),
+  id: 'trade-1',
+  createdAt: '2024-01-06T00:00:00.000Z',
+  updatedAt: '2024-01-06T00:00:00.000Z',
+  ...overrides,
+});
@@ -1,6 +1,31 @@
+export type AccountType = 'live' | 'demo' | 'prop';
+
+export interface Account {
+  id: string;
+  userId?: string;
+  name: string;
+  broker: string;
+  baseCurrency: string;
+  startingBalance: number;
+  type: AccountType;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A single fill (deal) belonging to a trade: scale-ins, partial closes, etc.
+export interface Execution {
+  id: string;
+  time: string;
+  side: 'buy' | 'sell';
+  price: number;
+  quantity: number;
+  fee: number;
+}
+
 export interface Trade {
   id: string;
   userId?: string;
+  accountId?: string | null;
   symbol: string;
   direction: 'long' | 'short';
   entryPrice: number;
@@ -10,18 +35,77 @@ export interface Trade {
   exitTime: string | null;
   stopLoss: number | null;
   takeProfit: number | null;
-  pnl: number | null;
+  pnl: number | null; // net: grossPnl + commission + swap + fees
   pnlPercent: number | null;
+  // Cost breakdown, signed as on the broker statement (negative = paid)
+  grossPnl?: number | null;
+  commission?: number;
+  swap?: number;
+  fees?: number;
   currency: string; // USD, EUR, USDC, etc.
   status: 'open' | 'closed' | 'cancelled';
   notes: string;
   tags: string[];
   strategy?: string;
   screenshots?: string[];
+  executions?: Execution[];
+  maxPositionSize?: number | null; // largest open size over the executions
+  // Where an imported trade came from: broker ticket or content hash
+  sourceId?: string | null;
+  importBatchId?: string | null; // import that created the trade
+  // Values the importer had to guess (e.g. entry time without the order log)
+  estimatedFields?: EstimatedField[];
   createdAt: string;
   updatedAt: string;
 }
 
+export type EstimatedField = 'entryTime' | 'exitTime' | 'stopLoss' | 'takeProfit';
+
+// Money moved in or out of an account (statement balance rows)
+export interface CashTransaction {
+  id: string;
+  userId?: string;
+  accountId: string | null;
+  type: 'deposit' | 'withdrawal' | 'credit';
+  amount: number; // signed: withdrawals are negative
+  currency: string;
+  time: string;
+  comment: string;
+  sourceId?: string | null;
+  importBatchId?: string | null;
+  createdAt: string;
+}
+
+// One run of the importer. Rolling it back deletes the trades it created;
+// trades it only updated keep their merged values.
+export interface ImportBatch {
+  id: string;
+  userId?: string;
+  accountId: string | null;
+  sourceFormat: string; // 'tradingview', 'mt5'...
+  fileName: string;
+  rowCount: number; // trades read from the file(s)
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  warnings: string[];
+  createdAt: string;
+  rolledBackAt: string | null;
+}
+
+export interface PlaybookStrategy {
+  id: string;
+  name: string;
+  description: string;
+  rules: string[];
+  entryConditions: string[];
+  exitConditions: string[];
+  riskManagement: string;
+  timeframe: string;
+  pairs: string[];
+  notes: string;
+}
+
 export interface TradeStats {
   totalTrades: number;
   winningTrades: number;
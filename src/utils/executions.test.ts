@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import type { Execution } from '../types/trade';
+import { newTrade } from '../test/fixtures';
+import { applyExecutions, buildRoundTrips, summarizeExecutions, type Fill } from './executions';
+
+const execution = (time: string, side: Execution['side'], quantity: number, price: number, fee = 0): Execution => ({
+  id: time,
+  time,
+  side,
+  quantity,
+  price,
+  fee,
+});
+
+// Long EURUSD scaled in, partly closed, added to and closed
+const scaled = [
+  execution('2024-01-05T09:00:00.000Z', 'buy', 2, 1.1, 1),
+  execution('2024-01-05T09:10:00.000Z', 'buy', 2, 1.12, 1),
+  execution('2024-01-05T09:20:00.000Z', 'sell', 3, 1.13, 1),
+  execution('2024-01-05T09:30:00.000Z', 'buy', 4, 1.1, 1),
+  execution('2024-01-05T09:40:00.000Z', 'sell', 5, 1.14, 1),
+];
+
+describe('summarizeExecutions', () => {
+  it('averages the fills and tracks the largest position', () => {
+    const summary = summarizeExecutions(scaled, 'long')!;
+
+    expect(summary.averageEntry).toBeCloseTo(1.105, 10);
+    expect(summary.averageExit).toBeCloseTo(1.13625, 10);
+    expect(summary.entryQuantity).toBe(8);
+    expect(summary.openQuantity).toBeCloseTo(0, 10);
+    // 1 left after the partial close, then 4 more
+    expect(summary.maxPositionSize).toBe(5);
+    expect(summary.totalFees).toBe(5);
+  });
+
+  it('reports the size still open', () => {
+    const summary = summarizeExecutions(scaled.slice(0, 3), 'long')!;
+    expect(summary.openQuantity).toBe(1);
+    expect(summarizeExecutions([], 'long')).toBeNull();
+  });
+});
+
+describe('applyExecutions', () => {
+  it('writes the derived fields onto the trade', () => {
+    const trade = applyExecutions(newTrade({ units: 1, swap: -2, executions: scaled }));
+
+    expect(trade.entryPrice).toBeCloseTo(1.105, 10);
+    expect(trade.exitPrice).toBeCloseTo(1.13625, 10);
+    expect(trade.units).toBe(8);
+    expect(trade.maxPositionSize).toBe(5);
+    expect(trade.entryTime).toBe('2024-01-05T09:00:00.000Z');
+    expect(trade.exitTime).toBe('2024-01-05T09:40:00.000Z');
+    expect(trade.status).toBe('closed');
+    // 3 × (1.13 - 1.11) + 5 × (1.14 - 1.102) on the average cost
+    expect(trade.grossPnl).toBeCloseTo(0.25, 10);
+    expect(trade.commission).toBe(-5);
+    expect(trade.pnl).toBeCloseTo(0.25 - 5 - 2, 10);
+  });
+
+  it('keeps a trade with size left open', () => {
+    const trade = applyExecutions(newTrade({ executions: scaled.slice(0, 3) }));
+
+    expect(trade.status).toBe('open');
+    expect(trade.exitTime).toBeNull();
+    expect(trade.pnl).toBeNull();
+  });
+
+  it('leaves trades without fills alone', () => {
+    const trade = newTrade({ executions: [] });
+    expect(applyExecutions(trade)).toBe(trade);
+  });
+});
+
+const fill = (id: string, time: string, side: Fill['side'], quantity: number, price: number, extra: Partial<Fill> = {}): Fill => ({
+  id,
+  key: 'ES',
+  time,
+  side,
+  quantity,
+  price,
+  fee: 0,
+  multiplier: 1,
+  ...extra,
+});
+
+describe('buildRoundTrips', () => {
+  it('matches closing fills against the oldest open lots first', () => {
+    const [trip] = buildRoundTrips([
+      fill('1', '2024-01-05T09:00:00', 'buy', 1, 100),
+      fill('2', '2024-01-05T09:05:00', 'buy', 1, 110),
+      fill('3', '2024-01-05T09:10:00', 'sell', 1, 120),
+      fill('4', '2024-01-05T09:15:00', 'sell', 1, 105),
+    ]);
+
+    // (120 - 100) + (105 - 110)
+    expect(trip.grossPnl).toBe(15);
+    expect(trip.direction).toBe('long');
+    expect(trip.isClosed).toBe(true);
+    expect(trip.entryPrice).toBe(105);
+    expect(trip.exitPrice).toBe(112.5);
+    expect(trip.units).toBe(2);
+    expect(trip.exitTime).toBe('2024-01-05T09:15:00');
+    expect(trip.fillIds).toEqual(['1', '2', '3', '4']);
+  });
+
+  it('applies the multiplier and splits the fees of a partly used fill', () => {
+    const [trip] = buildRoundTrips([
+      fill('1', '2024-01-05T09:00:00', 'sell', 2, 4000, { multiplier: 50, fee: 4 }),
+      fill('2', '2024-01-05T09:10:00', 'buy', 2, 3990, { multiplier: 50, fee: 4 }),
+    ]);
+
+    expect(trip.direction).toBe('short');
+    expect(trip.grossPnl).toBe(1000);
+    expect(trip.fees).toBe(8);
+  });
+
+  it('opens the other side with what is left of a reversing fill', () => {
+    const trips = buildRoundTrips([
+      fill('1', '2024-01-05T09:00:00', 'buy', 1, 100, { fee: 2 }),
+      fill('2', '2024-01-05T09:10:00', 'sell', 3, 90, { fee: 6 }),
+    ]);
+
+    expect(trips).toHaveLength(2);
+    const [closed, reversed] = trips;
+    expect(closed.grossPnl).toBe(-10);
+    expect(closed.isClosed).toBe(true);
+    expect(closed.fees).toBe(4);
+    expect(reversed.direction).toBe('short');
+    expect(reversed.units).toBe(2);
+    expect(reversed.isClosed).toBe(false);
+    expect(reversed.exitPrice).toBeNull();
+    expect(reversed.fees).toBe(4);
+  });
+
+  it('keeps positions of different keys apart', () => {
+    const trips = buildRoundTrips([
+      fill('1', '2024-01-05T09:00:00', 'buy', 1, 100),
+      fill('2', '2024-01-05T09:01:00', 'sell', 1, 50, { key: 'NQ' }),
+      fill('3', '2024-01-05T09:02:00', 'sell', 1, 101),
+    ]);
+
+    expect(trips.map(trip => [trip.key, trip.direction, trip.isClosed])).toEqual([
+      ['ES', 'long', true],
+      ['NQ', 'short', false],
+    ]);
+  });
+
+  it('pays coin-margined contracts in the coin', () => {
+    const [trip] = buildRoundTrips([
+      fill('1', '2024-01-05T09:00:00', 'buy', 100, 40000, { multiplier: 100, inverse: true }),
+      fill('2', '2024-01-05T09:10:00', 'sell', 100, 50000, { multiplier: 100, inverse: true }),
+    ]);
+
+    expect(trip.grossPnl).toBeCloseTo(100 * 100 * (1 / 40000 - 1 / 50000), 10);
+  });
+});
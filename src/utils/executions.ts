@@ -0,0 +1,274 @@
+import type { Trade, Execution } from '../types/trade';
+import { contractMultiplier } from './futures';
+
+export interface ExecutionSummary {
+  averageEntry: number;
+  averageExit: number | null;
+  entryQuantity: number;
+  exitQuantity: number;
+  openQuantity: number;
+  maxPositionSize: number;
+  realizedPnl: number; // price PnL before fees, per point of price
+  totalFees: number;
+  firstTime: string;
+  lastTime: string;
+}
+
+const QUANTITY_EPSILON = 1e-9;
+
+export function sortExecutions(executions: Execution[]): Execution[] {
+  return [...executions].sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+}
+
+// Walk the fills in time order with an average-cost position.
+// Fills on the trade's side add to the position, opposite fills reduce it.
+export function summarizeExecutions(executions: Execution[], direction: 'long' | 'short'): ExecutionSummary | null {
+  if (executions.length === 0) return null;
+
+  const sorted = sortExecutions(executions);
+  const entrySide = direction === 'long' ? 'buy' : 'sell';
+  const sign = direction === 'long' ? 1 : -1;
+
+  let position = 0;
+  let averageCost = 0;
+  let maxPositionSize = 0;
+  let realizedPnl = 0;
+  let totalFees = 0;
+  let entryQuantity = 0;
+  let entryNotional = 0;
+  let exitQuantity = 0;
+  let exitNotional = 0;
+
+  for (const fill of sorted) {
+    totalFees += fill.fee || 0;
+
+    if (fill.side === entrySide) {
+      averageCost = (averageCost * position + fill.price * fill.quantity) / (position + fill.quantity);
+      position += fill.quantity;
+      entryQuantity += fill.quantity;
+      entryNotional += fill.price * fill.quantity;
+      maxPositionSize = Math.max(maxPositionSize, position);
+    } else {
+      // Ignore any excess beyond the open position (would be a reversal)
+      const closed = Math.min(fill.quantity, position);
+      realizedPnl += (fill.price - averageCost) * closed * sign;
+      position -= closed;
+      exitQuantity += closed;
+      exitNotional += fill.price * closed;
+    }
+  }
+
+  return {
+    averageEntry: entryQuantity > 0 ? entryNotional / entryQuantity : 0,
+    averageExit: exitQuantity > 0 ? exitNotional / exitQuantity : null,
+    entryQuantity,
+    exitQuantity,
+    openQuantity: position,
+    maxPositionSize,
+    realizedPnl,
+    totalFees,
+    firstTime: sorted[0].time,
+    lastTime: sorted[sorted.length - 1].time,
+  };
+}
+
+// Write the fields derived from the fills onto the trade: averaged prices,
+// size, times, status and PnL. Fill fees are broker commissions, stored
+// signed like the statement. Trades without fills are returned unchanged.
+export function applyExecutions<T extends Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>>(trade: T): T {
+  const summary = summarizeExecutions(trade.executions || [], trade.direction);
+  if (!summary) return trade;
+
+  const multiplier = contractMultiplier(trade.symbol, trade.tags);
+  const isClosed = summary.openQuantity <= QUANTITY_EPSILON && summary.exitQuantity > 0;
+  const grossPnl = summary.realizedPnl * multiplier;
+  const commission = -summary.totalFees;
+  const pnl = grossPnl + commission + (trade.swap || 0) + (trade.fees || 0);
+
+  return {
+    ...trade,
+    entryPrice: summary.averageEntry,
+    exitPrice: summary.averageExit,
+    units: summary.entryQuantity,
+    maxPositionSize: summary.maxPositionSize,
+    entryTime: summary.firstTime,
+    exitTime: isClosed ? summary.lastTime : null,
+    status: isClosed ? 'closed' : trade.status === 'cancelled' ? 'cancelled' : 'open',
+    grossPnl: isClosed ? grossPnl : null,
+    commission,
+    pnl: isClosed ? pnl : null,
+    pnlPercent: isClosed && summary.averageEntry > 0
+      ? (pnl / (summary.averageEntry * summary.entryQuantity * multiplier)) * 100
+      : null,
+  };
+}
+
+// Build the two fills of a simple open/close trade
+export function buildRoundTripExecutions(params: {
+  direction: 'long' | 'short';
+  entryTime: string;
+  entryPrice: number;
+  exitTime: string | null;
+  exitPrice: number | null;
+  quantity: number;
+  entryFee?: number;
+  exitFee?: number;
+}): Execution[] {
+  const entrySide = params.direction === 'long' ? 'buy' : 'sell';
+  const exitSide = params.direction === 'long' ? 'sell' : 'buy';
+
+  const executions: Execution[] = [{
+    id: crypto.randomUUID(),
+    time: params.entryTime,
+    side: entrySide,
+    price: params.entryPrice,
+    quantity: params.quantity,
+    fee: params.entryFee || 0,
+  }];
+
+  if (params.exitTime && params.exitPrice !== null) {
+    executions.push({
+      id: crypto.randomUUID(),
+      time: params.exitTime,
+      side: exitSide,
+      price: params.exitPrice,
+      quantity: params.quantity,
+      fee: params.exitFee || 0,
+    });
+  }
+
+  return executions;
+}
+
+// A fill as exported by a platform that lists executions, not trades
+export interface Fill {
+  id: string;
+  key: string; // position it belongs to: account + instrument
+  time: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fee: number; // commission, positive = paid (as Execution.fee)
+  charges?: number; // exchange and regulatory fees, positive = paid
+  multiplier: number; // value of one point of price
+  // Coin-margined contracts: the multiplier is the contract size in USD
+  // and P&L is paid in the coin, size × (1 / entry - 1 / exit)
+  inverse?: boolean;
+}
+
+export interface RoundTrip {
+  key: string;
+  direction: 'long' | 'short';
+  executions: Execution[];
+  fillIds: string[];
+  grossPnl: number; // in money, multiplier applied
+  fees: number; // sum of the execution fees
+  charges: number;
+  isClosed: boolean;
+  entryPrice: number;
+  exitPrice: number | null;
+  units: number;
+  entryTime: string;
+  exitTime: string | null;
+}
+
+// Group time-ordered fills into trades running from flat to flat on each
+// key. Closing fills are matched FIFO against the open lots; a fill larger
+// than the position closes it and opens the other side with the rest.
+export function buildRoundTrips(fills: Fill[]): RoundTrip[] {
+  interface Builder {
+    key: string;
+    direction: 'long' | 'short';
+    lots: { quantity: number; price: number }[]; // still open, oldest first
+    executions: Execution[];
+    fillIds: string[];
+    grossPnl: number;
+    charges: number;
+  }
+
+  const open = new Map<string, Builder>();
+  const finished: Builder[] = [];
+
+  const book = (trade: Builder, fill: Fill, quantity: number) => {
+    const share = quantity / fill.quantity;
+    trade.charges += (fill.charges || 0) * share;
+    trade.fillIds.push(fill.id);
+    trade.executions.push({
+      id: crypto.randomUUID(),
+      time: fill.time,
+      side: fill.side,
+      price: fill.price,
+      quantity,
+      fee: fill.fee * share,
+    });
+  };
+
+  for (const fill of fills) {
+    let remaining = fill.quantity;
+    const current = open.get(fill.key);
+
+    if (current && fill.side !== (current.direction === 'long' ? 'buy' : 'sell')) {
+      const sign = current.direction === 'long' ? 1 : -1;
+      let closed = 0;
+      while (remaining > QUANTITY_EPSILON && current.lots.length > 0) {
+        const lot = current.lots[0];
+        const matched = Math.min(lot.quantity, remaining);
+        current.grossPnl += fill.inverse
+          ? (1 / lot.price - 1 / fill.price) * matched * sign * fill.multiplier
+          : (fill.price - lot.price) * matched * sign * fill.multiplier;
+        lot.quantity -= matched;
+        remaining -= matched;
+        closed += matched;
+        if (lot.quantity <= QUANTITY_EPSILON) current.lots.shift();
+      }
+      book(current, fill, closed);
+      if (current.lots.length === 0) {
+        open.delete(fill.key);
+        finished.push(current);
+      }
+    }
+
+    if (remaining > QUANTITY_EPSILON) {
+      const trade = open.get(fill.key) || {
+        key: fill.key,
+        direction: fill.side === 'buy' ? 'long' as const : 'short' as const,
+        lots: [],
+        executions: [],
+        fillIds: [],
+        grossPnl: 0,
+        charges: 0,
+      };
+      trade.lots.push({ quantity: remaining, price: fill.price });
+      book(trade, fill, remaining);
+      open.set(fill.key, trade);
+    }
+  }
+
+  return [...finished, ...open.values()]
+    .map(trade => {
+      const entrySide = trade.direction === 'long' ? 'buy' : 'sell';
+      const entries = trade.executions.filter(e => e.side === entrySide);
+      const exits = trade.executions.filter(e => e.side !== entrySide);
+      const quantity = (executions: Execution[]) => executions.reduce((sum, e) => sum + e.quantity, 0);
+      const average = (executions: Execution[]) =>
+        executions.reduce((sum, e) => sum + e.price * e.quantity, 0) / quantity(executions);
+      const isClosed = trade.lots.length === 0;
+
+      return {
+        key: trade.key,
+        direction: trade.direction,
+        executions: trade.executions,
+        fillIds: trade.fillIds,
+        grossPnl: trade.grossPnl,
+        fees: trade.executions.reduce((sum, e) => sum + e.fee, 0),
+        charges: trade.charges,
+        isClosed,
+        entryPrice: average(entries),
+        exitPrice: isClosed ? average(exits) : null,
+        units: quantity(entries),
+        entryTime: trade.executions[0].time,
+        exitTime: isClosed ? trade.executions[trade.executions.length - 1].time : null,
+      };
+    })
+    .sort((a, b) => a.entryTime.localeCompare(b.entryTime));
+}
@@ -0,0 +1,129 @@
+// Futures contract specifications. A futures price move is worth
+// price difference × contracts × point value, not price × units as for
+// spot instruments; ticks are the smallest price increment.
+
+export interface ContractSpec {
+  root: string;
+  name: string;
+  pointValue: number; // per contract, in the contract currency
+  tickSize: number;
+  currency: string;
+}
+
+const contract = (root: string, name: string, pointValue: number, tickSize: number, currency = 'USD'): [string, ContractSpec] =>
+  [root, { root, name, pointValue, tickSize, currency }];
+
+export const FUTURES_CONTRACTS: Record<string, ContractSpec> = Object.fromEntries([
+  // Equity indices
+  contract('ES', 'E-mini S&P 500', 50, 0.25),
+  contract('MES', 'Micro E-mini S&P 500', 5, 0.25),
+  contract('NQ', 'E-mini Nasdaq-100', 20, 0.25),
+  contract('MNQ', 'Micro E-mini Nasdaq-100', 2, 0.25),
+  contract('YM', 'E-mini Dow', 5, 1),
+  contract('MYM', 'Micro E-mini Dow', 0.5, 1),
+  contract('RTY', 'E-mini Russell 2000', 50, 0.1),
+  contract('M2K', 'Micro E-mini Russell 2000', 5, 0.1),
+  contract('EMD', 'E-mini S&P MidCap 400', 100, 0.1),
+  contract('FDAX', 'DAX', 25, 1, 'EUR'),
+  contract('FDXM', 'Mini-DAX', 5, 1, 'EUR'),
+  contract('FESX', 'Euro Stoxx 50', 10, 1, 'EUR'),
+  contract('VX', 'VIX', 1000, 0.05),
+  // Energy
+  contract('CL', 'Crude Oil', 1000, 0.01),
+  contract('MCL', 'Micro Crude Oil', 100, 0.01),
+  contract('QM', 'E-mini Crude Oil', 500, 0.025),
+  contract('NG', 'Natural Gas', 10000, 0.001),
+  contract('QG', 'E-mini Natural Gas', 2500, 0.005),
+  contract('RB', 'RBOB Gasoline', 42000, 0.0001),
+  contract('HO', 'Heating Oil', 42000, 0.0001),
+  // Metals
+  contract('GC', 'Gold', 100, 0.1),
+  contract('MGC', 'Micro Gold', 10, 0.1),
+  contract('SI', 'Silver', 5000, 0.005),
+  contract('SIL', 'Micro Silver', 1000, 0.005),
+  contract('HG', 'Copper', 25000, 0.0005),
+  contract('MHG', 'Micro Copper', 2500, 0.0005),
+  contract('PL', 'Platinum', 50, 0.1),
+  // Interest rates (prices in points and fractions of a point)
+  contract('ZB', '30-Year T-Bond', 1000, 1 / 32),
+  contract('UB', 'Ultra T-Bond', 1000, 1 / 32),
+  contract('ZN', '10-Year T-Note', 1000, 1 / 64),
+  contract('ZF', '5-Year T-Note', 1000, 1 / 128),
+  contract('ZT', '2-Year T-Note', 2000, 1 / 256),
+  // Currencies
+  contract('6E', 'Euro FX', 125000, 0.00005),
+  contract('M6E', 'Micro Euro FX', 12500, 0.0001),
+  contract('6B', 'British Pound', 62500, 0.0001),
+  contract('6J', 'Japanese Yen', 12500000, 0.0000005),
+  contract('6A', 'Australian Dollar', 100000, 0.00005),
+  contract('6C', 'Canadian Dollar', 100000, 0.00005),
+  contract('6S', 'Swiss Franc', 125000, 0.00005),
+  // Agriculture (grain prices in cents)
+  contract('ZC', 'Corn', 50, 0.25),
+  contract('ZS', 'Soybeans', 50, 0.25),
+  contract('ZW', 'Wheat', 50, 0.25),
+  contract('ZL', 'Soybean Oil', 600, 0.01),
+  contract('ZM', 'Soybean Meal', 100, 0.1),
+  contract('LE', 'Live Cattle', 400, 0.025),
+  contract('HE', 'Lean Hogs', 400, 0.025),
+  // Crypto
+  contract('BTC', 'Bitcoin', 5, 5),
+  contract('MBT', 'Micro Bitcoin', 0.1, 5),
+  contract('ETH', 'Ether', 50, 0.5),
+  contract('MET', 'Micro Ether', 0.1, 0.5),
+]);
+
+// Contract month letters: ESZ5 is the December contract
+export const MONTH_CODES: Record<string, number> = {
+  F: 1, G: 2, H: 3, J: 4, K: 5, M: 6, N: 7, Q: 8, U: 9, V: 10, X: 11, Z: 12,
+};
+
+export interface FuturesSymbol {
+  root: string;
+  spec: ContractSpec | null; // null: not in the table
+  month: number | null; // null when only the root was given
+  year: number | null;
+}
+
+function expandYear(digits: string): number {
+  if (digits.length === 4) return Number(digits);
+  if (digits.length === 2) return 2000 + Number(digits);
+  // One digit: the current decade
+  const decade = Math.floor(new Date().getFullYear() / 10) * 10;
+  return decade + Number(digits);
+}
+
+// "ESZ5", "ESZ25", "/ESZ2025" (Tradovate, Rithmic, brokers) and
+// "ES 12-25" (NinjaTrader). A bare root ("ES") only matches the table.
+export function parseFuturesSymbol(symbol: string): FuturesSymbol | null {
+  const value = symbol.trim().toUpperCase().replace(/^\//, '');
+
+  const ninja = value.match(/^([A-Z0-9]+)\s+(\d{1,2})-(\d{2})$/);
+  if (ninja) {
+    return { root: ninja[1], spec: FUTURES_CONTRACTS[ninja[1]] || null, month: Number(ninja[2]), year: expandYear(ninja[3]) };
+  }
+
+  // Shortest root first, so the month letter is not swallowed by it
+  const coded = value.match(/^([A-Z0-9]{1,4}?)([FGHJKMNQUVXZ])(\d{1,2}|\d{4})$/);
+  if (coded) {
+    return { root: coded[1], spec: FUTURES_CONTRACTS[coded[1]] || null, month: MONTH_CODES[coded[2]], year: expandYear(coded[3]) };
+  }
+
+  const spec = FUTURES_CONTRACTS[value];
+  return spec ? { root: value, spec, month: null, year: null } : null;
+}
+
+// Value of one point of price for a trade. Spot symbols count 1; a bare
+// root like "ES" only counts as a future when the trade is tagged so
+// (it is also a stock ticker).
+export function contractMultiplier(symbol: string, tags: string[] = []): number {
+  const future = parseFuturesSymbol(symbol);
+  if (!future?.spec) return 1;
+  return future.month !== null || tags.includes('Futures') ? future.spec.pointValue : 1;
+}
+
+// Off-grid prices usually mean a wrong contract or a scaled price column
+export function isOnTick(price: number, tickSize: number): boolean {
+  const ticks = price / tickSize;
+  return Math.abs(ticks - Math.round(ticks)) < 1e-6;
+}
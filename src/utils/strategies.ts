@@ -0,0 +1,14 @@
+// Strategies a trade can be filed under (trade form, tag rules)
+export const TRADE_STRATEGIES = [
+  'Breakout',
+  'Trend Following',
+  'Mean Reversion',
+  'Scalping',
+  'Swing Trading',
+  'News Trading',
+  'Support/Resistance',
+  'Supply/Demand',
+  'ICT',
+  'SMC',
+  'Other',
+];
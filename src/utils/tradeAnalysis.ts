@@ -1,4 +1,5 @@
 import type { Trade, TradeStats, DailyStats } from '../types/trade';
+import type { TradeSummaryRow } from '../lib/supabase';
 import { convertCurrency } from './currencyConversion';
 
 export function calculateStats(trades: Trade[], baseCurrency: string = 'USD'): TradeStats {
@@ -169,6 +170,48 @@ export function calculateStats(trades: Trade[], baseCurrency: string = 'USD'): T
   };
 }
 
+// Headline stats from server-side totals (trade_summary), used before the
+// full history is loaded. Figures that need every trade (RRR, streaks,
+// drawdown, Sharpe...) are left at 0.
+export function calculateStatsFromSummary(rows: TradeSummaryRow[], baseCurrency: string = 'USD'): TradeStats {
+  const convert = (value: number, currency: string) => convertCurrency(value, currency, baseCurrency);
+
+  const totalTrades = rows.reduce((sum, r) => sum + r.totalTrades, 0);
+  const closedTrades = rows.reduce((sum, r) => sum + r.closedTrades, 0);
+  const winningTrades = rows.reduce((sum, r) => sum + r.winningTrades, 0);
+  const losingTrades = rows.reduce((sum, r) => sum + r.losingTrades, 0);
+  const totalPnl = rows.reduce((sum, r) => sum + convert(r.totalPnl, r.currency), 0);
+  const totalWins = rows.reduce((sum, r) => sum + convert(r.grossProfit, r.currency), 0);
+  const totalLosses = rows.reduce((sum, r) => sum + convert(r.grossLoss, r.currency), 0);
+
+  const winRate = closedTrades > 0 ? winningTrades / closedTrades : 0;
+  const averageWin = winningTrades > 0 ? totalWins / winningTrades : 0;
+  const averageLoss = losingTrades > 0 ? totalLosses / losingTrades : 0;
+
+  return {
+    totalTrades,
+    winningTrades,
+    losingTrades,
+    winRate: winRate * 100,
+    totalPnl,
+    averageWin,
+    averageLoss,
+    profitFactor: totalLosses > 0 ? totalWins / totalLosses : totalWins > 0 ? Infinity : 0,
+    largestWin: Math.max(0, ...rows.map(r => convert(r.largestWin, r.currency))),
+    largestLoss: Math.min(0, ...rows.map(r => convert(r.largestLoss, r.currency))),
+    averageRRR: 0,
+    consecutiveWins: 0,
+    consecutiveLosses: 0,
+    expectancy: (winRate * averageWin) - ((1 - winRate) * averageLoss),
+    averageHoldingTime: 0,
+    sharpeRatio: 0,
+    sortinoRatio: 0,
+    maxDrawdown: 0,
+    maxDrawdownPercent: 0,
+    sqn: 0,
+  };
+}
+
 export function calculateDailyStats(trades: Trade[], baseCurrency: string = 'USD'): DailyStats[] {
     const closedTrades = trades.filter(t => t.status === 'closed' && t.exitTime);
 
@@ -196,3 +239,69 @@ export function calculateDailyStats(trades: Trade[], baseCurrency: string = 'USD
         }))
         .sort((a, b) => a.date.localeCompare(b.date));
 }
+
+export interface CostTotals {
+  commission: number;
+  swap: number;
+  fees: number;
+  total: number;
+}
+
+export interface CostBreakdown extends CostTotals {
+  grossProfit: number;
+  percentOfGrossProfit: number;
+  byMonth: Array<CostTotals & { month: string }>;
+  bySymbol: Array<CostTotals & { symbol: string; trades: number }>;
+}
+
+// Costs are returned as positive amounts paid (credits such as positive swap reduce them)
+export function calculateCostBreakdown(trades: Trade[], baseCurrency: string = 'USD'): CostBreakdown {
+  const closedTrades = trades.filter(t => t.status === 'closed' && t.pnl !== null);
+
+  const emptyTotals = (): CostTotals => ({ commission: 0, swap: 0, fees: 0, total: 0 });
+  const totals = emptyTotals();
+  const monthMap = new Map<string, CostTotals>();
+  const symbolMap = new Map<string, CostTotals & { trades: number }>();
+  let grossProfit = 0;
+
+  const addCosts = (target: CostTotals, commission: number, swap: number, fees: number) => {
+    target.commission += commission;
+    target.swap += swap;
+    target.fees += fees;
+    target.total += commission + swap + fees;
+  };
+
+  for (const trade of closedTrades) {
+    const currency = trade.currency || 'USD';
+    const commission = -convertCurrency(trade.commission || 0, currency, baseCurrency);
+    const swap = -convertCurrency(trade.swap || 0, currency, baseCurrency);
+    const fees = -convertCurrency(trade.fees || 0, currency, baseCurrency);
+
+    const gross = convertCurrency(trade.grossPnl ?? trade.pnl ?? 0, currency, baseCurrency);
+    if (gross > 0) grossProfit += gross;
+
+    addCosts(totals, commission, swap, fees);
+
+    const month = new Date(trade.exitTime || trade.entryTime).toISOString().slice(0, 7);
+    const monthTotals = monthMap.get(month) || emptyTotals();
+    addCosts(monthTotals, commission, swap, fees);
+    monthMap.set(month, monthTotals);
+
+    const symbolTotals = symbolMap.get(trade.symbol) || { ...emptyTotals(), trades: 0 };
+    addCosts(symbolTotals, commission, swap, fees);
+    symbolTotals.trades += 1;
+    symbolMap.set(trade.symbol, symbolTotals);
+  }
+
+  return {
+    ...totals,
+    grossProfit,
+    percentOfGrossProfit: grossProfit > 0 ? (totals.total / grossProfit) * 100 : 0,
+    byMonth: Array.from(monthMap.entries())
+      .map(([month, data]) => ({ month, ...data }))
+      .sort((a, b) => a.month.localeCompare(b.month)),
+    bySymbol: Array.from(symbolMap.entries())
+      .map(([symbol, data]) => ({ symbol, ...data }))
+      .sort((a, b) => b.total - a.total),
+  };
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from "path";
 import { fileURLToPath } from "url";
 import tailwindcss from "@tailwindcss/vite";
@@ -16,4 +17,9 @@ export default defineConfig({
       "@": path.resolve(__dirname, "src"),
     },
   },
+  // Unit tests sit next to the modules they cover. Migrations are tested
+  // against a real Postgres instead: npm run test:migrations
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
 });